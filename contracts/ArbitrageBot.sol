@@ -1,12 +1,75 @@
 // SPDX-License-Identifier: MIT
-pragma solidity ^0.8.19;
+pragma solidity ^0.8.20;
 
-import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
-import "@openzeppelin/contracts/security/Pausable.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 
+// DEX router interface
+interface IDEXRouter {
+    function swapExactTokensForTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external returns (uint256[] memory amounts);
+
+    function swapExactTokensForTokensSupportingFeeOnTransferTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external;
+
+    function getAmountsOut(
+        uint256 amountIn,
+        address[] calldata path
+    ) external view returns (uint256[] memory amounts);
+}
+
+// Uniswap V3 SwapRouter interface
+interface IV3SwapRouter {
+    struct ExactInputSingleParams {
+        address tokenIn;
+        address tokenOut;
+        uint24 fee;
+        address recipient;
+        uint256 deadline;
+        uint256 amountIn;
+        uint256 amountOutMinimum;
+        uint160 sqrtPriceLimitX96;
+    }
+
+    function exactInputSingle(ExactInputSingleParams calldata params) external payable returns (uint256 amountOut);
+}
+
+// Flash loan sources
+interface IFlashLoanPool {
+    function flashLoanSimple(
+        address receiverAddress,
+        address asset,
+        uint256 amount,
+        bytes calldata params,
+        uint16 referralCode
+    ) external;
+}
+
+interface IUniswapV2Pair {
+    function token0() external view returns (address);
+    function token1() external view returns (address);
+    function swap(uint256 amount0Out, uint256 amount1Out, address to, bytes calldata data) external;
+}
+
+interface IUniswapV3Pool {
+    function token0() external view returns (address);
+    function token1() external view returns (address);
+    function flash(address recipient, uint256 amount0, uint256 amount1, bytes calldata data) external;
+}
+
 /**
  * @title ArbitrageBot
  * @dev Smart contract for executing atomic arbitrage trades across DEXes
@@ -43,6 +106,65 @@ contract ArbitrageBot is ReentrancyGuard, Ownable, Pausable {
         uint256 newValue
     );
 
+    event FlashLoanRepaid(
+        address indexed lender,
+        address indexed token,
+        uint256 amount,
+        uint256 fee
+    );
+
+    // Where a flash-funded trade borrows its input from
+    enum FlashLoanSource {
+        LendingPool, // Aave V3 style flashLoanSimple
+        UniswapV2, // V2 pair flash swap, repaid with the pair's swap fee
+        UniswapV3 // V3 pool flash, repaid with the pool fee
+    }
+
+    // Router interface of a multi-hop route step
+    enum DexKind {
+        UniswapV2, // swapExactTokensForTokens along the whole path
+        UniswapV3 // exactInputSingle through the pool with the hop's fee; path has two tokens
+    }
+
+    struct SwapHop {
+        address router;
+        address[] path;
+        DexKind kind;
+        uint24 fee; // V3 pool fee, ignored for V2
+        uint256 minAmountOut; // Reverts the whole route if this hop returns less
+    }
+
+    // Amounts measured by screenToken
+    struct TokenScreening {
+        uint256 expectedBought; // Router quote for the buy
+        uint256 bought;
+        uint256 transferred;
+        uint256 transferReceived;
+        uint256 expectedSold; // Router quote for the sell
+        uint256 sold;
+        bool sellFailed;
+    }
+
+    // Outcome of screenToken, returned as revert data so that its trades are never kept
+    error ScreenResult(TokenScreening screening);
+
+    struct FlashTrade {
+        address tokenA;
+        address tokenB;
+        address dexA;
+        address dexB;
+        uint256 amountIn;
+        uint256 minProfitExpected;
+        uint24 lenderFee; // Swap fee of a V2 lender in hundredths of a basis point
+    }
+
+    // Longest route accepted by executeMultiHopArbitrage
+    uint256 public constant MAX_HOPS = 5;
+    // Denominator of fees in hundredths of a basis point
+    uint256 private constant FEE_PIPS = 1_000_000;
+    // Receives the test transfer made by screenToken
+    address private constant SCREEN_PROBE = 0x000000000000000000000000000000000000dEaD;
+
     // Configuration parameters
     uint256 public maxSlippage = 500; // 5% in basis points
     uint256 public maxGasPrice = 100 gwei;
@@ -57,22 +179,11 @@ contract ArbitrageBot is ReentrancyGuard, Ownable, Pausable {
     
     // Emergency stop for specific tokens
     mapping(address => bool) public tokenBlacklist;
-    
-    // DEX router interfaces
-    interface IDEXRouter {
-        function swapExactTokensForTokens(
-            uint256 amountIn,
-            uint256 amountOutMin,
-            address[] calldata path,
-            address to,
-            uint256 deadline
-        ) external returns (uint256[] memory amounts);
-        
-        function getAmountsOut(
-            uint256 amountIn,
-            address[] calldata path
-        ) external view returns (uint256[] memory amounts);
-    }
+
+    // Lender of the flash loan in progress; callbacks from any other address are rejected
+    address private activeLender;
+    // Profit of the flash-funded trade in progress, after the loan fee and protocol fee
+    uint256 private flashProfit;
 
     modifier onlyAuthorizedBot() {
         require(authorizedBots[msg.sender], "ArbitrageBot: Not authorized");
@@ -85,7 +196,7 @@ contract ArbitrageBot is ReentrancyGuard, Ownable, Pausable {
         _;
     }
 
-    constructor(address _feeRecipient) {
+    constructor(address _feeRecipient) Ownable(msg.sender) {
         require(_feeRecipient != address(0), "ArbitrageBot: Invalid fee recipient");
         feeRecipient = _feeRecipient;
         authorizedBots[msg.sender] = true;
@@ -119,9 +230,7 @@ contract ArbitrageBot is ReentrancyGuard, Ownable, Pausable {
         require(minProfitExpected >= minProfitThreshold, "ArbitrageBot: Profit too low");
         
         uint256 gasStart = gasleft();
-        uint256 initialBalance = IERC20(tokenA).balanceOf(address(this));
-        
-        require(initialBalance >= amountIn, "ArbitrageBot: Insufficient balance");
+        require(IERC20(tokenA).balanceOf(address(this)) >= amountIn, "ArbitrageBot: Insufficient balance");
 
         // Step 1: Trade tokenA for tokenB on DEX A
         uint256 tokenBReceived = _swapOnDEX(
@@ -144,17 +253,10 @@ contract ArbitrageBot is ReentrancyGuard, Ownable, Pausable {
         );
 
         require(tokenAReceived > amountIn, "ArbitrageBot: No arbitrage profit");
+        require(tokenAReceived - amountIn >= minProfitExpected, "ArbitrageBot: Profit below expectation");
 
-        uint256 profit = tokenAReceived - amountIn;
-        require(profit >= minProfitExpected, "ArbitrageBot: Profit below expectation");
-
-        // Calculate and transfer fee
-        uint256 fee = (profit * feePercentage) / 10000;
-        if (fee > 0) {
-            IERC20(tokenA).safeTransfer(feeRecipient, fee);
-        }
-
-        uint256 gasUsed = gasStart - gasleft();
+        // Transfer the fee and keep the rest
+        uint256 profit = _takeFee(tokenA, tokenAReceived - amountIn);
 
         emit ArbitrageExecuted(
             tokenA,
@@ -162,9 +264,200 @@ contract ArbitrageBot is ReentrancyGuard, Ownable, Pausable {
             dexA,
             dexB,
             amountIn,
-            profit - fee,
-            gasUsed
+            profit,
+            gasStart - gasleft()
+        );
+    }
+
+    /**
+     * @dev Execute a route of any number of swaps that starts and ends with the same token
+     * @param hops Swaps in order; each starts with the token the previous one ended with
+     * @param amountIn Amount of the start token to use
+     * @param minProfitExpected Minimum profit expected
+     */
+    function executeMultiHopArbitrage(
+        SwapHop[] calldata hops,
+        uint256 amountIn,
+        uint256 minProfitExpected
+    )
+        external
+        nonReentrant
+        whenNotPaused
+        onlyAuthorizedBot
+    {
+        require(tx.gasprice <= maxGasPrice, "ArbitrageBot: Gas price too high");
+        require(minProfitExpected >= minProfitThreshold, "ArbitrageBot: Profit too low");
+        require(hops.length >= 2 && hops.length <= MAX_HOPS, "ArbitrageBot: Invalid hop count");
+
+        uint256 gasStart = gasleft();
+        address startToken = hops[0].path[0];
+        {
+            address[] calldata lastPath = hops[hops.length - 1].path;
+            require(lastPath[lastPath.length - 1] == startToken, "ArbitrageBot: Route must end with the start token");
+        }
+        require(IERC20(startToken).balanceOf(address(this)) >= amountIn, "ArbitrageBot: Insufficient balance");
+
+        uint256 amountOut = _executeHops(hops, amountIn);
+        require(amountOut > amountIn, "ArbitrageBot: No arbitrage profit");
+        require(amountOut - amountIn >= minProfitExpected, "ArbitrageBot: Profit below expectation");
+
+        uint256 profit = _takeFee(startToken, amountOut - amountIn);
+
+        emit ArbitrageExecuted(
+            startToken,
+            hops[0].path[1],
+            hops[0].router,
+            hops[hops.length - 1].router,
+            amountIn,
+            profit,
+            gasStart - gasleft()
+        );
+    }
+
+    /**
+     * @dev Execute arbitrage between two DEXes with the input borrowed in a flash loan
+     * @param tokenA Token to arbitrage and borrow
+     * @param tokenB Paired token
+     * @param dexA First DEX router address
+     * @param dexB Second DEX router address
+     * @param amountIn Amount of tokenA to borrow and trade
+     * @param minProfitExpected Minimum profit expected after the loan fee
+     * @param source Kind of lender
+     * @param lender Lending pool, V2 pair or V3 pool holding tokenA; must not be a pool of the route
+     * @param lenderFee Swap fee of a V2 lender in hundredths of a basis point, e.g. 3000 for 0.3%; unused otherwise
+     */
+    function executeFlashArbitrage(
+        address tokenA,
+        address tokenB,
+        address dexA,
+        address dexB,
+        uint256 amountIn,
+        uint256 minProfitExpected,
+        FlashLoanSource source,
+        address lender,
+        uint24 lenderFee
+    )
+        external
+        nonReentrant
+        whenNotPaused
+        onlyAuthorizedBot
+        validToken(tokenA)
+        validToken(tokenB)
+    {
+        require(tx.gasprice <= maxGasPrice, "ArbitrageBot: Gas price too high");
+        require(minProfitExpected >= minProfitThreshold, "ArbitrageBot: Profit too low");
+        require(lender != address(0), "ArbitrageBot: Invalid lender");
+        require(lenderFee < FEE_PIPS, "ArbitrageBot: Invalid lender fee");
+
+        uint256 gasStart = gasleft();
+        bytes memory data = abi.encode(
+            FlashTrade(tokenA, tokenB, dexA, dexB, amountIn, minProfitExpected, lenderFee)
         );
+
+        activeLender = lender;
+        if (source == FlashLoanSource.LendingPool) {
+            IFlashLoanPool(lender).flashLoanSimple(address(this), tokenA, amountIn, data, 0);
+        } else if (source == FlashLoanSource.UniswapV2) {
+            bool isToken0 = IUniswapV2Pair(lender).token0() == tokenA;
+            require(isToken0 || IUniswapV2Pair(lender).token1() == tokenA, "ArbitrageBot: Lender does not hold token");
+            IUniswapV2Pair(lender).swap(isToken0 ? amountIn : 0, isToken0 ? 0 : amountIn, address(this), data);
+        } else {
+            bool isToken0 = IUniswapV3Pool(lender).token0() == tokenA;
+            require(isToken0 || IUniswapV3Pool(lender).token1() == tokenA, "ArbitrageBot: Lender does not hold token");
+            IUniswapV3Pool(lender).flash(address(this), isToken0 ? amountIn : 0, isToken0 ? 0 : amountIn, data);
+        }
+        require(activeLender == address(0), "ArbitrageBot: Flash loan not executed");
+
+        uint256 profit = flashProfit;
+        flashProfit = 0;
+
+        emit ArbitrageExecuted(tokenA, tokenB, dexA, dexB, amountIn, profit, gasStart - gasleft());
+    }
+
+    /**
+     * @dev Aave V3 flash loan callback; the pool pulls amount + premium after it returns
+     */
+    function executeOperation(
+        address asset,
+        uint256 amount,
+        uint256 premium,
+        address initiator,
+        bytes calldata params
+    ) external returns (bool) {
+        require(initiator == address(this), "ArbitrageBot: Invalid initiator");
+        FlashTrade memory trade = _startFlashCallback(params);
+        require(asset == trade.tokenA && amount == trade.amountIn, "ArbitrageBot: Invalid flash loan");
+
+        _runFlashTrade(trade, premium);
+        IERC20(asset).forceApprove(msg.sender, amount + premium);
+        return true;
+    }
+
+    /**
+     * @dev Uniswap V2 flash swap callback; the borrowed amount plus the pair's swap fee is sent back to it
+     */
+    function uniswapV2Call(address sender, uint256, uint256, bytes calldata data) external {
+        require(sender == address(this), "ArbitrageBot: Invalid initiator");
+        _repayV2FlashSwap(data);
+    }
+
+    /**
+     * @dev PancakeSwap V2 flash swap callback, identical to uniswapV2Call
+     */
+    function pancakeCall(address sender, uint256, uint256, bytes calldata data) external {
+        require(sender == address(this), "ArbitrageBot: Invalid initiator");
+        _repayV2FlashSwap(data);
+    }
+
+    /**
+     * @dev Uniswap V3 flash callback; only the borrowed token has a fee
+     */
+    function uniswapV3FlashCallback(uint256 fee0, uint256 fee1, bytes calldata data) external {
+        FlashTrade memory trade = _startFlashCallback(data);
+        uint256 fee = fee0 > 0 ? fee0 : fee1;
+
+        _runFlashTrade(trade, fee);
+        IERC20(trade.tokenA).safeTransfer(msg.sender, trade.amountIn + fee);
+    }
+
+    /**
+     * @dev Authenticate a flash loan callback and decode its trade
+     */
+    function _startFlashCallback(bytes calldata data) internal returns (FlashTrade memory trade) {
+        require(activeLender != address(0) && msg.sender == activeLender, "ArbitrageBot: Unknown lender");
+        activeLender = address(0);
+        trade = abi.decode(data, (FlashTrade));
+    }
+
+    /**
+     * @dev Run a flash-funded trade and repay the V2 pair it was borrowed from
+     */
+    function _repayV2FlashSwap(bytes calldata data) internal {
+        FlashTrade memory trade = _startFlashCallback(data);
+        // The pair checks its invariant with its swap fee on the amount sent back
+        uint256 repayment = (trade.amountIn * FEE_PIPS) / (FEE_PIPS - trade.lenderFee) + 1;
+
+        _runFlashTrade(trade, repayment - trade.amountIn);
+        IERC20(trade.tokenA).safeTransfer(msg.sender, repayment);
+    }
+
+    /**
+     * @dev Swap the borrowed tokenA through both DEXes, keeping enough to repay the loan
+     */
+    function _runFlashTrade(FlashTrade memory trade, uint256 loanFee) internal {
+        uint256 owed = trade.amountIn + loanFee;
+
+        uint256 tokenBReceived = _swapOnDEX(trade.dexA, trade.tokenA, trade.tokenB, trade.amountIn, 0);
+        require(tokenBReceived > 0, "ArbitrageBot: First swap failed");
+
+        uint256 tokenAReceived = _swapOnDEX(trade.dexB, trade.tokenB, trade.tokenA, tokenBReceived, owed);
+        require(tokenAReceived > owed, "ArbitrageBot: No arbitrage profit");
+
+        uint256 profit = tokenAReceived - owed;
+        require(profit >= trade.minProfitExpected, "ArbitrageBot: Profit below expectation");
+
+        flashProfit = _takeFee(trade.tokenA, profit);
+        emit FlashLoanRepaid(msg.sender, trade.tokenA, trade.amountIn, loanFee);
     }
 
     /**
@@ -177,7 +470,7 @@ contract ArbitrageBot is ReentrancyGuard, Ownable, Pausable {
         uint256 amountIn,
         uint256 amountOutMin
     ) internal returns (uint256) {
-        IERC20(tokenIn).safeApprove(dexRouter, amountIn);
+        IERC20(tokenIn).forceApprove(dexRouter, amountIn);
 
         address[] memory path = new address[](2);
         path[0] = tokenIn;
@@ -194,6 +487,70 @@ contract ArbitrageBot is ReentrancyGuard, Ownable, Pausable {
         return amounts[amounts.length - 1];
     }
 
+    /**
+     * @dev Run the swaps of a multi-hop route, checking every token and each hop's minimum output
+     */
+    function _executeHops(SwapHop[] calldata hops, uint256 amountIn) internal returns (uint256 amount) {
+        amount = amountIn;
+        address token = hops[0].path[0];
+
+        for (uint256 i = 0; i < hops.length; i++) {
+            SwapHop calldata hop = hops[i];
+            require(hop.path.length >= 2 && hop.path[0] == token, "ArbitrageBot: Disconnected route");
+            for (uint256 j = 0; j < hop.path.length; j++) {
+                require(hop.path[j] != address(0), "ArbitrageBot: Invalid token address");
+                require(!tokenBlacklist[hop.path[j]], "ArbitrageBot: Token blacklisted");
+            }
+
+            amount = _swapHop(hop, amount);
+            require(amount >= hop.minAmountOut, "ArbitrageBot: Hop output too low");
+            token = hop.path[hop.path.length - 1];
+        }
+    }
+
+    /**
+     * @dev Send the protocol fee on a profit to the fee recipient, returning the profit left
+     */
+    function _takeFee(address token, uint256 profit) internal returns (uint256) {
+        uint256 fee = (profit * feePercentage) / 10000;
+        if (fee > 0) {
+            IERC20(token).safeTransfer(feeRecipient, fee);
+        }
+        return profit - fee;
+    }
+
+    /**
+     * @dev Execute one hop of a multi-hop route on its router
+     */
+    function _swapHop(SwapHop calldata hop, uint256 amountIn) internal returns (uint256) {
+        IERC20(hop.path[0]).forceApprove(hop.router, amountIn);
+
+        if (hop.kind == DexKind.UniswapV3) {
+            require(hop.path.length == 2, "ArbitrageBot: V3 hops swap one pool");
+            return IV3SwapRouter(hop.router).exactInputSingle(
+                IV3SwapRouter.ExactInputSingleParams({
+                    tokenIn: hop.path[0],
+                    tokenOut: hop.path[1],
+                    fee: hop.fee,
+                    recipient: address(this),
+                    deadline: block.timestamp + 300,
+                    amountIn: amountIn,
+                    amountOutMinimum: hop.minAmountOut,
+                    sqrtPriceLimitX96: 0
+                })
+            );
+        }
+
+        uint256[] memory amounts = IDEXRouter(hop.router).swapExactTokensForTokens(
+            amountIn,
+            hop.minAmountOut,
+            hop.path,
+            address(this),
+            block.timestamp + 300 // 5 minutes deadline
+        );
+        return amounts[amounts.length - 1];
+    }
+
     /**
      * @dev Get expected output for a swap
      */
@@ -235,6 +592,77 @@ contract ArbitrageBot is ReentrancyGuard, Ownable, Pausable {
         profitable = profit >= minProfitThreshold;
     }
 
+    /**
+     * @dev Buy a token with baseToken on a V2 router, transfer a tenth of it and sell the rest back, then
+     * revert with ScreenResult so that buy, transfer and sell taxes can be measured through eth_call
+     * Uses the contract's baseToken balance; always reverts, so nothing it does is kept
+     */
+    function screenToken(
+        address router,
+        address baseToken,
+        address token,
+        uint256 amountIn
+    ) external onlyAuthorizedBot {
+        TokenScreening memory screening;
+        address[] memory path = new address[](2);
+
+        path[0] = baseToken;
+        path[1] = token;
+        (screening.expectedBought, screening.bought) = _screenSwap(router, path, amountIn);
+
+        screening.transferred = screening.bought / 10;
+        uint256 probeBalance = IERC20(token).balanceOf(SCREEN_PROBE);
+        IERC20(token).safeTransfer(SCREEN_PROBE, screening.transferred);
+        screening.transferReceived = IERC20(token).balanceOf(SCREEN_PROBE) - probeBalance;
+
+        path[0] = token;
+        path[1] = baseToken;
+        try this.screenSell(router, path, screening.bought - screening.transferred) returns (
+            uint256 expectedSold,
+            uint256 sold
+        ) {
+            (screening.expectedSold, screening.sold) = (expectedSold, sold);
+        } catch {
+            screening.sellFailed = true;
+        }
+
+        revert ScreenResult(screening);
+    }
+
+    /**
+     * @dev Sell step of screenToken, external so that a token that blocks selling cannot revert the screening
+     */
+    function screenSell(
+        address router,
+        address[] calldata path,
+        uint256 amountIn
+    ) external returns (uint256 expectedOut, uint256 amountOut) {
+        require(msg.sender == address(this), "ArbitrageBot: Internal only");
+        return _screenSwap(router, path, amountIn);
+    }
+
+    /**
+     * @dev Swap along a two-token path, measuring what the contract actually received against the router quote
+     */
+    function _screenSwap(
+        address router,
+        address[] memory path,
+        uint256 amountIn
+    ) internal returns (uint256 expectedOut, uint256 amountOut) {
+        expectedOut = IDEXRouter(router).getAmountsOut(amountIn, path)[1];
+
+        uint256 balanceBefore = IERC20(path[1]).balanceOf(address(this));
+        IERC20(path[0]).forceApprove(router, amountIn);
+        IDEXRouter(router).swapExactTokensForTokensSupportingFeeOnTransferTokens(
+            amountIn,
+            0,
+            path,
+            address(this),
+            block.timestamp
+        );
+        amountOut = IERC20(path[1]).balanceOf(address(this)) - balanceBefore;
+    }
+
     /**
      * @dev Add or remove authorized bot
      */
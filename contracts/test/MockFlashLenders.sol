@@ -0,0 +1,121 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+interface IFlashLoanSimpleReceiver {
+    function executeOperation(
+        address asset,
+        uint256 amount,
+        uint256 premium,
+        address initiator,
+        bytes calldata params
+    ) external returns (bool);
+}
+
+interface IUniswapV2Callee {
+    function uniswapV2Call(address sender, uint256 amount0, uint256 amount1, bytes calldata data) external;
+}
+
+interface IUniswapV3FlashCallback {
+    function uniswapV3FlashCallback(uint256 fee0, uint256 fee1, bytes calldata data) external;
+}
+
+/**
+ * @title MockLendingPool
+ * @dev Aave V3 style flashLoanSimple lending from its own balance, for tests
+ */
+contract MockLendingPool {
+    using SafeERC20 for IERC20;
+
+    uint256 public premiumBps;
+
+    constructor(uint256 _premiumBps) {
+        premiumBps = _premiumBps;
+    }
+
+    function flashLoanSimple(
+        address receiverAddress,
+        address asset,
+        uint256 amount,
+        bytes calldata params,
+        uint16
+    ) external {
+        uint256 premium = (amount * premiumBps) / 10000;
+        IERC20(asset).safeTransfer(receiverAddress, amount);
+        require(
+            IFlashLoanSimpleReceiver(receiverAddress).executeOperation(asset, amount, premium, msg.sender, params),
+            "MockLendingPool: Invalid return"
+        );
+        IERC20(asset).safeTransferFrom(receiverAddress, address(this), amount + premium);
+    }
+}
+
+/**
+ * @title MockV2Pair
+ * @dev Uniswap V2 pair flash swap with a configurable swap fee in hundredths of a basis point, for tests
+ * Only the invariant of the borrowed token is checked, as a pair whose other reserve is unchanged would
+ */
+contract MockV2Pair {
+    using SafeERC20 for IERC20;
+
+    address public token0;
+    address public token1;
+    uint256 public feePips;
+
+    constructor(address _token0, address _token1, uint256 _feePips) {
+        token0 = _token0;
+        token1 = _token1;
+        feePips = _feePips;
+    }
+
+    function swap(uint256 amount0Out, uint256 amount1Out, address to, bytes calldata data) external {
+        address token = amount0Out > 0 ? token0 : token1;
+        uint256 amountOut = amount0Out + amount1Out;
+        uint256 reserve = IERC20(token).balanceOf(address(this));
+
+        IERC20(token).safeTransfer(to, amountOut);
+        IUniswapV2Callee(to).uniswapV2Call(msg.sender, amount0Out, amount1Out, data);
+
+        uint256 amountIn = IERC20(token).balanceOf(address(this)) + amountOut - reserve;
+        require(amountIn * (1_000_000 - feePips) >= amountOut * 1_000_000, "MockV2Pair: K");
+    }
+}
+
+/**
+ * @title MockV3Pool
+ * @dev Uniswap V3 pool flash with a fee in hundredths of a basis point, for tests
+ */
+contract MockV3Pool {
+    using SafeERC20 for IERC20;
+
+    address public token0;
+    address public token1;
+    uint24 public fee;
+
+    constructor(address _token0, address _token1, uint24 _fee) {
+        token0 = _token0;
+        token1 = _token1;
+        fee = _fee;
+    }
+
+    function flash(address recipient, uint256 amount0, uint256 amount1, bytes calldata data) external {
+        uint256 fee0 = _flashFee(amount0);
+        uint256 fee1 = _flashFee(amount1);
+        uint256 balance0Before = IERC20(token0).balanceOf(address(this));
+        uint256 balance1Before = IERC20(token1).balanceOf(address(this));
+
+        if (amount0 > 0) IERC20(token0).safeTransfer(recipient, amount0);
+        if (amount1 > 0) IERC20(token1).safeTransfer(recipient, amount1);
+        IUniswapV3FlashCallback(msg.sender).uniswapV3FlashCallback(fee0, fee1, data);
+
+        require(IERC20(token0).balanceOf(address(this)) >= balance0Before + fee0, "MockV3Pool: F0");
+        require(IERC20(token1).balanceOf(address(this)) >= balance1Before + fee1, "MockV3Pool: F1");
+    }
+
+    function _flashFee(uint256 amount) internal view returns (uint256) {
+        // Rounded up, as the pool does
+        return (amount * fee + 999_999) / 1_000_000;
+    }
+}
@@ -0,0 +1,64 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title MockRouter
+ * @dev V2 and Uniswap V3 router swapping at fixed rates from its own balances, for tests
+ * Minimum outputs are not enforced, so the ArbitrageBot's own checks are what reverts
+ */
+contract MockRouter {
+    using SafeERC20 for IERC20;
+
+    struct ExactInputSingleParams {
+        address tokenIn;
+        address tokenOut;
+        uint24 fee;
+        address recipient;
+        uint256 deadline;
+        uint256 amountIn;
+        uint256 amountOutMinimum;
+        uint160 sqrtPriceLimitX96;
+    }
+
+    uint256 private constant RATE_SCALE = 1e18;
+
+    // Output per unit of input scaled by 1e18, by input and output token
+    mapping(address => mapping(address => uint256)) public rates;
+
+    // Fee tier of the last exactInputSingle call
+    uint24 public lastFee;
+
+    function setRate(address tokenIn, address tokenOut, uint256 rate) external {
+        rates[tokenIn][tokenOut] = rate;
+    }
+
+    function getAmountsOut(uint256 amountIn, address[] memory path) public view returns (uint256[] memory amounts) {
+        amounts = new uint256[](path.length);
+        amounts[0] = amountIn;
+        for (uint256 i = 1; i < path.length; i++) {
+            amounts[i] = (amounts[i - 1] * rates[path[i - 1]][path[i]]) / RATE_SCALE;
+        }
+    }
+
+    function swapExactTokensForTokens(
+        uint256 amountIn,
+        uint256,
+        address[] calldata path,
+        address to,
+        uint256
+    ) external returns (uint256[] memory amounts) {
+        amounts = getAmountsOut(amountIn, path);
+        IERC20(path[0]).safeTransferFrom(msg.sender, address(this), amountIn);
+        IERC20(path[path.length - 1]).safeTransfer(to, amounts[amounts.length - 1]);
+    }
+
+    function exactInputSingle(ExactInputSingleParams calldata params) external payable returns (uint256 amountOut) {
+        lastFee = params.fee;
+        amountOut = (params.amountIn * rates[params.tokenIn][params.tokenOut]) / RATE_SCALE;
+        IERC20(params.tokenIn).safeTransferFrom(msg.sender, address(this), params.amountIn);
+        IERC20(params.tokenOut).safeTransfer(params.recipient, amountOut);
+    }
+}
@@ -1,12 +1,36 @@
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import * as dotenv from "dotenv";
+import { Wallet } from "ethers";
+import { existsSync, readFileSync } from "fs";
 
 dotenv.config();
 
+// Network the task runs on, from --network or HARDHAT_NETWORK; the config is loaded before Hardhat parses it
+const networkIndex = process.argv.indexOf("--network");
+const selectedNetwork = networkIndex >= 0 ? process.argv[networkIndex + 1] : process.env.HARDHAT_NETWORK;
+
+// Deployment accounts come from the bot keystores (ETH_KEYSTORE, ...), decrypted only for the selected network
+// and only if a passphrase is set, so other tasks and networks never pay for scrypt or need the files
+function keystoreAccounts(network: string, prefix: string): string[] {
+  if (network !== selectedNetwork) return [];
+
+  // The first bot account deploys, so it owns the contract and can authorize the others
+  const file = process.env[`${prefix}_KEYSTORE`]?.split(",")[0].trim();
+  const passwordFile = process.env[`${prefix}_KEYSTORE_PASSWORD_FILE`] || process.env.KEYSTORE_PASSWORD_FILE;
+  const password = process.env[`${prefix}_KEYSTORE_PASSWORD`] || process.env.KEYSTORE_PASSWORD ||
+    (passwordFile ? readFileSync(passwordFile, "utf8").replace(/\r?\n$/, "") : undefined);
+  if (!file || !password) return [];
+
+  if (!existsSync(file)) {
+    throw new Error(`${prefix}_KEYSTORE ${file} does not exist, cannot deploy to ${network}`);
+  }
+  return [Wallet.fromEncryptedJsonSync(readFileSync(file, "utf8"), password).privateKey];
+}
+
 const config: HardhatUserConfig = {
   solidity: {
-    version: "0.8.19",
+    version: "0.8.20",
     settings: {
       optimizer: {
         enabled: true,
@@ -18,13 +42,13 @@ const config: HardhatUserConfig = {
     // Ethereum networks
     mainnet: {
       url: process.env.ETH_RPC_URL || "",
-      accounts: process.env.ETH_PRIVATE_KEY ? [process.env.ETH_PRIVATE_KEY] : [],
+      accounts: keystoreAccounts("mainnet", "ETH"),
       chainId: 1,
       gasPrice: "auto",
     },
     goerli: {
       url: process.env.ETH_TESTNET_RPC_URL || "",
-      accounts: process.env.ETH_PRIVATE_KEY ? [process.env.ETH_PRIVATE_KEY] : [],
+      accounts: keystoreAccounts("goerli", "ETH"),
       chainId: 5,
       gasPrice: "auto",
     },
@@ -32,13 +56,13 @@ const config: HardhatUserConfig = {
     // BSC networks
     bsc: {
       url: process.env.BSC_RPC_URL || "https://bsc-dataseed1.binance.org/",
-      accounts: process.env.BSC_PRIVATE_KEY ? [process.env.BSC_PRIVATE_KEY] : [],
+      accounts: keystoreAccounts("bsc", "BSC"),
       chainId: 56,
       gasPrice: 5000000000, // 5 gwei
     },
     bscTestnet: {
       url: process.env.BSC_TESTNET_RPC_URL || "https://data-seed-prebsc-1-s1.binance.org:8545/",
-      accounts: process.env.BSC_PRIVATE_KEY ? [process.env.BSC_PRIVATE_KEY] : [],
+      accounts: keystoreAccounts("bscTestnet", "BSC"),
       chainId: 97,
       gasPrice: 10000000000, // 10 gwei
     },
@@ -46,13 +70,13 @@ const config: HardhatUserConfig = {
     // Polygon networks
     polygon: {
       url: process.env.POLYGON_RPC_URL || "https://polygon-rpc.com/",
-      accounts: process.env.POLYGON_PRIVATE_KEY ? [process.env.POLYGON_PRIVATE_KEY] : [],
+      accounts: keystoreAccounts("polygon", "POLYGON"),
       chainId: 137,
       gasPrice: "auto",
     },
     mumbai: {
       url: process.env.POLYGON_TESTNET_RPC_URL || "https://rpc-mumbai.maticvigil.com/",
-      accounts: process.env.POLYGON_PRIVATE_KEY ? [process.env.POLYGON_PRIVATE_KEY] : [],
+      accounts: keystoreAccounts("mumbai", "POLYGON"),
       chainId: 80001,
       gasPrice: "auto",
     },
@@ -91,7 +115,7 @@ const config: HardhatUserConfig = {
   },
   paths: {
     sources: "./contracts",
-    tests: "./test",
+    tests: "./test/contracts",
     cache: "./cache",
     artifacts: "./artifacts",
   },
@@ -6,8 +6,11 @@ module.exports = {
     '**/__tests__/**/*.+(ts|tsx|js)',
     '**/*.(test|spec).+(ts|tsx|js)'
   ],
+  // Contract specs under test/contracts run with hardhat test
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/test/contracts/'],
   transform: {
-    '^.+\\.(ts|tsx)$': 'ts-jest'
+    // The engine imports the notification service, which is not in the tree; test/setup.ts mocks it virtually
+    '^.+\\.(ts|tsx)$': ['ts-jest', { diagnostics: { exclude: ['**/src/services/arbitrage/engine.ts'] } }]
   },
   collectCoverageFrom: [
     'src/**/*.{ts,tsx}',
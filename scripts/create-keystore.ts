@@ -0,0 +1,57 @@
+import { Wallet } from "ethers";
+import { mkdirSync, writeFileSync } from "fs";
+import path from "path";
+import readline from "readline";
+
+// Encrypts a bot key into a JSON keystore for <NETWORK>_KEYSTORE. Prompts for an existing private key (empty
+// creates a new account) and a passphrase; the keystore is written to KEYSTORE_FILE or keystores/<address>.json
+//   npx hardhat run scripts/create-keystore.ts
+
+/**
+ * Prompt for a value without echoing what is typed
+ */
+function promptHidden(question: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: true });
+  let muted = false;
+  const output = rl as unknown as { _writeToOutput: (text: string) => void; output: NodeJS.WriteStream };
+  output._writeToOutput = (text: string) => {
+    if (!muted || text.includes("\n")) output.output.write(muted ? "\n" : text);
+  };
+
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer.trim());
+    });
+    muted = true;
+  });
+}
+
+async function main() {
+  const privateKey = await promptHidden("🔑 Private key (empty for a new account): ");
+  const wallet = privateKey ? new Wallet(privateKey) : Wallet.createRandom();
+
+  const passphrase = await promptHidden("🔒 Passphrase: ");
+  if (passphrase.length < 8) {
+    throw new Error("The passphrase needs at least 8 characters");
+  }
+  if ((await promptHidden("🔒 Repeat the passphrase: ")) !== passphrase) {
+    throw new Error("The passphrases do not match");
+  }
+
+  console.log("⏳ Encrypting...");
+  const keystore = await wallet.encrypt(passphrase);
+
+  const file = process.env.KEYSTORE_FILE || path.join("keystores", `${wallet.address}.json`);
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, keystore, { mode: 0o600 });
+
+  console.log(`✅ Keystore of ${wallet.address} written to ${file}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("💥 Keystore creation failed:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
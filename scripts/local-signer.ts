@@ -0,0 +1,28 @@
+import { readFileSync } from "fs";
+import { KeystoreSigner } from "../src/services/blockchain/signer";
+import { LocalSignerServer } from "../src/services/blockchain/localSigner";
+
+// Serves the account of a keystore over the remote signer API on 127.0.0.1, for trying out
+// <NETWORK>_REMOTE_SIGNER_URL locally
+//   KEYSTORE=keystores/<address>.json KEYSTORE_PASSWORD=... LOCAL_SIGNER_PORT=9000 \
+//     npx hardhat run scripts/local-signer.ts
+
+async function main() {
+  const keystore = process.env.KEYSTORE;
+  const passphrase = process.env.KEYSTORE_PASSWORD;
+  if (!keystore || passphrase === undefined) {
+    throw new Error("Set KEYSTORE and KEYSTORE_PASSWORD");
+  }
+
+  const signer = await KeystoreSigner.unlock(readFileSync(keystore, "utf8"), passphrase);
+  const server = new LocalSignerServer(signer);
+  const url = await server.start(parseInt(process.env.LOCAL_SIGNER_PORT || "9000"));
+
+  console.log(`🔑 Signing for ${signer.address} at ${url}`);
+  process.on("SIGINT", () => void server.stop().then(() => process.exit(0)));
+}
+
+main().catch((error) => {
+  console.error("💥 Local signer failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,94 @@
+import { BotConfig, NetworkName, ReplacementConfig, RiskLimits, SubmissionConfig, WalletPoolConfig } from '../types';
+import { getEnabledNetworks } from './networks';
+
+/**
+ * Build arbitrage engine configuration from environment variables
+ */
+export function getBotConfig(): BotConfig {
+  return {
+    minProfitThreshold: parseFloat(process.env.MIN_PROFIT_THRESHOLD || '0.01'),
+    maxSlippage: parseFloat(process.env.MAX_SLIPPAGE || '0.005'),
+    gasMultiplier: parseFloat(process.env.GAS_PRICE_MULTIPLIER || '1.1'),
+    maxGasLimit: parseInt(process.env.MAX_GAS_LIMIT || '500000'),
+    checkInterval: parseInt(process.env.ARBITRAGE_CHECK_INTERVAL || '4000'),
+    networks: getEnabledNetworks(),
+    enabledFeatures: (process.env.ARBITRAGE_FEATURES || '')
+      .split(',')
+      .map(feature => feature.trim())
+      .filter(feature => feature.length > 0),
+  };
+}
+
+/**
+ * Longest cycle searched for multi-hop arbitrage; values below 3 disable the cycle search
+ */
+export function getMaxRouteHops(): number {
+  return parseInt(process.env.ARBITRAGE_MAX_HOPS || '4');
+}
+
+/**
+ * How long a detected opportunity stays valid before it is expired
+ */
+export function getOpportunityTTL(): number {
+  return parseInt(process.env.OPPORTUNITY_TTL_MS || '30000');
+}
+
+/**
+ * When and how pending arbitrage transactions are sped up or cancelled
+ */
+export function getReplacementConfig(): ReplacementConfig {
+  return {
+    replaceAfterBlocks: parseInt(process.env.GAS_REPLACE_AFTER_BLOCKS || '3'),
+    maxSpeedUps: parseInt(process.env.GAS_MAX_SPEEDUPS || '2'),
+    bumpPercent: Math.max(parseInt(process.env.GAS_BUMP_PERCENT || '15'), 10),
+  };
+}
+
+/**
+ * How a network's arbitrage transactions are submitted, e.g. ETH_SUBMISSION=bundle with ETH_RELAY_URL
+ * <NETWORK>_RELAY_* variables override the RELAY_* defaults
+ */
+export function getSubmissionConfig(network: NetworkName): SubmissionConfig {
+  const prefix = network.toUpperCase();
+  const read = (name: string): string | undefined => process.env[`${prefix}_${name}`] || process.env[name] || undefined;
+
+  return {
+    route: process.env[`${prefix}_SUBMISSION`] === 'bundle' ? 'bundle' : 'public',
+    relayUrl: read('RELAY_URL'),
+    relayAuthKey: read('RELAY_AUTH_KEY'),
+    targetBlocks: Math.max(parseInt(read('RELAY_TARGET_BLOCKS') || '3'), 1),
+    simulate: read('RELAY_SIMULATE') !== 'false',
+  };
+}
+
+/**
+ * Risk limits of a network; <NETWORK>_RISK_* variables override the RISK_* defaults, e.g. BSC_RISK_MAX_DAILY_LOSS
+ */
+export function getRiskLimits(network: NetworkName): RiskLimits {
+  const read = (name: string, fallback: string): number =>
+    parseFloat(process.env[`${network.toUpperCase()}_${name}`] || process.env[name] || fallback);
+
+  return {
+    maxDailyLoss: read('RISK_MAX_DAILY_LOSS', '0'),
+    maxTokenNotional: read('RISK_MAX_TOKEN_NOTIONAL', '0'),
+    maxDexNotional: read('RISK_MAX_DEX_NOTIONAL', '0'),
+    maxConsecutiveFailures: read('RISK_MAX_CONSECUTIVE_FAILURES', '3'),
+    maxTradeBalanceShare: read('RISK_MAX_TRADE_BALANCE_SHARE', '0.5'),
+  };
+}
+
+/**
+ * How a network assigns trades to its bot accounts and tops them up, e.g. WALLET_MIN_BALANCE=0.05
+ * <NETWORK>_WALLET_* variables override the WALLET_* defaults; the top-up target defaults to twice the minimum
+ */
+export function getWalletPoolConfig(network: NetworkName): WalletPoolConfig {
+  const read = (name: string): string | undefined =>
+    process.env[`${network.toUpperCase()}_${name}`] || process.env[name] || undefined;
+  const minBalance = parseFloat(read('WALLET_MIN_BALANCE') || '0');
+
+  return {
+    assignment: read('WALLET_ASSIGNMENT') === 'round_robin' ? 'round_robin' : 'least_busy',
+    minBalance,
+    topUpBalance: Math.max(parseFloat(read('WALLET_TOP_UP_BALANCE') || String(minBalance * 2)), minBalance),
+  };
+}
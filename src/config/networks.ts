@@ -0,0 +1,188 @@
+import fs from 'fs';
+import path from 'path';
+import { NetworkConfig, NetworkName, SignerConfig, SignerRole } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Networks the bot knows how to connect to
+ */
+export const SUPPORTED_NETWORKS: NetworkName[] = ['eth', 'bsc', 'polygon'];
+
+/**
+ * Get connection settings for a network
+ * Environment variables are read lazily so that dotenv has been loaded by the time they are used
+ */
+export function getNetworkConfig(network: NetworkName): NetworkConfig {
+  switch (network) {
+  case 'eth':
+    return {
+      name: 'Ethereum',
+      chainId: 1,
+      rpcUrl: process.env.ETH_RPC_URL || '',
+      currency: 'ETH',
+      blockExplorer: 'https://etherscan.io',
+      eip1559: true,
+      confirmations: 2,
+    };
+  case 'bsc':
+    return {
+      name: 'BNB Smart Chain',
+      chainId: 56,
+      rpcUrl: process.env.BSC_RPC_URL || '',
+      currency: 'BNB',
+      blockExplorer: 'https://bscscan.com',
+      gasPrice: 5000000000, // 5 gwei
+      eip1559: false,
+      confirmations: 3,
+    };
+  case 'polygon':
+    return {
+      name: 'Polygon',
+      chainId: 137,
+      rpcUrl: process.env.POLYGON_RPC_URL || '',
+      currency: 'MATIC',
+      blockExplorer: 'https://polygonscan.com',
+      eip1559: true,
+      confirmations: 5,
+    };
+  }
+}
+
+/**
+ * Get the deployed ArbitrageBot contract of a network
+ * Uses ETH_/BSC_/POLYGON_ARBITRAGE_CONTRACT if set, otherwise the deployment JSON written by scripts/deploy.ts
+ */
+export function getArbitrageContractAddress(network: NetworkName): string | undefined {
+  return process.env[`${network.toUpperCase()}_ARBITRAGE_CONTRACT`] || getDeployedAddress(network);
+}
+
+// Deployment files do not change while the bot runs, so each network is looked up once
+const deployedAddresses = new Map<NetworkName, string | undefined>();
+
+/**
+ * Find deployments/<hardhat network>/ArbitrageBot.json with the network's chain id
+ * Directories are named after the hardhat network (mainnet, bsc, ...), so they are matched by chain id
+ */
+function getDeployedAddress(network: NetworkName): string | undefined {
+  if (deployedAddresses.has(network)) {
+    return deployedAddresses.get(network);
+  }
+
+  const chainId = String(getNetworkConfig(network).chainId);
+  const deploymentsDir = path.join(process.cwd(), 'deployments');
+  let address: string | undefined;
+
+  if (fs.existsSync(deploymentsDir)) {
+    for (const entry of fs.readdirSync(deploymentsDir)) {
+      const file = path.join(deploymentsDir, entry, 'ArbitrageBot.json');
+      if (!fs.existsSync(file)) continue;
+
+      try {
+        const deployment = JSON.parse(fs.readFileSync(file, 'utf8'));
+        if (deployment.network?.chainId === chainId && deployment.contracts?.ArbitrageBot?.address) {
+          address = deployment.contracts.ArbitrageBot.address;
+          break;
+        }
+      } catch (error) {
+        logger.warn(`⚠️ Could not read deployment file ${file}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  deployedAddresses.set(network, address);
+  return address;
+}
+
+/**
+ * Get every RPC endpoint of a network: *_RPC_URL followed by the comma separated *_RPC_URLS, e.g. ETH_RPC_URLS
+ */
+export function getRpcUrls(network: NetworkName): string[] {
+  const extra = (process.env[`${network.toUpperCase()}_RPC_URLS`] || '')
+    .split(',')
+    .map(url => url.trim())
+    .filter(url => url.length > 0);
+
+  return [...new Set([getNetworkConfig(network).rpcUrl, ...extra])].filter(url => url !== '');
+}
+
+/**
+ * Number of RPC endpoints that must return the same result for critical reads; below 2 disables quorum reads
+ * <NETWORK>_RPC_QUORUM overrides RPC_QUORUM
+ */
+export function getRpcQuorum(network: NetworkName): number {
+  return parseInt(process.env[`${network.toUpperCase()}_RPC_QUORUM`] || process.env.RPC_QUORUM || '0');
+}
+
+/**
+ * Get the WebSocket endpoint of a network used to watch its mempool, e.g. ETH_WS_URL
+ */
+export function getWsUrl(network: NetworkName): string | undefined {
+  return process.env[`${network.toUpperCase()}_WS_URL`] || undefined;
+}
+
+/**
+ * Prefix of the signer variables of a network's accounts: ETH_ for bot accounts, ETH_TREASURY_ for the treasury
+ */
+function signerPrefix(network: NetworkName, role: SignerRole): string {
+  return role === 'treasury' ? `${network.toUpperCase()}_TREASURY` : network.toUpperCase();
+}
+
+/**
+ * Get how the accounts of a network sign: with the comma separated keystores in <NETWORK>_KEYSTORE, or through
+ * the remote signer at <NETWORK>_REMOTE_SIGNER_URL for each address in <NETWORK>_REMOTE_SIGNER_ADDRESS
+ * The treasury reads the same variables with TREASURY_ after the network, e.g. ETH_TREASURY_KEYSTORE
+ */
+export function getSignerConfigs(network: NetworkName, role: SignerRole = 'bot'): SignerConfig[] {
+  const prefix = signerPrefix(network, role);
+  const list = (name: string): string[] => (process.env[`${prefix}_${name}`] || '')
+    .split(',')
+    .map(value => value.trim())
+    .filter(value => value.length > 0);
+
+  const remoteUrl = process.env[`${prefix}_REMOTE_SIGNER_URL`];
+  if (remoteUrl) {
+    const addresses = list('REMOTE_SIGNER_ADDRESS');
+    return addresses.length > 0
+      ? addresses.map(address => ({ type: 'remote', remoteUrl, address }))
+      : [{ type: 'remote', remoteUrl }];
+  }
+
+  return list('KEYSTORE').map(keystorePath => ({ type: 'keystore', keystorePath }));
+}
+
+/**
+ * Get the passphrase of a network's keystores from <NETWORK>_KEYSTORE_PASSWORD or KEYSTORE_PASSWORD, or else
+ * from the file named by <NETWORK>_KEYSTORE_PASSWORD_FILE or KEYSTORE_PASSWORD_FILE, e.g. a Docker secret
+ * The treasury keystore reads <NETWORK>_TREASURY_KEYSTORE_PASSWORD(_FILE) before the global variables
+ */
+export function getKeystorePassword(network: NetworkName, role: SignerRole = 'bot'): string | undefined {
+  const prefix = signerPrefix(network, role);
+  const password = process.env[`${prefix}_KEYSTORE_PASSWORD`] || process.env.KEYSTORE_PASSWORD;
+  if (password) return password;
+
+  const file = process.env[`${prefix}_KEYSTORE_PASSWORD_FILE`] || process.env.KEYSTORE_PASSWORD_FILE;
+  return file ? fs.readFileSync(file, 'utf8').replace(/\r?\n$/, '') : undefined;
+}
+
+/**
+ * Check if a string is a supported network name
+ */
+export function isNetworkName(value: string): value is NetworkName {
+  return (SUPPORTED_NETWORKS as string[]).includes(value);
+}
+
+/**
+ * Get networks enabled for arbitrage
+ * Uses ARBITRAGE_NETWORKS (comma separated) if set, otherwise every network with an RPC URL
+ */
+export function getEnabledNetworks(): NetworkName[] {
+  const configured = (process.env.ARBITRAGE_NETWORKS || '')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(isNetworkName);
+
+  const candidates = configured.length > 0 ? configured : SUPPORTED_NETWORKS;
+  return candidates.filter(network => getNetworkConfig(network).rpcUrl !== '');
+}
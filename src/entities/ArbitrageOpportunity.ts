@@ -9,9 +9,11 @@ import {
   ManyToOne,
   JoinColumn,
 } from 'typeorm';
+import { RouteHopData } from '../types';
 import { Transaction } from './Transaction';
 import { Token } from './Token';
 import { DEX } from './DEX';
+import { Amount, DECIMAL_SCALE } from '../utils/amount';
 
 export enum OpportunityStatus {
   DETECTED = 'detected',
@@ -30,6 +32,7 @@ export enum OpportunityStatus {
 @Index(['network'])
 @Index(['tokenPair'])
 @Index(['profitPercentage'])
+@Index(['estimatedNetProfitUSD'])
 @Index(['createdAt'])
 export class ArbitrageOpportunity {
   @PrimaryGeneratedColumn('uuid')
@@ -38,44 +41,56 @@ export class ArbitrageOpportunity {
   @Column({ length: 10 })
   network: string; // eth, bsc, polygon
 
-  @Column({ length: 20 })
-  tokenPair: string; // e.g., "ETH/USDC"
+  @Column({ length: 64 })
+  tokenPair: string; // e.g., "ETH/USDC", or "WETH/USDC/DAI" for cycles
 
   @Column({ length: 42 })
-  tokenA: string; // Token A address
+  tokenA: string; // Token A address (start and end token of the route)
 
   @Column({ length: 42 })
-  tokenB: string; // Token B address
+  tokenB: string; // Token B address (output of the first hop)
 
   @Column({ length: 42 })
   dexAAddress: string; // First DEX address
 
   @Column({ length: 42 })
-  dexBAddress: string; // Second DEX address
+  dexBAddress: string; // Second DEX address (DEX of the last hop for cycles)
 
   @Column({ type: 'decimal', precision: 36, scale: 18 })
   priceA: string; // Price on DEX A
 
   @Column({ type: 'decimal', precision: 36, scale: 18 })
-  priceB: string; // Price on DEX B
+  priceB: string; // Price on DEX B (price of the last hop for cycles)
+
+  @Column({ type: 'jsonb', nullable: true })
+  route: RouteHopData[]; // Ordered swaps from tokenA back to tokenA
 
   @Column({ type: 'decimal', precision: 10, scale: 6 })
-  profitPercentage: number;
+  profitPercentage: number; // Net of gas
 
   @Column({ type: 'decimal', precision: 36, scale: 18 })
-  estimatedProfit: string;
+  estimatedProfit: string; // Before gas, in tokenA
+
+  @Column({ type: 'decimal', precision: 36, scale: 18, nullable: true })
+  estimatedGasCost: string; // Estimated gas priced in tokenA
+
+  @Column({ type: 'decimal', precision: 36, scale: 18, nullable: true })
+  estimatedNetProfit: string; // estimatedProfit minus estimatedGasCost, in tokenA
+
+  @Column({ type: 'decimal', precision: 20, scale: 8, nullable: true })
+  estimatedNetProfitUSD: number; // Only set when tokenA has a USD price; used to rank across tokens
 
   @Column({ type: 'decimal', precision: 36, scale: 18 })
   requiredAmount: string;
 
   @Column({ type: 'decimal', precision: 36, scale: 18 })
-  estimatedGasFee: string;
+  estimatedGasFee: string; // Native currency
 
   @Column({ type: 'decimal', precision: 36, scale: 18, nullable: true })
-  actualProfit: string;
+  actualProfit: string; // tokenA
 
   @Column({ type: 'decimal', precision: 36, scale: 18, nullable: true })
-  actualGasFee: string;
+  actualGasFee: string; // Native currency
 
   @Column({
     type: 'enum',
@@ -129,10 +144,33 @@ export class ArbitrageOpportunity {
   dexB: DEX;
 
   /**
-   * Check if opportunity is profitable
+   * Check if the route goes through more than one other token
+   */
+  isMultiHop(): boolean {
+    return (this.route?.length ?? 2) > 2;
+  }
+
+  /**
+   * Get the route as token symbols with the DEX of each hop, e.g. "WETH -(Uniswap)-> USDC -(Curve)-> WETH"
+   */
+  getRouteDescription(): string {
+    if (!this.route || this.route.length === 0) {
+      return this.tokenPair;
+    }
+
+    return this.route.reduce(
+      (description, hop) => `${description} -(${hop.dexName})-> ${hop.tokenOutSymbol}`,
+      this.route[0].tokenInSymbol,
+    );
+  }
+
+  /**
+   * Check if opportunity is profitable after gas priced in tokenA
+   * Opportunities without a net estimate cannot be compared with their gas cost and do not count
    */
   isProfitable(): boolean {
-    return this.profitPercentage > 0;
+    if (!this.estimatedNetProfit) return false;
+    return Amount.parse(this.estimatedNetProfit, DECIMAL_SCALE).isPositive();
   }
 
   /**
@@ -147,21 +185,38 @@ export class ArbitrageOpportunity {
    * Check if opportunity was executed successfully
    */
   isSuccessful(): boolean {
-    return this.status === OpportunityStatus.COMPLETED && parseFloat(this.actualProfit || '0') > 0;
+    return this.status === OpportunityStatus.COMPLETED &&
+      Amount.parse(this.actualProfit || '0', DECIMAL_SCALE).isPositive();
   }
 
   /**
-   * Calculate profit after gas fees
+   * Convert a native-currency gas fee to tokenA with the native price recorded at detection
+   */
+  getGasCostInToken(gasFee: string): Amount | null {
+    if (!this.metadata?.nativePrice) {
+      return null;
+    }
+
+    const nativePrice = Amount.parse(String(this.metadata.nativePrice), DECIMAL_SCALE);
+    return Amount.parse(gasFee, DECIMAL_SCALE).mulDiv(nativePrice.raw, 10n ** BigInt(DECIMAL_SCALE));
+  }
+
+  /**
+   * Calculate realised profit after gas fees, in tokenA
    */
   getNetProfit(): string {
     if (!this.actualProfit || !this.actualGasFee) {
       return '0';
     }
-    
-    const profit = parseFloat(this.actualProfit);
-    const gasFee = parseFloat(this.actualGasFee);
-    
-    return Math.max(0, profit - gasFee).toString();
+
+    const gasCost = this.getGasCostInToken(this.actualGasFee);
+    if (!gasCost) {
+      // The gas fee is in native currency; without a price it cannot be taken from a tokenA profit
+      return '0';
+    }
+
+    const profit = Amount.parse(this.actualProfit, DECIMAL_SCALE);
+    return profit.sub(gasCost).max(Amount.zero(DECIMAL_SCALE)).toDecimal();
   }
 
   /**
@@ -171,13 +226,11 @@ export class ArbitrageOpportunity {
     if (!this.actualProfit || !this.requiredAmount) {
       return 0;
     }
-    
-    const profit = parseFloat(this.actualProfit);
-    const amount = parseFloat(this.requiredAmount);
-    
-    if (amount === 0) return 0;
-    
-    return (profit / amount) * 100;
+
+    const profit = Amount.parse(this.actualProfit, DECIMAL_SCALE);
+    const amount = Amount.parse(this.requiredAmount, DECIMAL_SCALE);
+
+    return profit.percentOf(amount);
   }
 
   /**
@@ -188,7 +241,14 @@ export class ArbitrageOpportunity {
     if (!netProfit || !this.metadata?.usdRate) {
       return null;
     }
-    return parseFloat(netProfit) * this.metadata.usdRate;
+    return Amount.parse(netProfit, DECIMAL_SCALE).toNumber() * this.metadata.usdRate;
+  }
+
+  /**
+   * Mark opportunity as being analyzed (simulated) before execution
+   */
+  markAsAnalyzing(): void {
+    this.status = OpportunityStatus.ANALYZING;
   }
 
   /**
@@ -228,7 +288,7 @@ export class ArbitrageOpportunity {
    * Get summary for logging/notification
    */
   getSummary(): string {
-    const netProfit = this.getNetProfit();
+    const netProfit = this.actualProfit ? this.getNetProfit() : this.estimatedNetProfit ?? '0';
     return `${this.tokenPair} on ${this.network}: ${this.profitPercentage.toFixed(2)}% profit (${netProfit} tokens)`;
   }
 
@@ -240,7 +300,11 @@ export class ArbitrageOpportunity {
       id: this.id,
       network: this.network,
       tokenPair: this.tokenPair,
+      route: this.getRouteDescription(),
       estimatedProfit: this.estimatedProfit,
+      estimatedGasCost: this.estimatedGasCost,
+      estimatedNetProfit: this.estimatedNetProfit,
+      estimatedNetProfitUSD: this.estimatedNetProfitUSD,
       actualProfit: this.actualProfit,
       netProfit: this.getNetProfit(),
       profitPercentage: this.profitPercentage,
@@ -8,6 +8,7 @@ import {
   OneToMany,
 } from 'typeorm';
 import { ArbitrageOpportunity } from './ArbitrageOpportunity';
+import { getDEXAdapter } from '../services/dex/registry';
 
 export enum DEXType {
   UNISWAP_V2 = 'uniswap_v2',
@@ -102,7 +103,7 @@ export class DEX {
   isHealthy: boolean;
 
   @Column({ type: 'text', nullable: true })
-  healthCheckError: string;
+  healthCheckError: string | null;
 
   @CreateDateColumn()
   createdAt: Date;
@@ -137,30 +138,27 @@ export class DEX {
   }
 
   /**
-   * Get router ABI based on DEX type
+   * Get router ABI from the adapter registered for this DEX type
    */
   getRouterABI(): string[] {
-    // This would return the appropriate ABI for the router contract
-    // For now, returning a placeholder - in real implementation, 
-    // this would return the actual ABI array
-    return [];
+    return getDEXAdapter(this.type)?.routerABI ?? [];
   }
 
   /**
-   * Get factory ABI based on DEX type
+   * Get factory ABI from the adapter registered for this DEX type
    */
   getFactoryABI(): string[] {
-    // This would return the appropriate ABI for the factory contract
-    // For now, returning a placeholder - in real implementation, 
-    // this would return the actual ABI array
-    return [];
+    return getDEXAdapter(this.type)?.factoryABI ?? [];
   }
 
   /**
    * Calculate adjusted fee for arbitrage calculations
+   * Pass the fee tier (in parts per million) for DEXes with several fee tiers, e.g. Uniswap V3
    */
-  getAdjustedFee(): number {
-    // Some DEXes might have dynamic fees or fee tiers
+  getAdjustedFee(feeTier?: number): number {
+    if (feeTier !== undefined) {
+      return feeTier / 1000000;
+    }
     return this.feePercentage;
   }
 
@@ -237,6 +235,13 @@ export class DEX {
       errors.push('Priority must be at least 1');
     }
 
+    const adapter = getDEXAdapter(this.type);
+    if (!adapter) {
+      errors.push(`No adapter registered for DEX type ${this.type}`);
+    } else if (adapter.validateConfig) {
+      errors.push(...adapter.validateConfig(this.config));
+    }
+
     return errors;
   }
 } 
\ No newline at end of file
@@ -17,6 +17,7 @@ export enum HealthCheckType {
   NETWORK_LATENCY = 'network_latency',
   ARBITRAGE_ENGINE = 'arbitrage_engine',
   WEB_SERVER = 'web_server',
+  WALLET_BALANCE = 'wallet_balance',
 }
 
 export enum HealthStatus {
@@ -54,19 +55,19 @@ export class HealthCheck {
   status: HealthStatus;
 
   @Column({ type: 'decimal', precision: 10, scale: 3, nullable: true })
-  responseTime: number; // Response time in milliseconds
+  responseTime?: number; // Response time in milliseconds
 
   @Column({ type: 'decimal', precision: 8, scale: 2, nullable: true })
-  value: number; // Numeric value (e.g., CPU usage percentage)
+  value?: number; // Numeric value (e.g., CPU usage percentage)
 
   @Column({ type: 'text', nullable: true })
-  message: string;
+  message?: string;
 
   @Column({ type: 'text', nullable: true })
-  errorDetails: string;
+  errorDetails?: string;
 
   @Column({ type: 'jsonb', nullable: true })
-  metadata: Record<string, any>;
+  metadata?: Record<string, any>;
 
   @Column({ type: 'boolean', default: true })
   isActive: boolean;
@@ -6,6 +6,7 @@ import {
   UpdateDateColumn,
   Index,
 } from 'typeorm';
+import { Amount } from '../utils/amount';
 
 export enum TokenStandard {
   ERC20 = 'ERC20',
@@ -131,27 +132,37 @@ export class Token {
   /**
    * Format amount according to token decimals
    */
-  formatAmount(amount: string | number): string {
-    const amountNum = typeof amount === 'string' ? parseFloat(amount) : amount;
-    return amountNum.toFixed(Math.min(this.decimals, 6));
+  formatAmount(amount: string | number | Amount): string {
+    const value = amount instanceof Amount ? amount : this.toAmount(amount);
+    return value.format(6);
+  }
+
+  /**
+   * Parse a human readable amount into an exact amount of this token
+   */
+  toAmount(amount: string | number): Amount {
+    return Amount.parse(amount, this.decimals);
+  }
+
+  /**
+   * Wrap a raw amount (smallest unit) of this token
+   */
+  fromRawAmount(amount: bigint | string): Amount {
+    return Amount.fromRaw(amount, this.decimals);
   }
 
   /**
    * Convert human readable amount to wei (smallest unit)
    */
   toWei(amount: string | number): string {
-    const amountNum = typeof amount === 'string' ? parseFloat(amount) : amount;
-    const multiplier = Math.pow(10, this.decimals);
-    return Math.floor(amountNum * multiplier).toString();
+    return this.toAmount(amount).toString();
   }
 
   /**
    * Convert wei to human readable amount
    */
-  fromWei(amount: string): string {
-    const amountNum = parseFloat(amount);
-    const divisor = Math.pow(10, this.decimals);
-    return (amountNum / divisor).toString();
+  fromWei(amount: string | bigint): string {
+    return this.fromRawAmount(amount).toDecimal();
   }
 
   /**
@@ -165,7 +176,7 @@ export class Token {
    * Get block explorer URL for token
    */
   getExplorerUrl(): string {
-    const baseUrls = {
+    const baseUrls: Record<string, string> = {
       eth: 'https://etherscan.io/token/',
       bsc: 'https://bscscan.com/token/',
       polygon: 'https://polygonscan.com/token/',
@@ -196,17 +207,17 @@ export class Token {
   /**
    * Check if amount is within trading limits
    */
-  isAmountValid(amount: string): boolean {
-    const amountNum = parseFloat(amount);
-    
-    if (this.minTradeAmount && amountNum < parseFloat(this.minTradeAmount)) {
+  isAmountValid(amount: string | Amount): boolean {
+    const value = amount instanceof Amount ? amount : this.toAmount(amount);
+
+    if (this.minTradeAmount && value.lt(this.toAmount(this.minTradeAmount))) {
       return false;
     }
-    
-    if (this.maxTradeAmount && amountNum > parseFloat(this.maxTradeAmount)) {
+
+    if (this.maxTradeAmount && value.gt(this.toAmount(this.maxTradeAmount))) {
       return false;
     }
-    
+
     return true;
   }
 
@@ -214,7 +225,7 @@ export class Token {
    * Get native token address for the network
    */
   static getNativeTokenAddress(network: string): string {
-    const nativeTokens = {
+    const nativeTokens: Record<string, string> = {
       eth: '0x0000000000000000000000000000000000000000',
       bsc: '0x0000000000000000000000000000000000000000',
       polygon: '0x0000000000000000000000000000000000000000',
@@ -227,7 +238,7 @@ export class Token {
    * Get wrapped native token address for the network
    */
   static getWrappedNativeAddress(network: string): string {
-    const wrappedTokens = {
+    const wrappedTokens: Record<string, string> = {
       eth: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', // WETH
       bsc: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c', // WBNB
       polygon: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270', // WMATIC
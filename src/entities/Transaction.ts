@@ -9,6 +9,7 @@ import {
   JoinColumn,
 } from 'typeorm';
 import { ArbitrageOpportunity } from './ArbitrageOpportunity';
+import { Amount, DECIMAL_SCALE, NATIVE_DECIMALS } from '../utils/amount';
 
 export enum TransactionStatus {
   PENDING = 'pending',
@@ -21,6 +22,7 @@ export enum TransactionType {
   ARBITRAGE = 'arbitrage',
   SWAP = 'swap',
   TRANSFER = 'transfer',
+  ADMIN = 'admin', // Owner-only contract call
 }
 
 /**
@@ -155,14 +157,14 @@ export class Transaction {
     if (!this.profitAmount || !this.metadata?.usdRate) {
       return null;
     }
-    return parseFloat(this.profitAmount) * this.metadata.usdRate;
+    return Amount.parse(this.profitAmount, DECIMAL_SCALE).toNumber() * this.metadata.usdRate;
   }
 
   /**
    * Get transaction URL for block explorer
    */
   getExplorerUrl(): string {
-    const baseUrls = {
+    const baseUrls: Record<string, string> = {
       eth: 'https://etherscan.io/tx/',
       bsc: 'https://bscscan.com/tx/',
       polygon: 'https://polygonscan.com/tx/',
@@ -172,17 +174,17 @@ export class Transaction {
   }
 
   /**
-   * Calculate effective gas price
+   * Calculate effective gas price (native currency per unit of gas)
    */
   getEffectiveGasPrice(): string {
     if (!this.gasUsed || !this.gasFee) return '0';
-    
-    const gasUsed = parseFloat(this.gasUsed);
-    const gasFee = parseFloat(this.gasFee);
-    
-    if (gasUsed === 0) return '0';
-    
-    return (gasFee / gasUsed).toString();
+
+    const gasUsed = Amount.fromRaw(this.gasUsed, 0).raw;
+    const gasFee = Amount.parse(this.gasFee, NATIVE_DECIMALS);
+
+    if (gasUsed === 0n) return '0';
+
+    return gasFee.mulDiv(1n, gasUsed).toDecimal();
   }
 
   /**
@@ -195,6 +197,17 @@ export class Transaction {
     this.confirmedAt = new Date();
   }
 
+  /**
+   * Mark transaction as cancelled by a replacement that was mined instead
+   */
+  markAsCancelled(blockNumber: number, transactionIndex: number, reason: string): void {
+    this.status = TransactionStatus.CANCELLED;
+    this.blockNumber = blockNumber;
+    this.transactionIndex = transactionIndex;
+    this.errorMessage = reason;
+    this.confirmedAt = new Date();
+  }
+
   /**
    * Mark transaction as failed
    */
@@ -1,6 +1,7 @@
 import 'reflect-metadata';
 import dotenv from 'dotenv';
 import { AppDataSource } from './config/database';
+import { HealthCheckType } from './entities/HealthCheck';
 import { logger } from './utils/logger';
 import { TelegramBot } from './services/telegram/bot';
 import { WebServer } from './services/web/server';
@@ -86,9 +87,9 @@ class Application {
 
     // Initialize health monitor
     this.healthMonitor = new HealthMonitor([
-      this.telegramBot,
-      this.webServer,
-      this.arbitrageEngine
+      { type: HealthCheckType.TELEGRAM_API, component: 'telegram-bot', service: this.telegramBot },
+      { type: HealthCheckType.WEB_SERVER, component: 'web-server', service: this.webServer },
+      { type: HealthCheckType.ARBITRAGE_ENGINE, component: 'arbitrage-engine', service: this.arbitrageEngine },
     ]);
 
     logger.info('✅ Services initialized');
@@ -0,0 +1,279 @@
+import { Provider, ZeroAddress, formatUnits, getAddress, isAddress } from 'ethers';
+import { ILike } from 'typeorm';
+import { AppDataSource } from '../../config/database';
+import { NetworkName } from '../../types';
+import { Token } from '../../entities/Token';
+import { Transaction, TransactionStatus, TransactionType } from '../../entities/Transaction';
+import { ArbitrageBotClient, ArbitrageBotConfig, ArbitrageBotConfigUpdate } from '../blockchain/arbitrageBot';
+import { getTokenDecimals } from '../blockchain/erc20';
+import { FeeStrategy } from '../blockchain/fees';
+import { WalletPool } from '../blockchain/wallets';
+import { Amount, NATIVE_DECIMALS } from '../../utils/amount';
+import { arbitrageLogger as logger } from '../../utils/logger';
+
+// Highest maxSlippage and feePercentage updateConfig accepts, in basis points
+const MAX_CONFIG_BPS = 1000n;
+// An admin transaction not mined within this long is left pending
+const RECEIPT_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Token an admin action moves or blocks
+ */
+export interface AdminToken {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * Owner-only contract call, previewed before an admin confirms it
+ */
+export type ContractAdminAction =
+  | { type: 'update_config'; changes: Partial<ArbitrageBotConfigUpdate> }
+  | { type: 'set_fee_recipient'; feeRecipient: string }
+  | { type: 'set_token_blacklist'; token: AdminToken; blacklisted: boolean }
+  | { type: 'withdraw_profits'; token: AdminToken; amount: bigint }
+  | { type: 'emergency_withdraw'; token: AdminToken }
+  | { type: 'pause' }
+  | { type: 'unpause' };
+
+/**
+ * Previews and sends the ArbitrageBot's owner-only calls for one network from the account that owns the contract
+ * Each call is checked against the contract's state before it is previewed, saved as an ADMIN Transaction once
+ * sent and marked confirmed or failed when its receipt arrives
+ */
+export class ContractAdmin {
+  constructor(
+    private network: NetworkName,
+    private provider: Provider,
+    private contract: ArbitrageBotClient,
+    private wallets: WalletPool,
+    private fees: FeeStrategy,
+  ) {}
+
+  /**
+   * Find a token by symbol among the network's tokens, or by address; unknown addresses are read from the chain
+   */
+  async resolveToken(query: string): Promise<AdminToken> {
+    const tokens = AppDataSource.getRepository(Token);
+
+    const address = isAddress(query) ? getAddress(query) : undefined;
+    if (address) {
+      const token = await tokens.findOneBy({ network: this.network, address: ILike(address) });
+      if (token) return { address, symbol: token.symbol, decimals: token.decimals };
+
+      return { address, symbol: address, decimals: await getTokenDecimals(this.provider, address) };
+    }
+
+    const matches = await tokens.findBy({ network: this.network, symbol: ILike(query) });
+    if (matches.length === 0) {
+      throw new Error(`No token ${query} on ${this.network}`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`${matches.length} tokens on ${this.network} are called ${query}, use the address`);
+    }
+    return { address: getAddress(matches[0].address), symbol: matches[0].symbol, decimals: matches[0].decimals };
+  }
+
+  /**
+   * Read the contract's config, pause state and owner
+   */
+  async getStatus(): Promise<{ config: ArbitrageBotConfig; paused: boolean; owner: string; ownerLoaded: boolean }> {
+    const [config, paused, owner, account] = await Promise.all([
+      this.contract.getConfig(),
+      this.contract.isPaused(),
+      this.contract.getOwner(),
+      this.wallets.getOwnerAccount(),
+    ]);
+    return { config, paused, owner, ownerLoaded: account !== undefined };
+  }
+
+  /**
+   * Describe what an action will change, one line per change
+   * Throws with the reason if the contract would reject the call or no loaded account owns the contract
+   */
+  async preview(action: ContractAdminAction): Promise<string[]> {
+    const owner = await this.wallets.getOwnerAccount();
+    if (!owner) {
+      const address = await this.contract.getOwner();
+      throw new Error(`The contract owner ${address} is not a loaded account on ${this.network}`);
+    }
+    const lines = [`Contract ${this.contract.address} on ${this.network}, sent from the owner ${owner.address}`];
+
+    switch (action.type) {
+    case 'update_config': {
+      const config = await this.contract.getConfig();
+      const { maxSlippage, feePercentage } = { ...config, ...action.changes };
+      if (maxSlippage > MAX_CONFIG_BPS || feePercentage > MAX_CONFIG_BPS) {
+        throw new Error(`maxSlippage and feePercentage cannot exceed ${MAX_CONFIG_BPS} bps`);
+      }
+
+      const changed = (Object.keys(action.changes) as (keyof ArbitrageBotConfigUpdate)[])
+        .filter(key => action.changes[key] !== undefined && action.changes[key] !== config[key]);
+      if (changed.length === 0) {
+        throw new Error('The config already has these values');
+      }
+      for (const key of changed) {
+        const value = action.changes[key] as bigint;
+        lines.push(`${key}: ${formatConfigValue(key, config[key])} → ${formatConfigValue(key, value)}`);
+      }
+      break;
+    }
+    case 'set_fee_recipient': {
+      if (action.feeRecipient === ZeroAddress) {
+        throw new Error('The fee recipient cannot be the zero address');
+      }
+      const { feeRecipient } = await this.contract.getConfig();
+      lines.push(`feeRecipient: ${feeRecipient} → ${action.feeRecipient}`);
+      break;
+    }
+    case 'set_token_blacklist':
+      lines.push(action.blacklisted
+        ? `Blacklist ${action.token.symbol} (${action.token.address}), trades through it revert`
+        : `Remove ${action.token.symbol} (${action.token.address}) from the blacklist`);
+      break;
+    case 'withdraw_profits': {
+      const balance = await this.contract.getBalance(action.token.address);
+      if (action.amount <= 0n) {
+        throw new Error('The amount must be above zero');
+      }
+      if (action.amount > balance) {
+        throw new Error(`The contract holds only ${formatToken(action.token, balance)}`);
+      }
+      lines.push(`Withdraw ${formatToken(action.token, action.amount)} of ${formatToken(action.token, balance)}`);
+      lines.push(`Paid to the owner ${owner.address}`);
+      break;
+    }
+    case 'emergency_withdraw': {
+      const balance = await this.contract.getBalance(action.token.address);
+      if (balance === 0n) {
+        throw new Error(`The contract holds no ${action.token.symbol}`);
+      }
+      lines.push(`Withdraw the whole balance, ${formatToken(action.token, balance)} at the time it is mined`);
+      lines.push(`Paid to the owner ${owner.address}`);
+      break;
+    }
+    case 'pause':
+    case 'unpause': {
+      const paused = await this.contract.isPaused();
+      if (paused === (action.type === 'pause')) {
+        throw new Error(`The contract is already ${paused ? 'paused' : 'unpaused'}`);
+      }
+      lines.push(action.type === 'pause'
+        ? 'Pause the contract, every trade reverts until it is unpaused'
+        : 'Unpause the contract, trades can execute again');
+      break;
+    }
+    }
+    return lines;
+  }
+
+  /**
+   * Send an action from the owner account and save it as a pending ADMIN Transaction
+   */
+  async execute(action: ContractAdminAction): Promise<Transaction> {
+    const { hash, from } = await this.wallets.sendAsOwner((client, overrides) => {
+      switch (action.type) {
+      case 'update_config':
+        return client.getConfig().then(config => client.updateConfig({ ...config, ...action.changes }, overrides));
+      case 'set_fee_recipient':
+        return client.setFeeRecipient(action.feeRecipient, overrides);
+      case 'set_token_blacklist':
+        return client.setTokenBlacklist(action.token.address, action.blacklisted, overrides);
+      case 'withdraw_profits':
+        return client.withdrawProfits(action.token.address, action.amount, overrides);
+      case 'emergency_withdraw':
+        return client.emergencyWithdraw(action.token.address, overrides);
+      case 'pause':
+        return client.pause(overrides);
+      case 'unpause':
+        return client.unpause(overrides);
+      }
+    });
+
+    const transactions = AppDataSource.getRepository(Transaction);
+    const token = 'token' in action ? action.token : undefined;
+    const transaction = transactions.create({
+      hash,
+      network: this.network,
+      type: TransactionType.ADMIN,
+      status: TransactionStatus.PENDING,
+      fromAddress: from,
+      toAddress: this.contract.address,
+      gasUsed: '0',
+      gasPrice: '0',
+      gasFee: '0',
+      inputToken: token?.address,
+      inputAmount: action.type === 'withdraw_profits'
+        ? Amount.fromRaw(action.amount, action.token.decimals).toDecimal()
+        : undefined,
+      metadata: { action: serialiseAction(action) },
+    });
+    await transactions.save(transaction);
+
+    logger.info(`🔧 Sent ${action.type} to the arbitrage contract on ${this.network}`, { hash, from });
+    return transaction;
+  }
+
+  /**
+   * Wait for an admin transaction's receipt and record whether it succeeded
+   * A successful config update also moves the fee cap to the new maxGasPrice
+   */
+  async waitForReceipt(transaction: Transaction): Promise<Transaction> {
+    try {
+      const receipt = await this.provider.waitForTransaction(transaction.hash, 1, RECEIPT_TIMEOUT_MS);
+      if (!receipt) return transaction;
+
+      transaction.gasUsed = receipt.gasUsed.toString();
+      transaction.gasPrice = Amount.fromRaw(receipt.gasPrice, NATIVE_DECIMALS).toDecimal();
+      transaction.gasFee = Amount.fromRaw(receipt.fee, NATIVE_DECIMALS).toDecimal();
+      if (receipt.status === 1) {
+        transaction.markAsConfirmed(receipt.blockNumber, receipt.index);
+        const maxGasPrice = transaction.metadata?.action?.changes?.maxGasPrice as string | undefined;
+        if (maxGasPrice !== undefined) {
+          this.fees.setMaxGasPrice(BigInt(maxGasPrice));
+        }
+      } else {
+        transaction.blockNumber = receipt.blockNumber;
+        transaction.transactionIndex = receipt.index;
+        transaction.markAsFailed('Transaction reverted');
+      }
+      await AppDataSource.getRepository(Transaction).save(transaction);
+    } catch (error) {
+      logger.warn(`⚠️ No receipt for admin transaction ${transaction.hash} on ${this.network}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return transaction;
+  }
+}
+
+/**
+ * Format a config value in the unit it is set in: basis points, gwei or raw token units
+ */
+export function formatConfigValue(key: keyof ArbitrageBotConfigUpdate, value: bigint): string {
+  switch (key) {
+  case 'maxSlippage':
+  case 'feePercentage':
+    return `${value} bps`;
+  case 'maxGasPrice':
+    return `${formatUnits(value, 'gwei')} gwei`;
+  case 'minProfitThreshold':
+    return value.toString();
+  }
+}
+
+/**
+ * Format a raw token amount with its symbol
+ */
+function formatToken(token: AdminToken, raw: bigint): string {
+  return `${Amount.fromRaw(raw, token.decimals).format()} ${token.symbol}`;
+}
+
+/**
+ * ContractAdminAction as stored in Transaction.metadata.action, with amounts as strings
+ */
+function serialiseAction(action: ContractAdminAction): Record<string, any> {
+  return JSON.parse(JSON.stringify(action, (_, value: unknown) =>
+    (typeof value === 'bigint' ? value.toString() : value))) as Record<string, any>;
+}
@@ -0,0 +1,180 @@
+import { NetworkName } from '../../types';
+import { DEX } from '../../entities/DEX';
+import { Token } from '../../entities/Token';
+import { ArbitrageQuote, PairScanner, RouteHop } from './scanner';
+import { arbitrageLogger as logger } from '../../utils/logger';
+
+// Pools rarely appear or disappear, so the graph is rebuilt only this often or when DEXes/tokens change
+const GRAPH_REFRESH_BLOCKS = 100;
+
+/**
+ * Tokens connected by an edge wherever at least one DEX has a pool for the pair
+ */
+interface TokenGraph {
+  key: string;
+  builtAt: number;
+  tokens: Token[];
+  neighbours: number[][];
+  edges: Map<string, DEX[]>;
+}
+
+/**
+ * Searches a network's token graph for profitable cycles of three or more hops,
+ * e.g. WETH -> USDC -> DAI -> WETH, across any mix of DEXes
+ */
+export class CycleScanner {
+  private graph?: TokenGraph;
+
+  constructor(
+    private network: NetworkName,
+    private pairScanner: PairScanner,
+    private maxHops: number,
+  ) {}
+
+  /**
+   * Quote every cycle of 3 to maxHops tokens at the given block
+   * Each hop uses the DEX with the best output for that pair; only profitable cycles are returned
+   */
+  async scan(dexes: DEX[], tokens: Token[], blockNumber: number): Promise<ArbitrageQuote[]> {
+    if (this.maxHops < 3) {
+      return [];
+    }
+
+    const graph = await this.getGraph(dexes, tokens, blockNumber);
+    const opportunities: ArbitrageQuote[] = [];
+
+    // Cycles start at their lowest-index token, so each cycle is found once per direction
+    for (let start = 0; start < graph.tokens.length; start++) {
+      const amountIn = this.pairScanner.getScanAmount(graph.tokens[start]);
+      const cycles = await this.extend(graph, [start], [], amountIn, amountIn, blockNumber);
+      opportunities.push(...cycles);
+    }
+
+    return opportunities;
+  }
+
+  /**
+   * Depth-first search from the last token of the path, quoting each hop as it is added
+   */
+  private async extend(
+    graph: TokenGraph,
+    path: number[],
+    hops: RouteHop[],
+    startAmount: bigint,
+    amount: bigint,
+    blockNumber: number,
+  ): Promise<ArbitrageQuote[]> {
+    const start = path[0];
+    const current = path[path.length - 1];
+
+    const branches = graph.neighbours[current].map(async (next): Promise<ArbitrageQuote[]> => {
+      const closesCycle = next === start && hops.length >= 2;
+      const extendsPath = next > start && !path.includes(next) && path.length < this.maxHops;
+      if (!closesCycle && !extendsPath) return [];
+
+      const hop = await this.quoteHop(graph, current, next, amount, blockNumber);
+      if (!hop) return [];
+
+      const route = [...hops, hop];
+      if (extendsPath) {
+        return this.extend(graph, [...path, next], route, startAmount, hop.quote.amountOut, blockNumber);
+      }
+
+      const amountOut = hop.quote.amountOut;
+      if (amountOut <= startAmount) return [];
+
+      return [{
+        hops: route,
+        amountIn: startAmount,
+        amountOut,
+        profit: amountOut - startAmount,
+        blockNumber,
+      }];
+    });
+
+    return (await Promise.all(branches)).flat();
+  }
+
+  /**
+   * Quote one hop on every DEX with a pool for the pair and keep the best output
+   */
+  private async quoteHop(
+    graph: TokenGraph,
+    from: number,
+    to: number,
+    amountIn: bigint,
+    blockNumber: number,
+  ): Promise<RouteHop | null> {
+    const tokenIn = graph.tokens[from];
+    const tokenOut = graph.tokens[to];
+    const dexes = graph.edges.get(edgeKey(from, to)) ?? [];
+
+    const quotes = await Promise.all(
+      dexes.map(dex => this.pairScanner.quote(dex, tokenIn, tokenOut, amountIn, blockNumber)),
+    );
+
+    let best: RouteHop | null = null;
+    for (let i = 0; i < quotes.length; i++) {
+      const quote = quotes[i];
+      if (quote && quote.amountOut > 0n && (!best || quote.amountOut > best.quote.amountOut)) {
+        best = { dex: dexes[i], tokenIn, tokenOut, amountIn, quote };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Get the token graph, rebuilding it when the DEX or token set changed or it is too old
+   */
+  private async getGraph(dexes: DEX[], tokens: Token[], blockNumber: number): Promise<TokenGraph> {
+    const key = [...dexes.map(dex => dex.id), '|', ...tokens.map(token => token.id)].join(',');
+    if (this.graph && this.graph.key === key && blockNumber - this.graph.builtAt < GRAPH_REFRESH_BLOCKS) {
+      return this.graph;
+    }
+
+    const sortedTokens = [...tokens].sort((a, b) => a.priority - b.priority);
+    const neighbours: number[][] = sortedTokens.map(() => []);
+    const edges = new Map<string, DEX[]>();
+    const lookups: Promise<void>[] = [];
+
+    for (let i = 0; i < sortedTokens.length; i++) {
+      for (let j = i + 1; j < sortedTokens.length; j++) {
+        const tokenA = sortedTokens[i];
+        const tokenB = sortedTokens[j];
+        const candidates = dexes.filter(dex =>
+          dex.supportsToken(tokenA.address) && dex.supportsToken(tokenB.address),
+        );
+
+        lookups.push(
+          Promise.all(candidates.map(dex => this.pairScanner.discoverPools(dex, tokenA, tokenB))).then(pools => {
+            const connected = candidates.filter((_, k) => pools[k].length > 0);
+            if (connected.length === 0) return;
+
+            edges.set(edgeKey(i, j), connected);
+            neighbours[i].push(j);
+            neighbours[j].push(i);
+          }),
+        );
+      }
+    }
+
+    await Promise.all(lookups);
+
+    this.graph = { key, builtAt: blockNumber, tokens: sortedTokens, neighbours, edges };
+    logger.debug(`Built token graph on ${this.network}`, {
+      tokens: sortedTokens.length,
+      edges: edges.size,
+      block: blockNumber,
+    });
+
+    return this.graph;
+  }
+}
+
+/**
+ * Edge key for an unordered token index pair
+ */
+function edgeKey(a: number, b: number): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
@@ -0,0 +1,106 @@
+import { ArbitrageParams, FlashLoanParams, RouteHopData, SwapHopParams } from '../../types';
+import { ArbitrageOpportunity } from '../../entities/ArbitrageOpportunity';
+import { DEXType } from '../../entities/DEX';
+import { UNISWAP_V2_TYPES } from '../dex/uniswapV2';
+import { encodeExecuteArbitrage } from '../blockchain/arbitrageBot';
+
+// Longest route ArbitrageBot.executeMultiHopArbitrage accepts (MAX_HOPS)
+export const MAX_CONTRACT_HOPS = 5;
+// Values of the contract's DexKind enum
+const DEX_KIND_UNISWAP_V2 = 0;
+const DEX_KIND_UNISWAP_V3 = 1;
+
+/**
+ * Execution settings applied when a route is encoded
+ */
+export interface RouteEncodingOptions {
+  maxSlippage: number; // Fraction of each hop's and the route's quoted output that may be lost
+  gasLimit: number;
+  flashLoan?: FlashLoanParams; // Only for pair routes
+  flashLoanFee?: bigint; // Raw units of the start token, deducted from the expected profit
+}
+
+/**
+ * Check if the contract can execute a route: every hop on a V2-style or Uniswap V3 router, up to MAX_CONTRACT_HOPS
+ */
+export function isContractRoute(route: Pick<RouteHopData, 'dexType' | 'feeTier'>[]): boolean {
+  return route.length >= 2
+    && route.length <= MAX_CONTRACT_HOPS
+    && route.every(hop => {
+      const kind = getDexKind(hop.dexType);
+      return kind === DEX_KIND_UNISWAP_V2 || (kind === DEX_KIND_UNISWAP_V3 && hop.feeTier !== undefined);
+    });
+}
+
+/**
+ * Check if a route is a round trip through two V2-style routers, which executeArbitrage and
+ * executeFlashArbitrage take directly
+ */
+export function isPairRoute(route: Pick<RouteHopData, 'dexType'>[]): boolean {
+  return route.length === 2 && route.every(hop => getDexKind(hop.dexType) === DEX_KIND_UNISWAP_V2);
+}
+
+/**
+ * Contract call parameters for a route, or null if the contract cannot execute it
+ * Pair routes use executeArbitrage (or executeFlashArbitrage with a flash loan) and longer or V3 routes use
+ * executeMultiHopArbitrage; the expected profit and every hop's minimum output leave room for the slippage
+ */
+export function toArbitrageParams(route: RouteHopData[], options: RouteEncodingOptions): ArbitrageParams | null {
+  if (!isContractRoute(route)) return null;
+
+  const pair = isPairRoute(route);
+  if (options.flashLoan && !pair) return null;
+
+  const first = route[0];
+  const last = route[route.length - 1];
+  const slippageBps = BigInt(Math.round(options.maxSlippage * 10000));
+  const withSlippage = (amount: bigint): bigint => amount * (10000n - slippageBps) / 10000n;
+
+  const amountIn = BigInt(first.amountIn);
+  const profit = BigInt(last.amountOut) - amountIn - (options.flashLoanFee ?? 0n);
+
+  return {
+    tokenA: first.tokenIn,
+    tokenB: first.tokenOut,
+    dexA: first.router,
+    dexB: last.router,
+    amountIn,
+    minProfitThreshold: withSlippage(profit),
+    maxSlippage: options.maxSlippage,
+    gasLimit: options.gasLimit,
+    flashLoan: options.flashLoan,
+    hops: pair ? undefined : route.map(hop => toSwapHop(hop, withSlippage(BigInt(hop.amountOut)))),
+  };
+}
+
+/**
+ * Calldata that executes an opportunity's route on the ArbitrageBot contract, or null if the contract
+ * cannot execute it
+ */
+export function encodeOpportunity(opportunity: ArbitrageOpportunity, options: RouteEncodingOptions): string | null {
+  const params = opportunity.route ? toArbitrageParams(opportunity.route, options) : null;
+  return params ? encodeExecuteArbitrage(params) : null;
+}
+
+/**
+ * Contract DexKind of a hop's DEX type, or null if the contract has no router interface for it
+ */
+function getDexKind(dexType: string | undefined): number | null {
+  if (dexType === DEXType.UNISWAP_V3) return DEX_KIND_UNISWAP_V3;
+  if (UNISWAP_V2_TYPES.includes(dexType as DEXType)) return DEX_KIND_UNISWAP_V2;
+  return null;
+}
+
+/**
+ * One hop of executeMultiHopArbitrage
+ */
+function toSwapHop(hop: RouteHopData, minAmountOut: bigint): SwapHopParams {
+  const kind = getDexKind(hop.dexType) as number;
+  return {
+    router: hop.router,
+    path: [hop.tokenIn, hop.tokenOut],
+    kind,
+    fee: kind === DEX_KIND_UNISWAP_V3 ? hop.feeTier as number : 0,
+    minAmountOut,
+  };
+}
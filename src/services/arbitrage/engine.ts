@@ -0,0 +1,1053 @@
+import { LessThan, In, MoreThan } from 'typeorm';
+import { AppDataSource } from '../../config/database';
+import { getBotConfig, getMaxRouteHops, getOpportunityTTL, getRiskLimits } from '../../config/arbitrage';
+import { ArbitrageParams, BotConfig, NetworkName, RiskLimits, RouteHopData } from '../../types';
+import { ArbitrageOpportunity, OpportunityStatus } from '../../entities/ArbitrageOpportunity';
+import { DEX, DEXStatus } from '../../entities/DEX';
+import { Token } from '../../entities/Token';
+import { Transaction } from '../../entities/Transaction';
+import { TelegramBot } from '../telegram/bot';
+import { NotificationService } from '../notification/service';
+import { getWsUrl } from '../../config/networks';
+import {
+  ProviderPool,
+  RpcEndpointStatus,
+  getProvider,
+  getQuorumProvider,
+  destroyProviders,
+} from '../blockchain/provider';
+import { SubmissionRoute } from '../blockchain/submission';
+import { ArbitrageBotClient } from '../blockchain/arbitrageBot';
+import { FeeQuote, FeeStrategy } from '../blockchain/fees';
+import { WalletPool, createWalletPool } from '../blockchain/wallets';
+import { ArbitrageQuote, PairScanner, RouteHop, formatRatio } from './scanner';
+import { CycleScanner } from './cycles';
+import { SizingResult, TradeSizer } from './sizing';
+import { GasEstimate, GasModel } from './gas';
+import { FlashLoanConfig, getFlashLoanConfig, getFlashLoanGas, toFlashLoanParams } from './flashLoan';
+import { isPairRoute, toArbitrageParams } from './encoder';
+import { ArbitrageSimulator } from './simulator';
+import { ArbitrageExecutor } from './executor';
+import { TokenScreener, needsScreening } from './screener';
+import { RiskBreach, RiskManager, RiskStatus, validateRiskLimits } from './risk';
+import { MempoolWatcher, PendingPrediction } from './mempool';
+import { ContractAdmin } from './admin';
+import { DEXHealthMonitor } from '../monitoring/dexHealth';
+import { Amount, DECIMAL_SCALE, NATIVE_DECIMALS } from '../../utils/amount';
+import { arbitrageLogger as logger } from '../../utils/logger';
+
+// ARBITRAGE_FEATURES entry that lets the engine send transactions for opportunities that pass simulation
+const EXECUTION_FEATURE = 'execution';
+// ARBITRAGE_FEATURES entry that predicts opportunities from pending swaps on networks with a WebSocket URL
+const MEMPOOL_FEATURE = 'mempool';
+// Tokens screened per network at a time; screening runs beside block scans
+const SCREEN_BATCH_SIZE = 3;
+
+interface SizedRoute {
+  result: SizingResult;
+  gas: GasEstimate;
+}
+
+interface SavedOpportunity extends SizedRoute {
+  opportunity: ArbitrageOpportunity;
+}
+
+interface NetworkState {
+  provider: ProviderPool;
+  dexHealth: DEXHealthMonitor;
+  scanner: PairScanner;
+  quorumScanner?: PairScanner; // Quotes through RPC_QUORUM endpoints, to confirm a route before it is executed
+  cycleScanner: CycleScanner;
+  sizer: TradeSizer;
+  gasModel: GasModel;
+  fees: FeeStrategy;
+  contract: ArbitrageBotClient | null;
+  wallets?: WalletPool; // Bot accounts that send trades, screenings and top-ups
+  admin?: ContractAdmin;
+  risk: RiskManager;
+  simulator?: ArbitrageSimulator;
+  executor?: ArbitrageExecutor;
+  screener?: TokenScreener;
+  mempool?: MempoolWatcher;
+  isScanning: boolean;
+  isScreening: boolean;
+  lastBlock?: number;
+  lastScanAt?: Date;
+  lastScanDuration?: number;
+  lastError?: string;
+}
+
+/**
+ * Scanning state and RPC endpoints of a running network
+ */
+export interface NetworkStatus {
+  lastScannedBlock?: number;
+  lastScanAt?: Date;
+  lastScanDuration?: number;
+  lastError?: string;
+  quorum: boolean; // Routes are confirmed through RPC_QUORUM endpoints before they are executed
+  submission?: SubmissionRoute;
+  rpcEndpoints: RpcEndpointStatus[];
+  mempool?: Record<string, any>;
+}
+
+/**
+ * Arbitrage Engine
+ * Scans every active token pair on every active DEX pair, and every token cycle across all DEX pools,
+ * of each enabled network on each new block and persists profitable round trips as ArbitrageOpportunity rows
+ */
+export class ArbitrageEngine {
+  private config: BotConfig;
+  private networks = new Map<NetworkName, NetworkState>();
+  private riskLimits = new Map<NetworkName, RiskLimits>(); // Set through /settings; kept across restarts of the engine
+  private isRunning: boolean = false;
+  private isPaused: boolean = false;
+  private startedAt?: Date;
+  private stats = {
+    blocksProcessed: 0,
+    blocksSkipped: 0,
+    opportunitiesDetected: 0,
+    scanErrors: 0,
+  };
+
+  constructor(
+    private telegramBot: TelegramBot,
+    private notificationService: NotificationService,
+  ) {
+    this.config = getBotConfig();
+    this.telegramBot.setArbitrageEngine(this);
+  }
+
+  /**
+   * Start listening for new blocks on every enabled network
+   */
+  async start(): Promise<void> {
+    try {
+      if (this.isRunning) {
+        logger.warn('Arbitrage engine is already running');
+        return;
+      }
+
+      this.config = getBotConfig();
+      if (this.config.networks.length === 0) {
+        logger.warn('⚠️ No networks with an RPC URL configured, arbitrage engine not started');
+        return;
+      }
+
+      const maxHops = getMaxRouteHops();
+      for (const network of this.config.networks) {
+        const provider = getProvider(network);
+        const dexHealth = new DEXHealthMonitor(network);
+        await dexHealth.load();
+        const scanner = new PairScanner(network, provider, dexHealth);
+        const quorumProvider = getQuorumProvider(network);
+        const contract = ArbitrageBotClient.forNetwork(network, provider);
+        const state: NetworkState = {
+          provider,
+          dexHealth,
+          scanner,
+          quorumScanner: quorumProvider ? new PairScanner(network, quorumProvider) : undefined,
+          cycleScanner: new CycleScanner(network, scanner, maxHops),
+          sizer: new TradeSizer(scanner),
+          gasModel: new GasModel(network, scanner, this.config.maxGasLimit),
+          fees: new FeeStrategy(network, provider, this.config.gasMultiplier),
+          contract,
+          risk: new RiskManager(
+            network,
+            this.getRiskLimits(network),
+            breach => void this.handleRiskBreach(network, breach),
+          ),
+          isScanning: false,
+          isScreening: false,
+        };
+        this.networks.set(network, state);
+        state.wallets = contract ? await this.loadWallets(network, provider, contract, state.fees) : undefined;
+        if (contract && state.wallets) {
+          await state.wallets.authorize();
+          state.admin = new ContractAdmin(network, provider, contract, state.wallets, state.fees);
+          state.fees.setMaxGasPrice(await this.getContractMaxGasPrice(network, contract));
+          state.simulator = new ArbitrageSimulator(network, contract, state.wallets);
+          state.screener = new TokenScreener(network, provider, scanner, contract, state.wallets);
+          if (this.config.enabledFeatures.includes(EXECUTION_FEATURE)) {
+            await state.risk.load(state.wallets.addresses);
+            state.executor = new ArbitrageExecutor(network, provider, state.wallets, state.fees, state.risk);
+            await state.executor.loadPending();
+            if (state.risk.getLimits().maxDailyLoss === 0) {
+              logger.warn(`⚠️ No daily loss limit on ${network}, set RISK_MAX_DAILY_LOSS to cap realised losses`);
+            }
+          }
+        } else {
+          logger.warn(`⚠️ No arbitrage contract or bot account on ${network}, no simulation or token screening`);
+        }
+        if (this.config.enabledFeatures.includes(MEMPOOL_FEATURE)) {
+          state.mempool = this.createMempoolWatcher(network, scanner);
+          await state.mempool?.start();
+        }
+
+        await provider.on('block', (blockNumber: number) => {
+          void this.handleBlock(network, blockNumber);
+        });
+        logger.info(`👂 Listening for blocks on ${network}`);
+      }
+
+      this.isRunning = true;
+      this.isPaused = false;
+      this.startedAt = new Date();
+
+      logger.info('✅ Arbitrage engine started', { networks: this.config.networks });
+
+      await this.notificationService.sendTelegramNotification(
+        '🎯 Arbitrage Engine Started',
+        `Scanning for opportunities on: ${this.config.networks.join(', ')}`,
+        { networks: this.config.networks },
+      );
+    } catch (error) {
+      logger.error('❌ Failed to start arbitrage engine:', error);
+      // Networks started before the failure would otherwise keep listening, and a retry would listen twice
+      await this.releaseNetworks();
+      throw error;
+    }
+  }
+
+  /**
+   * Stop listening for blocks and release providers
+   */
+  async stop(): Promise<void> {
+    try {
+      if (!this.isRunning) {
+        logger.warn('Arbitrage engine is not running');
+        return;
+      }
+
+      logger.info('🛑 Stopping arbitrage engine...');
+      await this.releaseNetworks();
+
+      this.isRunning = false;
+      this.isPaused = false;
+
+      logger.info('✅ Arbitrage engine stopped');
+
+      await this.notificationService.sendTelegramNotification(
+        '🛑 Arbitrage Engine Stopped',
+        'Opportunity scanning has been stopped.',
+        this.stats,
+      );
+    } catch (error) {
+      logger.error('❌ Error stopping arbitrage engine:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pause scanning; block listeners stay attached but new blocks are ignored
+   */
+  async pause(): Promise<void> {
+    if (!this.isRunning || this.isPaused) {
+      logger.warn('Arbitrage engine is not running or already paused');
+      return;
+    }
+
+    this.isPaused = true;
+    logger.info('⏸️ Arbitrage engine paused');
+
+    await this.notificationService.sendTelegramNotification(
+      '⏸️ Arbitrage Engine Paused',
+      'New blocks are ignored until the engine is resumed.',
+      this.stats,
+    );
+  }
+
+  /**
+   * Resume scanning after a pause
+   */
+  async resume(): Promise<void> {
+    if (!this.isRunning || !this.isPaused) {
+      logger.warn('Arbitrage engine is not running or not paused');
+      return;
+    }
+
+    this.isPaused = false;
+    for (const state of this.networks.values()) {
+      state.risk.resetFailures();
+    }
+    logger.info('▶️ Arbitrage engine resumed');
+
+    await this.notificationService.sendTelegramNotification(
+      '▶️ Arbitrage Engine Resumed',
+      'Opportunity scanning has resumed.',
+      this.stats,
+    );
+  }
+
+  /**
+   * Detach every network's block listener and mempool watcher and destroy the providers
+   */
+  private async releaseNetworks(): Promise<void> {
+    for (const [network, state] of this.networks) {
+      try {
+        await state.provider.removeAllListeners('block');
+        await state.mempool?.stop();
+      } catch (error) {
+        logger.error(`❌ Failed to detach from ${network}:`, error);
+      }
+    }
+    this.networks.clear();
+    destroyProviders();
+  }
+
+  /**
+   * Handle a new block: expire stale opportunities and scan for new ones
+   */
+  private async handleBlock(network: NetworkName, blockNumber: number): Promise<void> {
+    const state = this.networks.get(network);
+    if (!state) return;
+
+    // Submitted transactions are followed and bot accounts kept funded even while scanning is paused
+    if (state.executor) {
+      void state.executor.trackReceipts(blockNumber);
+    }
+    void state.wallets?.checkBalances();
+    if (this.isPaused) return;
+
+    if (state.screener && !state.isScreening) {
+      void this.screenTokens(network, state);
+    }
+
+    // A scan that takes longer than a block makes the next block stale, so skip it
+    if (state.isScanning) {
+      this.stats.blocksSkipped++;
+      logger.debug(`Skipping block ${blockNumber} on ${network}, previous scan still running`);
+      return;
+    }
+
+    state.isScanning = true;
+    const startTime = Date.now();
+
+    try {
+      await this.expireOpportunities(network);
+
+      const [dexes, tokens] = await Promise.all([
+        this.getActiveDEXes(network, state.dexHealth),
+        // Until a token has been screened once it is only scanned if screening is not possible
+        this.getActiveTokens(network, state.screener !== undefined),
+      ]);
+
+      // Pairs need two DEXes, but cycles can run through a single DEX
+      if (dexes.length === 0 || tokens.length < 2 || (dexes.length < 2 && tokens.length < 3)) {
+        logger.debug(`Not enough active DEXes or tokens on ${network}`, {
+          dexes: dexes.length,
+          tokens: tokens.length,
+        });
+        return;
+      }
+
+      const quotes = [
+        ...await state.scanner.scan(dexes, tokens, blockNumber),
+        ...await state.cycleScanner.scan(dexes, tokens, blockNumber),
+      ];
+      let opportunities = 0;
+      if (quotes.length > 0) {
+        const fees = await state.fees.getFees();
+        const sized = await this.sizeOpportunities(network, state, quotes, dexes, tokens, fees.gasPrice);
+        const saved = await this.saveOpportunities(network, sized);
+        const passed = await this.simulateOpportunities(state, saved, fees.gasPrice);
+        await this.executeOpportunities(network, state, passed, fees);
+        opportunities = sized.length;
+      }
+
+      // Pending swaps are applied to the pool state this scan left in the scanner's cache
+      state.mempool?.update(dexes, tokens, blockNumber);
+
+      this.stats.blocksProcessed++;
+      state.lastBlock = blockNumber;
+      state.lastScanAt = new Date();
+      state.lastScanDuration = Date.now() - startTime;
+      state.lastError = undefined;
+
+      logger.debug(`Scanned block ${blockNumber} on ${network}`, {
+        dexes: dexes.length,
+        tokens: tokens.length,
+        quotes: quotes.length,
+        opportunities,
+        duration: `${state.lastScanDuration}ms`,
+      });
+    } catch (error) {
+      this.stats.scanErrors++;
+      state.lastError = error instanceof Error ? error.message : String(error);
+      logger.error(`❌ Scan failed on ${network} at block ${blockNumber}:`, error);
+    } finally {
+      state.isScanning = false;
+    }
+  }
+
+  /**
+   * Get active DEXes for a network, highest priority first
+   * With a health monitor, DEXes in maintenance that are due a probe follow
+   */
+  private async getActiveDEXes(network: NetworkName, dexHealth?: DEXHealthMonitor): Promise<DEX[]> {
+    const dexes = await AppDataSource.getRepository(DEX).find({
+      where: { network, isActive: true, status: DEXStatus.ACTIVE },
+      order: { priority: 'ASC' },
+    });
+    const probes = dexHealth ? await dexHealth.getProbeDEXes() : [];
+    return [...dexes.filter(dex => dex.isAvailable()), ...probes];
+  }
+
+  /**
+   * Get tradable tokens for a network, highest priority first
+   */
+  private async getActiveTokens(network: NetworkName, screenedOnly: boolean = false): Promise<Token[]> {
+    const tokens = await AppDataSource.getRepository(Token).find({
+      where: { network, isActive: true },
+      order: { priority: 'ASC' },
+    });
+    return tokens.filter(token => token.isAvailable() && (!screenedOnly || token.lastVerified));
+  }
+
+  /**
+   * Screen active tokens that are new or due for another check, a few at a time
+   */
+  private async screenTokens(network: NetworkName, state: NetworkState): Promise<void> {
+    const screener = state.screener;
+    if (!screener) return;
+
+    state.isScreening = true;
+    try {
+      const [dexes, tokens] = await Promise.all([
+        this.getActiveDEXes(network),
+        this.getActiveTokens(network),
+      ]);
+
+      const due = tokens.filter(token => needsScreening(token)).slice(0, SCREEN_BATCH_SIZE);
+      for (const token of due) {
+        try {
+          await screener.screen(token, dexes, tokens);
+        } catch (error) {
+          logger.warn(`⚠️ Failed to screen ${token.symbol} on ${network}`, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    } catch (error) {
+      logger.error(`❌ Token screening failed on ${network}:`, error);
+    } finally {
+      state.isScreening = false;
+    }
+  }
+
+  /**
+   * Read the contract's maxGasPrice, which caps the fees of arbitrage transactions
+   */
+  private async getContractMaxGasPrice(network: NetworkName, contract: ArbitrageBotClient): Promise<bigint | undefined> {
+    try {
+      const { maxGasPrice } = await contract.getConfig();
+      return maxGasPrice;
+    } catch (error) {
+      logger.warn(`⚠️ Could not read arbitrage contract config on ${network}, fees are not capped`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Re-size every quoted route to the input amount with the highest net profit
+   * Routes that are not profitable after gas at any size within the token limits and balance are dropped,
+   * as are routes whose gas cannot be priced in their start token
+   * Contract routes of tokens with flash loan settings are also sized with borrowed input, and the
+   * funding that nets more after the loan fee is kept
+   */
+  private async sizeOpportunities(
+    network: NetworkName,
+    state: NetworkState,
+    quotes: ArbitrageQuote[],
+    dexes: DEX[],
+    tokens: Token[],
+    gasPrice: bigint,
+    sizer: TradeSizer = state.sizer,
+  ): Promise<SizedRoute[]> {
+    const { contract } = state;
+    const nativeToken = tokens.find(token => token.isWrappedNative);
+    const balances = new Map<string, Promise<bigint | null>>();
+
+    // Trades are funded from the contract's own balance, so the share of it one trade may use caps the trade size
+    // when a contract is configured
+    const getBalance = (token: Token, blockNumber: number): Promise<bigint | null> => {
+      if (!contract) return Promise.resolve(null);
+
+      let balance = balances.get(token.address);
+      if (!balance) {
+        balance = contract.getBalance(token.address, blockNumber).then(
+          tokenBalance => state.risk.getTradableBalance(tokenBalance),
+          (error: unknown) => {
+            logger.debug(`Failed to read ${token.symbol} balance of arbitrage contract`, {
+              network,
+              error: error instanceof Error ? error.message : String(error),
+            });
+            return null;
+          },
+        );
+        balances.set(token.address, balance);
+      }
+      return balance;
+    };
+
+    const results = await Promise.all(quotes.map(async quote => {
+      const token = quote.hops[0].tokenIn;
+      const gas = await state.gasModel.estimate(quote, gasPrice, dexes, nativeToken);
+      if (!gas) {
+        logger.debug(`Skipping ${token.symbol} route on ${network}, gas cannot be priced in ${token.symbol}`);
+        return null;
+      }
+
+      const flashLoan = contract && isPairRoute(quote.hops.map(toRouteHopData)) ? this.getRouteFlashLoan(quote) : null;
+      const candidates: SizedRoute[] = [];
+      if (flashLoan?.mode !== 'always') {
+        const limits = sizer.getLimits(token, await getBalance(token, quote.blockNumber), gas.gasCost);
+        const result = limits && await sizer.optimise(quote, limits);
+        if (result) candidates.push({ result, gas });
+      }
+      if (flashLoan) {
+        const flashGas = withExtraGas(gas, getFlashLoanGas(flashLoan));
+        const limits = sizer.getLimits(token, null, flashGas.gasCost, flashLoan);
+        const result = limits && await sizer.optimise(quote, limits);
+        if (result) candidates.push({ result, gas: flashGas });
+      }
+
+      const best = candidates.reduce<SizedRoute | null>(
+        (current, candidate) => (!current || candidate.result.netProfit > current.result.netProfit ? candidate : current),
+        null,
+      );
+      return best && best.result.netProfit > 0n ? best : null;
+    }));
+
+    return results.filter((sized): sized is SizedRoute => sized !== null);
+  }
+
+  /**
+   * Persist sized routes as detected opportunities, with any extra metadata
+   */
+  private async saveOpportunities(
+    network: NetworkName,
+    sized: SizedRoute[],
+    extraMetadata: Record<string, any> = {},
+  ): Promise<SavedOpportunity[]> {
+    if (sized.length === 0) return [];
+
+    const repository = AppDataSource.getRepository(ArbitrageOpportunity);
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + getOpportunityTTL());
+
+    const opportunities = sized.map(({ result: { quote, netProfit, flashLoanFee, limits, samples }, gas }) => {
+      const firstHop = quote.hops[0];
+      const lastHop = quote.hops[quote.hops.length - 1];
+      const tokenA = firstHop.tokenIn;
+      const tokenB = firstHop.tokenOut;
+      const amountIn = tokenA.fromRawAmount(quote.amountIn);
+      const profit = tokenA.fromRawAmount(quote.profit);
+      const net = tokenA.fromRawAmount(netProfit);
+      const usdRate = Number(tokenA.priceUSD) || undefined;
+
+      return repository.create({
+        network,
+        tokenPair: quote.hops.map(hop => hop.tokenIn.symbol).join('/'),
+        tokenA: tokenA.address,
+        tokenB: tokenB.address,
+        dexAAddress: firstHop.dex.routerAddress,
+        dexBAddress: lastHop.dex.routerAddress,
+        // Both prices are quoted per tokenA: buying on the first DEX, selling back to tokenA on the last
+        priceA: formatRatio(firstHop.quote.amountOut, tokenB.decimals, firstHop.amountIn, tokenA.decimals),
+        priceB: formatRatio(lastHop.amountIn, lastHop.tokenIn.decimals, quote.amountOut, tokenA.decimals),
+        route: quote.hops.map(toRouteHopData),
+        profitPercentage: net.percentOf(amountIn),
+        estimatedProfit: profit.toDecimal(),
+        estimatedGasCost: tokenA.fromRawAmount(gas.gasCost).toDecimal(),
+        estimatedNetProfit: net.toDecimal(),
+        estimatedNetProfitUSD: usdRate !== undefined ? Number((net.toNumber() * usdRate).toFixed(8)) : undefined,
+        requiredAmount: amountIn.toDecimal(),
+        estimatedGasFee: Amount.fromRaw(gas.gasFee, NATIVE_DECIMALS).toDecimal(),
+        status: OpportunityStatus.DETECTED,
+        detectedAt: now,
+        expiresAt,
+        metadata: {
+          blockNumber: quote.blockNumber,
+          hops: quote.hops.length,
+          dexAId: firstHop.dex.id,
+          dexBId: lastHop.dex.id,
+          dexAName: firstHop.dex.name,
+          dexBName: lastHop.dex.name,
+          feeA: firstHop.dex.getAdjustedFee(firstHop.quote.feeTier),
+          feeB: lastHop.dex.getAdjustedFee(lastHop.quote.feeTier),
+          amountOut: quote.amountOut.toString(),
+          grossProfitPercentage: profit.percentOf(amountIn),
+          usdRate,
+          // tokenA per native coin, to price the actual gas fee once the trade is mined
+          nativePrice: gas.nativePrice.withDecimals(DECIMAL_SCALE).toDecimal(),
+          gas: {
+            units: gas.gasUnits.toString(),
+            source: gas.gasSource,
+            priceSource: gas.priceSource,
+          },
+          sizing: {
+            netProfit: netProfit.toString(),
+            gasCost: limits.gasCost.toString(),
+            minAmount: limits.min.toString(),
+            maxAmount: limits.max.toString(),
+            limitedBy: limits.limitedBy,
+            samples,
+          },
+          flashLoan: limits.flashLoan && {
+            source: limits.flashLoan.source,
+            lender: limits.flashLoan.lender,
+            fee: tokenA.fromRawAmount(flashLoanFee).toDecimal(),
+          },
+          ...extraMetadata,
+        },
+      });
+    });
+
+    await repository.save(opportunities);
+    this.stats.opportunitiesDetected += opportunities.length;
+
+    for (const opportunity of opportunities) {
+      logger.info(`💡 Opportunity detected: ${opportunity.getSummary()}`, {
+        id: opportunity.id,
+        route: opportunity.getRouteDescription(),
+        block: opportunity.metadata.blockNumber,
+      });
+    }
+
+    return opportunities.map((opportunity, i) => ({ ...sized[i], opportunity }));
+  }
+
+  /**
+   * Size and save the routes predicted from a pending swap, tagged with metadata.source = 'mempool'
+   * They are not simulated or executed: they only pay off if they land right after the pending swap
+   */
+  private async handlePrediction(network: NetworkName, prediction: PendingPrediction): Promise<void> {
+    const state = this.networks.get(network);
+    if (!state || this.isPaused) return;
+
+    try {
+      const fees = await state.fees.getFees();
+      const sized = await this.sizeOpportunities(
+        network,
+        state,
+        prediction.quotes,
+        prediction.dexes,
+        prediction.tokens,
+        fees.gasPrice,
+        new TradeSizer(prediction.scanner),
+      );
+      if (sized.length === 0) return;
+
+      logger.info(`🔮 ${sized.length} opportunities predicted from pending swap on ${prediction.dex.name}`, {
+        network,
+        tx: prediction.txHash,
+        path: prediction.swap.path,
+      });
+      await this.saveOpportunities(network, sized, {
+        source: 'mempool',
+        pendingTx: prediction.txHash,
+        pendingDexId: prediction.dex.id,
+        pendingAmountIn: prediction.swap.amountIn.toString(),
+      });
+    } catch (error) {
+      logger.error(`❌ Failed to save predicted opportunities on ${network}:`, error);
+    }
+  }
+
+  /**
+   * Dry-run opportunities the deployed contract can execute; ones that would revert are marked failed
+   * Opportunities that pass stay ANALYZING until they are executed, and are returned
+   */
+  private async simulateOpportunities(
+    state: NetworkState,
+    saved: SavedOpportunity[],
+    gasPrice: bigint,
+  ): Promise<SavedOpportunity[]> {
+    const simulator = state.simulator;
+    if (!simulator) return [];
+
+    const repository = AppDataSource.getRepository(ArbitrageOpportunity);
+    const executable = saved
+      .map(entry => ({ ...entry, params: this.toArbitrageParams(entry.result) }))
+      .filter((entry): entry is SavedOpportunity & { params: ArbitrageParams } => entry.params !== null);
+
+    const passed = await Promise.all(executable.map(async ({ opportunity, result, gas, params }) => {
+      opportunity.markAsAnalyzing();
+      await repository.save(opportunity);
+
+      const simulation = await simulator.simulate(params, gasPrice, result.quote.blockNumber);
+      state.dexHealth.recordSimulation(result.quote.hops.map(hop => hop.dex), !simulation.success, simulation.error);
+
+      opportunity.metadata = {
+        ...opportunity.metadata,
+        simulation: {
+          success: simulation.success,
+          contractProfit: simulation.contractProfit?.toString(),
+          profitable: simulation.profitable,
+          error: simulation.error,
+        },
+      };
+      if (!simulation.success) {
+        opportunity.markAsFailed(`Simulation reverted: ${simulation.error}`);
+        logger.info(`🚫 Opportunity failed simulation: ${opportunity.getSummary()}`, {
+          id: opportunity.id,
+          reason: simulation.error,
+        });
+      }
+
+      await repository.save(opportunity);
+      return simulation.success ? { opportunity, result, gas } : null;
+    }));
+
+    return passed.filter((entry): entry is SavedOpportunity => entry !== null);
+  }
+
+  /**
+   * Send the most profitable simulated opportunity of each start token that the risk manager allows
+   * Trades on one token draw on the same contract balance or lender, so a token with a trade still pending is skipped
+   */
+  private async executeOpportunities(
+    network: NetworkName,
+    state: NetworkState,
+    passed: SavedOpportunity[],
+    fees: FeeQuote,
+  ): Promise<void> {
+    const executor = state.executor;
+    if (!executor || passed.length === 0) return;
+
+    if (state.fees.exceedsMaxGasPrice(fees)) {
+      logger.debug(`Not executing on ${network}, gas price is above the contract's maxGasPrice`, {
+        gasPrice: fees.gasPrice.toString(),
+      });
+      return;
+    }
+
+    const best = new Map<string, SavedOpportunity>();
+    for (const entry of passed) {
+      const token = entry.result.quote.hops[0].tokenIn.address;
+      const current = best.get(token);
+      if (!current || entry.result.netProfit > current.result.netProfit) {
+        best.set(token, entry);
+      }
+    }
+
+    const entries = [...best.entries()];
+    const results = await Promise.allSettled(entries.map(async ([token, { opportunity, result }]) => {
+      const params = this.toArbitrageParams(result);
+      if (!params || executor.hasPendingTrade(token) || !opportunity.isValid()) return;
+      // DEXes being probed after maintenance are scanned and simulated, but not traded on
+      if (result.quote.hops.some(hop => !state.dexHealth.isTradable(hop.dex.id))) return;
+      if (state.quorumScanner && !await this.confirmQuote(network, state.quorumScanner, result)) return;
+
+      const position = state.risk.toPosition(opportunity);
+      const rejection = position ? state.risk.reserve(opportunity.id, position) : 'trade size has no native price';
+      if (rejection) {
+        logger.info(`🛡️ Not executing on ${network}, ${rejection}: ${opportunity.getSummary()}`, {
+          opportunity: opportunity.id,
+        });
+        return;
+      }
+
+      let transaction: Transaction | null = null;
+      try {
+        transaction = await executor.execute(opportunity, params, result.quote.hops[0].tokenIn, fees);
+      } finally {
+        if (!transaction) state.risk.release(opportunity.id);
+      }
+    }));
+
+    results.forEach((settled, index) => {
+      if (settled.status === 'rejected') {
+        const { opportunity } = entries[index][1];
+        logger.error(`❌ Failed to execute on ${network}: ${opportunity.getSummary()}`, settled.reason);
+      }
+    });
+  }
+
+  /**
+   * Quote a sized route again at its block through a quorum of RPC endpoints
+   * Returns false, so the trade is skipped, if the endpoints disagree or do not confirm the scanned output
+   */
+  private async confirmQuote(network: NetworkName, quorumScanner: PairScanner, result: SizingResult): Promise<boolean> {
+    const { quote } = result;
+    const confirmed = await quorumScanner.quoteRoute(quote, quote.amountIn);
+    if (confirmed && confirmed.amountOut === quote.amountOut) return true;
+
+    logger.warn(`⚠️ Not executing on ${network}, RPC quorum does not confirm the quote`, {
+      block: quote.blockNumber,
+      expected: quote.amountOut.toString(),
+      confirmed: confirmed?.amountOut.toString(),
+    });
+    return false;
+  }
+
+  /**
+   * Pause the engine when trade outcomes run into a risk limit, and alert admins
+   */
+  private async handleRiskBreach(network: NetworkName, breach: RiskBreach): Promise<void> {
+    try {
+      logger.warn(`🛡️ Risk limit ${breach.limit} reached on ${network}: ${breach.message}`);
+      if (this.isPaused) return;
+
+      await this.notificationService.sendTelegramAlert(
+        '🛡️ Risk Limit Reached',
+        `Trading on ${network} stopped: ${breach.message}.\n\n`
+          + 'The engine has been paused. Raise the limit with /settings or /resume once the cause is fixed; '
+          + 'the daily loss resets at midnight UTC.',
+        { network, ...breach, risk: this.getRiskStatus(network) },
+      );
+      await this.pause();
+    } catch (error) {
+      logger.error(`❌ Failed to pause on risk limit of ${network}:`, error);
+    }
+  }
+
+  /**
+   * Flash loan settings of a route's start token, unless the lender is one of the route's pools
+   * A V2 pair is locked while it lends, so swapping through it in the same trade would revert
+   */
+  private getRouteFlashLoan(quote: ArbitrageQuote): FlashLoanConfig | null {
+    const token = quote.hops[0].tokenIn;
+    const flashLoan = getFlashLoanConfig(token);
+    if (!flashLoan) return null;
+
+    const lender = flashLoan.lender.toLowerCase();
+    if (quote.hops.some(hop => hop.quote.pool.toLowerCase() === lender)) {
+      logger.debug(`Not borrowing ${token.symbol} for a route through its flash loan lender`, { lender });
+      return null;
+    }
+    return flashLoan;
+  }
+
+  /**
+   * Contract call parameters for a sized route, or null if the contract cannot execute it
+   */
+  private toArbitrageParams(result: SizingResult): ArbitrageParams | null {
+    const { quote, flashLoanFee, limits } = result;
+    return toArbitrageParams(quote.hops.map(toRouteHopData), {
+      maxSlippage: this.config.maxSlippage,
+      gasLimit: this.config.maxGasLimit,
+      flashLoan: limits.flashLoan && toFlashLoanParams(limits.flashLoan),
+      flashLoanFee,
+    });
+  }
+
+  /**
+   * Load the bot accounts of a network into a wallet pool; undefined if none is configured or loads
+   */
+  private async loadWallets(
+    network: NetworkName,
+    provider: ProviderPool,
+    contract: ArbitrageBotClient,
+    fees: FeeStrategy,
+  ): Promise<WalletPool | undefined> {
+    try {
+      return await createWalletPool(network, provider, contract, fees) ?? undefined;
+    } catch (error) {
+      logger.error(`❌ Failed to load the bot accounts of ${network}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Create the mempool watcher of a network, or warn if it has no WebSocket endpoint
+   */
+  private createMempoolWatcher(network: NetworkName, scanner: PairScanner): MempoolWatcher | undefined {
+    const wsUrl = getWsUrl(network);
+    if (!wsUrl) {
+      logger.warn(`⚠️ No ${network.toUpperCase()}_WS_URL, pending transactions on ${network} are not watched`);
+      return undefined;
+    }
+
+    return new MempoolWatcher(network, wsUrl, scanner, prediction => this.handlePrediction(network, prediction));
+  }
+
+  /**
+   * Mark detected opportunities past their expiry as expired
+   */
+  private async expireOpportunities(network: NetworkName): Promise<void> {
+    await AppDataSource.getRepository(ArbitrageOpportunity).update(
+      {
+        network,
+        status: In([OpportunityStatus.DETECTED, OpportunityStatus.ANALYZING]),
+        expiresAt: LessThan(new Date()),
+      },
+      { status: OpportunityStatus.EXPIRED },
+    );
+  }
+
+  /**
+   * Check if engine is running
+   */
+  isAlive(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * Health check for the engine
+   */
+  async healthCheck(): Promise<{ healthy: boolean; details: any }> {
+    const networks: Record<string, any> = {};
+    let healthy = this.isRunning;
+
+    for (const [network, state] of this.networks) {
+      try {
+        const blockNumber = await state.provider.getBlockNumber();
+        networks[network] = {
+          blockNumber,
+          lastScannedBlock: state.lastBlock,
+          lastScanAt: state.lastScanAt,
+          lastScanDuration: state.lastScanDuration,
+          lastError: state.lastError,
+          pendingTransactions: state.executor?.getPendingCount() ?? 0,
+          rpcEndpoints: state.provider.getEndpointStatus(),
+          dexBreakers: state.dexHealth.getStatus(),
+          mempool: state.mempool?.getStatus(),
+          wallets: state.wallets?.getStatus(),
+        };
+      } catch (error) {
+        healthy = false;
+        networks[network] = {
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    }
+
+    return {
+      healthy,
+      details: {
+        running: this.isRunning,
+        paused: this.isPaused,
+        networks,
+        ...this.stats,
+      },
+    };
+  }
+
+  /**
+   * Get live opportunities ranked by estimated profit after gas, for /opportunities
+   * Opportunities in tokens with a USD price are ranked by USD net profit; the rest follow by net percentage
+   */
+  getRankedOpportunities(limit: number = 10, network?: NetworkName): Promise<ArbitrageOpportunity[]> {
+    return AppDataSource.getRepository(ArbitrageOpportunity).find({
+      where: {
+        ...(network ? { network } : {}),
+        status: In([OpportunityStatus.DETECTED, OpportunityStatus.ANALYZING, OpportunityStatus.EXECUTING]),
+        // Also leaves out rows detected before net profit was estimated
+        estimatedNetProfit: MoreThan('0'),
+      },
+      order: {
+        estimatedNetProfitUSD: { direction: 'DESC', nulls: 'LAST' },
+        profitPercentage: 'DESC',
+      },
+      take: limit,
+    });
+  }
+
+  /**
+   * Get the scanning state and RPC endpoints of every running network, for /networks and the health monitor
+   */
+  getNetworkStatus(): Record<string, NetworkStatus> {
+    const networks: Record<string, NetworkStatus> = {};
+    for (const [network, state] of this.networks) {
+      networks[network] = {
+        lastScannedBlock: state.lastBlock,
+        lastScanAt: state.lastScanAt,
+        lastScanDuration: state.lastScanDuration,
+        lastError: state.lastError,
+        quorum: state.quorumScanner !== undefined,
+        submission: state.executor?.getSubmissionRoute(),
+        rpcEndpoints: state.provider.getEndpointStatus(),
+        mempool: state.mempool?.getStatus(),
+      };
+    }
+    return networks;
+  }
+
+  /**
+   * Get the risk limits of a network, for /settings
+   */
+  getRiskLimits(network: NetworkName): RiskLimits {
+    return this.networks.get(network)?.risk.getLimits() ?? this.riskLimits.get(network) ?? getRiskLimits(network);
+  }
+
+  /**
+   * Change risk limits of a network from /settings, returning a message for each invalid change
+   * Changes apply at once and last until the process restarts
+   */
+  updateRiskLimits(network: NetworkName, changes: Partial<RiskLimits>): string[] {
+    const errors = validateRiskLimits(changes);
+    if (errors.length > 0) return errors;
+
+    const limits = { ...this.getRiskLimits(network), ...changes };
+    this.riskLimits.set(network, limits);
+    this.networks.get(network)?.risk.setLimits(limits);
+
+    logger.info(`🛡️ Risk limits of ${network} updated`, changes);
+    return [];
+  }
+
+  /**
+   * Get a network's risk limits, today's realised profit and loss and open exposure, or null if it is not running
+   */
+  getRiskStatus(network: NetworkName): RiskStatus | null {
+    return this.networks.get(network)?.risk.getStatus() ?? null;
+  }
+
+  /**
+   * Get the owner-only calls of a network's arbitrage contract, for the contract admin commands
+   * Undefined if the network is not running or has no contract or bot account
+   */
+  getContractAdmin(network: NetworkName): ContractAdmin | undefined {
+    return this.networks.get(network)?.admin;
+  }
+
+  /**
+   * Get engine statistics
+   */
+  getStats(): Record<string, any> {
+    return {
+      isRunning: this.isRunning,
+      isPaused: this.isPaused,
+      startedAt: this.startedAt,
+      uptime: this.startedAt ? Date.now() - this.startedAt.getTime() : 0,
+      networks: [...this.networks.keys()],
+      ...this.stats,
+    };
+  }
+}
+
+/**
+ * Gas estimate with extra units, such as a flash loan's, paid at the same price per unit as the route
+ */
+function withExtraGas(gas: GasEstimate, extraUnits: bigint): GasEstimate {
+  return {
+    ...gas,
+    gasUnits: gas.gasUnits + extraUnits,
+    gasFee: gas.gasFee + gas.gasFee * extraUnits / gas.gasUnits,
+    gasCost: gas.gasCost + gas.gasCost * extraUnits / gas.gasUnits,
+  };
+}
+
+/**
+ * Serialise a quoted hop for ArbitrageOpportunity.route
+ */
+function toRouteHopData(hop: RouteHop): RouteHopData {
+  return {
+    dexId: hop.dex.id,
+    dexName: hop.dex.name,
+    dexType: hop.dex.type,
+    router: hop.dex.routerAddress,
+    pool: hop.quote.pool,
+    feeTier: hop.quote.feeTier,
+    tokenIn: hop.tokenIn.address,
+    tokenOut: hop.tokenOut.address,
+    tokenInSymbol: hop.tokenIn.symbol,
+    tokenOutSymbol: hop.tokenOut.symbol,
+    amountIn: hop.amountIn.toString(),
+    amountOut: hop.quote.amountOut.toString(),
+  };
+}
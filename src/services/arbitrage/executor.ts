@@ -0,0 +1,652 @@
+import { randomUUID } from 'crypto';
+import { Provider, TransactionReceipt, isError } from 'ethers';
+import { In } from 'typeorm';
+import { AppDataSource } from '../../config/database';
+import { getNetworkConfig } from '../../config/networks';
+import { getReplacementConfig } from '../../config/arbitrage';
+import { ArbitrageParams, NetworkName, ReplacementConfig, SwapHopParams } from '../../types';
+import { ArbitrageOpportunity } from '../../entities/ArbitrageOpportunity';
+import { Token } from '../../entities/Token';
+import { Transaction, TransactionStatus, TransactionType } from '../../entities/Transaction';
+import { ArbitrageExecutedEvent } from '../blockchain/arbitrageBot';
+import { FeeQuote, FeeStrategy, toFeeOverrides } from '../blockchain/fees';
+import { SubmissionResult, TransactionSubmitter } from '../blockchain/submission';
+import { HotWallet, WalletPool } from '../blockchain/wallets';
+import { decodeRevertReason } from './simulator';
+import { RiskManager, RiskPosition } from './risk';
+import { Amount, DECIMAL_SCALE, NATIVE_DECIMALS } from '../../utils/amount';
+import { arbitrageLogger as logger } from '../../utils/logger';
+
+// A transaction that is neither mined nor known to the node for this long is considered dropped
+const DROP_TIMEOUT_MS = 3 * 60 * 1000;
+// Gas of a plain transfer, used by cancellations
+const CANCEL_GAS_LIMIT = 21000n;
+
+/**
+ * One signed version of a trade's nonce, as recorded in Transaction.metadata.broadcasts
+ */
+interface Broadcast {
+  hash: string;
+  action: 'submit' | 'speedup' | 'cancel';
+  block?: number;
+  fees: Record<string, string>;
+}
+
+/**
+ * Route of a trade's submission, as recorded in Transaction.metadata.submission
+ */
+type StoredSubmission = Omit<SubmissionResult, 'hash'>;
+
+/**
+ * ArbitrageParams as stored in Transaction.metadata.params, with amounts as strings
+ */
+interface StoredParams {
+  tokenA: string;
+  tokenB: string;
+  dexA: string;
+  dexB: string;
+  amountIn: string;
+  minProfitThreshold: string;
+  maxSlippage: number;
+  gasLimit: number;
+  flashLoanSource?: number;
+  flashLoanLender?: string;
+  flashLoanLenderFee?: number;
+  hops?: (Omit<SwapHopParams, 'minAmountOut'> & { minAmountOut: string })[];
+}
+
+/**
+ * Submitted transaction waiting for its confirmations
+ */
+interface PendingTrade {
+  transaction: Transaction;
+  wallet: HotWallet; // Sent from this wallet, with its nonce
+  nonce: number;
+  params?: ArbitrageParams; // Needed to speed up; missing on transactions sent before replacements were recorded
+  profitDecimals: number;
+  fees: FeeQuote; // Fees of the latest broadcast
+  broadcasts: Broadcast[]; // Every version sent with this nonce, oldest first
+  submission: StoredSubmission;
+  lastSentBlock?: number;
+  receiptBlockHash?: string; // Block the transaction was last seen in, to detect reorgs
+}
+
+/**
+ * Sends executeArbitrage transactions for one network and follows them until they are final
+ * Each trade is sent from a wallet of the pool and takes its nonce from that wallet's NonceManager
+ * Public transactions that stay pending are sped up or cancelled; bundles that miss their blocks are failed
+ */
+export class ArbitrageExecutor {
+  private pending = new Map<string, PendingTrade>(); // By Transaction id
+  private isTracking = false;
+  private confirmations: number;
+  private replacement: ReplacementConfig;
+
+  constructor(
+    private network: NetworkName,
+    private provider: Provider,
+    private wallets: WalletPool,
+    private fees: FeeStrategy,
+    private risk: RiskManager, // Told about every final outcome
+  ) {
+    this.confirmations = getNetworkConfig(network).confirmations;
+    this.replacement = getReplacementConfig();
+  }
+
+  /**
+   * Resume tracking transactions left pending by a previous run
+   */
+  async loadPending(): Promise<void> {
+    const transactions = await AppDataSource.getRepository(Transaction).find({
+      where: {
+        network: this.network,
+        fromAddress: In(this.wallets.addresses),
+        type: TransactionType.ARBITRAGE,
+        status: TransactionStatus.PENDING,
+      },
+    });
+
+    for (const transaction of transactions) {
+      const wallet = this.wallets.claim(transaction.fromAddress);
+      if (!wallet) continue;
+
+      const metadata = transaction.metadata ?? {};
+      if (metadata.exposure && transaction.opportunityId) {
+        this.risk.restore(transaction.opportunityId, metadata.exposure as RiskPosition);
+      }
+      const broadcasts: Broadcast[] = metadata.broadcasts ?? [{ hash: transaction.hash, action: 'submit', fees: {} }];
+
+      this.pending.set(transaction.id, {
+        transaction,
+        wallet,
+        nonce: metadata.nonce,
+        params: metadata.params ? deserialiseParams(metadata.params as StoredParams) : undefined,
+        profitDecimals: metadata.profitDecimals ?? DECIMAL_SCALE,
+        fees: deserialiseFees(broadcasts[broadcasts.length - 1].fees),
+        broadcasts,
+        submission: metadata.submission ?? { route: 'public' },
+        lastSentBlock: broadcasts[broadcasts.length - 1].block,
+      });
+    }
+
+    if (transactions.length > 0) {
+      logger.info(`🔁 Tracking ${transactions.length} pending transactions on ${this.network}`);
+    }
+  }
+
+  /**
+   * How trades are submitted, for /networks
+   */
+  getSubmissionRoute(): TransactionSubmitter['route'] {
+    return this.wallets.primary.submitter.route;
+  }
+
+  /**
+   * Number of transactions waiting for confirmations
+   */
+  getPendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Check if a trade starting with the token is still waiting for confirmations
+   * Its input is not back in the contract until then, so another trade could fail on the balance
+   */
+  hasPendingTrade(token: string): boolean {
+    const address = token.toLowerCase();
+    return [...this.pending.values()].some(
+      ({ transaction }) => transaction.inputToken?.toLowerCase() === address,
+    );
+  }
+
+  /**
+   * Submit executeArbitrage for an opportunity and save it as a pending Transaction
+   * The trade is tracked as soon as it is sent, so its wallet and nonce are released by its outcome even if saving
+   * it fails; every later save of the Transaction inserts it again
+   * Returns null if the transaction could not be submitted, marking the opportunity failed, or if no wallet is
+   * authorized to send it
+   */
+  async execute(
+    opportunity: ArbitrageOpportunity,
+    params: ArbitrageParams,
+    token: Token,
+    fees: FeeQuote,
+  ): Promise<Transaction | null> {
+    const opportunities = AppDataSource.getRepository(ArbitrageOpportunity);
+    const transactions = AppDataSource.getRepository(Transaction);
+
+    const wallet = this.wallets.acquire();
+    if (!wallet) {
+      logger.warn(`⚠️ No authorized bot account on ${this.network}, not executing`, {
+        opportunity: opportunity.id,
+      });
+      return null;
+    }
+
+    let nonce: number | undefined;
+    let result: SubmissionResult;
+    try {
+      // Saved inside the try so that the wallet is released if the save fails
+      opportunity.markAsExecuting();
+      await opportunities.save(opportunity);
+
+      nonce = await wallet.nonces.next();
+      const request = await wallet.client.populateExecuteArbitrage(params, { nonce, ...toFeeOverrides(fees) });
+      result = await wallet.submitter.submit(request);
+    } catch (error) {
+      this.wallets.release(wallet);
+      if (nonce !== undefined) {
+        this.handleSendError(wallet, nonce, error);
+      }
+
+      const reason = decodeRevertReason(error);
+      opportunity.markAsFailed(`Submission failed: ${reason}`);
+      await opportunities.save(opportunity);
+
+      logger.error(`❌ Failed to submit arbitrage on ${this.network}: ${reason}`, { opportunity: opportunity.id });
+      return null;
+    }
+
+    const { hash, ...submission } = result;
+    const amountIn = Amount.fromRaw(params.amountIn, token.decimals);
+    const broadcasts: Broadcast[] = [{ hash, action: 'submit', fees: serialiseFees(fees) }];
+    const transaction = transactions.create({
+      id: randomUUID(), // Set here so the trade can be tracked before it is saved
+      hash,
+      network: this.network,
+      type: TransactionType.ARBITRAGE,
+      status: TransactionStatus.PENDING,
+      fromAddress: wallet.address,
+      toAddress: wallet.client.address,
+      gasUsed: '0',
+      gasPrice: Amount.fromRaw(fees.gasPrice, NATIVE_DECIMALS).toDecimal(),
+      gasFee: '0',
+      inputAmount: amountIn.toDecimal(),
+      inputToken: params.tokenA,
+      outputToken: params.tokenA,
+      profitToken: token.symbol,
+      opportunityId: opportunity.id,
+      metadata: {
+        nonce,
+        profitDecimals: token.decimals,
+        params: serialiseParams(params),
+        broadcasts,
+        submission,
+        reorgs: 0,
+        exposure: this.risk.toPosition(opportunity) ?? undefined,
+      },
+    });
+
+    this.pending.set(transaction.id, {
+      transaction,
+      wallet,
+      nonce,
+      params,
+      profitDecimals: token.decimals,
+      fees,
+      broadcasts,
+      submission,
+    });
+    logger.info(`📤 Arbitrage submitted on ${this.network}: ${opportunity.getSummary()}`, {
+      hash,
+      from: wallet.address,
+      nonce,
+      route: submission.route,
+      bundleHash: submission.bundleHash,
+      opportunity: opportunity.id,
+    });
+
+    try {
+      await transactions.save(transaction);
+    } catch (error) {
+      logger.error(`❌ Failed to save arbitrage transaction ${hash} on ${this.network}, tracking it in memory:`, error);
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Check every pending transaction against the chain at a new block
+   * Receipts are only acted on once they have the network's confirmations, so shallow reorgs are followed
+   */
+  async trackReceipts(blockNumber: number): Promise<void> {
+    if (this.isTracking || this.pending.size === 0) return;
+
+    this.isTracking = true;
+    try {
+      for (const trade of [...this.pending.values()]) {
+        // Failed while checking an earlier trade of its wallet
+        if (!this.pending.has(trade.transaction.id)) continue;
+
+        try {
+          await this.checkTrade(trade, blockNumber);
+        } catch (error) {
+          logger.warn(`⚠️ Failed to check transaction ${trade.transaction.hash} on ${this.network}`, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    } finally {
+      this.isTracking = false;
+    }
+  }
+
+  /**
+   * Follow one pending transaction: wait for confirmations, notice reorgs, dropped and stuck transactions
+   */
+  private async checkTrade(trade: PendingTrade, blockNumber: number): Promise<void> {
+    const { transaction } = trade;
+    const mined = await this.findReceipt(trade);
+
+    if (!mined) {
+      if (trade.receiptBlockHash) {
+        // Mined before but no longer in the canonical chain; it is back in the mempool or dropped
+        logger.warn(`🔀 Transaction ${transaction.hash} on ${this.network} was removed by a reorg`);
+        trade.receiptBlockHash = undefined;
+        await this.recordReorg(trade);
+        return;
+      }
+      if (trade.submission.route === 'bundle') {
+        await this.checkBundle(trade, blockNumber);
+        return;
+      }
+      if (await this.checkDropped(trade)) return;
+
+      await this.replaceIfStuck(trade, blockNumber);
+      return;
+    }
+
+    const { receipt, broadcast } = mined;
+
+    if (trade.receiptBlockHash && trade.receiptBlockHash !== receipt.blockHash) {
+      logger.warn(`🔀 Transaction ${transaction.hash} on ${this.network} moved to block ${receipt.blockNumber} by a reorg`);
+      await this.recordReorg(trade);
+    }
+    trade.receiptBlockHash = receipt.blockHash;
+
+    if (blockNumber - receipt.blockNumber + 1 >= this.confirmations) {
+      await this.finalise(trade, receipt, broadcast);
+    }
+  }
+
+  /**
+   * Receipt of whichever version of the trade was mined, newest first
+   */
+  private async findReceipt(trade: PendingTrade): Promise<{ receipt: TransactionReceipt; broadcast: Broadcast } | null> {
+    for (const broadcast of [...trade.broadcasts].reverse()) {
+      const receipt = await this.provider.getTransactionReceipt(broadcast.hash);
+      if (receipt) return { receipt, broadcast };
+    }
+    return null;
+  }
+
+  /**
+   * Replace a transaction that has waited replaceAfterBlocks blocks since it was last sent
+   * It is sped up with bumped fees up to maxSpeedUps times, then cancelled with a self-transfer at the same nonce;
+   * it is cancelled straight away if the bumped fees would exceed the contract's maxGasPrice
+   */
+  private async replaceIfStuck(trade: PendingTrade, blockNumber: number): Promise<void> {
+    if (trade.lastSentBlock === undefined) {
+      trade.lastSentBlock = blockNumber;
+      return;
+    }
+    if (blockNumber - trade.lastSentBlock < this.replacement.replaceAfterBlocks) return;
+
+    const fees = this.fees.bump(trade.fees, await this.fees.getFees(), this.replacement.bumpPercent);
+    const speedUps = trade.broadcasts.filter(broadcast => broadcast.action === 'speedup').length;
+    const cancelling = trade.broadcasts.some(broadcast => broadcast.action === 'cancel');
+    const { params, wallet } = trade;
+    const canSpeedUp = params && !cancelling && speedUps < this.replacement.maxSpeedUps;
+    const action = canSpeedUp && !this.fees.exceedsMaxGasPrice(fees) ? 'speedup' : 'cancel';
+
+    let hash: string;
+    try {
+      const request = action === 'speedup' && params
+        ? await wallet.client.populateExecuteArbitrage(params, { nonce: trade.nonce, ...toFeeOverrides(fees) })
+        : {
+          to: wallet.address,
+          value: 0n,
+          nonce: trade.nonce,
+          gasLimit: CANCEL_GAS_LIMIT,
+          ...toFeeOverrides(fees),
+        };
+      ({ hash } = await wallet.submitter.submit(request));
+    } catch (error) {
+      if (isError(error, 'REPLACEMENT_UNDERPRICED')) {
+        // Bump from the rejected fees next time
+        trade.fees = fees;
+      } else if (!isError(error, 'NONCE_EXPIRED')) {
+        // NONCE_EXPIRED means one of the versions was mined, which the next block picks up
+        logger.warn(`⚠️ Failed to ${action} transaction ${trade.transaction.hash} on ${this.network}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      trade.lastSentBlock = blockNumber;
+      return;
+    }
+
+    const { transaction } = trade;
+    trade.broadcasts.push({ hash, action, block: blockNumber, fees: serialiseFees(fees) });
+    trade.fees = fees;
+    trade.lastSentBlock = blockNumber;
+
+    transaction.hash = hash;
+    transaction.gasPrice = Amount.fromRaw(fees.gasPrice, NATIVE_DECIMALS).toDecimal();
+    transaction.retryCount += 1;
+    transaction.metadata = { ...transaction.metadata, broadcasts: trade.broadcasts };
+    await AppDataSource.getRepository(Transaction).save(transaction);
+
+    logger.info(`${action === 'speedup' ? '⏫ Sped up' : '🚫 Cancelling'} stuck transaction on ${this.network}`, {
+      hash,
+      nonce: trade.nonce,
+      replaces: trade.broadcasts[trade.broadcasts.length - 2].hash,
+      gasPrice: fees.gasPrice.toString(),
+    });
+  }
+
+  /**
+   * Fail a bundle that was not included by the last block the relay accepted it for
+   * Bundles never reach the public mempool, so they are not replaced. Its nonce stays unused, so the wallet's
+   * bundles with later nonces can never be included either; they are failed with it before the nonce is read
+   * again, rather than left to clash with the trades that reuse their nonces
+   */
+  private async checkBundle(trade: PendingTrade, blockNumber: number): Promise<void> {
+    const lastBlock = Math.max(...(trade.submission.targetBlocks ?? [0]));
+    if (blockNumber <= lastBlock) return;
+
+    // The receipt may have appeared since it was requested
+    if (await this.findReceipt(trade)) return;
+
+    const stranded = [...this.pending.values()].filter(other =>
+      other !== trade &&
+      other.wallet === trade.wallet &&
+      other.submission.route === 'bundle' &&
+      other.nonce > trade.nonce,
+    );
+    await this.fail(trade, `Bundle not included by block ${lastBlock}`);
+    for (const other of stranded) {
+      if (await this.findReceipt(other)) continue;
+      await this.fail(other, `Bundle cannot be included, nonce ${trade.nonce} before it was not used`);
+    }
+    trade.wallet.nonces.reset();
+  }
+
+  /**
+   * Fail a transaction that will never be mined, returning true if it was handled here
+   * It is dropped once the account's nonce has moved past it, or once the node forgets it for DROP_TIMEOUT_MS
+   */
+  private async checkDropped(trade: PendingTrade): Promise<boolean> {
+    const { transaction, wallet } = trade;
+    const minedNonce = await this.provider.getTransactionCount(wallet.address, 'latest');
+
+    if (minedNonce > trade.nonce) {
+      // The receipt may have appeared since it was requested
+      if (await this.findReceipt(trade)) return true;
+
+      await this.fail(trade, 'Dropped: nonce was used by another transaction');
+      return true;
+    }
+
+    const known = await this.provider.getTransaction(transaction.hash);
+    if (!known && Date.now() - transaction.updatedAt.getTime() > DROP_TIMEOUT_MS) {
+      await this.fail(trade, 'Dropped from the mempool');
+      // Its nonce is unused, so later transactions would wait behind the gap
+      wallet.nonces.reset();
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Record the final outcome of a mined transaction on it and its opportunity
+   */
+  private async finalise(trade: PendingTrade, receipt: TransactionReceipt, broadcast: Broadcast): Promise<void> {
+    const { transaction } = trade;
+    const opportunity = await this.findOpportunity(transaction);
+
+    transaction.hash = broadcast.hash;
+    transaction.gasUsed = receipt.gasUsed.toString();
+    transaction.gasPrice = Amount.fromRaw(receipt.gasPrice, NATIVE_DECIMALS).toDecimal();
+    transaction.gasFee = Amount.fromRaw(receipt.fee, NATIVE_DECIMALS).toDecimal();
+
+    if (broadcast.action === 'cancel') {
+      const reason = `Cancelled after ${trade.broadcasts.length - 1} replacements`;
+      transaction.markAsCancelled(receipt.blockNumber, receipt.index, reason);
+      if (opportunity) {
+        opportunity.actualGasFee = transaction.gasFee;
+        opportunity.markAsFailed(reason);
+      }
+
+      logger.warn(`🚫 Arbitrage transaction cancelled on ${this.network}`, {
+        hash: transaction.hash,
+        block: receipt.blockNumber,
+      });
+    } else if (receipt.status === 1) {
+      const executed = trade.wallet.client
+        .parseReceipt(receipt)
+        .find((event): event is ArbitrageExecutedEvent => event.name === 'ArbitrageExecuted');
+      const profit = Amount.fromRaw(executed?.profit ?? 0n, trade.profitDecimals);
+      const amountIn = Amount.parse(transaction.inputAmount, trade.profitDecimals);
+
+      transaction.profitAmount = profit.toDecimal();
+      transaction.outputAmount = amountIn.add(profit).toDecimal();
+      transaction.profitPercentage = profit.percentOf(amountIn);
+      transaction.markAsConfirmed(receipt.blockNumber, receipt.index);
+      opportunity?.markAsCompleted(profit.toDecimal(), transaction.gasFee);
+
+      logger.info(`✅ Arbitrage confirmed on ${this.network}: ${transaction.profitAmount} ${transaction.profitToken}`, {
+        hash: transaction.hash,
+        block: receipt.blockNumber,
+        gasFee: transaction.gasFee,
+      });
+    } else {
+      transaction.blockNumber = receipt.blockNumber;
+      transaction.transactionIndex = receipt.index;
+      transaction.markAsFailed('Transaction reverted');
+      if (opportunity) {
+        opportunity.actualGasFee = transaction.gasFee;
+        opportunity.markAsFailed('Transaction reverted');
+      }
+
+      logger.warn(`⚠️ Arbitrage reverted on ${this.network}`, {
+        hash: transaction.hash,
+        block: receipt.blockNumber,
+      });
+    }
+
+    await this.saveOutcome(trade, opportunity);
+  }
+
+  /**
+   * Fail a transaction that was not mined, and its opportunity
+   */
+  private async fail(trade: PendingTrade, reason: string): Promise<void> {
+    const opportunity = await this.findOpportunity(trade.transaction);
+
+    trade.transaction.markAsFailed(reason);
+    opportunity?.markAsFailed(reason);
+
+    logger.warn(`⚠️ Arbitrage transaction ${trade.transaction.hash} on ${this.network}: ${reason}`);
+    await this.saveOutcome(trade, opportunity);
+  }
+
+  /**
+   * Persist a final transaction and its opportunity, stop tracking it and report the outcome to the risk manager
+   */
+  private async saveOutcome(trade: PendingTrade, opportunity: ArbitrageOpportunity | null): Promise<void> {
+    await AppDataSource.getRepository(Transaction).save(trade.transaction);
+    if (opportunity) {
+      await AppDataSource.getRepository(ArbitrageOpportunity).save(opportunity);
+    }
+    this.pending.delete(trade.transaction.id);
+    this.wallets.release(trade.wallet);
+    this.risk.recordOutcome(trade.transaction, opportunity);
+  }
+
+  /**
+   * Count reorgs that affected a transaction in its metadata
+   */
+  private async recordReorg(trade: PendingTrade): Promise<void> {
+    const { transaction } = trade;
+    transaction.metadata = {
+      ...transaction.metadata,
+      reorgs: (transaction.metadata?.reorgs ?? 0) + 1,
+    };
+    await AppDataSource.getRepository(Transaction).save(transaction);
+  }
+
+  /**
+   * Load the opportunity a transaction executes
+   */
+  private findOpportunity(transaction: Transaction): Promise<ArbitrageOpportunity | null> {
+    if (!transaction.opportunityId) return Promise.resolve(null);
+    return AppDataSource.getRepository(ArbitrageOpportunity).findOneBy({ id: transaction.opportunityId });
+  }
+
+  /**
+   * Return or resync the nonce of a transaction that failed to send
+   * Only errors the node reports before accepting the transaction free the nonce; anything else may have reached
+   * the mempool, so the nonce is read from the node again
+   */
+  private handleSendError(wallet: HotWallet, nonce: number, error: unknown): void {
+    if (
+      isError(error, 'NONCE_EXPIRED') ||
+      isError(error, 'REPLACEMENT_UNDERPRICED') ||
+      isError(error, 'NETWORK_ERROR') ||
+      isError(error, 'TIMEOUT') ||
+      isError(error, 'SERVER_ERROR')
+    ) {
+      wallet.nonces.reset();
+    } else {
+      wallet.nonces.release(nonce);
+    }
+  }
+}
+
+/**
+ * ArbitrageParams as stored in Transaction.metadata, with amounts as strings
+ */
+function serialiseParams(params: ArbitrageParams): StoredParams {
+  const { flashLoan, hops, ...rest } = params;
+  return {
+    ...rest,
+    amountIn: params.amountIn.toString(),
+    minProfitThreshold: params.minProfitThreshold.toString(),
+    ...(flashLoan
+      ? { flashLoanSource: flashLoan.source, flashLoanLender: flashLoan.lender, flashLoanLenderFee: flashLoan.lenderFee }
+      : {}),
+    ...(hops ? { hops: hops.map(hop => ({ ...hop, minAmountOut: hop.minAmountOut.toString() })) } : {}),
+  };
+}
+
+/**
+ * ArbitrageParams read back from Transaction.metadata
+ */
+function deserialiseParams(params: StoredParams): ArbitrageParams {
+  return {
+    tokenA: String(params.tokenA),
+    tokenB: String(params.tokenB),
+    dexA: String(params.dexA),
+    dexB: String(params.dexB),
+    amountIn: BigInt(params.amountIn),
+    minProfitThreshold: BigInt(params.minProfitThreshold),
+    maxSlippage: Number(params.maxSlippage),
+    gasLimit: Number(params.gasLimit),
+    flashLoan: params.flashLoanLender !== undefined
+      ? {
+        source: Number(params.flashLoanSource),
+        lender: String(params.flashLoanLender),
+        lenderFee: Number(params.flashLoanLenderFee ?? 0),
+      }
+      : undefined,
+    hops: params.hops?.map(hop => ({
+      router: String(hop.router),
+      path: hop.path.map(String),
+      kind: Number(hop.kind),
+      fee: Number(hop.fee),
+      minAmountOut: BigInt(hop.minAmountOut),
+    })),
+  };
+}
+
+/**
+ * FeeQuote as stored in a Broadcast, with fees as strings
+ */
+function serialiseFees(fees: FeeQuote): Record<string, string> {
+  const serialised: Record<string, string> = { type: fees.type, gasPrice: fees.gasPrice.toString() };
+  if (fees.maxFeePerGas !== undefined) serialised.maxFeePerGas = fees.maxFeePerGas.toString();
+  if (fees.maxPriorityFeePerGas !== undefined) serialised.maxPriorityFeePerGas = fees.maxPriorityFeePerGas.toString();
+  return serialised;
+}
+
+/**
+ * FeeQuote read back from a Broadcast
+ */
+function deserialiseFees(fees: Record<string, string>): FeeQuote {
+  return {
+    type: fees.type === 'eip1559' ? 'eip1559' : 'legacy',
+    gasPrice: BigInt(fees.gasPrice ?? 0),
+    maxFeePerGas: fees.maxFeePerGas !== undefined ? BigInt(fees.maxFeePerGas) : undefined,
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas !== undefined ? BigInt(fees.maxPriorityFeePerGas) : undefined,
+  };
+}
@@ -0,0 +1,124 @@
+import { isAddress } from 'ethers';
+import { FlashLoanParams } from '../../types';
+import { Token } from '../../entities/Token';
+import { arbitrageLogger as logger } from '../../utils/logger';
+
+export type FlashLoanSource = 'aave' | 'uniswap_v2' | 'uniswap_v3';
+
+// Value of each source in the contract's FlashLoanSource enum
+const CONTRACT_SOURCES: Record<FlashLoanSource, number> = {
+  aave: 0,
+  uniswap_v2: 1,
+  uniswap_v3: 2,
+};
+// Gas for borrowing and repaying, on top of the route itself
+const FLASH_LOAN_GAS: Record<FlashLoanSource, bigint> = {
+  aave: 90000n,
+  uniswap_v2: 60000n,
+  uniswap_v3: 70000n,
+};
+// Aave V3 FLASHLOAN_PREMIUM_TOTAL in basis points, used when the token does not set one
+const DEFAULT_AAVE_PREMIUM_BPS = 5;
+// Uniswap V2 swap fee in hundredths of a basis point, used when the token does not set its pair's fee
+const DEFAULT_V2_FEE_PIPS = 3000;
+// Denominator of V2 and V3 fees
+const FEE_PIPS = 1000000n;
+
+/**
+ * Flash loan settings of a start token, read from Token.metadata.flashLoan
+ */
+export interface FlashLoanConfig {
+  source: FlashLoanSource;
+  lender: string; // Aave pool, V2 pair or V3 pool holding the token
+  fee: number; // Aave premium in basis points, or V2 pair or V3 pool fee in hundredths of a basis point
+  mode: 'auto' | 'always'; // auto borrows only when that nets more than trading the contract's balance
+}
+
+const invalidConfigs = new Set<string>();
+
+/**
+ * Get a token's flash loan settings, or null if it trades only the contract's balance
+ * Invalid settings are logged once per token and ignored
+ */
+export function getFlashLoanConfig(token: Token): FlashLoanConfig | null {
+  const config = token.metadata?.flashLoan as Partial<FlashLoanConfig> | undefined;
+  if (!config) return null;
+
+  const errors = validateFlashLoanConfig(config);
+  if (errors.length > 0) {
+    if (!invalidConfigs.has(token.id)) {
+      invalidConfigs.add(token.id);
+      logger.warn(`⚠️ Ignoring flash loan settings of ${token.symbol} on ${token.network}`, { errors });
+    }
+    return null;
+  }
+
+  const source = config.source as FlashLoanSource;
+  return {
+    source,
+    lender: config.lender as string,
+    fee: config.fee ?? (source === 'aave' ? DEFAULT_AAVE_PREMIUM_BPS : DEFAULT_V2_FEE_PIPS),
+    mode: config.mode ?? 'auto',
+  };
+}
+
+/**
+ * Check flash loan settings, returning a message for each problem
+ */
+export function validateFlashLoanConfig(config: Partial<FlashLoanConfig>): string[] {
+  const errors: string[] = [];
+
+  if (!config.source || !Object.prototype.hasOwnProperty.call(CONTRACT_SOURCES, config.source)) {
+    errors.push(`source must be one of ${Object.keys(CONTRACT_SOURCES).join(', ')}`);
+  }
+  if (!config.lender || !isAddress(config.lender)) {
+    errors.push('lender must be an address');
+  }
+  if (config.fee !== undefined && (!Number.isInteger(config.fee) || config.fee < 0)) {
+    errors.push('fee must be a non-negative integer');
+  }
+  if (config.source === 'uniswap_v2' && config.fee !== undefined && BigInt(config.fee) >= FEE_PIPS) {
+    errors.push('uniswap_v2 fee must be below 1000000, e.g. 2500 for a 0.25% pair');
+  }
+  if (config.source === 'uniswap_v3' && !config.fee) {
+    errors.push('uniswap_v3 lenders need the pool fee, e.g. 500 for a 0.05% pool');
+  }
+  if (config.mode !== undefined && config.mode !== 'auto' && config.mode !== 'always') {
+    errors.push('mode must be auto or always');
+  }
+
+  return errors;
+}
+
+/**
+ * Fee owed on top of the borrowed amount, rounded the way each lender rounds it
+ */
+export function getFlashLoanFee(config: FlashLoanConfig, amount: bigint): bigint {
+  switch (config.source) {
+  case 'aave':
+    return (amount * BigInt(config.fee) + 5000n) / 10000n;
+  case 'uniswap_v2':
+    // Matches the repayment the contract sends back to the pair
+    return (amount * FEE_PIPS) / (FEE_PIPS - BigInt(config.fee)) + 1n - amount;
+  case 'uniswap_v3':
+    return (amount * BigInt(config.fee) + FEE_PIPS - 1n) / FEE_PIPS;
+  }
+}
+
+/**
+ * Extra gas a flash-funded trade uses
+ */
+export function getFlashLoanGas(config: FlashLoanConfig): bigint {
+  return FLASH_LOAN_GAS[config.source];
+}
+
+/**
+ * Lender arguments of executeFlashArbitrage
+ */
+export function toFlashLoanParams(config: FlashLoanConfig): FlashLoanParams {
+  return {
+    source: CONTRACT_SOURCES[config.source],
+    lender: config.lender,
+    lenderFee: config.source === 'uniswap_v2' ? config.fee : 0,
+  };
+}
@@ -0,0 +1,249 @@
+import { AppDataSource } from '../../config/database';
+import { NetworkName } from '../../types';
+import { DEX, DEXType } from '../../entities/DEX';
+import { Token } from '../../entities/Token';
+import { Transaction, TransactionStatus, TransactionType } from '../../entities/Transaction';
+import { UNISWAP_V2_TYPES } from '../dex/uniswapV2';
+import { Amount, NATIVE_DECIMALS } from '../../utils/amount';
+import { arbitrageLogger as logger } from '../../utils/logger';
+import { ArbitrageQuote, PairScanner, RouteHop } from './scanner';
+
+// Gas of an arbitrage call outside its swaps: intrinsic cost, transfers into and out of the contract and checks
+const BASE_GAS = 60000n;
+// Gas per swap by DEX type when there is no history for a route shape
+const DEFAULT_SWAP_GAS: Partial<Record<DEXType, bigint>> = {
+  [DEXType.UNISWAP_V2]: 110000n,
+  [DEXType.UNISWAP_V3]: 140000n,
+  [DEXType.CURVE]: 180000n,
+  [DEXType.BALANCER]: 160000n,
+};
+const FALLBACK_SWAP_GAS = 150000n;
+// Confirmed transactions the history is built from, and how many a shape needs before its median is used
+const HISTORY_SIZE = 200;
+const MIN_SAMPLES = 3;
+const HISTORY_REFRESH_MS = 10 * 60 * 1000;
+const ONE_NATIVE = 10n ** BigInt(NATIVE_DECIMALS);
+
+/**
+ * Gas cost of a route, in native currency and in the route's start token
+ */
+export interface GasEstimate {
+  gasUnits: bigint;
+  gasFee: bigint; // Native currency, wei
+  gasCost: bigint; // Raw units of the start token
+  nativePrice: Amount; // Start tokens per native coin
+  gasSource: 'history' | 'hops' | 'default';
+  priceSource: 'native' | 'pool' | 'usd';
+}
+
+/**
+ * Price of one native coin in a route's start token
+ */
+interface NativePrice {
+  price: Amount;
+  source: GasEstimate['priceSource'];
+}
+
+/**
+ * Estimates what executing a route costs in the token it starts with
+ * Gas units come from the median gasUsed of confirmed trades with the same route shape (the DEX type of every
+ * hop), then of trades with the same number of hops, then from per-DEX defaults; the native fee is converted
+ * with the wrapped native token's pool price, or USD prices if no pool quotes it
+ */
+export class GasModel {
+  private byShape = new Map<string, bigint>();
+  private byHops = new Map<number, bigint>();
+  private loadedAt = 0;
+  private prices = new Map<string, Promise<NativePrice | null>>();
+  private pricesBlock?: number;
+
+  constructor(
+    private network: NetworkName,
+    private scanner: PairScanner,
+    private maxGasLimit: number,
+  ) {}
+
+  /**
+   * Gas cost of executing a quoted route at the given gas price
+   * Returns null if the gas cannot be priced in the start token
+   */
+  async estimate(quote: ArbitrageQuote, gasPrice: bigint, dexes: DEX[], nativeToken?: Token): Promise<GasEstimate | null> {
+    await this.refreshHistory();
+
+    const token = quote.hops[0].tokenIn;
+    const nativePrice = await this.getNativePrice(token, dexes, quote.blockNumber, nativeToken);
+    if (!nativePrice) return null;
+
+    const { gasUnits, source } = this.estimateGas(quote.hops);
+    const gasFee = gasUnits * gasPrice;
+
+    return {
+      gasUnits,
+      gasFee,
+      gasCost: gasFee * nativePrice.price.raw / ONE_NATIVE,
+      nativePrice: nativePrice.price,
+      gasSource: source,
+      priceSource: nativePrice.source,
+    };
+  }
+
+  /**
+   * Gas units a route is expected to use, capped at MAX_GAS_LIMIT
+   */
+  estimateGas(hops: RouteHop[]): { gasUnits: bigint; source: GasEstimate['gasSource'] } {
+    const maxGas = BigInt(this.maxGasLimit);
+    const cap = (gas: bigint): bigint => (gas < maxGas ? gas : maxGas);
+
+    const byShape = this.byShape.get(routeShape(hops.map(hop => hop.dex.type)));
+    if (byShape !== undefined) {
+      return { gasUnits: cap(byShape), source: 'history' };
+    }
+
+    const byHops = this.byHops.get(hops.length);
+    if (byHops !== undefined) {
+      return { gasUnits: cap(byHops), source: 'hops' };
+    }
+
+    const swaps = hops.reduce((total, hop) => total + (DEFAULT_SWAP_GAS[gasFamily(hop.dex.type)] ?? FALLBACK_SWAP_GAS), 0n);
+    return { gasUnits: cap(BASE_GAS + swaps), source: 'default' };
+  }
+
+  /**
+   * Price of one native coin in a token at a block, cached for the block
+   */
+  private getNativePrice(
+    token: Token,
+    dexes: DEX[],
+    blockNumber: number,
+    nativeToken?: Token,
+  ): Promise<NativePrice | null> {
+    if (this.pricesBlock !== blockNumber) {
+      this.prices.clear();
+      this.pricesBlock = blockNumber;
+    }
+
+    let price = this.prices.get(token.address);
+    if (!price) {
+      price = this.fetchNativePrice(token, dexes, blockNumber, nativeToken);
+      this.prices.set(token.address, price);
+    }
+    return price;
+  }
+
+  /**
+   * Price the native coin by selling a scan-sized amount of the wrapped native token on the best pool
+   */
+  private async fetchNativePrice(
+    token: Token,
+    dexes: DEX[],
+    blockNumber: number,
+    nativeToken?: Token,
+  ): Promise<NativePrice | null> {
+    if (token.isWrappedNative) {
+      return { price: Amount.parse('1', token.decimals), source: 'native' };
+    }
+    if (!nativeToken) {
+      return null;
+    }
+
+    // A scan-sized amount keeps the price from being dominated by rounding
+    const amountIn = this.scanner.getScanAmount(nativeToken);
+    const quotes = await Promise.all(
+      dexes
+        .filter(dex => dex.supportsToken(nativeToken.address) && dex.supportsToken(token.address))
+        .map(dex => this.scanner.quote(dex, nativeToken, token, amountIn, blockNumber)),
+    );
+    const amountOut = quotes.reduce((best, quote) => (quote && quote.amountOut > best ? quote.amountOut : best), 0n);
+
+    if (amountOut > 0n) {
+      const perNative = Amount.fromRaw(amountOut, token.decimals)
+        .mulDiv(10n ** BigInt(nativeToken.decimals), amountIn);
+      return { price: perNative, source: 'pool' };
+    }
+
+    return this.usdNativePrice(token, nativeToken);
+  }
+
+  /**
+   * Native price from the USD prices of both tokens; prices are scaled to 1e8, the priceUSD column precision
+   */
+  private usdNativePrice(token: Token, nativeToken: Token): NativePrice | null {
+    const tokenPrice = Number(token.priceUSD);
+    const nativePrice = Number(nativeToken.priceUSD);
+    if (!tokenPrice || !nativePrice) {
+      return null;
+    }
+
+    const scaledNative = BigInt(Math.round(nativePrice * 1e8));
+    const scaledToken = BigInt(Math.round(tokenPrice * 1e8));
+    return { price: Amount.parse('1', token.decimals).mulDiv(scaledNative, scaledToken), source: 'usd' };
+  }
+
+  /**
+   * Reload median gas use per route shape from recent confirmed arbitrage transactions
+   */
+  private async refreshHistory(): Promise<void> {
+    if (Date.now() - this.loadedAt < HISTORY_REFRESH_MS) return;
+    this.loadedAt = Date.now();
+
+    try {
+      const transactions = await AppDataSource.getRepository(Transaction).find({
+        where: { network: this.network, type: TransactionType.ARBITRAGE, status: TransactionStatus.CONFIRMED },
+        relations: { opportunity: true },
+        order: { createdAt: 'DESC' },
+        take: HISTORY_SIZE,
+      });
+
+      const shapes = new Map<string, bigint[]>();
+      const hopCounts = new Map<number, bigint[]>();
+      for (const transaction of transactions) {
+        const route = transaction.opportunity?.route;
+        if (!route || route.some(hop => !hop.dexType)) continue;
+
+        const gasUsed = Amount.fromRaw(transaction.gasUsed, 0).raw;
+        const shape = routeShape(route.map(hop => hop.dexType as DEXType));
+        shapes.set(shape, [...(shapes.get(shape) ?? []), gasUsed]);
+        hopCounts.set(route.length, [...(hopCounts.get(route.length) ?? []), gasUsed]);
+      }
+
+      this.byShape = medians(shapes);
+      this.byHops = medians(hopCounts);
+
+      logger.debug(`Gas history loaded for ${this.network}`, {
+        transactions: transactions.length,
+        shapes: this.byShape.size,
+      });
+    } catch (error) {
+      logger.warn(`⚠️ Failed to load gas history for ${this.network}, using defaults`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * V2 forks share the same swap code and gas profile
+ */
+function gasFamily(type: DEXType): DEXType {
+  return UNISWAP_V2_TYPES.includes(type) ? DEXType.UNISWAP_V2 : type;
+}
+
+/**
+ * Key of a route shape, e.g. "uniswap_v2>curve>uniswap_v2"
+ */
+function routeShape(types: DEXType[]): string {
+  return types.map(gasFamily).join('>');
+}
+
+/**
+ * Median of every group with at least MIN_SAMPLES values
+ */
+function medians<K>(groups: Map<K, bigint[]>): Map<K, bigint> {
+  const result = new Map<K, bigint>();
+  for (const [key, values] of groups) {
+    if (values.length < MIN_SAMPLES) continue;
+    const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    result.set(key, sorted[Math.floor(sorted.length / 2)]);
+  }
+  return result;
+}
@@ -0,0 +1,219 @@
+import { WebSocketProvider } from 'ethers';
+import { NetworkName } from '../../types';
+import { getNetworkConfig } from '../../config/networks';
+import { DEX } from '../../entities/DEX';
+import { Token } from '../../entities/Token';
+import { DecodedSwap, getDEXAdapter } from '../dex';
+import { ArbitrageQuote, PairScanner } from './scanner';
+import { arbitrageLogger as logger } from '../../utils/logger';
+
+// Pending transactions looked up at a time; hashes arriving while this many are in flight are dropped
+const MAX_PENDING_LOOKUPS = 50;
+// Hashes remembered to ignore repeats until the next scanned block
+const MAX_SEEN_HASHES = 10000;
+// Without a pending transaction for this long the subscription is assumed dead and reconnected
+const RECONNECT_AFTER_MS = 60 * 1000;
+
+/**
+ * Routes predicted from a pending swap, quoted against the pool state the swap will leave
+ */
+export interface PendingPrediction {
+  txHash: string;
+  dex: DEX; // DEX whose router the pending transaction calls
+  swap: DecodedSwap;
+  blockNumber: number; // Scanned block whose pool state the swap was applied to
+  scanner: PairScanner; // Holds the pool state after the swap, for sizing the routes
+  dexes: DEX[];
+  tokens: Token[];
+  quotes: ArbitrageQuote[];
+}
+
+/**
+ * Watches the pending transactions of one network for swaps through the routers of active DEXes
+ * Each swap is applied to the pool state cached at the last scanned block and the pairs it trades are scanned
+ * again; routes through the DEX it moves are reported as back-run candidates
+ */
+export class MempoolWatcher {
+  private provider?: WebSocketProvider;
+  private routers = new Map<string, DEX>(); // By lowercase router address
+  private dexes: DEX[] = [];
+  private tokens = new Map<string, Token>(); // By lowercase address
+  private blockNumber?: number;
+  private seen = new Set<string>();
+  private lookups = 0;
+  private lastPendingAt = 0;
+  private reconnecting = false;
+  private stats = {
+    pending: 0,
+    dropped: 0,
+    swaps: 0,
+    predictions: 0,
+  };
+
+  constructor(
+    private network: NetworkName,
+    private wsUrl: string,
+    private scanner: PairScanner,
+    private onPrediction: (prediction: PendingPrediction) => Promise<void>,
+  ) {}
+
+  /**
+   * Subscribe to pending transactions; a failed connection is retried on the next scanned block
+   */
+  async start(): Promise<void> {
+    this.lastPendingAt = Date.now();
+    try {
+      this.provider = new WebSocketProvider(this.wsUrl, getNetworkConfig(this.network).chainId);
+      await this.provider.on('pending', (hash: string) => this.handlePending(hash));
+      logger.info(`👀 Watching pending transactions on ${this.network}`);
+    } catch (error) {
+      logger.warn(`⚠️ Could not watch pending transactions on ${this.network}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Unsubscribe and close the WebSocket
+   */
+  async stop(): Promise<void> {
+    const provider = this.provider;
+    if (!provider) return;
+
+    this.provider = undefined;
+    // Closing the socket ends the subscription. Removing the listener first would send an eth_unsubscribe
+    // that destroy cancels, and ethers leaves that rejection unhandled
+    await provider.destroy();
+  }
+
+  /**
+   * Use the DEXes, tokens and pool state of a scanned block for the pending swaps that follow
+   */
+  update(dexes: DEX[], tokens: Token[], blockNumber: number): void {
+    this.dexes = dexes;
+    this.routers = new Map(dexes.map(dex => [dex.routerAddress.toLowerCase(), dex]));
+    this.tokens = new Map(tokens.map(token => [token.address.toLowerCase(), token]));
+    this.blockNumber = blockNumber;
+    this.seen.clear();
+
+    if (Date.now() - this.lastPendingAt > RECONNECT_AFTER_MS) {
+      void this.reconnect();
+    }
+  }
+
+  /**
+   * Get the connection state and counters, for health checks
+   */
+  getStatus(): Record<string, any> {
+    return {
+      connected: this.provider !== undefined,
+      lastPendingAt: this.lastPendingAt ? new Date(this.lastPendingAt) : undefined,
+      lastScannedBlock: this.blockNumber,
+      inFlight: this.lookups,
+      ...this.stats,
+    };
+  }
+
+  /**
+   * Replace a subscription that has gone quiet
+   */
+  private async reconnect(): Promise<void> {
+    if (this.reconnecting) return;
+
+    this.reconnecting = true;
+    logger.warn(`🔌 No pending transactions on ${this.network} for ${RECONNECT_AFTER_MS / 1000}s, reconnecting`);
+    try {
+      await this.stop().catch(() => undefined);
+      await this.start();
+    } finally {
+      this.reconnecting = false;
+    }
+  }
+
+  /**
+   * Look up a pending transaction unless it was seen already or too many lookups are running
+   */
+  private handlePending(hash: string): void {
+    this.stats.pending++;
+    this.lastPendingAt = Date.now();
+    if (this.blockNumber === undefined || this.seen.has(hash)) return;
+
+    if (this.lookups >= MAX_PENDING_LOOKUPS || this.seen.size >= MAX_SEEN_HASHES) {
+      this.stats.dropped++;
+      return;
+    }
+
+    this.seen.add(hash);
+    this.lookups++;
+    void this.inspect(hash).finally(() => this.lookups--);
+  }
+
+  /**
+   * Decode a pending transaction sent to a known router and predict the routes it opens
+   */
+  private async inspect(hash: string): Promise<void> {
+    try {
+      const transaction = await this.provider?.getTransaction(hash);
+      if (!transaction?.to || transaction.blockNumber !== null) return;
+
+      const dex = this.routers.get(transaction.to.toLowerCase());
+      if (!dex) return;
+
+      const swap = getDEXAdapter(dex.type)?.decodeSwapCalldata?.(transaction.data, transaction.value);
+      if (!swap) return;
+
+      this.stats.swaps++;
+      await this.predict(hash, dex, swap);
+    } catch (error) {
+      logger.debug(`Failed to inspect pending transaction ${hash} on ${this.network}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Apply the swap hop by hop to a fork of the scanner's pool state, then scan the pairs of its path
+   */
+  private async predict(txHash: string, dex: DEX, swap: DecodedSwap): Promise<void> {
+    const blockNumber = this.blockNumber;
+    if (blockNumber === undefined) return;
+
+    const fork = this.scanner.fork();
+    let amount = swap.amountIn;
+    for (let i = 0; i < swap.path.length - 1; i++) {
+      const amountOut = await fork.applySwap(
+        dex,
+        swap.path[i],
+        swap.path[i + 1],
+        amount,
+        blockNumber,
+        swap.feeTiers?.[i],
+      );
+      if (amountOut === null) return;
+      amount = amountOut;
+    }
+    // The swap would revert on its own slippage limit and leave the pools as they are
+    if (amount < swap.amountOutMin) return;
+
+    const tokens = [...new Set(swap.path.map(address => address.toLowerCase()))]
+      .map(address => this.tokens.get(address))
+      .filter((token): token is Token => token !== undefined);
+    if (tokens.length < 2) return;
+
+    const quotes = (await fork.scan(this.dexes, tokens, blockNumber))
+      .filter(quote => quote.hops.some(hop => hop.dex.id === dex.id));
+    if (quotes.length === 0) return;
+
+    this.stats.predictions += quotes.length;
+    await this.onPrediction({
+      txHash,
+      dex,
+      swap,
+      blockNumber,
+      scanner: fork,
+      dexes: this.dexes,
+      tokens: [...this.tokens.values()],
+      quotes,
+    });
+  }
+}
@@ -0,0 +1,330 @@
+import { In, MoreThanOrEqual } from 'typeorm';
+import { AppDataSource } from '../../config/database';
+import { getNetworkConfig } from '../../config/networks';
+import { NetworkName, RiskLimits } from '../../types';
+import { ArbitrageOpportunity } from '../../entities/ArbitrageOpportunity';
+import { Transaction, TransactionStatus, TransactionType } from '../../entities/Transaction';
+import { arbitrageLogger as logger } from '../../utils/logger';
+
+const LIMIT_NAMES: (keyof RiskLimits)[] = [
+  'maxDailyLoss',
+  'maxTokenNotional',
+  'maxDexNotional',
+  'maxConsecutiveFailures',
+  'maxTradeBalanceShare',
+];
+
+/**
+ * Capital a submitted trade ties up until it is final, as recorded in Transaction.metadata.exposure
+ */
+export interface RiskPosition {
+  token: string; // Start token address
+  dexIds: string[]; // Every DEX the route swaps through
+  notional: number; // Trade input in native currency
+}
+
+/**
+ * Limit that trade outcomes have run into; trading stays blocked until it is lifted
+ */
+export interface RiskBreach {
+  limit: 'maxDailyLoss' | 'maxConsecutiveFailures';
+  message: string;
+}
+
+/**
+ * Limits of a network with today's realised profit and loss and open exposure, all in its native currency
+ */
+export interface RiskStatus {
+  currency: string;
+  limits: RiskLimits;
+  day: string; // UTC date of the profit and loss, e.g. 2024-01-31
+  dailyPnl: number; // Negative for a loss
+  consecutiveFailures: number;
+  openTrades: number;
+  tokenExposure: Record<string, number>; // Input of open trades by start token address
+  dexExposure: Record<string, number>; // Input of open trades by DEX id
+  blockedBy?: string; // Message of the limit that blocks trading
+}
+
+/**
+ * Check changes to risk limits, returning a message for each problem
+ */
+export function validateRiskLimits(changes: Partial<RiskLimits>): string[] {
+  const errors: string[] = [];
+
+  for (const [name, value] of Object.entries(changes)) {
+    if (!LIMIT_NAMES.includes(name as keyof RiskLimits)) {
+      errors.push(`${name} is not a risk limit; use one of ${LIMIT_NAMES.join(', ')}`);
+    } else if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      errors.push(`${name} must be a non-negative number`);
+    }
+  }
+  if (changes.maxConsecutiveFailures !== undefined && !Number.isInteger(changes.maxConsecutiveFailures)) {
+    errors.push('maxConsecutiveFailures must be a whole number');
+  }
+  if (changes.maxTradeBalanceShare !== undefined && changes.maxTradeBalanceShare > 1) {
+    errors.push('maxTradeBalanceShare is a fraction of the balance, at most 1');
+  }
+
+  return errors;
+}
+
+/**
+ * Enforces the trading limits of one network
+ * The engine reserves each trade's exposure before sending it, and the executor reports every final outcome,
+ * which accumulate into the day's realised profit and loss and the run of failed trades
+ */
+export class RiskManager {
+  private positions = new Map<string, RiskPosition>(); // By opportunity id
+  private currency: string;
+  private day: string;
+  private dailyPnl = 0; // Native currency, negative for a loss
+  private consecutiveFailures = 0;
+
+  constructor(
+    private network: NetworkName,
+    private limits: RiskLimits,
+    private onBreach: (breach: RiskBreach) => void,
+  ) {
+    this.currency = getNetworkConfig(network).currency;
+    this.day = currentDay();
+  }
+
+  /**
+   * Rebuild today's profit and loss and run of failures from the final trades of the bot accounts
+   */
+  async load(botAddresses: string[]): Promise<void> {
+    const transactions = await AppDataSource.getRepository(Transaction).find({
+      where: {
+        network: this.network,
+        fromAddress: In(botAddresses),
+        type: TransactionType.ARBITRAGE,
+        status: In([TransactionStatus.CONFIRMED, TransactionStatus.FAILED, TransactionStatus.CANCELLED]),
+        updatedAt: MoreThanOrEqual(startOfDay(this.day)),
+      },
+      relations: ['opportunity'],
+      order: { updatedAt: 'ASC' },
+    });
+
+    for (const transaction of transactions) {
+      this.applyOutcome(transaction, transaction.opportunity ?? null);
+    }
+
+    const breach = this.findBreach();
+    if (breach) {
+      logger.warn(`⚠️ Trading on ${this.network} is blocked: ${breach.message}`);
+    }
+  }
+
+  /**
+   * Get the current limits
+   */
+  getLimits(): RiskLimits {
+    return { ...this.limits };
+  }
+
+  /**
+   * Replace the limits; callers validate changes with validateRiskLimits first
+   */
+  setLimits(limits: RiskLimits): void {
+    this.limits = { ...limits };
+  }
+
+  /**
+   * Part of the contract's balance one trade may use; a flash-funded trade does not draw on it
+   */
+  getTradableBalance(balance: bigint | null): bigint | null {
+    const share = this.limits.maxTradeBalanceShare;
+    if (balance === null || share <= 0 || share >= 1) return balance;
+    return balance * BigInt(Math.round(share * 10000)) / 10000n;
+  }
+
+  /**
+   * Exposure of an opportunity's trade, or null if its size cannot be priced in native currency
+   */
+  toPosition(opportunity: ArbitrageOpportunity): RiskPosition | null {
+    const nativePrice = Number(opportunity.metadata?.nativePrice);
+    if (!(nativePrice > 0)) return null;
+
+    const dexIds = opportunity.route
+      ? opportunity.route.map(hop => hop.dexId)
+      : [opportunity.metadata?.dexAId, opportunity.metadata?.dexBId];
+
+    return {
+      token: opportunity.tokenA.toLowerCase(),
+      dexIds: [...new Set(dexIds.filter((id): id is string => Boolean(id)))],
+      notional: Number(opportunity.requiredAmount) / nativePrice,
+    };
+  }
+
+  /**
+   * Reserve a trade's exposure under its opportunity id
+   * Returns the reason the trade must not be sent instead if it would go past a limit
+   */
+  reserve(opportunityId: string, position: RiskPosition): string | null {
+    this.rollDay();
+
+    const breach = this.findBreach();
+    if (breach) return breach.message;
+
+    const { maxTokenNotional, maxDexNotional } = this.limits;
+    if (maxTokenNotional > 0) {
+      const total = this.getExposure(existing => existing.token === position.token) + position.notional;
+      if (total > maxTokenNotional) {
+        return `${this.format(total)} open in the token would exceed the ${maxTokenNotional} ${this.currency} limit`;
+      }
+    }
+    if (maxDexNotional > 0) {
+      for (const dexId of position.dexIds) {
+        const total = this.getExposure(existing => existing.dexIds.includes(dexId)) + position.notional;
+        if (total > maxDexNotional) {
+          return `${this.format(total)} open on DEX ${dexId} would exceed the ${maxDexNotional} ${this.currency} limit`;
+        }
+      }
+    }
+
+    this.positions.set(opportunityId, position);
+    return null;
+  }
+
+  /**
+   * Drop the exposure of a trade that was not sent
+   */
+  release(opportunityId: string): void {
+    this.positions.delete(opportunityId);
+  }
+
+  /**
+   * Track the exposure of a trade left pending by a previous run
+   */
+  restore(opportunityId: string, position: RiskPosition): void {
+    this.positions.set(opportunityId, position);
+  }
+
+  /**
+   * Record a trade's final outcome and report a limit it runs into
+   */
+  recordOutcome(transaction: Transaction, opportunity: ArbitrageOpportunity | null): void {
+    if (transaction.opportunityId) {
+      this.positions.delete(transaction.opportunityId);
+    }
+
+    this.rollDay();
+    this.applyOutcome(transaction, opportunity);
+
+    const breach = this.findBreach();
+    if (breach) this.onBreach(breach);
+  }
+
+  /**
+   * Clear the run of failed trades, once an admin has resumed trading
+   */
+  resetFailures(): void {
+    this.consecutiveFailures = 0;
+  }
+
+  /**
+   * Get limits, today's realised profit and loss and open exposure, for /settings
+   */
+  getStatus(): RiskStatus {
+    this.rollDay();
+
+    const tokens: Record<string, number> = {};
+    const dexes: Record<string, number> = {};
+    for (const position of this.positions.values()) {
+      tokens[position.token] = (tokens[position.token] ?? 0) + position.notional;
+      for (const dexId of position.dexIds) {
+        dexes[dexId] = (dexes[dexId] ?? 0) + position.notional;
+      }
+    }
+
+    return {
+      currency: this.currency,
+      limits: this.getLimits(),
+      day: this.day,
+      dailyPnl: this.dailyPnl,
+      consecutiveFailures: this.consecutiveFailures,
+      openTrades: this.positions.size,
+      tokenExposure: tokens,
+      dexExposure: dexes,
+      blockedBy: this.findBreach()?.message,
+    };
+  }
+
+  /**
+   * Add a final trade to today's profit and loss and the run of failures
+   * A confirmed trade gains its profit, converted with the native price recorded at detection, and every
+   * mined trade pays its gas
+   */
+  private applyOutcome(transaction: Transaction, opportunity: ArbitrageOpportunity | null): void {
+    const confirmed = transaction.status === TransactionStatus.CONFIRMED;
+    const nativePrice = Number(opportunity?.metadata?.nativePrice);
+    const profit = confirmed && nativePrice > 0 ? Number(transaction.profitAmount || 0) / nativePrice : 0;
+
+    this.dailyPnl += profit - Number(transaction.gasFee || 0);
+    this.consecutiveFailures = confirmed ? 0 : this.consecutiveFailures + 1;
+  }
+
+  /**
+   * Limit the day's outcomes have run into, if any
+   */
+  private findBreach(): RiskBreach | null {
+    const { maxDailyLoss, maxConsecutiveFailures } = this.limits;
+
+    if (maxDailyLoss > 0 && -this.dailyPnl >= maxDailyLoss) {
+      const loss = this.format(-this.dailyPnl);
+      return {
+        limit: 'maxDailyLoss',
+        message: `today's realised loss of ${loss} reached the ${maxDailyLoss} ${this.currency} limit`,
+      };
+    }
+    if (maxConsecutiveFailures > 0 && this.consecutiveFailures >= maxConsecutiveFailures) {
+      return {
+        limit: 'maxConsecutiveFailures',
+        message: `${this.consecutiveFailures} trades failed in a row, the limit is ${maxConsecutiveFailures}`,
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Total notional of open trades matching a filter
+   */
+  private getExposure(filter: (position: RiskPosition) => boolean): number {
+    return [...this.positions.values()]
+      .filter(filter)
+      .reduce((total, position) => total + position.notional, 0);
+  }
+
+  /**
+   * Start a new day's profit and loss at midnight UTC
+   */
+  private rollDay(): void {
+    const day = currentDay();
+    if (day === this.day) return;
+
+    this.day = day;
+    this.dailyPnl = 0;
+  }
+
+  /**
+   * Format a native amount for messages
+   */
+  private format(amount: number): string {
+    return `${amount.toFixed(6)} ${this.currency}`;
+  }
+}
+
+/**
+ * Current UTC date, e.g. 2024-01-31
+ */
+function currentDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Midnight UTC at the start of a day
+ */
+function startOfDay(day: string): Date {
+  return new Date(`${day}T00:00:00.000Z`);
+}
@@ -0,0 +1,282 @@
+import { JsonRpcProvider } from 'ethers';
+import { NetworkName } from '../../types';
+import { DEX } from '../../entities/DEX';
+import { Token } from '../../entities/Token';
+import { DEXAdapter, DEXQuoter, Quote, getDEXAdapter } from '../dex';
+import { DEXHealthMonitor } from '../monitoring/dexHealth';
+import { Amount } from '../../utils/amount';
+import { arbitrageLogger as logger } from '../../utils/logger';
+
+/**
+ * One swap of a route, quoted on a specific DEX and pool
+ */
+export interface RouteHop {
+  dex: DEX;
+  tokenIn: Token;
+  tokenOut: Token;
+  amountIn: bigint;
+  quote: Quote;
+}
+
+/**
+ * Quoted round trip that starts and ends with the same token
+ * Two hops for tokenA -> tokenB on dexA and back on dexB, three or more for cycles through other tokens
+ */
+export interface ArbitrageQuote {
+  hops: RouteHop[];
+  amountIn: bigint;
+  amountOut: bigint;
+  profit: bigint;
+  blockNumber: number;
+}
+
+/**
+ * Scans every token pair on every DEX pair of a single network
+ */
+export class PairScanner {
+  private quoters = new Map<DEXAdapter, DEXQuoter>();
+
+  constructor(
+    private network: NetworkName,
+    private provider: JsonRpcProvider,
+    private health?: DEXHealthMonitor, // Told about every quote and the prices of each first leg
+  ) {}
+
+  /**
+   * Quote all token pairs across all DEX pairs at the given block
+   * Pairs are scanned concurrently, so the pool reads of every pair share the same multicall batches
+   * Returns only round trips that end with more tokenA than they started with
+   */
+  async scan(dexes: DEX[], tokens: Token[], blockNumber: number): Promise<ArbitrageQuote[]> {
+    const scans: Promise<ArbitrageQuote[]>[] = [];
+
+    // Lower priority number first, so the preferred token is the one we start and end with
+    const sortedTokens = [...tokens].sort((a, b) => a.priority - b.priority);
+
+    for (let i = 0; i < sortedTokens.length; i++) {
+      for (let j = i + 1; j < sortedTokens.length; j++) {
+        scans.push(this.scanPair(dexes, sortedTokens[i], sortedTokens[j], blockNumber));
+      }
+    }
+
+    return (await Promise.all(scans)).flat();
+  }
+
+  /**
+   * Quote a single token pair across every ordered DEX pair
+   */
+  private async scanPair(
+    dexes: DEX[],
+    tokenA: Token,
+    tokenB: Token,
+    blockNumber: number,
+  ): Promise<ArbitrageQuote[]> {
+    const eligible = dexes.filter(dex =>
+      this.getQuoter(dex) !== null &&
+      dex.supportsToken(tokenA.address) &&
+      dex.supportsToken(tokenB.address),
+    );
+    if (eligible.length < 2) {
+      return [];
+    }
+
+    const amountIn = this.getScanAmount(tokenA);
+
+    // First leg: tokenA -> tokenB on every DEX
+    const firstLegs = await Promise.all(
+      eligible.map(dex => this.quote(dex, tokenA, tokenB, amountIn, blockNumber)),
+    );
+    this.health?.recordPrices(eligible, firstLegs.map(leg => leg?.amountOut ?? null));
+
+    const candidates: Promise<ArbitrageQuote | null>[] = [];
+    eligible.forEach((dexA, indexA) => {
+      const firstLeg = firstLegs[indexA];
+      if (!firstLeg) return;
+      const intermediateAmount = firstLeg.amountOut;
+      const firstHop: RouteHop = { dex: dexA, tokenIn: tokenA, tokenOut: tokenB, amountIn, quote: firstLeg };
+
+      eligible.forEach(dexB => {
+        if (dexB.id === dexA.id) return;
+
+        // Second leg: tokenB -> tokenA on the other DEX
+        candidates.push(
+          this.quote(dexB, tokenB, tokenA, intermediateAmount, blockNumber).then(secondLeg => {
+            if (!secondLeg || secondLeg.amountOut <= amountIn) return null;
+            const amountOut = secondLeg.amountOut;
+            return {
+              hops: [
+                firstHop,
+                { dex: dexB, tokenIn: tokenB, tokenOut: tokenA, amountIn: intermediateAmount, quote: secondLeg },
+              ],
+              amountIn,
+              amountOut,
+              profit: amountOut - amountIn,
+              blockNumber,
+            };
+          }),
+        );
+      });
+    });
+
+    const results = await Promise.all(candidates);
+    return results.filter((result): result is ArbitrageQuote => result !== null);
+  }
+
+  /**
+   * Quote a swap on a DEX; returns null if the pool does not exist or the quote fails
+   */
+  async quote(
+    dex: DEX,
+    tokenIn: Token,
+    tokenOut: Token,
+    amountIn: bigint,
+    blockNumber: number,
+  ): Promise<Quote | null> {
+    const quoter = this.getQuoter(dex);
+    if (!quoter) return null;
+
+    try {
+      const quote = await quoter.quote(dex, tokenIn.address, tokenOut.address, amountIn, blockNumber);
+      this.health?.recordQuote(dex);
+      return quote;
+    } catch (error) {
+      this.health?.recordQuote(dex, error);
+      logger.debug('Quote failed', {
+        network: this.network,
+        dex: dex.name,
+        tokenIn: tokenIn.symbol,
+        tokenOut: tokenOut.symbol,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Re-quote a route with a different input amount, keeping the DEX of every hop
+   * Returns null if any hop can no longer be quoted
+   */
+  async quoteRoute(route: ArbitrageQuote, amountIn: bigint): Promise<ArbitrageQuote | null> {
+    const hops: RouteHop[] = [];
+    let amount = amountIn;
+
+    for (const hop of route.hops) {
+      const quote = await this.quote(hop.dex, hop.tokenIn, hop.tokenOut, amount, route.blockNumber);
+      if (!quote || quote.amountOut <= 0n) return null;
+
+      hops.push({ ...hop, amountIn: amount, quote });
+      amount = quote.amountOut;
+    }
+
+    return {
+      hops,
+      amountIn,
+      amountOut: amount,
+      profit: amount - amountIn,
+      blockNumber: route.blockNumber,
+    };
+  }
+
+  /**
+   * Find the DEX's pools for a token pair; returns an empty list if the lookup fails
+   */
+  async discoverPools(dex: DEX, tokenA: Token, tokenB: Token): Promise<string[]> {
+    const quoter = this.getQuoter(dex);
+    if (!quoter) return [];
+
+    try {
+      return await quoter.discoverPools(dex, tokenA.address, tokenB.address);
+    } catch (error) {
+      logger.debug('Pool discovery failed', {
+        network: this.network,
+        dex: dex.name,
+        tokenA: tokenA.symbol,
+        tokenB: tokenB.symbol,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Copy of the scanner whose cached pool state can be changed with applySwap, to quote against the state a
+   * pending swap will leave; the copy does not report to the health monitor
+   */
+  fork(): PairScanner {
+    const fork = new PairScanner(this.network, this.provider);
+    for (const [adapter, quoter] of this.quoters) {
+      fork.quoters.set(adapter, quoter.fork ? quoter.fork() : quoter);
+    }
+    return fork;
+  }
+
+  /**
+   * Apply a swap to the cached pool state at a block and return its output
+   * Returns null if the DEX's quoter cannot apply swaps, has no pool for the pair or the swap fails
+   */
+  async applySwap(
+    dex: DEX,
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    blockNumber: number,
+    feeTier?: number,
+  ): Promise<bigint | null> {
+    const quoter = this.getQuoter(dex);
+    if (!quoter?.applySwap) return null;
+
+    try {
+      return await quoter.applySwap(dex, tokenIn, tokenOut, amountIn, blockNumber, feeTier);
+    } catch (error) {
+      logger.debug('Applying swap failed', {
+        network: this.network,
+        dex: dex.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Get the quoter of the adapter registered for a DEX type, created once per scanner
+   * Returns null for DEX types without an adapter
+   */
+  private getQuoter(dex: DEX): DEXQuoter | null {
+    const adapter = getDEXAdapter(dex.type);
+    if (!adapter) return null;
+
+    let quoter = this.quoters.get(adapter);
+    if (!quoter) {
+      quoter = adapter.createQuoter(this.provider);
+      this.quoters.set(adapter, quoter);
+    }
+    return quoter;
+  }
+
+  /**
+   * Amount of the start token used to probe a pair
+   * Uses metadata.scanAmount, then minTradeAmount, then one whole token
+   */
+  getScanAmount(token: Token): bigint {
+    const configured = token.metadata?.scanAmount ?? token.minTradeAmount;
+    if (configured) {
+      return token.toAmount(String(configured)).raw;
+    }
+    return 10n ** BigInt(token.decimals);
+  }
+}
+
+/**
+ * Express amount ratio numerator/denominator as a decimal string, accounting for token decimals
+ */
+export function formatRatio(
+  numerator: bigint,
+  numeratorDecimals: number,
+  denominator: bigint,
+  denominatorDecimals: number,
+): string {
+  if (denominator === 0n) return '0';
+  const scaled = (numerator * 10n ** BigInt(18 + denominatorDecimals)) /
+    (denominator * 10n ** BigInt(numeratorDecimals));
+  return Amount.fromRaw(scaled, 18).toDecimal();
+}
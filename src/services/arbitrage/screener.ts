@@ -0,0 +1,383 @@
+import { Contract, Interface, Provider, ZeroAddress, dataSlice, id, isCallException } from 'ethers';
+import { AppDataSource } from '../../config/database';
+import { NetworkName } from '../../types';
+import { DEX } from '../../entities/DEX';
+import { Token, TokenStatus } from '../../entities/Token';
+import { ArbitrageBotClient, TokenScreeningResult } from '../blockchain/arbitrageBot';
+import { UNISWAP_V2_PAIR_ABI } from '../blockchain/abis';
+import { getTokenBalance } from '../blockchain/erc20';
+import { getMulticall } from '../blockchain/multicall';
+import { WalletPool } from '../blockchain/wallets';
+import { UNISWAP_V2_TYPES } from '../dex/uniswapV2';
+import { PairScanner } from './scanner';
+import { decodeRevertReason } from './simulator';
+import { arbitrageLogger as logger } from '../../utils/logger';
+
+// Screened tokens are checked again after this long, tokens that could not be screened sooner
+const SCREEN_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000;
+const SCREEN_RETRY_MS = 60 * 60 * 1000;
+// Share of the base token's scan amount traded while screening
+const SCREEN_AMOUNT_DIVISOR = 10n;
+// Differences up to this many basis points are rounding, not a tax
+const TAX_TOLERANCE_BPS = 10;
+// The pair's token balance is compared with its reserve now and this many blocks ago to detect rebasing
+const REBASE_LOOKBACK_BLOCKS = 64;
+const REBASE_TOLERANCE_BPS = 10n;
+// Proxy implementation slots: EIP-1967, and the older ZeppelinOS slot used by tokens such as USDC
+const IMPLEMENTATION_SLOTS = [
+  '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc',
+  '0x7050c9e0f4ca769c69bd3a8ef740bc37934f8e2c036e5a723fd8ee048ed3f8c3',
+];
+// Functions that let an owner stop all transfers, or transfers of chosen addresses
+const PAUSE_FUNCTIONS = ['pause()', 'paused()'];
+const BLACKLIST_FUNCTIONS = [
+  'blacklist(address)',
+  'addToBlacklist(address)',
+  'addBlackList(address)',
+  'setBlacklist(address,bool)',
+  'isBlacklisted(address)',
+  'isBlackListed(address)',
+];
+const TOKEN_CONTROL_ABI = [
+  'function owner() view returns (address)',
+  'function paused() view returns (bool)',
+  'function isBlacklisted(address account) view returns (bool)',
+  'function isBlackListed(address account) view returns (bool)',
+];
+
+const pairInterface = new Interface(UNISWAP_V2_PAIR_ABI);
+
+/**
+ * Findings of a token screening, as stored in Token.metadata.screening
+ * dangerous tokens are deactivated, warnings are owner powers that have not been used against the bot
+ */
+export interface TokenScreening {
+  verdict: 'safe' | 'warning' | 'dangerous' | 'unverified';
+  reasons: string[];
+  warnings: string[];
+  checkedAt: string;
+  blockNumber: number;
+  baseToken?: string;
+  dex?: string;
+  pair?: string;
+  buyTaxBps?: number;
+  transferTaxBps?: number;
+  sellTaxBps?: number;
+  honeypot?: boolean;
+  rebasing?: boolean;
+  owner?: string; // Missing if the token has no owner() or ownership was renounced
+  canPause?: boolean;
+  canBlacklist?: boolean;
+}
+
+/**
+ * V2 pool and base token a token is screened against
+ */
+interface ScreeningVenue {
+  dex: DEX;
+  baseToken: Token;
+  pair: string;
+  amountIn: bigint;
+}
+
+/**
+ * Check if a token has never been screened or its last screening is out of date
+ */
+export function needsScreening(token: Token, now: number = Date.now()): boolean {
+  const screening = token.metadata?.screening as TokenScreening | undefined;
+  if (!token.lastVerified || !screening) return true;
+
+  const interval = screening.verdict === 'unverified' ? SCREEN_RETRY_MS : SCREEN_INTERVAL_MS;
+  return now - new Date(token.lastVerified).getTime() > interval;
+}
+
+/**
+ * Screens tokens for behaviour that breaks atomic arbitrage or traps funds before they are traded
+ * A buy, a transfer and a sell are simulated through ArbitrageBot.screenToken to measure transfer taxes and
+ * find tokens that cannot be sold, the token's V2 pair is checked for rebasing, and the token's code for an
+ * owner-controlled pause or blacklist. Dangerous tokens are deactivated and blacklisted on the contract
+ */
+export class TokenScreener {
+  constructor(
+    private network: NetworkName,
+    private provider: Provider,
+    private scanner: PairScanner,
+    private client: ArbitrageBotClient,
+    private wallets: WalletPool, // Screening calls come from the primary wallet, blacklisting from the owner
+  ) {}
+
+  /**
+   * Screen a token, record the findings in its metadata and act on a dangerous verdict
+   * dexes and tokens are the network's active DEXes and tokens, used to find a pool to trade against
+   */
+  async screen(token: Token, dexes: DEX[], tokens: Token[]): Promise<TokenScreening> {
+    const blockNumber = await this.provider.getBlockNumber();
+    const screening: TokenScreening = {
+      verdict: 'safe',
+      reasons: [],
+      warnings: [],
+      checkedAt: new Date().toISOString(),
+      blockNumber,
+    };
+
+    await this.checkControls(token, screening, blockNumber);
+
+    let simulated = false;
+    const venue = await this.findVenue(token, dexes, tokens, blockNumber);
+    if (venue) {
+      screening.baseToken = venue.baseToken.symbol;
+      screening.dex = venue.dex.name;
+      screening.pair = venue.pair;
+      simulated = await this.checkTrading(token, venue, screening, blockNumber);
+      await this.checkRebasing(token, venue.pair, screening, blockNumber);
+    } else {
+      screening.warnings.push('No V2 pool with a base token held by the contract, trading was not simulated');
+    }
+
+    if (screening.reasons.length > 0) {
+      screening.verdict = 'dangerous';
+    } else if (!simulated) {
+      screening.verdict = 'unverified';
+    } else if (screening.warnings.length > 0) {
+      screening.verdict = 'warning';
+    }
+
+    await this.apply(token, screening);
+    return screening;
+  }
+
+  /**
+   * Simulate buying, transferring and selling the token and measure the tax on each step
+   * Returns false if the screening call failed for a reason that says nothing about the token
+   */
+  private async checkTrading(
+    token: Token,
+    venue: ScreeningVenue,
+    screening: TokenScreening,
+    blockNumber: number,
+  ): Promise<boolean> {
+    let result: TokenScreeningResult;
+    try {
+      result = await this.client.screenToken({
+        router: venue.dex.routerAddress,
+        baseToken: venue.baseToken.address,
+        token: token.address,
+        amountIn: venue.amountIn,
+      }, this.wallets.primary.address, blockNumber);
+    } catch (error) {
+      // The contract's own checks (e.g. an unauthorized bot) and RPC errors do not implicate the token
+      if (!isCallException(error) || error.reason?.startsWith('ArbitrageBot:')) {
+        screening.warnings.push(`Trading could not be simulated: ${decodeRevertReason(error)}`);
+        return false;
+      }
+      screening.honeypot = true;
+      screening.reasons.push(`Buying or transferring reverted: ${decodeRevertReason(error)}`);
+      return true;
+    }
+
+    screening.buyTaxBps = taxBps(result.expectedBought, result.bought);
+    screening.transferTaxBps = taxBps(result.transferred, result.transferReceived);
+    screening.honeypot = result.sellFailed;
+    if (result.sellFailed) {
+      screening.reasons.push('Selling reverted');
+    } else {
+      screening.sellTaxBps = taxBps(result.expectedSold, result.sold);
+    }
+
+    const taxes = [
+      ['Buy', screening.buyTaxBps],
+      ['Transfer', screening.transferTaxBps],
+      ['Sell', screening.sellTaxBps],
+    ] as const;
+    for (const [step, bps] of taxes) {
+      if (bps !== undefined && bps > TAX_TOLERANCE_BPS) {
+        screening.reasons.push(`${step} tax of ${(bps / 100).toFixed(2)}%`);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Compare the pair's token balance with its reserve at two blocks
+   * A pair's balance only differs from its reserve until the next swap, so a difference that changes
+   * between blocks, or a balance below the reserve, comes from balances changing on their own
+   */
+  private async checkRebasing(
+    token: Token,
+    pair: string,
+    screening: TokenScreening,
+    blockNumber: number,
+  ): Promise<void> {
+    try {
+      const [now, before] = await Promise.all([
+        this.getReserveSurplus(token, pair, blockNumber),
+        this.getReserveSurplus(token, pair, Math.max(blockNumber - REBASE_LOOKBACK_BLOCKS, 0)),
+      ]);
+
+      const drifting = (sample: { surplus: bigint; reserve: bigint }): boolean =>
+        sample.surplus < 0n || sample.surplus * 10000n > sample.reserve * REBASE_TOLERANCE_BPS;
+      screening.rebasing = now.surplus < 0n || (now.surplus !== before.surplus && (drifting(now) || drifting(before)));
+      if (screening.rebasing) {
+        screening.reasons.push('Pair balance drifts from its reserve, the token looks rebasing');
+      }
+    } catch (error) {
+      logger.debug(`Could not check ${token.symbol} on ${this.network} for rebasing`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Look for owner powers in the token's code (and its proxy implementation) and whether they are in use
+   */
+  private async checkControls(token: Token, screening: TokenScreening, blockNumber: number): Promise<void> {
+    const control = new Contract(token.address, TOKEN_CONTROL_ABI, this.provider);
+    const code = await this.getCode(token.address, blockNumber);
+
+    const owner = await (control.owner({ blockTag: blockNumber }) as Promise<string>).catch(() => ZeroAddress);
+    if (owner !== ZeroAddress) {
+      screening.owner = owner;
+    }
+
+    screening.canPause = PAUSE_FUNCTIONS.some(signature => hasSelector(code, signature));
+    screening.canBlacklist = BLACKLIST_FUNCTIONS.some(signature => hasSelector(code, signature));
+    if (screening.canPause) {
+      screening.warnings.push('Transfers can be paused');
+    }
+    if (screening.canBlacklist) {
+      screening.warnings.push('Addresses can be blacklisted');
+    }
+
+    const paused = await (control.paused({ blockTag: blockNumber }) as Promise<boolean>).catch(() => false);
+    if (paused) {
+      screening.reasons.push('Transfers are paused');
+    }
+
+    const blacklisted = await Promise.all(['isBlacklisted', 'isBlackListed'].map(name =>
+      (control.getFunction(name)(this.client.address, { blockTag: blockNumber }) as Promise<boolean>)
+        .catch(() => false),
+    ));
+    if (blacklisted.some(Boolean)) {
+      screening.reasons.push('The arbitrage contract is blacklisted by the token');
+    }
+  }
+
+  /**
+   * Find a V2 pool pairing the token with a token the contract holds, wrapped native and stablecoins first
+   */
+  private async findVenue(
+    token: Token,
+    dexes: DEX[],
+    tokens: Token[],
+    blockNumber: number,
+  ): Promise<ScreeningVenue | null> {
+    const rank = (candidate: Token): number => (candidate.isWrappedNative ? 0 : candidate.isStablecoin ? 1 : 2);
+    const bases = tokens
+      .filter(candidate => candidate.address.toLowerCase() !== token.address.toLowerCase())
+      .sort((a, b) => rank(a) - rank(b));
+    const v2Dexes = dexes.filter(dex => UNISWAP_V2_TYPES.includes(dex.type));
+
+    for (const baseToken of bases) {
+      const amountIn = this.scanner.getScanAmount(baseToken) / SCREEN_AMOUNT_DIVISOR;
+      const balance = await this.client.getBalance(baseToken.address, blockNumber).catch(() => 0n);
+      if (amountIn === 0n || balance < amountIn) continue;
+
+      for (const dex of v2Dexes) {
+        const [pair] = await this.scanner.discoverPools(dex, baseToken, token);
+        if (pair) {
+          return { dex, baseToken, pair, amountIn };
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Token balance of a V2 pair above its reserve of the token
+   */
+  private async getReserveSurplus(
+    token: Token,
+    pair: string,
+    blockTag: number,
+  ): Promise<{ surplus: bigint; reserve: bigint }> {
+    const multicall = getMulticall(this.provider);
+
+    const [[reserve0, reserve1], token0, balance] = await Promise.all([
+      multicall.call<[bigint, bigint, bigint]>(pair, pairInterface, 'getReserves', [], blockTag),
+      multicall.call<string>(pair, pairInterface, 'token0', [], blockTag),
+      getTokenBalance(this.provider, token.address, pair, blockTag),
+    ]);
+    const reserve = token0.toLowerCase() === token.address.toLowerCase() ? reserve0 : reserve1;
+
+    return { surplus: balance - reserve, reserve };
+  }
+
+  /**
+   * Runtime code of a contract followed by the code of its proxy implementation, if it has one
+   */
+  private async getCode(address: string, blockNumber: number): Promise<string> {
+    let code = await this.provider.getCode(address, blockNumber);
+
+    for (const slot of IMPLEMENTATION_SLOTS) {
+      const implementation = dataSlice(await this.provider.getStorage(address, slot, blockNumber), 12);
+      if (implementation !== ZeroAddress) {
+        code += (await this.provider.getCode(implementation, blockNumber)).slice(2);
+      }
+    }
+    return code;
+  }
+
+  /**
+   * Save the findings; a dangerous token is deactivated and blacklisted on the contract
+   */
+  private async apply(token: Token, screening: TokenScreening): Promise<void> {
+    token.metadata = { ...token.metadata, screening };
+    token.lastVerified = new Date();
+
+    if (screening.verdict !== 'dangerous') {
+      await AppDataSource.getRepository(Token).save(token);
+      logger.info(`🔍 Screened ${token.symbol} on ${this.network}: ${screening.verdict}`, {
+        warnings: screening.warnings,
+      });
+      return;
+    }
+
+    token.status = TokenStatus.SUSPICIOUS;
+    token.isActive = false;
+    await AppDataSource.getRepository(Token).save(token);
+    logger.warn(`🚨 ${token.symbol} on ${this.network} failed screening and was deactivated`, {
+      reasons: screening.reasons,
+    });
+
+    await this.blacklist(token);
+  }
+
+  /**
+   * Blacklist a token on the contract from the account that owns it, the treasury or a bot wallet
+   */
+  private async blacklist(token: Token): Promise<void> {
+    try {
+      const { hash, from } = await this.wallets.sendAsOwner((client, overrides) =>
+        client.setTokenBlacklist(token.address, true, overrides),
+      );
+      logger.info(`⛔ Blacklisting ${token.symbol} on the arbitrage contract`, { hash, from });
+    } catch (error) {
+      logger.error(`❌ Failed to blacklist ${token.symbol} on ${this.network}, blacklist it manually:`, error);
+    }
+  }
+}
+
+/**
+ * Shortfall of an actual amount against the expected one, in basis points
+ */
+function taxBps(expected: bigint, actual: bigint): number {
+  if (expected <= 0n || actual >= expected) return 0;
+  return Number((expected - actual) * 10000n / expected);
+}
+
+/**
+ * Check if runtime code contains a function selector pushed by a dispatcher (PUSH4 <selector>)
+ */
+function hasSelector(code: string, signature: string): boolean {
+  return code.toLowerCase().includes(`63${id(signature).slice(2, 10)}`);
+}
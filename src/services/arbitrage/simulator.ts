@@ -0,0 +1,78 @@
+import { BlockTag, isCallException } from 'ethers';
+import { ArbitrageParams, NetworkName } from '../../types';
+import { ArbitrageBotClient } from '../blockchain/arbitrageBot';
+import { WalletPool } from '../blockchain/wallets';
+import { arbitrageLogger as logger } from '../../utils/logger';
+
+/**
+ * Outcome of running an arbitrage against the deployed contract without sending a transaction
+ */
+export interface SimulationResult {
+  success: boolean;
+  contractProfit?: bigint; // Profit reported by simulateArbitrage; not available for multi-hop routes
+  profitable?: boolean; // simulateArbitrage's verdict against the contract's minProfitThreshold
+  error?: string;
+}
+
+/**
+ * Dry-runs arbitrage trades on the deployed ArbitrageBot through eth_call
+ * Calls are made from the pool's primary wallet so that access and gas price checks behave as in a real transaction
+ */
+export class ArbitrageSimulator {
+  constructor(
+    private network: NetworkName,
+    private client: ArbitrageBotClient,
+    private wallets: WalletPool,
+  ) {}
+
+  /**
+   * Run simulateArbitrage, then the execute call as a static call with the gas price the trade would use
+   * simulateArbitrage only quotes pair routes, so multi-hop routes rely on the static call alone
+   * A revert in either call fails the simulation with the decoded revert reason
+   */
+  async simulate(params: ArbitrageParams, gasPrice: bigint, blockTag?: BlockTag): Promise<SimulationResult> {
+    let contractProfit: bigint | undefined;
+    let profitable: boolean | undefined;
+
+    try {
+      if (!params.hops) {
+        ({ profit: contractProfit, profitable } = await this.client.simulateArbitrage(params, blockTag));
+      }
+
+      await this.client.callExecuteArbitrage(params, {
+        from: this.wallets.primary.address,
+        gasPrice,
+        blockTag,
+      });
+
+      return { success: true, contractProfit, profitable };
+    } catch (error) {
+      const reason = decodeRevertReason(error);
+      logger.debug(`Simulation failed on ${this.network}: ${reason}`, {
+        tokenA: params.tokenA,
+        tokenB: params.tokenB,
+        hops: params.hops?.length ?? 2,
+        amountIn: params.amountIn.toString(),
+      });
+      return { success: false, contractProfit, profitable, error: reason };
+    }
+  }
+}
+
+/**
+ * Human-readable reason for a failed contract call, e.g. "Profit too low"
+ * Handles require() messages, custom errors and panics; other errors fall back to their message
+ */
+export function decodeRevertReason(error: unknown): string {
+  if (isCallException(error)) {
+    if (error.reason) {
+      return error.reason.replace(/^ArbitrageBot: /, '');
+    }
+    if (error.revert) {
+      return `${error.revert.name}(${error.revert.args.map(String).join(', ')})`;
+    }
+    return error.shortMessage || 'Execution reverted without a reason';
+  }
+
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,162 @@
+import { Token } from '../../entities/Token';
+import { ArbitrageQuote, PairScanner } from './scanner';
+import { FlashLoanConfig, getFlashLoanFee } from './flashLoan';
+
+// Geometric grid over [min, max] used to find the region of the best trade size
+const GRID_POINTS = 8;
+// Ternary-search steps inside the best grid bracket; each step narrows the bracket to two thirds
+const REFINE_ITERATIONS = 12;
+// Upper bound as a multiple of the scan amount when neither maxTradeAmount nor a balance limits the size
+const DEFAULT_MAX_SCAN_MULTIPLE = 100n;
+
+/**
+ * Bounds and costs for sizing a route, all in raw units of the route's start token
+ */
+export interface SizingLimits {
+  min: bigint;
+  max: bigint;
+  gasCost: bigint; // Estimated gas converted to the start token
+  limitedBy: 'maxTradeAmount' | 'balance' | 'default';
+  flashLoan?: FlashLoanConfig; // The input is borrowed and the loan fee is deducted from profit
+}
+
+/**
+ * One evaluated point of the profit curve
+ */
+export interface SizingSample {
+  amountIn: string;
+  amountOut: string;
+  netProfit: string;
+}
+
+/**
+ * Route re-quoted at the input size with the highest net profit
+ */
+export interface SizingResult {
+  quote: ArbitrageQuote;
+  netProfit: bigint;
+  flashLoanFee: bigint; // Raw units of the start token, 0 when trading the contract's balance
+  limits: SizingLimits;
+  samples: SizingSample[];
+}
+
+/**
+ * Finds the input size that maximises net profit along a quoted route
+ * Round-trip profit is concave in the input size for AMM pools, so a coarse grid followed by
+ * a ternary search inside the best bracket converges on the optimum with a few dozen quotes
+ */
+export class TradeSizer {
+  constructor(private scanner: PairScanner) {}
+
+  /**
+   * Get the size bounds for a start token
+   * The upper bound is the smallest of maxTradeAmount and the available balance, if known
+   * A flash-funded trade is not limited by the balance
+   */
+  getLimits(
+    token: Token,
+    balance: bigint | null,
+    gasCost: bigint,
+    flashLoan?: FlashLoanConfig,
+  ): SizingLimits | null {
+    const scanAmount = this.scanner.getScanAmount(token);
+    const min = token.minTradeAmount
+      ? token.toAmount(token.minTradeAmount).raw
+      : scanAmount / 100n || 1n;
+
+    let max = scanAmount * DEFAULT_MAX_SCAN_MULTIPLE;
+    let limitedBy: SizingLimits['limitedBy'] = 'default';
+    if (token.maxTradeAmount) {
+      max = token.toAmount(token.maxTradeAmount).raw;
+      limitedBy = 'maxTradeAmount';
+    }
+    if (!flashLoan && balance !== null && balance < max) {
+      max = balance;
+      limitedBy = 'balance';
+    }
+
+    return max >= min ? { min, max, gasCost, limitedBy, flashLoan } : null;
+  }
+
+  /**
+   * Search [limits.min, limits.max] for the size with the highest net profit
+   * Returns null if the route cannot be quoted at any size within the limits
+   */
+  async optimise(route: ArbitrageQuote, limits: SizingLimits): Promise<SizingResult | null> {
+    const loanFee = (amountIn: bigint): bigint =>
+      limits.flashLoan ? getFlashLoanFee(limits.flashLoan, amountIn) : 0n;
+    const netProfit = (quote: ArbitrageQuote): bigint => quote.profit - limits.gasCost - loanFee(quote.amountIn);
+
+    const evaluated = new Map<bigint, ArbitrageQuote | null>();
+    const evaluate = async (amountIn: bigint): Promise<bigint | null> => {
+      if (!evaluated.has(amountIn)) {
+        evaluated.set(amountIn, await this.scanner.quoteRoute(route, amountIn));
+      }
+      const quote = evaluated.get(amountIn);
+      return quote ? netProfit(quote) : null;
+    };
+
+    const grid = geometricGrid(limits.min, limits.max, GRID_POINTS);
+    const gridProfits = await Promise.all(grid.map(evaluate));
+
+    let bestIndex = -1;
+    let bestProfit: bigint | null = null;
+    gridProfits.forEach((profit, i) => {
+      if (profit !== null && (bestProfit === null || profit > bestProfit)) {
+        bestIndex = i;
+        bestProfit = profit;
+      }
+    });
+    if (bestIndex < 0) return null;
+
+    let lo = grid[Math.max(bestIndex - 1, 0)];
+    let hi = grid[Math.min(bestIndex + 1, grid.length - 1)];
+    for (let i = 0; i < REFINE_ITERATIONS && hi - lo > 2n; i++) {
+      const third = (hi - lo) / 3n;
+      const [left, right] = await Promise.all([evaluate(lo + third), evaluate(hi - third)]);
+      if (left === null || (right !== null && right > left)) {
+        lo = lo + third;
+      } else {
+        hi = hi - third;
+      }
+    }
+
+    const points = [...evaluated.entries()].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    let best: ArbitrageQuote | null = null;
+    for (const [, quote] of points) {
+      if (quote && (!best || netProfit(quote) > netProfit(best))) {
+        best = quote;
+      }
+    }
+    if (!best) return null;
+
+    return {
+      quote: best,
+      netProfit: netProfit(best),
+      flashLoanFee: loanFee(best.amountIn),
+      limits,
+      samples: points.map(([amountIn, quote]) => ({
+        amountIn: amountIn.toString(),
+        amountOut: quote ? quote.amountOut.toString() : '0',
+        netProfit: quote ? netProfit(quote).toString() : 'unquotable',
+      })),
+    };
+  }
+}
+
+/**
+ * Amounts spaced geometrically from min to max, both included
+ */
+function geometricGrid(min: bigint, max: bigint, points: number): bigint[] {
+  if (max <= min) return [min];
+
+  const ratio = Number(max) / Number(min);
+  const grid = new Set<bigint>([min]);
+  for (let i = 1; i < points - 1; i++) {
+    const amount = BigInt(Math.floor(Number(min) * Math.pow(ratio, i / (points - 1))));
+    if (amount > min && amount < max) grid.add(amount);
+  }
+  grid.add(max);
+
+  return [...grid];
+}
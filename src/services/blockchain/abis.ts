@@ -0,0 +1,127 @@
+/**
+ * Human-readable ABI fragments for the contracts the bot interacts with
+ */
+
+export const ERC20_ABI = [
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function totalSupply() view returns (uint256)',
+  'function balanceOf(address owner) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+];
+
+export const UNISWAP_V2_ROUTER_ABI = [
+  'function factory() view returns (address)',
+  'function WETH() view returns (address)',
+  'function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[] amounts)',
+  'function getAmountsIn(uint256 amountOut, address[] path) view returns (uint256[] amounts)',
+  'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)',
+  'function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable returns (uint256[] amounts)',
+  'function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)',
+  'function swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapExactETHForTokensSupportingFeeOnTransferTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable',
+  'function swapExactTokensForETHSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+];
+
+export const UNISWAP_V2_FACTORY_ABI = [
+  'function getPair(address tokenA, address tokenB) view returns (address pair)',
+  'function allPairs(uint256 index) view returns (address pair)',
+  'function allPairsLength() view returns (uint256)',
+];
+
+export const UNISWAP_V2_PAIR_ABI = [
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+  'event Sync(uint112 reserve0, uint112 reserve1)',
+  'event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)',
+];
+
+export const UNISWAP_V3_FACTORY_ABI = [
+  'function getPool(address tokenA, address tokenB, uint24 fee) view returns (address pool)',
+  'function feeAmountTickSpacing(uint24 fee) view returns (int24)',
+];
+
+export const UNISWAP_V3_ROUTER_ABI = [
+  'function factory() view returns (address)',
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) payable returns (uint256 amountOut)',
+  'function exactInput((bytes path, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum) params) payable returns (uint256 amountOut)',
+  'function multicall(bytes[] data) payable returns (bytes[] results)',
+];
+
+export const UNISWAP_V3_POOL_ABI = [
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function fee() view returns (uint24)',
+  'function tickSpacing() view returns (int24)',
+  'function liquidity() view returns (uint128)',
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+  'function tickBitmap(int16 wordPosition) view returns (uint256)',
+  'function ticks(int24 tick) view returns (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, int56 tickCumulativeOutside, uint160 secondsPerLiquidityOutsideX128, uint32 secondsOutside, bool initialized)',
+];
+
+export const CURVE_POOL_ABI = [
+  'function A() view returns (uint256)',
+  'function A_precise() view returns (uint256)',
+  'function fee() view returns (uint256)',
+  'function coins(uint256 i) view returns (address)',
+  'function balances(uint256 i) view returns (uint256)',
+  'function get_dy(int128 i, int128 j, uint256 dx) view returns (uint256)',
+  'function exchange(int128 i, int128 j, uint256 dx, uint256 min_dy)',
+];
+
+// Older Curve pools (e.g. compound, usdt) index coins and balances with int128
+export const CURVE_LEGACY_POOL_ABI = [
+  'function coins(int128 i) view returns (address)',
+  'function balances(int128 i) view returns (uint256)',
+];
+
+export const BALANCER_VAULT_ABI = [
+  'function getPoolTokens(bytes32 poolId) view returns (address[] tokens, uint256[] balances, uint256 lastChangeBlock)',
+  'function getPool(bytes32 poolId) view returns (address, uint8)',
+  'function swap((bytes32 poolId, uint8 kind, address assetIn, address assetOut, uint256 amount, bytes userData) singleSwap, (address sender, bool fromInternalBalance, address recipient, bool toInternalBalance) funds, uint256 limit, uint256 deadline) returns (uint256)',
+];
+
+export const BALANCER_WEIGHTED_POOL_ABI = [
+  'function getPoolId() view returns (bytes32)',
+  'function getNormalizedWeights() view returns (uint256[])',
+  'function getSwapFeePercentage() view returns (uint256)',
+];
+
+// Multicall3, deployed at the same address on every supported network
+export const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+];
+
+// contracts/ArbitrageBot.sol
+export const ARBITRAGE_BOT_ABI = [
+  'function executeArbitrage(address tokenA, address tokenB, address dexA, address dexB, uint256 amountIn, uint256 minProfitExpected)',
+  'function executeMultiHopArbitrage((address router, address[] path, uint8 kind, uint24 fee, uint256 minAmountOut)[] hops, uint256 amountIn, uint256 minProfitExpected)',
+  'function executeFlashArbitrage(address tokenA, address tokenB, address dexA, address dexB, uint256 amountIn, uint256 minProfitExpected, uint8 source, address lender, uint24 lenderFee)',
+  'function screenToken(address router, address baseToken, address token, uint256 amountIn)',
+  'function simulateArbitrage(address tokenA, address tokenB, address dexA, address dexB, uint256 amountIn) view returns (uint256 profit, bool profitable)',
+  'function getAmountsOut(address dexRouter, address tokenIn, address tokenOut, uint256 amountIn) view returns (uint256)',
+  'function getBalance(address token) view returns (uint256)',
+  'function isAuthorizedBot(address bot) view returns (bool)',
+  'function getConfig() view returns (uint256 _maxSlippage, uint256 _maxGasPrice, uint256 _minProfitThreshold, uint256 _feePercentage, address _feeRecipient)',
+  'function setAuthorizedBot(address bot, bool authorized)',
+  'function updateConfig(uint256 _maxSlippage, uint256 _maxGasPrice, uint256 _minProfitThreshold, uint256 _feePercentage)',
+  'function setFeeRecipient(address _feeRecipient)',
+  'function setTokenBlacklist(address token, bool blacklisted)',
+  'function withdrawProfits(address token, uint256 amount)',
+  'function emergencyWithdraw(address token)',
+  'function pause()',
+  'function unpause()',
+  'function paused() view returns (bool)',
+  'function owner() view returns (address)',
+  'event ArbitrageExecuted(address indexed tokenA, address indexed tokenB, address indexed dexA, address dexB, uint256 amountIn, uint256 profit, uint256 gasUsed)',
+  'event ProfitWithdrawn(address indexed token, address indexed to, uint256 amount)',
+  'event EmergencyWithdrawal(address indexed token, address indexed to, uint256 amount)',
+  'event ConfigUpdated(string parameter, uint256 oldValue, uint256 newValue)',
+  'event FlashLoanRepaid(address indexed lender, address indexed token, uint256 amount, uint256 fee)',
+  'error ScreenResult((uint256 expectedBought, uint256 bought, uint256 transferred, uint256 transferReceived, uint256 expectedSold, uint256 sold, bool sellFailed) screening)',
+];
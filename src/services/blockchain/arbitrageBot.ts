@@ -0,0 +1,431 @@
+import {
+  BaseContractMethod,
+  BlockTag,
+  Contract,
+  ContractRunner,
+  ContractTransaction,
+  ContractTransactionResponse,
+  Interface,
+  Log,
+  Overrides,
+  Result,
+  TransactionReceipt,
+  isCallException,
+} from 'ethers';
+import { ArbitrageParams, NetworkName } from '../../types';
+import { getArbitrageContractAddress } from '../../config/networks';
+import { ARBITRAGE_BOT_ABI } from './abis';
+import { BotSigner } from './signer';
+
+const arbitrageBotInterface = new Interface(ARBITRAGE_BOT_ABI);
+
+/**
+ * Risk settings stored in the contract (see ArbitrageBot.getConfig)
+ */
+export interface ArbitrageBotConfig {
+  maxSlippage: bigint; // Basis points
+  maxGasPrice: bigint; // Wei
+  minProfitThreshold: bigint; // Raw token units
+  feePercentage: bigint; // Basis points
+  feeRecipient: string;
+}
+
+/**
+ * Settings accepted by updateConfig; the fee recipient is changed separately
+ */
+export type ArbitrageBotConfigUpdate = Omit<ArbitrageBotConfig, 'feeRecipient'>;
+
+/**
+ * Inputs of simulateArbitrage, which does not check profit or gas price
+ */
+export type ArbitrageSimulationParams = Pick<ArbitrageParams, 'tokenA' | 'tokenB' | 'dexA' | 'dexB' | 'amountIn'>;
+
+export interface ArbitrageSimulationResult {
+  profit: bigint;
+  profitable: boolean; // Profit meets the contract's minProfitThreshold
+}
+
+/**
+ * Inputs of screenToken: baseToken is bought into token on a V2 router and sold back
+ */
+export interface TokenScreeningParams {
+  router: string;
+  baseToken: string;
+  token: string;
+  amountIn: bigint; // Raw units of baseToken, taken from the contract's balance
+}
+
+/**
+ * Amounts screenToken measured, in raw units
+ */
+export interface TokenScreeningResult {
+  expectedBought: bigint; // Router quote for the buy
+  bought: bigint;
+  transferred: bigint;
+  transferReceived: bigint;
+  expectedSold: bigint; // Router quote for the sell
+  sold: bigint;
+  sellFailed: boolean;
+}
+
+export interface ArbitrageExecutedEvent {
+  name: 'ArbitrageExecuted';
+  tokenA: string;
+  tokenB: string;
+  dexA: string;
+  dexB: string;
+  amountIn: bigint;
+  profit: bigint;
+  gasUsed: bigint;
+}
+
+export interface ProfitWithdrawnEvent {
+  name: 'ProfitWithdrawn';
+  token: string;
+  to: string;
+  amount: bigint;
+}
+
+export interface EmergencyWithdrawalEvent {
+  name: 'EmergencyWithdrawal';
+  token: string;
+  to: string;
+  amount: bigint;
+}
+
+export interface ConfigUpdatedEvent {
+  name: 'ConfigUpdated';
+  parameter: string;
+  oldValue: bigint;
+  newValue: bigint;
+}
+
+export interface FlashLoanRepaidEvent {
+  name: 'FlashLoanRepaid';
+  lender: string;
+  token: string;
+  amount: bigint;
+  fee: bigint;
+}
+
+export type ArbitrageBotEvent =
+  | ArbitrageExecutedEvent
+  | ProfitWithdrawnEvent
+  | EmergencyWithdrawalEvent
+  | ConfigUpdatedEvent
+  | FlashLoanRepaidEvent;
+
+/**
+ * Typed wrapper around the deployed ArbitrageBot contract
+ * Reads need a provider; transactions need the client connected to a signer
+ */
+export class ArbitrageBotClient {
+  readonly contract: Contract;
+
+  constructor(
+    readonly address: string,
+    runner: ContractRunner,
+  ) {
+    this.contract = new Contract(address, arbitrageBotInterface, runner);
+  }
+
+  /**
+   * Create a client for the contract deployed on a network, or null if no address is configured
+   */
+  static forNetwork(network: NetworkName, runner: ContractRunner): ArbitrageBotClient | null {
+    const address = getArbitrageContractAddress(network);
+    return address ? new ArbitrageBotClient(address, runner) : null;
+  }
+
+  /**
+   * Same contract connected to a bot signer, for sending transactions
+   */
+  connect(signer: BotSigner): ArbitrageBotClient {
+    return new ArbitrageBotClient(this.address, signer);
+  }
+
+  /**
+   * Send executeArbitrage, or executeFlashArbitrage or executeMultiHopArbitrage if the params borrow the
+   * input or list hops; requires a signer authorized on the contract
+   */
+  executeArbitrage(params: ArbitrageParams, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.executeMethod(params)(...executeArgs(params), {
+      gasLimit: params.gasLimit,
+      ...overrides,
+    }) as Promise<ContractTransactionResponse>;
+  }
+
+  /**
+   * Build the unsigned transaction executeArbitrage would send, for submitting it another way
+   */
+  populateExecuteArbitrage(params: ArbitrageParams, overrides: Overrides = {}): Promise<ContractTransaction> {
+    return this.executeMethod(params).populateTransaction(...executeArgs(params), {
+      gasLimit: params.gasLimit,
+      ...overrides,
+    });
+  }
+
+  /**
+   * Run the trade through eth_call; resolves if it would succeed and throws its revert otherwise
+   */
+  async callExecuteArbitrage(params: ArbitrageParams, overrides: Overrides = {}): Promise<void> {
+    await this.executeMethod(params).staticCall(...executeArgs(params), {
+      gasLimit: params.gasLimit,
+      ...overrides,
+    });
+  }
+
+  /**
+   * Estimate the gas the trade would use
+   */
+  estimateExecuteArbitrageGas(params: ArbitrageParams, overrides: Overrides = {}): Promise<bigint> {
+    return this.executeMethod(params).estimateGas(...executeArgs(params), overrides);
+  }
+
+  /**
+   * Quote the round trip on the contract without executing it
+   */
+  async simulateArbitrage(params: ArbitrageSimulationParams, blockTag?: BlockTag): Promise<ArbitrageSimulationResult> {
+    const [profit, profitable] = await this.contract.simulateArbitrage(
+      params.tokenA,
+      params.tokenB,
+      params.dexA,
+      params.dexB,
+      params.amountIn,
+      { blockTag },
+    ) as [bigint, boolean];
+
+    return { profit, profitable };
+  }
+
+  /**
+   * Buy, transfer and sell a token through eth_call and return the amounts each step received
+   * Must be run from an authorized bot; throws the revert if screening fails before the sell
+   */
+  async screenToken(params: TokenScreeningParams, from: string, blockTag?: BlockTag): Promise<TokenScreeningResult> {
+    try {
+      await this.contract.screenToken.staticCall(
+        params.router,
+        params.baseToken,
+        params.token,
+        params.amountIn,
+        { from, blockTag },
+      );
+    } catch (error) {
+      if (!isCallException(error) || error.revert?.name !== 'ScreenResult') throw error;
+
+      const screening = error.revert.args[0] as Result;
+      return {
+        expectedBought: screening.expectedBought as bigint,
+        bought: screening.bought as bigint,
+        transferred: screening.transferred as bigint,
+        transferReceived: screening.transferReceived as bigint,
+        expectedSold: screening.expectedSold as bigint,
+        sold: screening.sold as bigint,
+        sellFailed: screening.sellFailed as boolean,
+      };
+    }
+    throw new Error('screenToken returned without a result');
+  }
+
+  /**
+   * Read the contract's risk settings
+   */
+  async getConfig(blockTag?: BlockTag): Promise<ArbitrageBotConfig> {
+    const [maxSlippage, maxGasPrice, minProfitThreshold, feePercentage, feeRecipient] =
+      await this.contract.getConfig({ blockTag }) as [bigint, bigint, bigint, bigint, string];
+
+    return { maxSlippage, maxGasPrice, minProfitThreshold, feePercentage, feeRecipient };
+  }
+
+  /**
+   * Read the contract's balance of a token
+   */
+  getBalance(token: string, blockTag?: BlockTag): Promise<bigint> {
+    return this.contract.getBalance(token, { blockTag }) as Promise<bigint>;
+  }
+
+  /**
+   * Check whether an address may call executeArbitrage
+   */
+  isAuthorizedBot(bot: string): Promise<boolean> {
+    return this.contract.isAuthorizedBot(bot) as Promise<boolean>;
+  }
+
+  /**
+   * Check whether trading is paused
+   */
+  isPaused(): Promise<boolean> {
+    return this.contract.paused() as Promise<boolean>;
+  }
+
+  /**
+   * Read the contract owner
+   */
+  getOwner(): Promise<string> {
+    return this.contract.owner() as Promise<string>;
+  }
+
+  /**
+   * Update the risk settings (owner only)
+   */
+  updateConfig(config: ArbitrageBotConfigUpdate, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.contract.updateConfig(
+      config.maxSlippage,
+      config.maxGasPrice,
+      config.minProfitThreshold,
+      config.feePercentage,
+      overrides,
+    ) as Promise<ContractTransactionResponse>;
+  }
+
+  /**
+   * Change the address receiving protocol fees (owner only)
+   */
+  setFeeRecipient(feeRecipient: string, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.contract.setFeeRecipient(feeRecipient, overrides) as Promise<ContractTransactionResponse>;
+  }
+
+  /**
+   * Grant or revoke a bot's permission to execute trades (owner only)
+   */
+  setAuthorizedBot(bot: string, authorized: boolean, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.contract.setAuthorizedBot(bot, authorized, overrides) as Promise<ContractTransactionResponse>;
+  }
+
+  /**
+   * Block or unblock a token for trading (owner only)
+   */
+  setTokenBlacklist(
+    token: string,
+    blacklisted: boolean,
+    overrides: Overrides = {},
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setTokenBlacklist(token, blacklisted, overrides) as Promise<ContractTransactionResponse>;
+  }
+
+  /**
+   * Withdraw an amount of a token to the owner (owner only)
+   */
+  withdrawProfits(token: string, amount: bigint, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.contract.withdrawProfits(token, amount, overrides) as Promise<ContractTransactionResponse>;
+  }
+
+  /**
+   * Withdraw the contract's whole balance of a token to the owner (owner only)
+   */
+  emergencyWithdraw(token: string, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.contract.emergencyWithdraw(token, overrides) as Promise<ContractTransactionResponse>;
+  }
+
+  /**
+   * Stop all trading (owner only)
+   */
+  pause(overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.contract.pause(overrides) as Promise<ContractTransactionResponse>;
+  }
+
+  /**
+   * Resume trading (owner only)
+   */
+  unpause(overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.contract.unpause(overrides) as Promise<ContractTransactionResponse>;
+  }
+
+  /**
+   * Contract method that executes the params
+   */
+  private executeMethod(params: ArbitrageParams): BaseContractMethod {
+    return this.contract.getFunction(executeFunction(params));
+  }
+
+  /**
+   * Decode the contract's events in a transaction receipt, skipping logs of other contracts
+   */
+  parseReceipt(receipt: TransactionReceipt): ArbitrageBotEvent[] {
+    return receipt.logs
+      .filter(log => log.address.toLowerCase() === this.address.toLowerCase())
+      .map(log => decodeArbitrageBotEvent(log))
+      .filter((event): event is ArbitrageBotEvent => event !== null);
+  }
+}
+
+/**
+ * Decode a single ArbitrageBot log, or null if it is not one of the contract's events
+ */
+export function decodeArbitrageBotEvent(log: Pick<Log, 'topics' | 'data'>): ArbitrageBotEvent | null {
+  let parsed;
+  try {
+    parsed = arbitrageBotInterface.parseLog({ topics: [...log.topics], data: log.data });
+  } catch {
+    return null;
+  }
+  if (!parsed) return null;
+
+  const args = parsed.args;
+  switch (parsed.name) {
+  case 'ArbitrageExecuted':
+    return {
+      name: 'ArbitrageExecuted',
+      tokenA: args.tokenA,
+      tokenB: args.tokenB,
+      dexA: args.dexA,
+      dexB: args.dexB,
+      amountIn: args.amountIn,
+      profit: args.profit,
+      gasUsed: args.gasUsed,
+    };
+  case 'ProfitWithdrawn':
+  case 'EmergencyWithdrawal':
+    return {
+      name: parsed.name,
+      token: args.token,
+      to: args.to,
+      amount: args.amount,
+    };
+  case 'ConfigUpdated':
+    return {
+      name: 'ConfigUpdated',
+      parameter: args.parameter,
+      oldValue: args.oldValue,
+      newValue: args.newValue,
+    };
+  case 'FlashLoanRepaid':
+    return {
+      name: 'FlashLoanRepaid',
+      lender: args.lender,
+      token: args.token,
+      amount: args.amount,
+      fee: args.fee,
+    };
+  default:
+    return null;
+  }
+}
+
+/**
+ * Calldata of the transaction that executes the params
+ */
+export function encodeExecuteArbitrage(params: ArbitrageParams): string {
+  return arbitrageBotInterface.encodeFunctionData(executeFunction(params), executeArgs(params));
+}
+
+/**
+ * Contract function that executes the params
+ */
+function executeFunction(params: ArbitrageParams): string {
+  if (params.hops) return 'executeMultiHopArbitrage';
+  return params.flashLoan ? 'executeFlashArbitrage' : 'executeArbitrage';
+}
+
+/**
+ * Positional arguments of executeFunction(params)
+ */
+function executeArgs(params: ArbitrageParams): unknown[] {
+  if (params.hops) {
+    return [params.hops, params.amountIn, params.minProfitThreshold];
+  }
+
+  const args = [params.tokenA, params.tokenB, params.dexA, params.dexB, params.amountIn, params.minProfitThreshold];
+  return params.flashLoan ? [...args, params.flashLoan.source, params.flashLoan.lender, params.flashLoan.lenderFee] : args;
+}
@@ -0,0 +1,41 @@
+import { BlockTag, Interface, Provider } from 'ethers';
+import { ERC20_ABI } from './abis';
+import { getMulticall } from './multicall';
+
+const erc20Interface = new Interface(ERC20_ABI);
+
+// Decimals never change, so they are cached per provider for the lifetime of the process
+const decimalsCache = new WeakMap<Provider, Map<string, Promise<number>>>();
+
+/**
+ * Read (and cache) the decimals of an ERC20 token
+ */
+export function getTokenDecimals(provider: Provider, address: string): Promise<number> {
+  let cache = decimalsCache.get(provider);
+  if (!cache) {
+    cache = new Map();
+    decimalsCache.set(provider, cache);
+  }
+
+  const key = address.toLowerCase();
+  let decimals = cache.get(key);
+  if (!decimals) {
+    decimals = getMulticall(provider).call<bigint>(address, erc20Interface, 'decimals').then(Number);
+    decimals.catch(() => cache?.delete(key));
+    cache.set(key, decimals);
+  }
+
+  return decimals;
+}
+
+/**
+ * Read the token balance of an address
+ */
+export function getTokenBalance(
+  provider: Provider,
+  address: string,
+  owner: string,
+  blockTag?: BlockTag,
+): Promise<bigint> {
+  return getMulticall(provider).call<bigint>(address, erc20Interface, 'balanceOf', [owner], blockTag);
+}
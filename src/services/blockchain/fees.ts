@@ -0,0 +1,172 @@
+import { JsonRpcProvider, Overrides, toQuantity } from 'ethers';
+import { NetworkName } from '../../types';
+import { getNetworkConfig } from '../../config/networks';
+import { logger } from '../../utils/logger';
+
+// Blocks of fee history the priority fee is taken from
+const FEE_HISTORY_BLOCKS = 10;
+// Percentile of each block's priority fees; the median across blocks is used
+const PRIORITY_PERCENTILE = 50;
+
+/**
+ * Fees for one transaction
+ */
+export interface FeeQuote {
+  type: 'eip1559' | 'legacy';
+  gasPrice: bigint; // Price per gas expected to be paid: next base fee plus tip, or the legacy gas price
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+}
+
+/**
+ * Builds transaction fees for a network: EIP-1559 fees from recent fee history, legacy gas prices elsewhere
+ * The configured gas multiplier is applied to the tip (or the legacy price), and fees are kept under
+ * the contract's maxGasPrice when it is known
+ */
+export class FeeStrategy {
+  private eip1559: boolean;
+  private minGasPrice: bigint;
+  private maxGasPrice?: bigint;
+
+  constructor(
+    private network: NetworkName,
+    private provider: JsonRpcProvider,
+    private gasMultiplier: number,
+  ) {
+    const config = getNetworkConfig(network);
+    this.eip1559 = config.eip1559;
+    this.minGasPrice = BigInt(config.gasPrice ?? 0);
+  }
+
+  /**
+   * Limit fees to the ArbitrageBot's maxGasPrice, which rejects any transaction priced above it
+   */
+  setMaxGasPrice(maxGasPrice: bigint | undefined): void {
+    this.maxGasPrice = maxGasPrice;
+  }
+
+  /**
+   * Current fees for a new transaction
+   */
+  async getFees(): Promise<FeeQuote> {
+    if (!this.eip1559) {
+      const feeData = await this.provider.getFeeData();
+      const gasPrice = this.applyMultiplier(feeData.gasPrice ?? 0n);
+      return this.capFees({ type: 'legacy', gasPrice: gasPrice > this.minGasPrice ? gasPrice : this.minGasPrice });
+    }
+
+    const { baseFee, priorityFee } = await this.getFeeHistory();
+    const maxPriorityFeePerGas = this.applyMultiplier(priorityFee);
+
+    // Twice the base fee keeps the transaction valid through several blocks of rising base fees
+    return this.capFees({
+      type: 'eip1559',
+      gasPrice: baseFee + maxPriorityFeePerGas,
+      maxFeePerGas: baseFee * 2n + maxPriorityFeePerGas,
+      maxPriorityFeePerGas,
+    });
+  }
+
+  /**
+   * Fees for a replacement of a pending transaction
+   * Nodes only accept a replacement that raises every fee by at least 10%, so the previous fees are bumped
+   * by bumpPercent and raised further if current fees are higher
+   */
+  bump(previous: FeeQuote, current: FeeQuote, bumpPercent: number): FeeQuote {
+    const bumpBy = (value: bigint | undefined): bigint =>
+      (value ?? 0n) * BigInt(100 + bumpPercent) / 100n;
+    const larger = (a: bigint, b: bigint | undefined): bigint => (b !== undefined && b > a ? b : a);
+
+    if (previous.type === 'legacy') {
+      return { type: 'legacy', gasPrice: larger(bumpBy(previous.gasPrice), current.gasPrice) };
+    }
+
+    const maxPriorityFeePerGas = larger(bumpBy(previous.maxPriorityFeePerGas), current.maxPriorityFeePerGas);
+    const maxFeePerGas = larger(bumpBy(previous.maxFeePerGas), current.maxFeePerGas);
+    const expected = current.gasPrice - (current.maxPriorityFeePerGas ?? 0n) + maxPriorityFeePerGas;
+    return {
+      type: 'eip1559',
+      gasPrice: expected < maxFeePerGas ? expected : maxFeePerGas,
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+    };
+  }
+
+  /**
+   * Check if the fees could make the contract reject the transaction for its gas price
+   */
+  exceedsMaxGasPrice(fees: FeeQuote): boolean {
+    if (this.maxGasPrice === undefined) return false;
+    return (fees.maxFeePerGas ?? fees.gasPrice) > this.maxGasPrice;
+  }
+
+  /**
+   * Base fee of the next block and the median recent tip
+   * Falls back to the node's fee data if eth_feeHistory is not available
+   */
+  private async getFeeHistory(): Promise<{ baseFee: bigint; priorityFee: bigint }> {
+    try {
+      const history = await this.provider.send('eth_feeHistory', [
+        toQuantity(FEE_HISTORY_BLOCKS),
+        'latest',
+        [PRIORITY_PERCENTILE],
+      ]) as { baseFeePerGas: string[]; reward?: string[][] };
+
+      // The last base fee is the one of the next block
+      const baseFee = BigInt(history.baseFeePerGas[history.baseFeePerGas.length - 1]);
+      const rewards = (history.reward ?? [])
+        .map(reward => BigInt(reward[0]))
+        .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+      const priorityFee = rewards.length > 0 ? rewards[Math.floor(rewards.length / 2)] : 0n;
+
+      return { baseFee, priorityFee };
+    } catch (error) {
+      logger.debug(`eth_feeHistory failed on ${this.network}, using fee data`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      const [block, feeData] = await Promise.all([
+        this.provider.getBlock('latest'),
+        this.provider.getFeeData(),
+      ]);
+      return {
+        baseFee: block?.baseFeePerGas ?? feeData.gasPrice ?? 0n,
+        priorityFee: feeData.maxPriorityFeePerGas ?? 0n,
+      };
+    }
+  }
+
+  /**
+   * Scale a fee by GAS_PRICE_MULTIPLIER
+   */
+  private applyMultiplier(value: bigint): bigint {
+    return value * BigInt(Math.round(this.gasMultiplier * 1000)) / 1000n;
+  }
+
+  /**
+   * Lower the fee ceiling to maxGasPrice where that still covers the expected price
+   */
+  private capFees(fees: FeeQuote): FeeQuote {
+    if (this.maxGasPrice === undefined || fees.type === 'legacy' || !fees.maxFeePerGas) {
+      return fees;
+    }
+    if (fees.maxFeePerGas > this.maxGasPrice && fees.gasPrice <= this.maxGasPrice) {
+      return { ...fees, maxFeePerGas: this.maxGasPrice };
+    }
+    return fees;
+  }
+}
+
+/**
+ * Transaction overrides for a fee quote
+ */
+export function toFeeOverrides(fees: FeeQuote): Overrides {
+  if (fees.type === 'legacy') {
+    return { type: 0, gasPrice: fees.gasPrice };
+  }
+  return {
+    type: 2,
+    maxFeePerGas: fees.maxFeePerGas,
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+  };
+}
@@ -0,0 +1,140 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { TransactionRequest, TypedDataField, getAddress, getBytes } from 'ethers';
+import { BotSigner } from './signer';
+
+// Requests bigger than this are refused before they are parsed
+const MAX_BODY_BYTES = 1024 * 1024;
+
+interface RpcRequest {
+  id?: number | string | null;
+  method?: string;
+  params?: unknown[];
+}
+
+/**
+ * Stand-in for a remote signer, serving the JSON-RPC methods RemoteSigner calls for one local signer
+ * Listens on the loopback interface only; meant for tests and local development, not for holding production keys
+ */
+export class LocalSignerServer {
+  private server?: http.Server;
+
+  constructor(private signer: BotSigner) {}
+
+  /**
+   * Start listening and return the URL to give RemoteSigner; port 0 picks a free port
+   */
+  async start(port: number = 0): Promise<string> {
+    const server = http.createServer((request, response) => void this.handle(request, response));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+
+    this.server = server;
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+
+    this.server = undefined;
+    await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+  }
+
+  /**
+   * Answer one HTTP request with a JSON-RPC response
+   */
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    let rpc: RpcRequest = {};
+    let reply: Record<string, unknown>;
+    try {
+      rpc = JSON.parse(await readBody(request)) as RpcRequest;
+      reply = { result: await this.call(rpc.method, rpc.params ?? []) };
+    } catch (error) {
+      reply = { error: { code: -32000, message: error instanceof Error ? error.message : String(error) } };
+    }
+
+    response.setHeader('content-type', 'application/json');
+    response.end(JSON.stringify({ jsonrpc: '2.0', id: rpc.id ?? null, ...reply }));
+  }
+
+  /**
+   * Run a signer method; signing methods must name the account of the signer
+   */
+  private async call(method: string | undefined, params: unknown[]): Promise<unknown> {
+    switch (method) {
+    case 'eth_accounts':
+      return [this.signer.address];
+    case 'eth_signTransaction': {
+      const transaction = params[0] as Record<string, any>;
+      this.checkAccount(transaction?.from);
+      return this.signer.signTransaction(fromRpcTransaction(transaction));
+    }
+    case 'eth_sign':
+      this.checkAccount(params[0]);
+      return this.signer.signMessage(getBytes(params[1] as string));
+    case 'eth_signTypedData': {
+      this.checkAccount(params[0]);
+      const payload = JSON.parse(params[1] as string) as {
+        domain: Record<string, any>;
+        types: Record<string, TypedDataField[]>;
+        message: Record<string, any>;
+      };
+      // ethers derives the domain type itself
+      const types = { ...payload.types };
+      delete types.EIP712Domain;
+      return this.signer.signTypedData(payload.domain, types, payload.message);
+    }
+    default:
+      throw new Error(`Method ${method} is not supported`);
+    }
+  }
+
+  /**
+   * Refuse requests for an account other than the signer's
+   */
+  private checkAccount(address: unknown): void {
+    if (typeof address !== 'string' || getAddress(address) !== this.signer.address) {
+      throw new Error(`Unknown account ${String(address)}`);
+    }
+  }
+}
+
+/**
+ * Read a request body up to MAX_BODY_BYTES
+ */
+async function readBody(request: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new Error('Request too large');
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Convert an eth_signTransaction object back into a transaction request
+ */
+function fromRpcTransaction(transaction: Record<string, any>): TransactionRequest {
+  return {
+    from: transaction.from,
+    to: transaction.to,
+    data: transaction.data,
+    value: transaction.value,
+    nonce: transaction.nonce === undefined ? undefined : Number(transaction.nonce),
+    gasLimit: transaction.gas,
+    gasPrice: transaction.gasPrice,
+    maxFeePerGas: transaction.maxFeePerGas,
+    maxPriorityFeePerGas: transaction.maxPriorityFeePerGas,
+    chainId: transaction.chainId,
+    type: transaction.type === undefined ? undefined : Number(transaction.type),
+    accessList: transaction.accessList,
+  };
+}
@@ -0,0 +1,122 @@
+import { BlockTag, Interface, Provider } from 'ethers';
+import { MULTICALL3_ABI } from './abis';
+
+// Canonical Multicall3 deployment, the same address on Ethereum, BSC and Polygon
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+// Calls aggregated into one eth_call; bigger batches run into node gas and response size limits
+const MAX_BATCH_CALLS = 200;
+
+const multicallInterface = new Interface(MULTICALL3_ABI);
+
+interface PendingCall {
+  target: string;
+  iface: Interface;
+  method: string;
+  callData: string;
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+}
+
+// One batcher per provider, so every quoter on a network shares the same batches
+const batchers = new WeakMap<Provider, MulticallBatcher>();
+
+/**
+ * Get the multicall batcher of a provider
+ */
+export function getMulticall(provider: Provider): MulticallBatcher {
+  let batcher = batchers.get(provider);
+  if (!batcher) {
+    batcher = new MulticallBatcher(provider);
+    batchers.set(provider, batcher);
+  }
+  return batcher;
+}
+
+/**
+ * Batches view calls into Multicall3 aggregate3 calls
+ * Calls made in the same tick are queued per block tag and sent together in chunks of MAX_BATCH_CALLS, so
+ * reads pinned to one block come from the same snapshot. Each call may fail on its own: a revert rejects only
+ * that call's promise, while a failed chunk rejects every call in it
+ */
+export class MulticallBatcher {
+  private queues = new Map<string, { blockTag?: BlockTag; calls: PendingCall[] }>(); // By block tag
+  private scheduled = false;
+
+  constructor(private provider: Provider) {}
+
+  /**
+   * Queue a view call and resolve with its decoded result, unwrapped when the function has a single output
+   */
+  call<T = any>(
+    target: string,
+    iface: Interface,
+    method: string,
+    args: readonly unknown[] = [],
+    blockTag?: BlockTag,
+  ): Promise<T> {
+    const callData = iface.encodeFunctionData(method, args);
+
+    return new Promise<T>((resolve, reject) => {
+      const key = String(blockTag ?? 'latest');
+      let queue = this.queues.get(key);
+      if (!queue) {
+        queue = { blockTag, calls: [] };
+        this.queues.set(key, queue);
+      }
+      queue.calls.push({ target, iface, method, callData, resolve, reject });
+
+      if (!this.scheduled) {
+        this.scheduled = true;
+        setImmediate(() => this.flush());
+      }
+    });
+  }
+
+  /**
+   * Send every queued call, one aggregate3 call per chunk
+   */
+  private flush(): void {
+    const queues = [...this.queues.values()];
+    this.queues.clear();
+    this.scheduled = false;
+
+    for (const { blockTag, calls } of queues) {
+      for (let i = 0; i < calls.length; i += MAX_BATCH_CALLS) {
+        void this.execute(calls.slice(i, i + MAX_BATCH_CALLS), blockTag);
+      }
+    }
+  }
+
+  /**
+   * Send one chunk and settle each call with its own result
+   */
+  private async execute(calls: PendingCall[], blockTag?: BlockTag): Promise<void> {
+    let results: [boolean, string][];
+    try {
+      const data = multicallInterface.encodeFunctionData('aggregate3', [
+        calls.map(call => [call.target, true, call.callData]),
+      ]);
+      const returnData = await this.provider.call({ to: MULTICALL3_ADDRESS, data, blockTag });
+      [results] = multicallInterface.decodeFunctionResult('aggregate3', returnData);
+    } catch (error) {
+      calls.forEach(call => call.reject(error));
+      return;
+    }
+
+    calls.forEach((call, i) => {
+      const [success, returnData] = results[i];
+      if (!success) {
+        call.reject(new Error(`${call.method} reverted on ${call.target}: ${returnData}`));
+        return;
+      }
+
+      try {
+        const result = call.iface.decodeFunctionResult(call.method, returnData);
+        call.resolve(result.length === 1 ? result[0] : result);
+      } catch (error) {
+        // Calls to an address without code succeed with no return data
+        call.reject(error);
+      }
+    });
+  }
+}
@@ -0,0 +1,56 @@
+import { Provider } from 'ethers';
+
+/**
+ * Hands out consecutive nonces for one sending address
+ * Concurrent callers are serialised, so several transactions can be submitted in parallel without
+ * reusing a nonce; nonces of transactions that were never broadcast are given out again first
+ */
+export class NonceManager {
+  private nextNonce: number | null = null;
+  private released: number[] = [];
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private provider: Provider,
+    readonly address: string,
+  ) {}
+
+  /**
+   * Reserve a nonce; it must be released if the transaction is not broadcast
+   */
+  next(): Promise<number> {
+    const reserved = this.queue.then(async () => {
+      if (this.released.length > 0) {
+        return this.released.shift() as number;
+      }
+      if (this.nextNonce === null) {
+        this.nextNonce = await this.provider.getTransactionCount(this.address, 'pending');
+      }
+      return this.nextNonce++;
+    });
+
+    this.queue = reserved.catch(() => undefined);
+    return reserved;
+  }
+
+  /**
+   * Give back a nonce whose transaction was rejected before reaching the mempool
+   */
+  release(nonce: number): void {
+    if (this.nextNonce === nonce + 1) {
+      this.nextNonce = nonce;
+    } else if (!this.released.includes(nonce)) {
+      this.released.push(nonce);
+      this.released.sort((a, b) => a - b);
+    }
+  }
+
+  /**
+   * Forget the local state and read the nonce from the node on the next call
+   * Used when the node rejects a nonce or a transaction disappears from the mempool
+   */
+  reset(): void {
+    this.nextNonce = null;
+    this.released = [];
+  }
+}
@@ -0,0 +1,403 @@
+import { FetchRequest, JsonRpcPayload, JsonRpcProvider, JsonRpcResult, Network, isError } from 'ethers';
+import { NetworkName } from '../../types';
+import { getNetworkConfig, getRpcQuorum, getRpcUrls } from '../../config/networks';
+import { HealthCheckType } from '../../entities/HealthCheck';
+import { BreakerOptions, BreakerState, CircuitBreaker, saveBreakerTransition } from '../monitoring/circuitBreaker';
+import { logger } from '../../utils/logger';
+
+const RPC_BREAKER: BreakerOptions = {
+  signals: {
+    request: { window: 20, minSamples: 5, maxFailureRate: 0.5 }, // Requests that fail or time out
+  },
+  coolDownMs: 60 * 1000,
+  probeSuccesses: 3,
+};
+// Time a request may take before it counts as a timeout and the next endpoint is tried
+const RPC_TIMEOUT_MS = 10000;
+// How often every endpoint's block height and latency are sampled
+const HEIGHT_CHECK_INTERVAL_MS = 15000;
+// Blocks behind the highest endpoint before an endpoint is only used when the others fail
+export const MAX_BLOCK_LAG = 2;
+// Latency added to an endpoint's score for every block it is behind
+const LAG_PENALTY_MS = 500;
+// Weight of the newest sample in an endpoint's average latency
+const LATENCY_SMOOTHING = 0.2;
+// Another endpoint takes over reads only when its score is below this share of the active endpoint's score
+const SWITCH_MARGIN = 0.8;
+
+/**
+ * One RPC endpoint of a network, with its breaker, request counts and latest measurements
+ */
+interface RpcEndpoint {
+  name: string; // e.g. eth-rpc-2; URLs can hold API keys, so only names and hosts are logged
+  host: string;
+  connection: FetchRequest;
+  breaker: CircuitBreaker;
+  requests: number;
+  errors: number;
+  timeouts: number;
+  latency?: number; // Average response time in milliseconds
+  blockNumber?: number; // Height at the last check
+}
+
+/**
+ * Request counts, measurements and breaker state of an RPC endpoint, for /networks and health checks
+ */
+export interface RpcEndpointStatus {
+  name: string;
+  host: string;
+  state: BreakerState;
+  active: boolean;
+  requests: number;
+  errors: number;
+  timeouts: number;
+  latency?: number;
+  blockNumber?: number;
+  lag: number; // Blocks behind the highest endpoint
+  score: number; // Lower is better
+}
+
+/**
+ * JSON-RPC provider over a pool of endpoints of one network
+ * Every endpoint's block height and latency are sampled in the background, and each request goes to the endpoint
+ * with the best score that is neither lagging nor behind an open breaker; on an error or timeout it fails over to
+ * the next one. An endpoint whose breaker opened is used again once its cool-down has passed and probes succeed
+ */
+export class ProviderPool extends JsonRpcProvider {
+  private networkName: NetworkName;
+  private endpoints: RpcEndpoint[];
+  private active: RpcEndpoint; // Endpoint of the last successful request
+  private heightTimer: NodeJS.Timeout;
+
+  constructor(network: NetworkName, urls: string[]) {
+    // Static network avoids an eth_chainId round trip on every request
+    const chain = Network.from(getNetworkConfig(network).chainId);
+    super(urls[0], chain, { staticNetwork: chain });
+
+    this.networkName = network;
+    this.endpoints = urls.map((url, i) => {
+      const connection = new FetchRequest(url);
+      connection.timeout = RPC_TIMEOUT_MS;
+
+      const name = `${network}-rpc-${i + 1}`;
+      const host = new URL(url).host;
+      return {
+        name,
+        host,
+        connection,
+        breaker: new CircuitBreaker(RPC_BREAKER, transition => {
+          const message = `RPC ${name} (${host}) ${transition.from} -> ${transition.to}: ${transition.reason}`;
+          if (transition.to === 'open') {
+            logger.warn(`🚧 ${message}`);
+          } else {
+            logger.info(`🔌 ${message}`);
+          }
+          void saveBreakerTransition(HealthCheckType.BLOCKCHAIN_RPC, name, transition, { network, host });
+        }),
+        requests: 0,
+        errors: 0,
+        timeouts: 0,
+      };
+    });
+    this.active = this.endpoints[0];
+
+    this.heightTimer = setInterval(() => void this.checkHeights(), HEIGHT_CHECK_INTERVAL_MS);
+    this.heightTimer.unref();
+    void this.checkHeights();
+  }
+
+  /**
+   * Send a request or batch to the best endpoint, failing over to the others in order of score
+   * When every breaker is open the endpoints are tried anyway, since there is nothing else to use
+   */
+  async _send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<JsonRpcResult[]> {
+    const ranked = this.rankEndpoints();
+
+    let lastError: unknown;
+    for (const endpoint of ranked.length > 0 ? ranked : this.endpoints) {
+      try {
+        const result = await this.sendTo(endpoint, payload);
+        this.setActive(endpoint);
+        return result;
+      } catch (error) {
+        if (this.destroyed) throw error;
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Send a request or batch to every usable endpoint and return the result at least `quorum` of them agree on
+   * Only meaningful for reads pinned to a block; endpoints that fail or have not seen the block do not count
+   */
+  async sendQuorum(payload: JsonRpcPayload | JsonRpcPayload[], quorum: number): Promise<JsonRpcResult[]> {
+    const endpoints = this.rankEndpoints();
+    const responses = await Promise.allSettled(endpoints.map(endpoint => this.sendTo(endpoint, payload)));
+
+    const votes = new Map<string, { result: JsonRpcResult[]; count: number }>();
+    for (const response of responses) {
+      if (response.status !== 'fulfilled') continue;
+
+      // Reverts are deterministic at a pinned block, so errors are compared by code and data; messages differ
+      // between node clients
+      const key = JSON.stringify([...response.value]
+        .sort((a, b) => Number(a.id) - Number(b.id))
+        .map(entry => {
+          if (!('error' in entry)) return entry.result;
+          const { code, data } = entry.error as { code?: number; data?: unknown };
+          return { code, data };
+        }));
+      const vote = votes.get(key) ?? { result: response.value, count: 0 };
+      vote.count++;
+      votes.set(key, vote);
+    }
+
+    const agreed = [...votes.values()].find(vote => vote.count >= quorum);
+    if (!agreed) {
+      const counts = [...votes.values()].map(vote => vote.count);
+      throw new Error(
+        `RPC quorum of ${quorum} not reached on ${this.networkName}: ${endpoints.length} endpoints asked, `
+          + `agreeing groups of ${counts.join(', ') || 'none'}`,
+      );
+    }
+    return agreed.result;
+  }
+
+  /**
+   * Get request counts, measurements and breaker state of every endpoint
+   */
+  getEndpointStatus(): RpcEndpointStatus[] {
+    const highest = this.getHighestBlock();
+    return this.endpoints.map(endpoint => ({
+      name: endpoint.name,
+      host: endpoint.host,
+      state: endpoint.breaker.getState(),
+      active: endpoint === this.active,
+      requests: endpoint.requests,
+      errors: endpoint.errors,
+      timeouts: endpoint.timeouts,
+      latency: endpoint.latency !== undefined ? Math.round(endpoint.latency) : undefined,
+      blockNumber: endpoint.blockNumber,
+      lag: this.getLag(endpoint, highest),
+      score: Math.round(this.getScore(endpoint, highest)),
+    }));
+  }
+
+  /**
+   * Stop sampling endpoints along with the provider
+   */
+  destroy(): void {
+    clearInterval(this.heightTimer);
+    super.destroy();
+  }
+
+  /**
+   * Send a request or batch to one endpoint, timing it and recording the outcome on its breaker
+   */
+  private async sendTo(endpoint: RpcEndpoint, payload: JsonRpcPayload | JsonRpcPayload[]): Promise<JsonRpcResult[]> {
+    const request = endpoint.connection.clone();
+    request.body = JSON.stringify(payload);
+    request.setHeader('content-type', 'application/json');
+
+    endpoint.requests++;
+    const startTime = Date.now();
+    try {
+      const response = await request.send();
+      response.assertOk();
+
+      const elapsed = Date.now() - startTime;
+      endpoint.latency = endpoint.latency === undefined
+        ? elapsed
+        : endpoint.latency + (elapsed - endpoint.latency) * LATENCY_SMOOTHING;
+      endpoint.breaker.record('request', true);
+
+      const result = response.bodyJson;
+      return Array.isArray(result) ? result : [result];
+    } catch (error) {
+      const timedOut = isError(error, 'TIMEOUT');
+      if (timedOut) {
+        endpoint.timeouts++;
+      } else {
+        endpoint.errors++;
+      }
+      endpoint.breaker.record('request', false, timedOut ? 'timeout' : describeError(error));
+      logger.debug(`RPC request to ${endpoint.name} failed`, { error: describeError(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * Usable endpoints, best first: ones within MAX_BLOCK_LAG by score, then lagging ones
+   * The active endpoint keeps its place unless another scores clearly better, so reads do not flap between nodes
+   */
+  private rankEndpoints(): RpcEndpoint[] {
+    const highest = this.getHighestBlock();
+    const usable = this.endpoints.filter(endpoint => endpoint.breaker.allowRequest());
+    const byScore = (a: RpcEndpoint, b: RpcEndpoint): number => this.getScore(a, highest) - this.getScore(b, highest);
+
+    const current = usable.filter(endpoint => this.getLag(endpoint, highest) <= MAX_BLOCK_LAG).sort(byScore);
+    const lagging = usable.filter(endpoint => this.getLag(endpoint, highest) > MAX_BLOCK_LAG).sort(byScore);
+
+    const activeIndex = current.indexOf(this.active);
+    if (activeIndex > 0 && this.getScore(current[0], highest) > this.getScore(this.active, highest) * SWITCH_MARGIN) {
+      current.splice(activeIndex, 1);
+      current.unshift(this.active);
+    }
+
+    return [...current, ...lagging];
+  }
+
+  /**
+   * Sample the block height and latency of every endpoint whose breaker lets requests through
+   */
+  private async checkHeights(): Promise<void> {
+    await Promise.all(this.endpoints
+      .filter(endpoint => endpoint.breaker.allowRequest())
+      .map(async endpoint => {
+        try {
+          const payload = { method: 'eth_blockNumber', params: [], id: 0, jsonrpc: '2.0' as const };
+          const [response] = await this.sendTo(endpoint, payload);
+          if ('result' in response) {
+            endpoint.blockNumber = Number(response.result);
+          }
+        } catch {
+          // Counted on the endpoint's breaker
+        }
+      }));
+  }
+
+  /**
+   * Average latency plus a penalty for every block behind; endpoints not measured yet score 0 so they get tried
+   */
+  private getScore(endpoint: RpcEndpoint, highest: number): number {
+    return (endpoint.latency ?? 0) + this.getLag(endpoint, highest) * LAG_PENALTY_MS;
+  }
+
+  /**
+   * Blocks an endpoint was behind the highest one at the last check
+   */
+  private getLag(endpoint: RpcEndpoint, highest: number): number {
+    return endpoint.blockNumber === undefined ? 0 : Math.max(highest - endpoint.blockNumber, 0);
+  }
+
+  /**
+   * Highest block any endpoint reported at the last check
+   */
+  private getHighestBlock(): number {
+    return Math.max(0, ...this.endpoints.map(endpoint => endpoint.blockNumber ?? 0));
+  }
+
+  /**
+   * Note the endpoint requests are being served from, logging when that changes
+   */
+  private setActive(endpoint: RpcEndpoint): void {
+    if (endpoint === this.active) return;
+
+    logger.info(`🔀 ${this.networkName} RPC switched from ${this.active.name} to ${endpoint.name}`, {
+      host: endpoint.host,
+      latency: endpoint.latency !== undefined ? Math.round(endpoint.latency) : undefined,
+      blockNumber: endpoint.blockNumber,
+    });
+    this.active = endpoint;
+  }
+}
+
+/**
+ * Provider whose requests are answered only when enough endpoints of a pool return the same result
+ * Meant for critical reads pinned to a block, such as the reserves a trade is about to execute against
+ */
+export class QuorumProvider extends JsonRpcProvider {
+  constructor(
+    network: NetworkName,
+    private pool: ProviderPool,
+    private quorum: number,
+  ) {
+    super(undefined, Network.from(getNetworkConfig(network).chainId), {
+      staticNetwork: Network.from(getNetworkConfig(network).chainId),
+    });
+  }
+
+  /**
+   * Send a request or batch through the pool's quorum
+   */
+  async _send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<JsonRpcResult[]> {
+    return this.pool.sendQuorum(payload, this.quorum);
+  }
+}
+
+const providers = new Map<NetworkName, ProviderPool>();
+const quorumProviders = new Map<NetworkName, QuorumProvider | null>();
+
+/**
+ * Get (or lazily create) the JSON-RPC provider pool for a network
+ */
+export function getProvider(network: NetworkName): ProviderPool {
+  const existing = providers.get(network);
+  if (existing) {
+    return existing;
+  }
+
+  const urls = getRpcUrls(network);
+  if (urls.length === 0) {
+    throw new Error(`RPC URL not configured for network ${network}`);
+  }
+
+  const provider = new ProviderPool(network, urls);
+  provider.pollingInterval = parseInt(process.env.ARBITRAGE_CHECK_INTERVAL || '4000');
+
+  providers.set(network, provider);
+  logger.info(`🔗 Provider created for ${network}`, {
+    chainId: getNetworkConfig(network).chainId,
+    endpoints: urls.length,
+  });
+
+  return provider;
+}
+
+/**
+ * Get the quorum provider for a network's critical reads, or null if RPC_QUORUM does not ask for one
+ * A quorum larger than the number of endpoints could never be reached, so it is ignored with a warning
+ */
+export function getQuorumProvider(network: NetworkName): QuorumProvider | null {
+  if (quorumProviders.has(network)) {
+    return quorumProviders.get(network) as QuorumProvider | null;
+  }
+
+  const quorum = getRpcQuorum(network);
+  const endpoints = getRpcUrls(network).length;
+  let provider: QuorumProvider | null = null;
+  if (quorum > endpoints) {
+    logger.warn(`⚠️ RPC quorum of ${quorum} on ${network} needs more than its ${endpoints} endpoints, not used`);
+  } else if (quorum > 1) {
+    provider = new QuorumProvider(network, getProvider(network), quorum);
+  }
+
+  quorumProviders.set(network, provider);
+  return provider;
+}
+
+/**
+ * Destroy all providers and clear the cache
+ */
+export function destroyProviders(): void {
+  for (const provider of quorumProviders.values()) {
+    provider?.destroy();
+  }
+  quorumProviders.clear();
+
+  for (const [network, provider] of providers) {
+    provider.destroy();
+    logger.info(`🔌 Provider destroyed for ${network}`);
+  }
+  providers.clear();
+}
+
+/**
+ * Short message of a failed request
+ */
+function describeError(error: unknown): string {
+  if (isError(error, 'SERVER_ERROR') || isError(error, 'NETWORK_ERROR')) return error.shortMessage;
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,96 @@
+import { FetchRequest, Signer, id, toQuantity } from 'ethers';
+
+// A relay that answers later than this is too slow for the block the bundle targets
+const RELAY_TIMEOUT_MS = 5000;
+
+/**
+ * Outcome of one transaction of a simulated bundle
+ */
+export interface BundleTransactionResult {
+  txHash: string;
+  gasUsed?: number;
+  error?: string;
+  revert?: string;
+}
+
+/**
+ * eth_callBundle result
+ */
+export interface CallBundleResult {
+  bundleHash: string;
+  results: BundleTransactionResult[];
+  totalGasUsed?: number;
+  coinbaseDiff?: string;
+}
+
+/**
+ * JSON-RPC client of a bundle relay using the Flashbots eth_sendBundle / eth_callBundle shape
+ * Every request is signed with the auth signer in the X-Flashbots-Signature header; the relay uses the
+ * signer's address to build its reputation, not to pay for anything
+ */
+export class BundleRelayClient {
+  readonly host: string; // URLs can hold API keys, so only the host is logged
+  private nextId = 1;
+
+  constructor(
+    private url: string,
+    private authSigner: Signer,
+  ) {
+    this.host = new URL(url).host;
+  }
+
+  /**
+   * Offer signed transactions as a bundle for one block; returns the bundle hash
+   */
+  async sendBundle(signedTransactions: string[], blockNumber: number): Promise<string> {
+    const result = await this.request<{ bundleHash: string }>('eth_sendBundle', [{
+      txs: signedTransactions,
+      blockNumber: toQuantity(blockNumber),
+    }]);
+    return result.bundleHash;
+  }
+
+  /**
+   * Simulate a bundle for a block on top of the state at stateBlock
+   */
+  callBundle(
+    signedTransactions: string[],
+    blockNumber: number,
+    stateBlock: number | 'latest' = 'latest',
+  ): Promise<CallBundleResult> {
+    return this.request<CallBundleResult>('eth_callBundle', [{
+      txs: signedTransactions,
+      blockNumber: toQuantity(blockNumber),
+      stateBlockNumber: typeof stateBlock === 'number' ? toQuantity(stateBlock) : stateBlock,
+    }]);
+  }
+
+  /**
+   * Send a signed JSON-RPC request and return its result, throwing the relay's error
+   */
+  private async request<T>(method: string, params: unknown[]): Promise<T> {
+    const body = JSON.stringify({ jsonrpc: '2.0', id: this.nextId++, method, params });
+    const signature = await this.authSigner.signMessage(id(body));
+
+    const request = new FetchRequest(this.url);
+    request.method = 'POST';
+    request.body = body;
+    request.setHeader('content-type', 'application/json');
+    request.setHeader('X-Flashbots-Signature', `${await this.authSigner.getAddress()}:${signature}`);
+    request.timeout = RELAY_TIMEOUT_MS;
+
+    const response = await request.send();
+    if (!response.ok()) {
+      throw new Error(`${method} failed on ${this.host}: HTTP ${response.statusCode} ${response.statusMessage}`);
+    }
+
+    const payload = response.bodyJson as { result?: T; error?: { code?: number; message?: string } };
+    if (payload.error) {
+      throw new Error(`${method} failed on ${this.host}: ${payload.error.message ?? `code ${payload.error.code}`}`);
+    }
+    if (payload.result === undefined) {
+      throw new Error(`${method} failed on ${this.host}: empty response`);
+    }
+    return payload.result;
+  }
+}
@@ -0,0 +1,330 @@
+import { readFile } from 'fs/promises';
+import { inspect } from 'util';
+import {
+  AbstractSigner,
+  BaseWallet,
+  BigNumberish,
+  FetchRequest,
+  Provider,
+  Transaction,
+  TransactionRequest,
+  TypedDataDomain,
+  TypedDataEncoder,
+  TypedDataField,
+  Wallet,
+  copyRequest,
+  getAddress,
+  hexlify,
+  resolveAddress,
+  toQuantity,
+  toUtf8Bytes,
+  verifyMessage,
+  verifyTypedData,
+} from 'ethers';
+import { NetworkName, SignerConfig, SignerRole } from '../../types';
+import { getKeystorePassword, getSignerConfigs } from '../../config/networks';
+import { logger } from '../../utils/logger';
+
+// A remote signer that answers later than this is treated as down
+const REMOTE_SIGNER_TIMEOUT_MS = 5000;
+
+export type SignerType = SignerConfig['type'];
+
+/**
+ * Signer of a bot account, the only handle on the account that components sending transactions get
+ * Key material stays inside the implementation: JSON and util.inspect show the type and address only
+ */
+export abstract class BotSigner extends AbstractSigner {
+  abstract readonly type: SignerType;
+
+  constructor(
+    readonly address: string,
+    provider: Provider | null = null,
+  ) {
+    super(provider);
+  }
+
+  /**
+   * Same account connected to a different provider
+   */
+  abstract connect(provider: Provider | null): BotSigner;
+
+  /**
+   * Get the address of the account
+   */
+  getAddress(): Promise<string> {
+    return Promise.resolve(this.address);
+  }
+
+  /**
+   * Serialize as the signer type and address, e.g. when passed as log metadata
+   */
+  toJSON(): { type: SignerType; address: string } {
+    return { type: this.type, address: this.address };
+  }
+
+  /**
+   * Print as the signer type and address in console.log and util.inspect
+   */
+  [inspect.custom](): string {
+    return `${this.constructor.name} { address: '${this.address}' }`;
+  }
+}
+
+/**
+ * Signs with a key decrypted from an encrypted JSON keystore; the decrypted wallet is held in a private field
+ */
+export class KeystoreSigner extends BotSigner {
+  readonly type = 'keystore';
+  readonly #wallet: BaseWallet;
+
+  constructor(wallet: BaseWallet, provider: Provider | null = null) {
+    super(wallet.address, provider);
+    this.#wallet = wallet.connect(provider);
+  }
+
+  /**
+   * Decrypt a keystore with its passphrase; throws on a wrong passphrase
+   */
+  static async unlock(json: string, passphrase: string, provider: Provider | null = null): Promise<KeystoreSigner> {
+    return new KeystoreSigner(await Wallet.fromEncryptedJson(json, passphrase), provider);
+  }
+
+  /**
+   * Same key connected to a different provider
+   */
+  connect(provider: Provider | null): KeystoreSigner {
+    return new KeystoreSigner(this.#wallet, provider);
+  }
+
+  /**
+   * Sign a populated transaction
+   */
+  signTransaction(transaction: TransactionRequest): Promise<string> {
+    return this.#wallet.signTransaction(transaction);
+  }
+
+  /**
+   * Sign an EIP-191 message
+   */
+  signMessage(message: string | Uint8Array): Promise<string> {
+    return this.#wallet.signMessage(message);
+  }
+
+  /**
+   * Sign EIP-712 typed data
+   */
+  signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, any>,
+  ): Promise<string> {
+    return this.#wallet.signTypedData(domain, types, value);
+  }
+}
+
+/**
+ * Signs through the JSON-RPC API of a remote signer such as Web3Signer or Clef, so the key never reaches this
+ * process. Every signature is checked to come from the configured account before it is used
+ */
+export class RemoteSigner extends BotSigner {
+  readonly type = 'remote';
+  readonly host: string; // URLs can hold API keys, so only the host is logged
+  private nextId = 1;
+
+  constructor(
+    private url: string,
+    address: string,
+    provider: Provider | null = null,
+  ) {
+    super(getAddress(address), provider);
+    this.host = new URL(url).host;
+  }
+
+  /**
+   * Connect to a remote signer and check that it holds the account
+   * Without an address the signer must hold exactly one account, which is used
+   */
+  static async open(url: string, address?: string, provider: Provider | null = null): Promise<RemoteSigner> {
+    const accounts = (await requestRemoteSigner<string[]>(url, 1, 'eth_accounts', [])).map(account =>
+      getAddress(account),
+    );
+    const host = new URL(url).host;
+
+    if (address) {
+      if (!accounts.includes(getAddress(address))) {
+        throw new Error(`Remote signer ${host} does not hold ${address}`);
+      }
+      return new RemoteSigner(url, address, provider);
+    }
+    if (accounts.length !== 1) {
+      throw new Error(`Remote signer ${host} holds ${accounts.length} accounts, set the address to sign for`);
+    }
+    return new RemoteSigner(url, accounts[0], provider);
+  }
+
+  /**
+   * Same account connected to a different provider
+   */
+  connect(provider: Provider | null): RemoteSigner {
+    return new RemoteSigner(this.url, this.address, provider);
+  }
+
+  /**
+   * Sign a populated transaction with eth_signTransaction
+   */
+  async signTransaction(transaction: TransactionRequest): Promise<string> {
+    const request = copyRequest(transaction);
+    if (request.from && getAddress(await resolveAddress(request.from, this.provider)) !== this.address) {
+      throw new Error(`Transaction from ${String(request.from)} cannot be signed by ${this.address}`);
+    }
+    const to = request.to ? await resolveAddress(request.to, this.provider) : undefined;
+
+    // Web3Signer returns the signed transaction, Clef an object holding it
+    const result = await this.request<string | { raw: string }>('eth_signTransaction', [
+      toRpcTransaction({ ...request, to, from: this.address }),
+    ]);
+    const signed = typeof result === 'string' ? result : result.raw;
+    if (Transaction.from(signed).from !== this.address) {
+      throw new Error(`Remote signer ${this.host} signed the transaction with another account`);
+    }
+    return signed;
+  }
+
+  /**
+   * Sign an EIP-191 message with eth_sign
+   */
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const data = hexlify(typeof message === 'string' ? toUtf8Bytes(message) : message);
+    const signature = await this.request<string>('eth_sign', [this.address, data]);
+    if (verifyMessage(message, signature) !== this.address) {
+      throw new Error(`Remote signer ${this.host} signed the message with another account`);
+    }
+    return signature;
+  }
+
+  /**
+   * Sign EIP-712 typed data with eth_signTypedData
+   */
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, any>,
+  ): Promise<string> {
+    const resolved = await TypedDataEncoder.resolveNames(domain, types, value, async name =>
+      resolveAddress(name, this.provider),
+    );
+    const resolvedValue = resolved.value as Record<string, any>;
+    const payload = TypedDataEncoder.getPayload(resolved.domain, types, resolvedValue);
+    const signature = await this.request<string>('eth_signTypedData', [this.address, JSON.stringify(payload)]);
+    if (verifyTypedData(resolved.domain, types, resolvedValue, signature) !== this.address) {
+      throw new Error(`Remote signer ${this.host} signed the typed data with another account`);
+    }
+    return signature;
+  }
+
+  /**
+   * Send a JSON-RPC request to the signer
+   */
+  private request<T>(method: string, params: unknown[]): Promise<T> {
+    return requestRemoteSigner<T>(this.url, this.nextId++, method, params);
+  }
+}
+
+/**
+ * Send a JSON-RPC request to a remote signer and return its result, throwing the signer's error
+ */
+async function requestRemoteSigner<T>(url: string, id: number, method: string, params: unknown[]): Promise<T> {
+  const host = new URL(url).host;
+  const request = new FetchRequest(url);
+  request.method = 'POST';
+  request.body = JSON.stringify({ jsonrpc: '2.0', id, method, params });
+  request.setHeader('content-type', 'application/json');
+  request.timeout = REMOTE_SIGNER_TIMEOUT_MS;
+
+  const response = await request.send();
+  if (!response.ok()) {
+    throw new Error(`${method} failed on ${host}: HTTP ${response.statusCode} ${response.statusMessage}`);
+  }
+
+  const payload = response.bodyJson as { result?: T; error?: { code?: number; message?: string } };
+  if (payload.error) {
+    throw new Error(`${method} failed on ${host}: ${payload.error.message ?? `code ${payload.error.code}`}`);
+  }
+  if (payload.result === undefined || payload.result === null) {
+    throw new Error(`${method} failed on ${host}: empty response`);
+  }
+  return payload.result;
+}
+
+/**
+ * Convert a populated transaction into the JSON-RPC shape of eth_signTransaction
+ */
+function toRpcTransaction(transaction: TransactionRequest): Record<string, unknown> {
+  const quantity = (value?: BigNumberish | null): string | undefined =>
+    value === undefined || value === null ? undefined : toQuantity(value);
+
+  return {
+    from: transaction.from,
+    to: transaction.to ?? undefined,
+    data: transaction.data ?? undefined,
+    value: quantity(transaction.value),
+    nonce: quantity(transaction.nonce),
+    gas: quantity(transaction.gasLimit),
+    gasPrice: quantity(transaction.gasPrice),
+    maxFeePerGas: quantity(transaction.maxFeePerGas),
+    maxPriorityFeePerGas: quantity(transaction.maxPriorityFeePerGas),
+    chainId: quantity(transaction.chainId),
+    type: quantity(transaction.type),
+    accessList: transaction.accessList ?? undefined,
+  };
+}
+
+/**
+ * Load the signers of a network's accounts with a role; keystores are decrypted here, once at startup
+ * An account whose keystore does not unlock or whose remote signer cannot be reached is left out with an error
+ */
+export async function loadSigners(
+  network: NetworkName,
+  provider: Provider,
+  role: SignerRole = 'bot',
+): Promise<BotSigner[]> {
+  if (role === 'bot' && process.env[`${network.toUpperCase()}_PRIVATE_KEY`]) {
+    logger.warn(`⚠️ ${network.toUpperCase()}_PRIVATE_KEY is no longer read, move the key into a keystore`);
+  }
+
+  const signers: BotSigner[] = [];
+  for (const config of getSignerConfigs(network, role)) {
+    try {
+      const signer = await loadSigner(network, config, provider, role);
+      if (signers.some(existing => existing.address === signer.address)) continue;
+
+      signers.push(signer);
+      logger.info(`🔑 Loaded ${role} account ${signer.address} on ${network}`, { signer: signer.type });
+    } catch (error) {
+      logger.error(`❌ Failed to load a ${role} account on ${network}:`, error);
+    }
+  }
+  return signers;
+}
+
+/**
+ * Unlock a keystore or connect to a remote signer
+ */
+async function loadSigner(
+  network: NetworkName,
+  config: SignerConfig,
+  provider: Provider,
+  role: SignerRole,
+): Promise<BotSigner> {
+  if (config.type === 'remote') {
+    return RemoteSigner.open(config.remoteUrl as string, config.address, provider);
+  }
+
+  const passphrase = getKeystorePassword(network, role);
+  if (passphrase === undefined) {
+    throw new Error(`No passphrase for ${config.keystorePath}, set KEYSTORE_PASSWORD or a per-network variant`);
+  }
+  const keystore = await readFile(config.keystorePath as string, 'utf8');
+  return KeystoreSigner.unlock(keystore, passphrase, provider);
+}
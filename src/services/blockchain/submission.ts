@@ -0,0 +1,121 @@
+import { Provider, Transaction, TransactionRequest, Wallet } from 'ethers';
+import { NetworkName, SubmissionConfig } from '../../types';
+import { getSubmissionConfig } from '../../config/arbitrage';
+import { BundleRelayClient } from './relay';
+import { BotSigner } from './signer';
+import { logger } from '../../utils/logger';
+
+export type SubmissionRoute = SubmissionConfig['route'];
+
+/**
+ * Where a signed transaction was sent, as recorded in Transaction.metadata.submission
+ */
+export interface SubmissionResult {
+  hash: string;
+  route: SubmissionRoute;
+  relay?: string; // Host of the bundle relay
+  bundleHash?: string;
+  targetBlocks?: number[]; // Blocks the relay accepted the bundle for
+}
+
+/**
+ * Signs transactions of the bot account and gets them to block builders
+ */
+export interface TransactionSubmitter {
+  readonly route: SubmissionRoute;
+
+  /**
+   * Sign and submit a transaction; the request carries its nonce, gas limit and fees
+   */
+  submit(request: TransactionRequest): Promise<SubmissionResult>;
+}
+
+/**
+ * Sends transactions to the public mempool through the signer's provider
+ */
+export class PublicSubmitter implements TransactionSubmitter {
+  readonly route = 'public';
+
+  constructor(private signer: BotSigner) {}
+
+  /**
+   * Broadcast the transaction
+   */
+  async submit(request: TransactionRequest): Promise<SubmissionResult> {
+    const response = await this.signer.sendTransaction(request);
+    return { hash: response.hash, route: this.route };
+  }
+}
+
+/**
+ * Sends each transaction as a single-transaction bundle through a relay, so it never enters the public mempool
+ * The bundle is simulated with eth_callBundle first, then offered for each of the next targetBlocks blocks
+ */
+export class BundleSubmitter implements TransactionSubmitter {
+  readonly route = 'bundle';
+
+  constructor(
+    private network: NetworkName,
+    private signer: BotSigner,
+    private provider: Provider,
+    private relay: BundleRelayClient,
+    private targetBlocks: number,
+    private simulate: boolean,
+  ) {}
+
+  /**
+   * Sign the transaction and send it as a bundle; throws if the simulation reverts or no block was accepted
+   */
+  async submit(request: TransactionRequest): Promise<SubmissionResult> {
+    const signed = await this.signer.signTransaction(await this.signer.populateTransaction(request));
+    const hash = Transaction.from(signed).hash as string;
+    const blockNumber = await this.provider.getBlockNumber();
+
+    if (this.simulate) {
+      const simulation = await this.relay.callBundle([signed], blockNumber + 1, blockNumber);
+      const failed = simulation.results.find(result => result.error || result.revert);
+      if (failed) {
+        throw new Error(`Bundle simulation on ${this.relay.host} failed: ${failed.revert ?? failed.error}`);
+      }
+    }
+
+    const blocks = Array.from({ length: this.targetBlocks }, (_, i) => blockNumber + 1 + i);
+    const responses = await Promise.allSettled(blocks.map(block => this.relay.sendBundle([signed], block)));
+
+    const accepted = blocks.filter((_, i) => responses[i].status === 'fulfilled');
+    const bundleHash = responses.find(
+      (response): response is PromiseFulfilledResult<string> => response.status === 'fulfilled',
+    )?.value;
+    if (bundleHash === undefined) {
+      throw (responses[0] as PromiseRejectedResult).reason;
+    }
+    if (accepted.length < blocks.length) {
+      logger.warn(`⚠️ Relay ${this.relay.host} accepted the bundle for ${accepted.length} of ${blocks.length} blocks`, {
+        network: this.network,
+        hash,
+      });
+    }
+
+    return { hash, route: this.route, relay: this.relay.host, bundleHash, targetBlocks: accepted };
+  }
+}
+
+/**
+ * Create the submitter configured for a network with <NETWORK>_SUBMISSION
+ * Falls back to the public mempool if bundles are selected without a relay URL
+ */
+export function createSubmitter(network: NetworkName, signer: BotSigner, provider: Provider): TransactionSubmitter {
+  const config = getSubmissionConfig(network);
+
+  if (config.route === 'bundle') {
+    if (config.relayUrl) {
+      const authSigner = config.relayAuthKey ? new Wallet(config.relayAuthKey) : Wallet.createRandom();
+      const relay = new BundleRelayClient(config.relayUrl, authSigner);
+      logger.info(`🔒 Trades on ${network} are sent as bundles through ${relay.host}`);
+      return new BundleSubmitter(network, signer, provider, relay, config.targetBlocks, config.simulate);
+    }
+    logger.warn(`⚠️ No relay URL for ${network}, trades are sent to the public mempool`);
+  }
+
+  return new PublicSubmitter(signer);
+}
@@ -0,0 +1,378 @@
+import { Overrides, Provider } from 'ethers';
+import { AppDataSource } from '../../config/database';
+import { getWalletPoolConfig } from '../../config/arbitrage';
+import { getNetworkConfig } from '../../config/networks';
+import { NetworkName, WalletPoolConfig } from '../../types';
+import { HealthCheck, HealthCheckType, HealthStatus } from '../../entities/HealthCheck';
+import { ArbitrageBotClient } from './arbitrageBot';
+import { FeeQuote, FeeStrategy, toFeeOverrides } from './fees';
+import { NonceManager } from './nonce';
+import { BotSigner, loadSigners } from './signer';
+import { TransactionSubmitter, createSubmitter } from './submission';
+import { Amount, NATIVE_DECIMALS } from '../../utils/amount';
+import { logger } from '../../utils/logger';
+
+// Balances and authorizations are read at most this often
+const BALANCE_CHECK_INTERVAL_MS = 60 * 1000;
+// A wallet is not topped up again for this long, so the previous transfer can confirm first
+const TOP_UP_COOLDOWN_MS = 10 * 60 * 1000;
+// Gas of a plain transfer
+const TRANSFER_GAS_LIMIT = 21000n;
+
+/**
+ * Account that sends transactions on one network, with the contract connection and nonces bound to it
+ */
+export interface WalletAccount {
+  address: string;
+  signer: BotSigner;
+  client: ArbitrageBotClient; // Connected to the signer
+  nonces: NonceManager; // Shared by everything that sends from the account
+  balance?: bigint; // Native balance at the last check
+  lowBalance: boolean;
+}
+
+/**
+ * Bot account that trades
+ */
+export interface HotWallet extends WalletAccount {
+  submitter: TransactionSubmitter;
+  authorized: boolean; // Registered with setAuthorizedBot; unauthorized wallets get no trades
+  inFlight: number; // Trades waiting for confirmations
+  lastTopUpAt?: number;
+}
+
+/**
+ * Bot accounts of one network, so trades are spread over several nonces instead of queueing behind one
+ * Each trade is assigned a wallet round-robin or to the wallet with the fewest trades in flight. Wallets that
+ * fall below the minimum balance get trades only when no other wallet can, are recorded as HealthCheck warnings
+ * and are topped up with native currency from the treasury
+ */
+export class WalletPool {
+  private cursor = 0;
+  private lastBalanceCheck = 0;
+  private isChecking = false;
+  private minBalance: bigint;
+  private topUpBalance: bigint;
+  private currency: string;
+
+  constructor(
+    private network: NetworkName,
+    private provider: Provider,
+    readonly wallets: HotWallet[],
+    private treasury: WalletAccount | undefined,
+    private config: WalletPoolConfig,
+    private fees: FeeStrategy,
+  ) {
+    this.minBalance = Amount.parse(config.minBalance, NATIVE_DECIMALS).raw;
+    this.topUpBalance = Amount.parse(config.topUpBalance, NATIVE_DECIMALS).raw;
+    this.currency = getNetworkConfig(network).currency;
+  }
+
+  /**
+   * Wallet that screens tokens and simulates trades: the first authorized one
+   */
+  get primary(): HotWallet {
+    return this.wallets.find(wallet => wallet.authorized) ?? this.wallets[0];
+  }
+
+  /**
+   * Addresses of every wallet
+   */
+  get addresses(): string[] {
+    return this.wallets.map(wallet => wallet.address);
+  }
+
+  /**
+   * Pick the wallet for the next trade and count it as busy until it is released
+   * Only authorized wallets get trades, those above the minimum balance first; returns null if none is authorized
+   */
+  acquire(): HotWallet | null {
+    const authorized = this.wallets.filter(wallet => wallet.authorized);
+    const funded = authorized.filter(wallet => !wallet.lowBalance);
+    const candidates = funded.length > 0 ? funded : authorized;
+    if (candidates.length === 0) return null;
+
+    // The starting point rotates, so ties between equally busy wallets go round the pool
+    const start = this.cursor++ % candidates.length;
+    const rotated = [...candidates.slice(start), ...candidates.slice(0, start)];
+    const wallet = this.config.assignment === 'least_busy'
+      ? rotated.reduce((best, candidate) => (candidate.inFlight < best.inFlight ? candidate : best))
+      : rotated[0];
+
+    wallet.inFlight++;
+    return wallet;
+  }
+
+  /**
+   * Count a trade sent by a wallet in an earlier run as busy; undefined if the wallet is no longer configured
+   */
+  claim(address: string): HotWallet | undefined {
+    const wallet = this.wallets.find(candidate => candidate.address.toLowerCase() === address.toLowerCase());
+    if (wallet) wallet.inFlight++;
+    return wallet;
+  }
+
+  /**
+   * Free a wallet once its trade is final or was never sent
+   */
+  release(wallet: HotWallet): void {
+    wallet.inFlight = Math.max(wallet.inFlight - 1, 0);
+  }
+
+  /**
+   * Read which wallets are authorized on the contract, and register the others with setAuthorizedBot if the
+   * treasury or one of the wallets owns the contract; a registered wallet gets trades once the transaction is mined
+   */
+  async authorize(): Promise<void> {
+    await this.refreshAuthorization();
+    const missing = this.wallets.filter(wallet => !wallet.authorized);
+    if (missing.length === 0) return;
+
+    try {
+      const account = await this.getOwnerAccount();
+      const fees = await this.fees.getFees();
+
+      for (const wallet of missing) {
+        if (!account) {
+          logger.warn(`⚠️ Bot account ${wallet.address} is not authorized on ${this.network} and gets no trades`);
+          continue;
+        }
+
+        const hash = await this.send(account, fees, overrides =>
+          account.client.setAuthorizedBot(wallet.address, true, overrides),
+        );
+        logger.info(`🔐 Authorizing bot account ${wallet.address} on ${this.network}`, { hash });
+      }
+    } catch (error) {
+      logger.error(`❌ Failed to authorize bot accounts on ${this.network}:`, error);
+    }
+  }
+
+  /**
+   * Find the account that owns the contract among the treasury and the wallets, or undefined if none does
+   */
+  async getOwnerAccount(): Promise<WalletAccount | undefined> {
+    const owner = (await this.primary.client.getOwner()).toLowerCase();
+    return [this.treasury, ...this.wallets].find(candidate => candidate?.address.toLowerCase() === owner);
+  }
+
+  /**
+   * Send an owner-only contract call from the owner account with current fees, sharing the account's nonces
+   * Throws if no loaded account owns the contract
+   */
+  async sendAsOwner(
+    send: (client: ArbitrageBotClient, overrides: Overrides) => Promise<{ hash: string }>,
+  ): Promise<{ hash: string; from: string }> {
+    const account = await this.getOwnerAccount();
+    if (!account) {
+      throw new Error(`No loaded account owns the contract on ${this.network}`);
+    }
+
+    const hash = await this.send(account, await this.fees.getFees(), overrides => send(account.client, overrides));
+    return { hash, from: account.address };
+  }
+
+  /**
+   * Read balances and authorizations at most every BALANCE_CHECK_INTERVAL_MS
+   * Wallets below the minimum balance are recorded as HealthCheck warnings and topped up from the treasury
+   */
+  async checkBalances(): Promise<void> {
+    if (this.isChecking || Date.now() - this.lastBalanceCheck < BALANCE_CHECK_INTERVAL_MS) return;
+
+    this.isChecking = true;
+    this.lastBalanceCheck = Date.now();
+    try {
+      await this.refreshAuthorization();
+
+      const accounts: WalletAccount[] = this.treasury ? [...this.wallets, this.treasury] : this.wallets;
+      await Promise.all(accounts.map(async account => {
+        account.balance = await this.provider.getBalance(account.address);
+      }));
+      if (this.minBalance === 0n) return;
+
+      for (const wallet of this.wallets) {
+        await this.setLowBalance(wallet, (wallet.balance ?? 0n) < this.minBalance, 'Bot account');
+        if (wallet.lowBalance) {
+          await this.topUp(wallet);
+        }
+      }
+    } catch (error) {
+      logger.warn(`⚠️ Failed to check wallet balances on ${this.network}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  /**
+   * Get each wallet's balance, authorization and trades in flight, for health checks
+   */
+  getStatus(): Record<string, any> {
+    const describe = (account: WalletAccount): Record<string, any> => ({
+      address: account.address,
+      balance: account.balance === undefined ? undefined : Amount.fromRaw(account.balance, NATIVE_DECIMALS).toDecimal(),
+      lowBalance: account.lowBalance,
+    });
+
+    return {
+      assignment: this.config.assignment,
+      minBalance: this.config.minBalance,
+      wallets: this.wallets.map(wallet => ({
+        ...describe(wallet),
+        authorized: wallet.authorized,
+        inFlight: wallet.inFlight,
+      })),
+      treasury: this.treasury ? describe(this.treasury) : undefined,
+    };
+  }
+
+  /**
+   * Read the authorization of every wallet that did not have it yet
+   */
+  private async refreshAuthorization(): Promise<void> {
+    await Promise.all(this.wallets.filter(wallet => !wallet.authorized).map(async wallet => {
+      try {
+        wallet.authorized = await wallet.client.isAuthorizedBot(wallet.address);
+      } catch (error) {
+        logger.warn(`⚠️ Could not read the authorization of ${wallet.address} on ${this.network}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }));
+  }
+
+  /**
+   * Send the treasury's native currency to bring a wallet back to the top-up balance
+   * Skipped while an earlier top-up may still be pending; a treasury that cannot pay is recorded as a warning
+   */
+  private async topUp(wallet: HotWallet): Promise<void> {
+    const treasury = this.treasury;
+    if (!treasury || (wallet.lastTopUpAt && Date.now() - wallet.lastTopUpAt < TOP_UP_COOLDOWN_MS)) return;
+
+    const amount = this.topUpBalance - (wallet.balance ?? 0n);
+    if (amount <= 0n) return;
+
+    const fees = await this.fees.getFees();
+    const cost = amount + TRANSFER_GAS_LIMIT * (fees.maxFeePerGas ?? fees.gasPrice);
+    await this.setLowBalance(treasury, (treasury.balance ?? 0n) < cost, 'Treasury');
+    if (treasury.lowBalance) return;
+
+    try {
+      const hash = await this.send(treasury, fees, overrides => treasury.signer.sendTransaction({
+        to: wallet.address,
+        value: amount,
+        gasLimit: TRANSFER_GAS_LIMIT,
+        ...overrides,
+      }));
+      wallet.lastTopUpAt = Date.now();
+      treasury.balance = (treasury.balance ?? 0n) - cost;
+
+      logger.info(`⛽ Topping up ${wallet.address} on ${this.network}`, {
+        hash,
+        amount: `${Amount.fromRaw(amount, NATIVE_DECIMALS).format()} ${this.currency}`,
+      });
+    } catch (error) {
+      logger.error(`❌ Failed to top up ${wallet.address} on ${this.network}:`, error);
+    }
+  }
+
+  /**
+   * Send a transaction from an account with its next nonce, giving the nonce back if the transaction is rejected
+   */
+  private async send(
+    account: WalletAccount,
+    fees: FeeQuote,
+    send: (overrides: Overrides) => Promise<{ hash: string }>,
+  ): Promise<string> {
+    const nonce = await account.nonces.next();
+    try {
+      const response = await send({ nonce, ...toFeeOverrides(fees) });
+      return response.hash;
+    } catch (error) {
+      account.nonces.release(nonce);
+      throw error;
+    }
+  }
+
+  /**
+   * Record an account going below or back above the balance it needs as a HealthCheck warning or recovery
+   */
+  private async setLowBalance(account: WalletAccount, low: boolean, label: string): Promise<void> {
+    if (account.lowBalance === low) return;
+    account.lowBalance = low;
+
+    const balance = `${Amount.fromRaw(account.balance ?? 0n, NATIVE_DECIMALS).format()} ${this.currency}`;
+    const message = low
+      ? `${label} ${account.address} on ${this.network} is low on gas: ${balance}`
+      : `${label} ${account.address} on ${this.network} is funded again: ${balance}`;
+    if (low) {
+      logger.warn(`⚠️ ${message}`);
+    } else {
+      logger.info(`✅ ${message}`);
+    }
+
+    try {
+      await AppDataSource.getRepository(HealthCheck).save(HealthCheck.create(
+        HealthCheckType.WALLET_BALANCE,
+        `${this.network}-${account.address}`.slice(0, 50),
+        low ? HealthStatus.WARNING : HealthStatus.HEALTHY,
+        {
+          message,
+          metadata: {
+            network: this.network,
+            address: account.address,
+            balance: Amount.fromRaw(account.balance ?? 0n, NATIVE_DECIMALS).toDecimal(),
+            minBalance: this.config.minBalance,
+          },
+        },
+      ));
+    } catch (error) {
+      logger.warn(`⚠️ Failed to record the balance health of ${account.address}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * Load the bot accounts and treasury of a network into a wallet pool, or null if no bot account is configured
+ */
+export async function createWalletPool(
+  network: NetworkName,
+  provider: Provider,
+  contract: ArbitrageBotClient,
+  fees: FeeStrategy,
+): Promise<WalletPool | null> {
+  const signers = await loadSigners(network, provider);
+  if (signers.length === 0) return null;
+
+  const wallets: HotWallet[] = signers.map(signer => ({
+    address: signer.address,
+    signer,
+    client: contract.connect(signer),
+    nonces: new NonceManager(provider, signer.address),
+    submitter: createSubmitter(network, signer, provider),
+    authorized: false,
+    inFlight: 0,
+    lowBalance: false,
+  }));
+
+  const config = getWalletPoolConfig(network);
+  const [treasurySigner] = await loadSigners(network, provider, 'treasury');
+  // A treasury that is also a bot account must share its nonces
+  const treasury: WalletAccount | undefined = treasurySigner && (
+    wallets.find(wallet => wallet.address === treasurySigner.address) ?? {
+      address: treasurySigner.address,
+      signer: treasurySigner,
+      client: contract.connect(treasurySigner),
+      nonces: new NonceManager(provider, treasurySigner.address),
+      lowBalance: false,
+    }
+  );
+  if (!treasury && config.minBalance > 0) {
+    logger.warn(`⚠️ No treasury account on ${network}, bot accounts low on gas are not topped up`);
+  }
+
+  return new WalletPool(network, provider, wallets, treasury, config, fees);
+}
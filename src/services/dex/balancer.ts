@@ -0,0 +1,356 @@
+import { BlockTag, Contract, Interface, Provider, dataSlice, getAddress, isAddress, isHexString } from 'ethers';
+import { DEX } from '../../entities/DEX';
+import { BALANCER_VAULT_ABI, BALANCER_WEIGHTED_POOL_ABI } from '../blockchain/abis';
+import { getTokenDecimals } from '../blockchain/erc20';
+import { DEXQuoter, Quote } from './types';
+import { DEXAdapter } from './registry';
+import { arbitrageLogger as logger } from '../../utils/logger';
+
+export const BALANCER_V2_VAULT = '0xBA12222222228d8Ba445958a75a0704d566BF2C8';
+
+const ONE = 10n ** 18n;
+const ONE_36 = 10n ** 36n;
+const MAX_IN_RATIO = 3n * 10n ** 17n; // 0.3, WeightedMath rejects larger inputs
+const MAX_POW_RELATIVE_ERROR = 10000n; // 1e-14, the margin Balancer adds to LogExpMath.pow
+
+/**
+ * Balancer pool entry in DEX.config.pools
+ */
+export interface BalancerPoolConfig {
+  poolId: string;
+}
+
+/**
+ * On-chain parameters of a weighted pool
+ */
+export interface WeightedPoolState {
+  tokens: string[];
+  balances: bigint[];
+  weights: bigint[]; // Normalised, 18 decimals, summing to 1e18
+  swapFee: bigint; // 18 decimals
+  scalingFactors: bigint[]; // 10 ** (18 - decimals)
+}
+
+function mulDown(a: bigint, b: bigint): bigint {
+  return a * b / ONE;
+}
+
+function mulUp(a: bigint, b: bigint): bigint {
+  const product = a * b;
+  return product === 0n ? 0n : (product - 1n) / ONE + 1n;
+}
+
+function divDown(a: bigint, b: bigint): bigint {
+  return a * ONE / b;
+}
+
+function divUp(a: bigint, b: bigint): bigint {
+  return a === 0n ? 0n : (a * ONE - 1n) / b + 1n;
+}
+
+function complement(x: bigint): bigint {
+  return x < ONE ? ONE - x : 0n;
+}
+
+/**
+ * Natural log of x (36 decimals, x > 0) as 36 decimals, via ln(x) = k*ln2 + 2*atanh((m-1)/(m+1))
+ */
+function ln36(x: bigint): bigint {
+  let k = 0n;
+  let m = x;
+  while (m >= 2n * ONE_36) {
+    m /= 2n;
+    k++;
+  }
+  while (m < ONE_36) {
+    m *= 2n;
+    k--;
+  }
+  return k * LN2_36 + atanhSeries((m - ONE_36) * ONE_36 / (m + ONE_36));
+}
+
+/**
+ * 2 * atanh(z) for |z| < 1 (36 decimals)
+ */
+function atanhSeries(z: bigint): bigint {
+  const z2 = z * z / ONE_36;
+  let term = z;
+  let sum = 0n;
+  for (let n = 1n; term !== 0n; n += 2n) {
+    sum += term / n;
+    term = term * z2 / ONE_36;
+  }
+  return 2n * sum;
+}
+
+const LN2_36 = atanhSeries(ONE_36 / 3n);
+
+/**
+ * e^x for x with 36 decimals, via range reduction to x = k*ln2 + r and a Taylor series in r
+ */
+function exp36(x: bigint): bigint {
+  let k = x / LN2_36;
+  let r = x - k * LN2_36;
+  if (r < 0n) {
+    r += LN2_36;
+    k--;
+  }
+
+  let term = ONE_36;
+  let sum = ONE_36;
+  for (let n = 1n; term !== 0n; n++) {
+    term = term * r / (ONE_36 * n);
+    sum += term;
+  }
+
+  return k >= 0n ? sum << k : sum >> -k;
+}
+
+/**
+ * x ^ y for 18-decimal fixed-point values, rounded up like FixedPoint.powUp
+ * Exponents of 1, 2 and 4 are exact; others use a high-precision ln/exp plus Balancer's error margin
+ */
+export function powUp(x: bigint, y: bigint): bigint {
+  if (y === ONE) return x;
+  if (y === 2n * ONE) return mulUp(x, x);
+  if (y === 4n * ONE) {
+    const square = mulUp(x, x);
+    return mulUp(square, square);
+  }
+  if (x === 0n) return 0n;
+
+  const raw = exp36(ln36(x * ONE) * y / ONE) / ONE;
+  return raw + mulUp(raw, MAX_POW_RELATIVE_ERROR) + 1n;
+}
+
+/**
+ * Output of a weighted-pool swap for upscaled, fee-deducted input (WeightedMath._calcOutGivenIn)
+ * Returns null when the input exceeds the pool's maximum in-ratio
+ */
+export function calcOutGivenIn(
+  balanceIn: bigint,
+  weightIn: bigint,
+  balanceOut: bigint,
+  weightOut: bigint,
+  amountIn: bigint,
+): bigint | null {
+  if (amountIn > mulDown(balanceIn, MAX_IN_RATIO)) {
+    return null;
+  }
+
+  const base = divUp(balanceIn, balanceIn + amountIn);
+  const exponent = divDown(weightIn, weightOut);
+  const power = powUp(base, exponent);
+
+  return mulDown(balanceOut, complement(power));
+}
+
+/**
+ * Full weighted-pool swap for raw token amounts, including fee and decimal scaling
+ */
+export function getWeightedAmountOut(state: WeightedPoolState, i: number, j: number, amountIn: bigint): bigint {
+  // Fees are taken before scaling, as in BaseMinimalSwapInfoPool.onSwap
+  const amountInLessFee = amountIn - mulUp(amountIn, state.swapFee);
+
+  const amountOut = calcOutGivenIn(
+    state.balances[i] * state.scalingFactors[i],
+    state.weights[i],
+    state.balances[j] * state.scalingFactors[j],
+    state.weights[j],
+    amountInLessFee * state.scalingFactors[i],
+  );
+
+  return amountOut === null ? 0n : amountOut / state.scalingFactors[j];
+}
+
+/**
+ * Quotes Balancer V2 weighted pools listed in DEX.config.pools
+ * The vault defaults to the canonical Balancer V2 vault and can be overridden with DEX.config.vault
+ */
+export class BalancerQuoter implements DEXQuoter {
+  private states = new Map<string, Promise<WeightedPoolState | null>>();
+  private statesBlockTag?: BlockTag;
+
+  constructor(private provider: Provider) {}
+
+  /**
+   * Get the configured pools of a Balancer DEX
+   */
+  static getPools(dex: DEX): BalancerPoolConfig[] {
+    return (dex.getConfig('pools', []) as BalancerPoolConfig[]).filter(pool => pool?.poolId);
+  }
+
+  /**
+   * Quote a swap on the configured pool that gives the most output
+   */
+  async quote(
+    dex: DEX,
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    blockTag?: BlockTag,
+  ): Promise<Quote | null> {
+    const vault = dex.getConfig('vault', BALANCER_V2_VAULT) as string;
+    let best: Quote | null = null;
+
+    for (const pool of BalancerQuoter.getPools(dex)) {
+      const state = await this.getPoolState(vault, pool.poolId, blockTag);
+      if (!state) continue;
+
+      const i = state.tokens.indexOf(tokenIn.toLowerCase());
+      const j = state.tokens.indexOf(tokenOut.toLowerCase());
+      if (i < 0 || j < 0 || i === j) continue;
+
+      const amountOut = getWeightedAmountOut(state, i, j, amountIn);
+      if (amountOut > 0n && (!best || amountOut > best.amountOut)) {
+        best = { amountOut, pool: getPoolAddress(pool.poolId) };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Configured pools whose vault balances include both tokens
+   */
+  async discoverPools(dex: DEX, tokenA: string, tokenB: string): Promise<string[]> {
+    const vault = dex.getConfig('vault', BALANCER_V2_VAULT) as string;
+    const pools: string[] = [];
+
+    for (const pool of BalancerQuoter.getPools(dex)) {
+      const state = await this.getPoolState(vault, pool.poolId);
+      if (state && state.tokens.includes(tokenA.toLowerCase()) && state.tokens.includes(tokenB.toLowerCase())) {
+        pools.push(getPoolAddress(pool.poolId));
+      }
+    }
+
+    return pools;
+  }
+
+  /**
+   * Load pool state, sharing requests within the same block tag
+   */
+  getPoolState(vault: string, poolId: string, blockTag?: BlockTag): Promise<WeightedPoolState | null> {
+    if (blockTag !== this.statesBlockTag) {
+      this.states.clear();
+      this.statesBlockTag = blockTag;
+    }
+
+    const key = poolId.toLowerCase();
+    let state = this.states.get(key);
+    if (!state) {
+      state = this.loadPoolState(vault, poolId, blockTag).catch((error: unknown) => {
+        this.states.delete(key);
+        logger.debug('Failed to load Balancer pool state', {
+          poolId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return null;
+      });
+      this.states.set(key, state);
+    }
+
+    return state;
+  }
+
+  /**
+   * Read tokens and balances from the vault, weights and swap fee from the pool
+   */
+  private async loadPoolState(vault: string, poolId: string, blockTag?: BlockTag): Promise<WeightedPoolState> {
+    const vaultContract = new Contract(vault, BALANCER_VAULT_ABI, this.provider);
+    const poolContract = new Contract(getPoolAddress(poolId), BALANCER_WEIGHTED_POOL_ABI, this.provider);
+    const overrides = { blockTag };
+
+    const [poolTokens, weights, swapFee] = await Promise.all([
+      vaultContract.getPoolTokens(poolId, overrides) as Promise<[string[], bigint[]]>,
+      poolContract.getNormalizedWeights(overrides) as Promise<bigint[]>,
+      poolContract.getSwapFeePercentage(overrides) as Promise<bigint>,
+    ]);
+    const [tokens, balances] = poolTokens;
+
+    const decimals = await Promise.all(tokens.map(token => getTokenDecimals(this.provider, token)));
+
+    return {
+      tokens: tokens.map(token => token.toLowerCase()),
+      balances: [...balances],
+      weights: [...weights],
+      swapFee,
+      scalingFactors: decimals.map(d => 10n ** BigInt(18 - d)),
+    };
+  }
+}
+
+/**
+ * Pool address is encoded in the first 20 bytes of a Balancer pool id
+ */
+export function getPoolAddress(poolId: string): string {
+  return getAddress(dataSlice(poolId, 0, 20));
+}
+
+const vaultInterface = new Interface(BALANCER_VAULT_ABI);
+
+/**
+ * Adapter for Balancer V2 weighted pools; swaps go through the vault
+ */
+export const balancerAdapter: DEXAdapter = {
+  name: 'Balancer V2',
+  routerABI: BALANCER_VAULT_ABI,
+  factoryABI: [],
+
+  createQuoter: provider => new BalancerQuoter(provider),
+
+  buildSwapCalldata: (dex, params) => {
+    const pools = BalancerQuoter.getPools(dex);
+    const pool = params.pool
+      ? pools.find(({ poolId }) => getPoolAddress(poolId).toLowerCase() === params.pool!.toLowerCase())
+      : pools[0];
+    if (!pool) {
+      throw new Error(`No Balancer pool configured for ${params.tokenIn} -> ${params.tokenOut}`);
+    }
+
+    const vault = dex.getConfig('vault', BALANCER_V2_VAULT) as string;
+    return {
+      to: vault,
+      data: vaultInterface.encodeFunctionData('swap', [
+        {
+          poolId: pool.poolId,
+          kind: 0, // GIVEN_IN
+          assetIn: params.tokenIn,
+          assetOut: params.tokenOut,
+          amount: params.amountIn,
+          userData: '0x',
+        },
+        {
+          sender: params.to,
+          fromInternalBalance: false,
+          recipient: params.to,
+          toInternalBalance: false,
+        },
+        params.amountOutMin,
+        params.deadline,
+      ]),
+    };
+  },
+
+  validateConfig: config => {
+    const errors: string[] = [];
+    const pools = config?.pools as unknown;
+
+    if (config?.vault !== undefined && !isAddress(config.vault)) {
+      errors.push('Invalid Balancer vault address');
+    }
+
+    if (!Array.isArray(pools) || pools.length === 0) {
+      errors.push('Balancer DEX requires config.pools');
+      return errors;
+    }
+
+    pools.forEach((pool: Partial<BalancerPoolConfig>, index) => {
+      if (!pool?.poolId || !isHexString(pool.poolId, 32)) {
+        errors.push(`pools[${index}]: poolId must be a 32-byte hex string`);
+      }
+    });
+
+    return errors;
+  },
+};
@@ -0,0 +1,298 @@
+import { BlockTag, Contract, Interface, Provider, isAddress } from 'ethers';
+import { DEX } from '../../entities/DEX';
+import { CURVE_LEGACY_POOL_ABI, CURVE_POOL_ABI } from '../blockchain/abis';
+import { getTokenDecimals } from '../blockchain/erc20';
+import { DEXQuoter, Quote } from './types';
+import { DEXAdapter } from './registry';
+import { arbitrageLogger as logger } from '../../utils/logger';
+
+const PRECISION = 10n ** 18n;
+const FEE_DENOMINATOR = 10n ** 10n;
+const MAX_ITERATIONS = 255;
+
+/**
+ * Curve pool entry in DEX.config.pools
+ * coins are listed in pool order, so a coin's position is its index in the pool
+ */
+export interface CurvePoolConfig {
+  address: string;
+  coins: string[];
+  indexType?: 'uint256' | 'int128'; // Older pools index coins/balances with int128
+}
+
+/**
+ * On-chain parameters of a StableSwap pool, normalised for the invariant math
+ */
+export interface StableSwapState {
+  amp: bigint; // A * aPrecision
+  aPrecision: bigint; // 1 for pools exposing only A(), 100 for pools exposing A_precise()
+  fee: bigint; // Swap fee with FEE_DENOMINATOR = 1e10
+  balances: bigint[];
+  rates: bigint[]; // 10 ** (36 - decimals), scales every balance to 18 decimals
+}
+
+/**
+ * StableSwap invariant D for normalised balances (StableSwap.get_D)
+ */
+export function getD(xp: bigint[], amp: bigint, aPrecision: bigint): bigint {
+  const n = BigInt(xp.length);
+  const sum = xp.reduce((total, x) => total + x, 0n);
+  if (sum === 0n) return 0n;
+
+  const ann = amp * n;
+  let d = sum;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    let dP = d;
+    for (const x of xp) {
+      dP = dP * d / (x * n);
+    }
+    const dPrev = d;
+    d = (ann * sum / aPrecision + dP * n) * d /
+      ((ann - aPrecision) * d / aPrecision + (n + 1n) * dP);
+
+    if (d > dPrev ? d - dPrev <= 1n : dPrev - d <= 1n) {
+      return d;
+    }
+  }
+
+  throw new Error('StableSwap D did not converge');
+}
+
+/**
+ * Balance of coin j that keeps D constant when coin i has balance x (StableSwap.get_y)
+ */
+export function getY(i: number, j: number, x: bigint, xp: bigint[], amp: bigint, aPrecision: bigint): bigint {
+  const n = BigInt(xp.length);
+  const d = getD(xp, amp, aPrecision);
+  const ann = amp * n;
+
+  let c = d;
+  let sum = 0n;
+  for (let k = 0; k < xp.length; k++) {
+    if (k === j) continue;
+    const xk = k === i ? x : xp[k];
+    sum += xk;
+    c = c * d / (xk * n);
+  }
+  c = c * d * aPrecision / (ann * n);
+  const b = sum + d * aPrecision / ann;
+
+  let y = d;
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const yPrev = y;
+    y = (y * y + c) / (2n * y + b - d);
+
+    if (y > yPrev ? y - yPrev <= 1n : yPrev - y <= 1n) {
+      return y;
+    }
+  }
+
+  throw new Error('StableSwap y did not converge');
+}
+
+/**
+ * Output of swapping dx of coin i for coin j, after fees (StableSwap.get_dy)
+ */
+export function getDy(state: StableSwapState, i: number, j: number, dx: bigint): bigint {
+  const xp = state.balances.map((balance, k) => balance * state.rates[k] / PRECISION);
+  if (xp.some(x => x === 0n)) return 0n;
+
+  const x = xp[i] + dx * state.rates[i] / PRECISION;
+  const y = getY(i, j, x, xp, state.amp, state.aPrecision);
+  if (xp[j] <= y + 1n) return 0n;
+
+  const dy = (xp[j] - y - 1n) * PRECISION / state.rates[j];
+  const fee = state.fee * dy / FEE_DENOMINATOR;
+
+  return dy - fee;
+}
+
+/**
+ * Quotes Curve StableSwap pools listed in DEX.config.pools by evaluating the invariant offline
+ */
+export class CurveQuoter implements DEXQuoter {
+  private aPrecise = new Map<string, Promise<boolean>>();
+  private states = new Map<string, Promise<StableSwapState | null>>();
+  private statesBlockTag?: BlockTag;
+
+  constructor(private provider: Provider) {}
+
+  /**
+   * Get the configured pools of a Curve DEX
+   */
+  static getPools(dex: DEX): CurvePoolConfig[] {
+    return (dex.getConfig('pools', []) as CurvePoolConfig[])
+      .filter(pool => pool?.address && Array.isArray(pool.coins));
+  }
+
+  /**
+   * Quote a swap on the configured pool that gives the most output
+   */
+  async quote(
+    dex: DEX,
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    blockTag?: BlockTag,
+  ): Promise<Quote | null> {
+    let best: Quote | null = null;
+
+    for (const { pool, i, j } of findPools(dex, tokenIn, tokenOut)) {
+      const state = await this.getPoolState(pool, blockTag);
+      if (!state) continue;
+
+      const amountOut = getDy(state, i, j, amountIn);
+      if (amountOut > 0n && (!best || amountOut > best.amountOut)) {
+        best = { amountOut, pool: pool.address };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Configured pools that hold both tokens
+   */
+  discoverPools(dex: DEX, tokenA: string, tokenB: string): Promise<string[]> {
+    return Promise.resolve(findPools(dex, tokenA, tokenB).map(({ pool }) => pool.address));
+  }
+
+  /**
+   * Load pool state, sharing requests within the same block tag
+   */
+  getPoolState(pool: CurvePoolConfig, blockTag?: BlockTag): Promise<StableSwapState | null> {
+    if (blockTag !== this.statesBlockTag) {
+      this.states.clear();
+      this.statesBlockTag = blockTag;
+    }
+
+    const key = pool.address.toLowerCase();
+    let state = this.states.get(key);
+    if (!state) {
+      state = this.loadPoolState(pool, blockTag).catch((error: unknown) => {
+        this.states.delete(key);
+        logger.debug('Failed to load Curve pool state', {
+          pool: pool.address,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return null;
+      });
+      this.states.set(key, state);
+    }
+
+    return state;
+  }
+
+  /**
+   * Read amplification, fee, balances and coin decimals of a pool
+   */
+  private async loadPoolState(pool: CurvePoolConfig, blockTag?: BlockTag): Promise<StableSwapState> {
+    const contract = new Contract(pool.address, CURVE_POOL_ABI, this.provider);
+    const balancesContract = pool.indexType === 'int128'
+      ? new Contract(pool.address, CURVE_LEGACY_POOL_ABI, this.provider)
+      : contract;
+    const overrides = { blockTag };
+
+    const usesAPrecise = await this.usesAPrecise(contract, pool.address);
+    const [amp, fee, balances, decimals] = await Promise.all([
+      (usesAPrecise ? contract.A_precise(overrides) : contract.A(overrides)) as Promise<bigint>,
+      contract.fee(overrides) as Promise<bigint>,
+      Promise.all(pool.coins.map((_, k) => balancesContract.balances(k, overrides) as Promise<bigint>)),
+      Promise.all(pool.coins.map(coin => getTokenDecimals(this.provider, coin))),
+    ]);
+
+    return {
+      amp,
+      aPrecision: usesAPrecise ? 100n : 1n,
+      fee,
+      balances,
+      rates: decimals.map(d => 10n ** BigInt(36 - d)),
+    };
+  }
+
+  /**
+   * Detect once per pool whether it exposes A_precise() (newer pools) or only A()
+   */
+  private usesAPrecise(contract: Contract, address: string): Promise<boolean> {
+    const key = address.toLowerCase();
+    let result = this.aPrecise.get(key);
+    if (!result) {
+      result = (contract.A_precise() as Promise<bigint>).then(() => true, () => false);
+      this.aPrecise.set(key, result);
+    }
+    return result;
+  }
+}
+
+/**
+ * Configured pools holding both tokens, with the coin indexes of tokenIn and tokenOut
+ */
+function findPools(dex: DEX, tokenIn: string, tokenOut: string): { pool: CurvePoolConfig; i: number; j: number }[] {
+  const found: { pool: CurvePoolConfig; i: number; j: number }[] = [];
+
+  for (const pool of CurveQuoter.getPools(dex)) {
+    const coins = pool.coins.map(coin => coin.toLowerCase());
+    const i = coins.indexOf(tokenIn.toLowerCase());
+    const j = coins.indexOf(tokenOut.toLowerCase());
+    if (i >= 0 && j >= 0 && i !== j) {
+      found.push({ pool, i, j });
+    }
+  }
+
+  return found;
+}
+
+const poolInterface = new Interface(CURVE_POOL_ABI);
+
+/**
+ * Adapter for Curve StableSwap pools; swaps go straight to the pool contract
+ */
+export const curveAdapter: DEXAdapter = {
+  name: 'Curve',
+  routerABI: CURVE_POOL_ABI,
+  factoryABI: [],
+
+  createQuoter: provider => new CurveQuoter(provider),
+
+  buildSwapCalldata: (dex, params) => {
+    const pools = findPools(dex, params.tokenIn, params.tokenOut);
+    const match = params.pool
+      ? pools.find(({ pool }) => pool.address.toLowerCase() === params.pool!.toLowerCase())
+      : pools[0];
+    if (!match) {
+      throw new Error(`No Curve pool configured for ${params.tokenIn} -> ${params.tokenOut}`);
+    }
+
+    return {
+      to: match.pool.address,
+      data: poolInterface.encodeFunctionData('exchange', [match.i, match.j, params.amountIn, params.amountOutMin]),
+    };
+  },
+
+  validateConfig: config => {
+    const errors: string[] = [];
+    const pools = config?.pools as unknown;
+
+    if (!Array.isArray(pools) || pools.length === 0) {
+      errors.push('Curve DEX requires config.pools');
+      return errors;
+    }
+
+    pools.forEach((pool: Partial<CurvePoolConfig>, index) => {
+      if (!pool?.address || !isAddress(pool.address)) {
+        errors.push(`pools[${index}]: invalid pool address`);
+      }
+      if (!Array.isArray(pool?.coins) || pool.coins.length < 2 || pool.coins.length > 8) {
+        errors.push(`pools[${index}]: coins must list 2 to 8 token addresses`);
+      } else if (pool.coins.some(coin => !isAddress(coin))) {
+        errors.push(`pools[${index}]: invalid coin address`);
+      }
+      if (pool?.indexType !== undefined && pool.indexType !== 'uint256' && pool.indexType !== 'int128') {
+        errors.push(`pools[${index}]: indexType must be uint256 or int128`);
+      }
+    });
+
+    return errors;
+  },
+};
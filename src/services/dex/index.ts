@@ -0,0 +1,15 @@
+import { DEXType } from '../../entities/DEX';
+import { registerDEXAdapter } from './registry';
+import { UNISWAP_V2_TYPES, uniswapV2Adapter } from './uniswapV2';
+import { uniswapV3Adapter } from './uniswapV3';
+import { curveAdapter } from './curve';
+import { balancerAdapter } from './balancer';
+
+// Built-in adapters; DEX types without one (e.g. DODO) are skipped until an adapter is registered
+registerDEXAdapter(UNISWAP_V2_TYPES, uniswapV2Adapter);
+registerDEXAdapter(DEXType.UNISWAP_V3, uniswapV3Adapter);
+registerDEXAdapter(DEXType.CURVE, curveAdapter);
+registerDEXAdapter(DEXType.BALANCER, balancerAdapter);
+
+export * from './registry';
+export * from './types';
@@ -0,0 +1,69 @@
+import type { Provider } from 'ethers';
+import type { DEX, DEXType } from '../../entities/DEX';
+import type { SwapParams } from '../../types';
+import type { DEXQuoter, DecodedSwap } from './types';
+
+/**
+ * Transaction target and calldata for a single swap
+ */
+export interface SwapCalldata {
+  to: string;
+  data: string;
+  value?: bigint;
+}
+
+/**
+ * Behaviour of one family of DEXes
+ * Third-party adapters can be added with registerDEXAdapter without touching the engine
+ */
+export interface DEXAdapter {
+  name: string;
+  routerABI: string[];
+  factoryABI: string[];
+
+  /**
+   * Create a quoter bound to a provider; quoters keep per-provider caches
+   */
+  createQuoter(provider: Provider): DEXQuoter;
+
+  /**
+   * Build the calldata that executes a single swap on this DEX
+   */
+  buildSwapCalldata(dex: DEX, params: SwapParams): SwapCalldata;
+
+  /**
+   * Decode the swap a router transaction makes, or null if the calldata is not a supported exact-input swap
+   */
+  decodeSwapCalldata?(data: string, value: bigint): DecodedSwap | null;
+
+  /**
+   * Validate the type-specific part of DEX.config
+   */
+  validateConfig?(config: Record<string, any> | null | undefined): string[];
+}
+
+// Only type imports above: entities import this module, so it must not pull in adapters at load time
+const adapters = new Map<DEXType, DEXAdapter>();
+
+/**
+ * Register an adapter for one or more DEX types, replacing any existing registration
+ */
+export function registerDEXAdapter(types: DEXType | DEXType[], adapter: DEXAdapter): void {
+  for (const type of Array.isArray(types) ? types : [types]) {
+    adapters.set(type, adapter);
+  }
+}
+
+/**
+ * Get the adapter registered for a DEX type
+ */
+export function getDEXAdapter(type: DEXType): DEXAdapter | undefined {
+  return adapters.get(type);
+}
+
+/**
+ * Get all DEX types that currently have an adapter
+ */
+export function getRegisteredDEXTypes(): DEXType[] {
+  return [...adapters.keys()];
+}
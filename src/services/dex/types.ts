@@ -0,0 +1,62 @@
+import { BlockTag } from 'ethers';
+import { DEX } from '../../entities/DEX';
+
+/**
+ * Output of a single-hop quote
+ */
+export interface Quote {
+  amountOut: bigint;
+  pool: string; // Pool (or router) the quote was taken from
+  feeTier?: number; // Fee in parts per million, for DEXes with several fee tiers
+}
+
+/**
+ * Exact-input swap decoded from router calldata, such as a pending transaction
+ */
+export interface DecodedSwap {
+  path: string[]; // Token addresses in swap order
+  feeTiers?: number[]; // Fee of each hop in parts per million, for DEXes with several fee tiers
+  amountIn: bigint;
+  amountOutMin: bigint;
+}
+
+/**
+ * Common quoting interface implemented by every DEX pricing adapter
+ */
+export interface DEXQuoter {
+  /**
+   * Quote the output of swapping amountIn of tokenIn for tokenOut on a DEX
+   * Returns null if the DEX has no pool for the pair or the quote fails
+   */
+  quote(
+    dex: DEX,
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    blockTag?: BlockTag,
+  ): Promise<Quote | null>;
+
+  /**
+   * Find the pools (or pair contracts) the DEX has for a token pair
+   */
+  discoverPools(dex: DEX, tokenA: string, tokenB: string): Promise<string[]>;
+
+  /**
+   * Copy of the quoter sharing its pool lookups, whose cached pool state can be changed with applySwap
+   * without affecting this quoter
+   */
+  fork?(): DEXQuoter;
+
+  /**
+   * Apply a swap to the cached pool state at a block tag and return its output
+   * Returns null if the DEX has no pool for the pair or its state cannot be simulated
+   */
+  applySwap?(
+    dex: DEX,
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    blockTag: BlockTag,
+    feeTier?: number,
+  ): Promise<bigint | null>;
+}
@@ -0,0 +1,343 @@
+import { BlockTag, Interface, Provider, ZeroAddress } from 'ethers';
+import { DEX, DEXType } from '../../entities/DEX';
+import { UNISWAP_V2_FACTORY_ABI, UNISWAP_V2_PAIR_ABI, UNISWAP_V2_ROUTER_ABI } from '../blockchain/abis';
+import { getMulticall } from '../blockchain/multicall';
+import { DEXQuoter, DecodedSwap, Quote } from './types';
+import { DEXAdapter } from './registry';
+import { arbitrageLogger as logger } from '../../utils/logger';
+
+// Fees are expressed in parts per million so that fractional basis points stay exact
+export const FEE_DENOMINATOR = 1000000n;
+// A pair the factory does not have is looked up again after this long, in case it has been created since
+export const MISSING_PAIR_TTL_MS = 10 * 60 * 1000;
+
+const factoryInterface = new Interface(UNISWAP_V2_FACTORY_ABI);
+const pairInterface = new Interface(UNISWAP_V2_PAIR_ABI);
+
+/**
+ * DEX types that use Uniswap V2 constant-product pairs
+ */
+export const UNISWAP_V2_TYPES: DEXType[] = [
+  DEXType.UNISWAP_V2,
+  DEXType.SUSHISWAP,
+  DEXType.PANCAKESWAP,
+  DEXType.QUICKSWAP,
+];
+
+export interface V2Reserves {
+  pair: string;
+  reserveIn: bigint;
+  reserveOut: bigint;
+}
+
+/**
+ * Convert a fractional fee (0.003 = 0.3%) into parts per million
+ */
+export function toFeePips(feePercentage: number | string): bigint {
+  const fee = typeof feePercentage === 'string' ? parseFloat(feePercentage) : feePercentage;
+  return BigInt(Math.round(fee * Number(FEE_DENOMINATOR)));
+}
+
+/**
+ * Constant-product output amount, identical to UniswapV2Library.getAmountOut for a 0.3% fee
+ */
+export function getAmountOut(
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  feePips: bigint,
+): bigint {
+  if (amountIn <= 0n || reserveIn <= 0n || reserveOut <= 0n) {
+    return 0n;
+  }
+
+  const amountInWithFee = amountIn * (FEE_DENOMINATOR - feePips);
+  const numerator = amountInWithFee * reserveOut;
+  const denominator = reserveIn * FEE_DENOMINATOR + amountInWithFee;
+
+  return numerator / denominator;
+}
+
+/**
+ * Constant-product input amount required for an exact output, identical to UniswapV2Library.getAmountIn
+ * Returns null if the output cannot be reached with the current reserves
+ */
+export function getAmountIn(
+  amountOut: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  feePips: bigint,
+): bigint | null {
+  if (amountOut <= 0n || reserveIn <= 0n || amountOut >= reserveOut) {
+    return null;
+  }
+
+  const numerator = reserveIn * amountOut * FEE_DENOMINATOR;
+  const denominator = (reserveOut - amountOut) * (FEE_DENOMINATOR - feePips);
+
+  return numerator / denominator + 1n;
+}
+
+/**
+ * Quotes Uniswap V2-style pairs directly from their reserves
+ * Pair addresses are cached forever and missing pairs for MISSING_PAIR_TTL_MS, reserves are cached for the most
+ * recent block tag only; all reads go through Multicall3
+ */
+export class UniswapV2Quoter implements DEXQuoter {
+  private pairs = new Map<string, Promise<string | null>>();
+  private missingPairs = new Map<string, number>(); // Time each missing pair may be looked up again, by key
+  private token0s = new Map<string, Promise<string>>();
+  private reserves = new Map<string, Promise<[bigint, bigint, string]>>();
+  private reservesBlockTag?: BlockTag;
+
+  constructor(private provider: Provider) {}
+
+  /**
+   * Quote a swap off-chain from pair reserves
+   */
+  async quote(
+    dex: DEX,
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    blockTag?: BlockTag,
+  ): Promise<Quote | null> {
+    const reserves = await this.getReserves(dex, tokenIn, tokenOut, blockTag);
+    if (!reserves) return null;
+
+    const amountOut = getAmountOut(
+      amountIn,
+      reserves.reserveIn,
+      reserves.reserveOut,
+      toFeePips(dex.getAdjustedFee()),
+    );
+    return amountOut > 0n ? { amountOut, pool: reserves.pair } : null;
+  }
+
+  /**
+   * The pair contract is the only pool a V2 DEX has for a token pair
+   */
+  async discoverPools(dex: DEX, tokenA: string, tokenB: string): Promise<string[]> {
+    const pair = await this.getPair(dex, tokenA, tokenB);
+    return pair ? [pair] : [];
+  }
+
+  /**
+   * Get pair reserves oriented as tokenIn -> tokenOut
+   */
+  async getReserves(
+    dex: DEX,
+    tokenIn: string,
+    tokenOut: string,
+    blockTag?: BlockTag,
+  ): Promise<V2Reserves | null> {
+    const pair = await this.getPair(dex, tokenIn, tokenOut);
+    if (!pair) return null;
+
+    try {
+      const [reserve0, reserve1, token0] = await this.loadReserves(pair, blockTag);
+      const inIsToken0 = token0.toLowerCase() === tokenIn.toLowerCase();
+
+      return {
+        pair,
+        reserveIn: inIsToken0 ? reserve0 : reserve1,
+        reserveOut: inIsToken0 ? reserve1 : reserve0,
+      };
+    } catch (error) {
+      logger.debug('Failed to read V2 reserves', {
+        dex: dex.name,
+        pair,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Copy of the quoter sharing pair lookups, with its own copy of the cached reserves
+   */
+  fork(): UniswapV2Quoter {
+    const fork = new UniswapV2Quoter(this.provider);
+    fork.pairs = this.pairs;
+    fork.missingPairs = this.missingPairs;
+    fork.token0s = this.token0s;
+    fork.reserves = new Map(this.reserves);
+    fork.reservesBlockTag = this.reservesBlockTag;
+    return fork;
+  }
+
+  /**
+   * Swap against the cached reserves of the pair, leaving them as the swap would
+   */
+  async applySwap(
+    dex: DEX,
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    blockTag: BlockTag,
+  ): Promise<bigint | null> {
+    const pair = await this.getPair(dex, tokenIn, tokenOut);
+    if (!pair) return null;
+
+    const [reserve0, reserve1, token0] = await this.loadReserves(pair, blockTag);
+    const inIsToken0 = token0.toLowerCase() === tokenIn.toLowerCase();
+    const amountOut = getAmountOut(
+      amountIn,
+      inIsToken0 ? reserve0 : reserve1,
+      inIsToken0 ? reserve1 : reserve0,
+      toFeePips(dex.getAdjustedFee()),
+    );
+    if (amountOut <= 0n) return null;
+
+    const reserves: [bigint, bigint, string] = inIsToken0
+      ? [reserve0 + amountIn, reserve1 - amountOut, token0]
+      : [reserve0 - amountOut, reserve1 + amountIn, token0];
+    this.reserves.set(pair.toLowerCase(), Promise.resolve(reserves));
+    return amountOut;
+  }
+
+  /**
+   * Find the pair address through the factory; null if the pair does not exist
+   */
+  async getPair(dex: DEX, tokenA: string, tokenB: string): Promise<string | null> {
+    const [token0, token1] = sortTokens(tokenA, tokenB);
+    const key = `${dex.factoryAddress.toLowerCase()}:${token0}:${token1}`;
+
+    const retryAt = this.missingPairs.get(key);
+    if (retryAt !== undefined) {
+      if (Date.now() < retryAt) return null;
+      this.missingPairs.delete(key);
+    }
+
+    let pair = this.pairs.get(key);
+    if (!pair) {
+      pair = getMulticall(this.provider)
+        .call<string>(dex.factoryAddress, factoryInterface, 'getPair', [token0, token1])
+        .then((address: string) => {
+          if (address !== ZeroAddress) return address;
+          this.pairs.delete(key);
+          this.missingPairs.set(key, Date.now() + MISSING_PAIR_TTL_MS);
+          return null;
+        })
+        .catch((error: unknown) => {
+          // Do not cache lookup failures
+          this.pairs.delete(key);
+          logger.debug('Failed to look up V2 pair', {
+            dex: dex.name,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return null;
+        });
+      this.pairs.set(key, pair);
+    }
+
+    return pair;
+  }
+
+  /**
+   * Read reserves and token0 of a pair, sharing requests within the same block tag
+   */
+  private loadReserves(pair: string, blockTag?: BlockTag): Promise<[bigint, bigint, string]> {
+    if (blockTag !== this.reservesBlockTag) {
+      this.reserves.clear();
+      this.reservesBlockTag = blockTag;
+    }
+
+    const key = pair.toLowerCase();
+    let request = this.reserves.get(key);
+    if (!request) {
+      request = Promise.all([
+        getMulticall(this.provider).call<[bigint, bigint, bigint]>(pair, pairInterface, 'getReserves', [], blockTag),
+        this.loadToken0(pair, blockTag),
+      ]).then(([[reserve0, reserve1], token0]) => [reserve0, reserve1, token0] as [bigint, bigint, string]);
+      request.catch(() => this.reserves.delete(key));
+      this.reserves.set(key, request);
+    }
+
+    return request;
+  }
+
+  /**
+   * Read token0 of a pair once; it never changes after pair creation
+   * The block tag only puts the read into the same batch as the reserves
+   */
+  private loadToken0(pair: string, blockTag?: BlockTag): Promise<string> {
+    const key = pair.toLowerCase();
+    let token0 = this.token0s.get(key);
+    if (!token0) {
+      token0 = getMulticall(this.provider).call<string>(pair, pairInterface, 'token0', [], blockTag);
+      token0.catch(() => this.token0s.delete(key));
+      this.token0s.set(key, token0);
+    }
+    return token0;
+  }
+}
+
+/**
+ * Sort two token addresses the way V2 factories order token0/token1
+ */
+export function sortTokens(tokenA: string, tokenB: string): [string, string] {
+  const a = tokenA.toLowerCase();
+  const b = tokenB.toLowerCase();
+  return a < b ? [a, b] : [b, a];
+}
+
+const routerInterface = new Interface(UNISWAP_V2_ROUTER_ABI);
+
+// Exact-input router functions; the ETH variants take their input as the transaction value
+const EXACT_INPUT_SWAPS = [
+  'swapExactTokensForTokens',
+  'swapExactTokensForETH',
+  'swapExactTokensForTokensSupportingFeeOnTransferTokens',
+  'swapExactTokensForETHSupportingFeeOnTransferTokens',
+];
+const EXACT_ETH_INPUT_SWAPS = ['swapExactETHForTokens', 'swapExactETHForTokensSupportingFeeOnTransferTokens'];
+
+/**
+ * Decode an exact-input swap sent to a V2 router
+ */
+function decodeV2Swap(data: string, value: bigint): DecodedSwap | null {
+  const call = routerInterface.parseTransaction({ data, value });
+  if (!call) return null;
+
+  if (EXACT_INPUT_SWAPS.includes(call.name)) {
+    const [amountIn, amountOutMin, path] = call.args;
+    return { path: [...path], amountIn, amountOutMin };
+  }
+  if (EXACT_ETH_INPUT_SWAPS.includes(call.name)) {
+    const [amountOutMin, path] = call.args;
+    return { path: [...path], amountIn: value, amountOutMin };
+  }
+  return null;
+}
+
+/**
+ * Adapter for Uniswap V2 and its forks (SushiSwap, PancakeSwap, QuickSwap)
+ */
+export const uniswapV2Adapter: DEXAdapter = {
+  name: 'Uniswap V2',
+  routerABI: UNISWAP_V2_ROUTER_ABI,
+  factoryABI: UNISWAP_V2_FACTORY_ABI,
+
+  createQuoter: provider => new UniswapV2Quoter(provider),
+
+  buildSwapCalldata: (dex, params) => ({
+    to: dex.routerAddress,
+    data: routerInterface.encodeFunctionData('swapExactTokensForTokens', [
+      params.amountIn,
+      params.amountOutMin,
+      [params.tokenIn, params.tokenOut],
+      params.to,
+      params.deadline,
+    ]),
+  }),
+
+  decodeSwapCalldata: (data, value) => {
+    try {
+      return decodeV2Swap(data, value);
+    } catch {
+      // Not a router function, or arguments that do not decode
+      return null;
+    }
+  },
+};
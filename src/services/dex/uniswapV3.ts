@@ -0,0 +1,369 @@
+import { BlockTag, Interface, Provider, ZeroAddress, dataLength, dataSlice, getAddress } from 'ethers';
+import { DEX } from '../../entities/DEX';
+import { UNISWAP_V3_FACTORY_ABI, UNISWAP_V3_POOL_ABI, UNISWAP_V3_ROUTER_ABI } from '../blockchain/abis';
+import { getMulticall } from '../blockchain/multicall';
+import { DEXQuoter, DecodedSwap, Quote } from './types';
+import { DEXAdapter } from './registry';
+import { sortTokens } from './uniswapV2';
+import { MAX_TICK, MIN_TICK, V3PoolState, V3Tick, simulateExactInput, swapExactInput } from './v3Math';
+import { arbitrageLogger as logger } from '../../utils/logger';
+
+/**
+ * Standard Uniswap V3 fee tiers (fee in parts per million) and their tick spacing
+ */
+export const V3_FEE_TIERS: { fee: number; tickSpacing: number }[] = [
+  { fee: 100, tickSpacing: 1 },
+  { fee: 500, tickSpacing: 10 },
+  { fee: 3000, tickSpacing: 60 },
+  { fee: 10000, tickSpacing: 200 },
+];
+
+// Bitmap words loaded on each side of the current tick; each word spans 256 tick spacings
+const DEFAULT_TICK_WORDS = 2;
+
+const factoryInterface = new Interface(UNISWAP_V3_FACTORY_ABI);
+const poolInterface = new Interface(UNISWAP_V3_POOL_ABI);
+
+export interface V3PoolInfo {
+  address: string;
+  token0: string;
+  token1: string;
+  fee: number;
+  tickSpacing: number;
+}
+
+/**
+ * Quotes Uniswap V3 concentrated-liquidity pools by simulating swaps offline
+ * Pool addresses are cached forever, pool state is cached for the most recent block tag only; all reads go
+ * through Multicall3
+ */
+export class UniswapV3Quoter implements DEXQuoter {
+  private pools = new Map<string, Promise<V3PoolInfo[]>>();
+  private states = new Map<string, Promise<V3PoolState | null>>();
+  private statesBlockTag?: BlockTag;
+
+  constructor(private provider: Provider) {}
+
+  /**
+   * Quote a swap on the fee tier that gives the most output
+   */
+  async quote(
+    dex: DEX,
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    blockTag?: BlockTag,
+  ): Promise<Quote | null> {
+    const quotes = await this.quoteAllTiers(dex, tokenIn, tokenOut, amountIn, blockTag);
+
+    return quotes.reduce<Quote | null>(
+      (best, quote) => (!best || quote.amountOut > best.amountOut ? quote : best),
+      null,
+    );
+  }
+
+  /**
+   * Quote a swap on every fee tier that has a pool for the pair
+   */
+  async quoteAllTiers(
+    dex: DEX,
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    blockTag?: BlockTag,
+  ): Promise<Quote[]> {
+    const pools = await this.getPools(dex, tokenIn, tokenOut);
+    const wordRange = dex.getConfig('tickWords', DEFAULT_TICK_WORDS) as number;
+
+    const quotes = await Promise.all(pools.map(async (pool): Promise<Quote | null> => {
+      const state = await this.getPoolState(pool, wordRange, blockTag);
+      if (!state || state.liquidity === 0n) return null;
+
+      const zeroForOne = tokenIn.toLowerCase() === state.token0;
+      const amountOut = simulateExactInput(state, zeroForOne, amountIn);
+      if (!amountOut || amountOut <= 0n) return null;
+
+      return { amountOut, pool: pool.address, feeTier: pool.fee };
+    }));
+
+    return quotes.filter((quote): quote is Quote => quote !== null);
+  }
+
+  /**
+   * Addresses of the pair's pools across all enabled fee tiers
+   */
+  async discoverPools(dex: DEX, tokenA: string, tokenB: string): Promise<string[]> {
+    const pools = await this.getPools(dex, tokenA, tokenB);
+    return pools.map(pool => pool.address);
+  }
+
+  /**
+   * Copy of the quoter sharing pool lookups, with its own copy of the cached pool state
+   */
+  fork(): UniswapV3Quoter {
+    const fork = new UniswapV3Quoter(this.provider);
+    fork.pools = this.pools;
+    fork.states = new Map(this.states);
+    fork.statesBlockTag = this.statesBlockTag;
+    return fork;
+  }
+
+  /**
+   * Swap against the cached state of the pool with the given fee tier, leaving its price and liquidity as the
+   * swap would
+   */
+  async applySwap(
+    dex: DEX,
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    blockTag: BlockTag,
+    feeTier?: number,
+  ): Promise<bigint | null> {
+    const pools = await this.getPools(dex, tokenIn, tokenOut);
+    const pool = pools.find(candidate => candidate.fee === feeTier);
+    if (!pool) return null;
+
+    const wordRange = dex.getConfig('tickWords', DEFAULT_TICK_WORDS) as number;
+    const state = await this.getPoolState(pool, wordRange, blockTag);
+    if (!state) return null;
+
+    const swap = swapExactInput(state, tokenIn.toLowerCase() === state.token0, amountIn);
+    if (!swap || swap.amountOut <= 0n) return null;
+
+    const { amountOut, ...price } = swap;
+    this.states.set(pool.address.toLowerCase(), Promise.resolve({ ...state, ...price }));
+    return amountOut;
+  }
+
+  /**
+   * Discover pools for a pair across the DEX's fee tiers
+   * Tiers can be restricted with DEX.config.feeTiers, e.g. [500, 3000]
+   */
+  async getPools(dex: DEX, tokenA: string, tokenB: string): Promise<V3PoolInfo[]> {
+    const [token0, token1] = sortTokens(tokenA, tokenB);
+    const key = `${dex.factoryAddress.toLowerCase()}:${token0}:${token1}`;
+
+    let pools = this.pools.get(key);
+    if (!pools) {
+      const enabledFees = dex.getConfig('feeTiers', V3_FEE_TIERS.map(tier => tier.fee)) as number[];
+      const tiers = V3_FEE_TIERS.filter(tier => enabledFees.includes(tier.fee));
+      const multicall = getMulticall(this.provider);
+
+      pools = Promise.all(tiers.map(async tier => {
+        const address = await multicall.call<string>(
+          dex.factoryAddress,
+          factoryInterface,
+          'getPool',
+          [token0, token1, tier.fee],
+        );
+        return address === ZeroAddress ? null : { address, token0, token1, ...tier };
+      }))
+        .then(found => found.filter((pool): pool is V3PoolInfo => pool !== null))
+        .catch((error: unknown) => {
+          // Do not cache lookup failures, only missing pools
+          this.pools.delete(key);
+          logger.debug('Failed to look up V3 pools', {
+            dex: dex.name,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return [];
+        });
+      this.pools.set(key, pools);
+    }
+
+    return pools;
+  }
+
+  /**
+   * Load pool state, sharing requests within the same block tag
+   */
+  getPoolState(pool: V3PoolInfo, wordRange: number, blockTag?: BlockTag): Promise<V3PoolState | null> {
+    if (blockTag !== this.statesBlockTag) {
+      this.states.clear();
+      this.statesBlockTag = blockTag;
+    }
+
+    const key = pool.address.toLowerCase();
+    let state = this.states.get(key);
+    if (!state) {
+      state = this.loadPoolState(pool, wordRange, blockTag).catch((error: unknown) => {
+        this.states.delete(key);
+        logger.debug('Failed to load V3 pool state', {
+          pool: pool.address,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return null;
+      });
+      this.states.set(key, state);
+    }
+
+    return state;
+  }
+
+  /**
+   * Read slot0, active liquidity and initialized ticks around the current price
+   */
+  private async loadPoolState(pool: V3PoolInfo, wordRange: number, blockTag?: BlockTag): Promise<V3PoolState> {
+    const multicall = getMulticall(this.provider);
+    const read = <T>(method: string, args: unknown[] = []) =>
+      multicall.call<T>(pool.address, poolInterface, method, args, blockTag);
+
+    const [slot0, liquidity] = await Promise.all([
+      read<[bigint, bigint]>('slot0'),
+      read<bigint>('liquidity'),
+    ]);
+    const sqrtPriceX96 = slot0[0];
+    const tick = Number(slot0[1]);
+
+    const spacing = pool.tickSpacing;
+    const currentWord = Math.floor(tick / spacing) >> 8;
+    const minWord = Math.max(currentWord - wordRange, Math.floor(MIN_TICK / spacing) >> 8);
+    const maxWord = Math.min(currentWord + wordRange, Math.floor(MAX_TICK / spacing) >> 8);
+
+    const wordPositions: number[] = [];
+    for (let word = minWord; word <= maxWord; word++) {
+      wordPositions.push(word);
+    }
+
+    const bitmaps = await Promise.all(
+      wordPositions.map(word => read<bigint>('tickBitmap', [word])),
+    );
+
+    const tickIndexes: number[] = [];
+    bitmaps.forEach((bitmap, i) => {
+      for (let bit = 0; bit < 256; bit++) {
+        if ((bitmap >> BigInt(bit)) & 1n) {
+          tickIndexes.push((wordPositions[i] * 256 + bit) * spacing);
+        }
+      }
+    });
+
+    const ticks: V3Tick[] = await Promise.all(tickIndexes.map(async index => {
+      const info = await read<[bigint, bigint]>('ticks', [index]);
+      return { index, liquidityNet: info[1] };
+    }));
+
+    return {
+      address: pool.address,
+      token0: pool.token0,
+      token1: pool.token1,
+      fee: pool.fee,
+      tickSpacing: spacing,
+      sqrtPriceX96,
+      tick,
+      liquidity,
+      ticks: ticks.sort((a, b) => a.index - b.index),
+      minWord,
+      maxWord,
+    };
+  }
+}
+
+const routerInterface = new Interface(UNISWAP_V3_ROUTER_ABI);
+
+/**
+ * Split a packed V3 path (token, fee, token, ...) into its tokens and fee tiers
+ */
+export function decodeV3Path(path: string): { tokens: string[]; fees: number[] } {
+  const tokens = [getAddress(dataSlice(path, 0, 20))];
+  const fees: number[] = [];
+
+  for (let offset = 20; offset < dataLength(path); offset += 23) {
+    fees.push(Number(dataSlice(path, offset, offset + 3)));
+    tokens.push(getAddress(dataSlice(path, offset + 3, offset + 23)));
+  }
+  return { tokens, fees };
+}
+
+/**
+ * Decode an exact-input swap sent to the V3 SwapRouter, looking inside multicall for the first one
+ */
+function decodeV3Swap(data: string, value: bigint): DecodedSwap | null {
+  const call = routerInterface.parseTransaction({ data, value });
+  if (!call) return null;
+
+  if (call.name === 'exactInputSingle') {
+    const [params] = call.args;
+    return {
+      path: [params.tokenIn, params.tokenOut],
+      feeTiers: [Number(params.fee)],
+      amountIn: params.amountIn,
+      amountOutMin: params.amountOutMinimum,
+    };
+  }
+  if (call.name === 'exactInput') {
+    const [params] = call.args;
+    const { tokens, fees } = decodeV3Path(params.path as string);
+    return { path: tokens, feeTiers: fees, amountIn: params.amountIn, amountOutMin: params.amountOutMinimum };
+  }
+  if (call.name === 'multicall') {
+    const [calls] = call.args;
+    for (const inner of calls as string[]) {
+      const swap = decodeV3Swap(inner, value);
+      if (swap) return swap;
+    }
+  }
+  return null;
+}
+
+/**
+ * Adapter for Uniswap V3 concentrated-liquidity DEXes using the original SwapRouter
+ */
+export const uniswapV3Adapter: DEXAdapter = {
+  name: 'Uniswap V3',
+  routerABI: UNISWAP_V3_ROUTER_ABI,
+  factoryABI: UNISWAP_V3_FACTORY_ABI,
+
+  createQuoter: provider => new UniswapV3Quoter(provider),
+
+  buildSwapCalldata: (dex, params) => {
+    if (params.feeTier === undefined) {
+      throw new Error('Fee tier is required for Uniswap V3 swaps');
+    }
+
+    return {
+      to: dex.routerAddress,
+      data: routerInterface.encodeFunctionData('exactInputSingle', [{
+        tokenIn: params.tokenIn,
+        tokenOut: params.tokenOut,
+        fee: params.feeTier,
+        recipient: params.to,
+        deadline: params.deadline,
+        amountIn: params.amountIn,
+        amountOutMinimum: params.amountOutMin,
+        sqrtPriceLimitX96: 0,
+      }]),
+    };
+  },
+
+  decodeSwapCalldata: (data, value) => {
+    try {
+      return decodeV3Swap(data, value);
+    } catch {
+      // Not a router function, or arguments that do not decode
+      return null;
+    }
+  },
+
+  validateConfig: config => {
+    const errors: string[] = [];
+    const feeTiers = config?.feeTiers as unknown;
+    const knownFees = V3_FEE_TIERS.map(tier => tier.fee);
+
+    if (feeTiers !== undefined) {
+      if (!Array.isArray(feeTiers) || feeTiers.length === 0) {
+        errors.push('feeTiers must be a non-empty array');
+      } else if (feeTiers.some(fee => !knownFees.includes(fee as number))) {
+        errors.push(`feeTiers may only contain ${knownFees.join(', ')}`);
+      }
+    }
+
+    const tickWords = config?.tickWords as unknown;
+    if (tickWords !== undefined && (!Number.isInteger(tickWords) || (tickWords as number) < 0)) {
+      errors.push('tickWords must be a non-negative integer');
+    }
+
+    return errors;
+  },
+};
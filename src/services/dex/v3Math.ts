@@ -0,0 +1,408 @@
+/**
+ * Uniswap V3 fixed-point math ported to bigint
+ * Mirrors TickMath, SqrtPriceMath and SwapMath from v3-core so results match the pool to the wei
+ */
+
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const MIN_SQRT_RATIO = 4295128739n;
+export const MAX_SQRT_RATIO = 1461446703485210103287273052203988822378723970342n;
+
+export const Q96 = 2n ** 96n;
+const MAX_UINT256 = 2n ** 256n - 1n;
+const MAX_UINT160 = 2n ** 160n - 1n;
+const PIPS_DENOMINATOR = 1000000n;
+
+// 1 / sqrt(1.0001) ^ (2 ^ i) as Q128.128, for i = 1..19
+const TICK_RATIOS: [number, bigint][] = [
+  [0x2, 0xfff97272373d413259a46990580e213an],
+  [0x4, 0xfff2e50f5f656932ef12357cf3c7fdccn],
+  [0x8, 0xffe5caca7e10e4e61c3624eaa0941cd0n],
+  [0x10, 0xffcb9843d60f6159c9db58835c926644n],
+  [0x20, 0xff973b41fa98c081472e6896dfb254c0n],
+  [0x40, 0xff2ea16466c96a3843ec78b326b52861n],
+  [0x80, 0xfe5dee046a99a2a811c461f1969c3053n],
+  [0x100, 0xfcbe86c7900a88aedcffc83b479aa3a4n],
+  [0x200, 0xf987a7253ac413176f2b074cf7815e54n],
+  [0x400, 0xf3392b0822b70005940c7a398e4b70f3n],
+  [0x800, 0xe7159475a2c29b7443b29c7fa6e889d9n],
+  [0x1000, 0xd097f3bdfd2022b8845ad8f792aa5825n],
+  [0x2000, 0xa9f746462d870fdf8a65dc1f90e061e5n],
+  [0x4000, 0x70d869a156d2a1b890bb3df62baf32f7n],
+  [0x8000, 0x31be135f97d08fd981231505542fcfa6n],
+  [0x10000, 0x9aa508b5b7a84e1c677de54f3e99bc9n],
+  [0x20000, 0x5d6af8dedb81196699c329225ee604n],
+  [0x40000, 0x2216e584f5fa1ea926041bedfe98n],
+  [0x80000, 0x48a170391f7dc42444e8fa2n],
+];
+
+/**
+ * a * b / denominator rounded up
+ */
+export function mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+  const product = a * b;
+  const result = product / denominator;
+  return product % denominator === 0n ? result : result + 1n;
+}
+
+/**
+ * a / b rounded up
+ */
+function divRoundingUp(a: bigint, b: bigint): bigint {
+  const result = a / b;
+  return a % b === 0n ? result : result + 1n;
+}
+
+/**
+ * sqrt(1.0001 ^ tick) as a Q64.96
+ */
+export function getSqrtRatioAtTick(tick: number): bigint {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+    throw new Error(`Tick out of range: ${tick}`);
+  }
+
+  const absTick = Math.abs(tick);
+  let ratio = absTick & 0x1
+    ? 0xfffcb933bd6fad37aa2d162d1a594001n
+    : 0x100000000000000000000000000000000n;
+
+  for (const [bit, multiplier] of TICK_RATIOS) {
+    if (absTick & bit) {
+      ratio = (ratio * multiplier) >> 128n;
+    }
+  }
+
+  if (tick > 0) {
+    ratio = MAX_UINT256 / ratio;
+  }
+
+  // Round up so that getTickAtSqrtRatio(getSqrtRatioAtTick(tick)) === tick
+  return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+/**
+ * Greatest tick whose sqrt ratio is less than or equal to sqrtPriceX96
+ */
+export function getTickAtSqrtRatio(sqrtPriceX96: bigint): number {
+  if (sqrtPriceX96 < MIN_SQRT_RATIO || sqrtPriceX96 >= MAX_SQRT_RATIO) {
+    throw new Error('Sqrt price out of range');
+  }
+
+  // Binary search is exact and fast enough: at most 21 getSqrtRatioAtTick evaluations
+  let low = MIN_TICK;
+  let high = MAX_TICK;
+  while (low < high) {
+    const mid = Math.floor((low + high + 1) / 2);
+    if (getSqrtRatioAtTick(mid) <= sqrtPriceX96) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Amount of token0 between two prices for a given liquidity
+ */
+export function getAmount0Delta(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean,
+): bigint {
+  if (sqrtRatioAX96 > sqrtRatioBX96) {
+    [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96];
+  }
+
+  const numerator1 = liquidity << 96n;
+  const numerator2 = sqrtRatioBX96 - sqrtRatioAX96;
+
+  return roundUp
+    ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, sqrtRatioBX96), sqrtRatioAX96)
+    : (numerator1 * numerator2 / sqrtRatioBX96) / sqrtRatioAX96;
+}
+
+/**
+ * Amount of token1 between two prices for a given liquidity
+ */
+export function getAmount1Delta(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean,
+): bigint {
+  if (sqrtRatioAX96 > sqrtRatioBX96) {
+    [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96];
+  }
+
+  return roundUp
+    ? mulDivRoundingUp(liquidity, sqrtRatioBX96 - sqrtRatioAX96, Q96)
+    : liquidity * (sqrtRatioBX96 - sqrtRatioAX96) / Q96;
+}
+
+/**
+ * Next sqrt price after adding amountIn of token0 (price moves down)
+ */
+function getNextSqrtPriceFromAmount0RoundingUp(
+  sqrtPriceX96: bigint,
+  liquidity: bigint,
+  amount: bigint,
+): bigint {
+  if (amount === 0n) return sqrtPriceX96;
+
+  const numerator1 = liquidity << 96n;
+  const product = amount * sqrtPriceX96;
+
+  // Same overflow branches as the Solidity implementation, so rounding matches exactly
+  if (product <= MAX_UINT256) {
+    const denominator = numerator1 + product;
+    if (denominator <= MAX_UINT256) {
+      return mulDivRoundingUp(numerator1, sqrtPriceX96, denominator);
+    }
+  }
+
+  return divRoundingUp(numerator1, numerator1 / sqrtPriceX96 + amount);
+}
+
+/**
+ * Next sqrt price after adding amountIn of token1 (price moves up)
+ */
+function getNextSqrtPriceFromAmount1RoundingDown(
+  sqrtPriceX96: bigint,
+  liquidity: bigint,
+  amount: bigint,
+): bigint {
+  const quotient = amount <= MAX_UINT160
+    ? (amount << 96n) / liquidity
+    : amount * Q96 / liquidity;
+
+  return sqrtPriceX96 + quotient;
+}
+
+/**
+ * Next sqrt price after an exact input swap within a single liquidity range
+ */
+export function getNextSqrtPriceFromInput(
+  sqrtPriceX96: bigint,
+  liquidity: bigint,
+  amountIn: bigint,
+  zeroForOne: boolean,
+): bigint {
+  if (sqrtPriceX96 <= 0n || liquidity <= 0n) {
+    throw new Error('Invalid price or liquidity');
+  }
+
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount0RoundingUp(sqrtPriceX96, liquidity, amountIn)
+    : getNextSqrtPriceFromAmount1RoundingDown(sqrtPriceX96, liquidity, amountIn);
+}
+
+export interface SwapStep {
+  sqrtRatioNextX96: bigint;
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint;
+}
+
+/**
+ * One exact-input swap step towards a target price (SwapMath.computeSwapStep)
+ */
+export function computeSwapStep(
+  sqrtRatioCurrentX96: bigint,
+  sqrtRatioTargetX96: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  feePips: bigint,
+): SwapStep {
+  const zeroForOne = sqrtRatioCurrentX96 >= sqrtRatioTargetX96;
+  const amountRemainingLessFee = amountRemaining * (PIPS_DENOMINATOR - feePips) / PIPS_DENOMINATOR;
+
+  let amountIn = zeroForOne
+    ? getAmount0Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, true)
+    : getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, true);
+
+  const sqrtRatioNextX96 = amountRemainingLessFee >= amountIn
+    ? sqrtRatioTargetX96
+    : getNextSqrtPriceFromInput(sqrtRatioCurrentX96, liquidity, amountRemainingLessFee, zeroForOne);
+
+  const reachedTarget = sqrtRatioNextX96 === sqrtRatioTargetX96;
+  let amountOut: bigint;
+
+  if (zeroForOne) {
+    if (!reachedTarget) {
+      amountIn = getAmount0Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, true);
+    }
+    amountOut = getAmount1Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, false);
+  } else {
+    if (!reachedTarget) {
+      amountIn = getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, true);
+    }
+    amountOut = getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, false);
+  }
+
+  // The remainder of the input that did not move the price is taken as fee
+  const feeAmount = reachedTarget
+    ? mulDivRoundingUp(amountIn, feePips, PIPS_DENOMINATOR - feePips)
+    : amountRemaining - amountIn;
+
+  return { sqrtRatioNextX96, amountIn, amountOut, feeAmount };
+}
+
+/**
+ * Initialized tick and its net liquidity change when crossed left to right
+ */
+export interface V3Tick {
+  index: number;
+  liquidityNet: bigint;
+}
+
+/**
+ * Snapshot of a V3 pool sufficient to simulate swaps offline
+ * Only ticks inside the loaded bitmap words [minWord, maxWord] are known
+ */
+export interface V3PoolState {
+  address: string;
+  token0: string;
+  token1: string;
+  fee: number;
+  tickSpacing: number;
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint;
+  ticks: V3Tick[]; // Sorted by index
+  minWord: number;
+  maxWord: number;
+}
+
+/**
+ * Find the next initialized tick within one bitmap word (TickBitmap.nextInitializedTickWithinOneWord)
+ * Throws if the word has not been loaded, since the result would be unknown
+ */
+function nextInitializedTickWithinOneWord(
+  pool: V3PoolState,
+  tick: number,
+  lte: boolean,
+): { tickNext: number; initialized: boolean } {
+  const spacing = pool.tickSpacing;
+  const compressed = Math.floor(tick / spacing);
+
+  if (lte) {
+    const wordPos = compressed >> 8;
+    const wordStart = wordPos * 256;
+    assertWordLoaded(pool, wordPos);
+
+    for (let i = pool.ticks.length - 1; i >= 0; i--) {
+      const tickCompressed = pool.ticks[i].index / spacing;
+      if (tickCompressed <= compressed && tickCompressed >= wordStart) {
+        return { tickNext: pool.ticks[i].index, initialized: true };
+      }
+      if (tickCompressed < wordStart) break;
+    }
+    return { tickNext: wordStart * spacing, initialized: false };
+  }
+
+  const next = compressed + 1;
+  const wordPos = next >> 8;
+  const wordEnd = wordPos * 256 + 255;
+  assertWordLoaded(pool, wordPos);
+
+  for (const candidate of pool.ticks) {
+    const tickCompressed = candidate.index / spacing;
+    if (tickCompressed >= next && tickCompressed <= wordEnd) {
+      return { tickNext: candidate.index, initialized: true };
+    }
+    if (tickCompressed > wordEnd) break;
+  }
+  return { tickNext: wordEnd * spacing, initialized: false };
+}
+
+function assertWordLoaded(pool: V3PoolState, wordPos: number): void {
+  if (wordPos < pool.minWord || wordPos > pool.maxWord) {
+    throw new Error(`Tick bitmap word ${wordPos} not loaded for pool ${pool.address}`);
+  }
+}
+
+/**
+ * Output of a simulated swap and the pool price and liquidity it leaves behind
+ */
+export interface V3SwapResult {
+  amountOut: bigint;
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint;
+}
+
+/**
+ * Simulate an exact-input swap against a pool snapshot, crossing ticks as needed
+ * Returns the amount out, or null if the swap runs past the loaded tick range
+ */
+export function simulateExactInput(
+  pool: V3PoolState,
+  zeroForOne: boolean,
+  amountIn: bigint,
+): bigint | null {
+  return swapExactInput(pool, zeroForOne, amountIn)?.amountOut ?? null;
+}
+
+/**
+ * Simulate an exact-input swap and return the pool state after it, to apply a pending swap to a snapshot
+ * Returns null if the swap runs past the loaded tick range
+ */
+export function swapExactInput(
+  pool: V3PoolState,
+  zeroForOne: boolean,
+  amountIn: bigint,
+): V3SwapResult | null {
+  if (amountIn <= 0n || pool.liquidity < 0n) return null;
+
+  const feePips = BigInt(pool.fee);
+  const sqrtPriceLimitX96 = zeroForOne ? MIN_SQRT_RATIO + 1n : MAX_SQRT_RATIO - 1n;
+
+  let amountRemaining = amountIn;
+  let amountOut = 0n;
+  let sqrtPriceX96 = pool.sqrtPriceX96;
+  let tick = pool.tick;
+  let liquidity = pool.liquidity;
+
+  try {
+    while (amountRemaining !== 0n && sqrtPriceX96 !== sqrtPriceLimitX96) {
+      const sqrtPriceStartX96 = sqrtPriceX96;
+      const next = nextInitializedTickWithinOneWord(pool, tick, zeroForOne);
+      const initialized = next.initialized;
+      let tickNext = next.tickNext;
+
+      if (tickNext < MIN_TICK) {
+        tickNext = MIN_TICK;
+      } else if (tickNext > MAX_TICK) {
+        tickNext = MAX_TICK;
+      }
+
+      const sqrtPriceNextX96 = getSqrtRatioAtTick(tickNext);
+      const sqrtPriceTargetX96 = (zeroForOne ? sqrtPriceNextX96 < sqrtPriceLimitX96 : sqrtPriceNextX96 > sqrtPriceLimitX96)
+        ? sqrtPriceLimitX96
+        : sqrtPriceNextX96;
+
+      const step = computeSwapStep(sqrtPriceX96, sqrtPriceTargetX96, liquidity, amountRemaining, feePips);
+      sqrtPriceX96 = step.sqrtRatioNextX96;
+      amountRemaining -= step.amountIn + step.feeAmount;
+      amountOut += step.amountOut;
+
+      if (sqrtPriceX96 === sqrtPriceNextX96) {
+        if (initialized) {
+          const crossed = pool.ticks.find(t => t.index === tickNext);
+          const liquidityNet = crossed ? crossed.liquidityNet : 0n;
+          liquidity += zeroForOne ? -liquidityNet : liquidityNet;
+        }
+        tick = zeroForOne ? tickNext - 1 : tickNext;
+      } else if (sqrtPriceX96 !== sqrtPriceStartX96) {
+        tick = getTickAtSqrtRatio(sqrtPriceX96);
+      }
+    }
+  } catch {
+    // Ran into an unloaded tick word; the result would be a guess
+    return null;
+  }
+
+  return { amountOut, sqrtPriceX96, tick, liquidity };
+}
@@ -0,0 +1,166 @@
+import { AppDataSource } from '../../config/database';
+import { HealthCheck, HealthCheckType, HealthStatus } from '../../entities/HealthCheck';
+import { logger } from '../../utils/logger';
+
+export type BreakerState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Failure rate that opens a breaker for one kind of outcome
+ */
+export interface BreakerSignal {
+  window: number; // Latest outcomes kept
+  minSamples: number; // Outcomes needed before the rate is judged
+  maxFailureRate: number; // Fraction of failed outcomes in the window that opens the breaker
+}
+
+export interface BreakerOptions {
+  signals: Record<string, BreakerSignal>;
+  coolDownMs: number; // Time an open breaker waits before letting probes through
+  probeSuccesses: number; // Successful probes that close a half-open breaker
+}
+
+/**
+ * Change of a breaker's state, with the outcomes that led to it
+ */
+export interface BreakerTransition {
+  from: BreakerState;
+  to: BreakerState;
+  reason: string;
+  stats: Record<string, { samples: number; failures: number }>;
+}
+
+/**
+ * Circuit breaker over the recent outcomes of one component
+ * Closed: outcomes are counted per signal and a signal over its failure rate opens the breaker.
+ * Open: the component is not used until the cool-down has passed, then the breaker is half-open.
+ * Half-open: the component is probed; one failure opens the breaker again and enough successes close it.
+ */
+export class CircuitBreaker {
+  private state: BreakerState = 'closed';
+  private outcomes = new Map<string, boolean[]>(); // true for a failure, oldest first
+  private openedAt = 0;
+  private probes = 0;
+
+  constructor(
+    private options: BreakerOptions,
+    private onTransition: (transition: BreakerTransition) => void,
+  ) {}
+
+  /**
+   * Get the current state
+   */
+  getState(): BreakerState {
+    return this.state;
+  }
+
+  /**
+   * Check if the component may be used
+   * An open breaker whose cool-down has passed turns half-open here, so the caller's request is the first probe
+   */
+  allowRequest(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.options.coolDownMs) {
+      this.transition('half_open', `Cool-down of ${Math.round(this.options.coolDownMs / 1000)}s passed, probing`);
+    }
+    return this.state !== 'open';
+  }
+
+  /**
+   * Record the outcome of using the component; outcomes while open are ignored
+   */
+  record(signal: string, success: boolean, detail?: string): void {
+    if (this.state === 'open') return;
+
+    if (this.state === 'half_open') {
+      if (!success) {
+        this.open(`Probe failed: ${detail ?? signal}`);
+      } else if (++this.probes >= this.options.probeSuccesses) {
+        this.transition('closed', `${this.probes} probes succeeded`);
+      }
+      return;
+    }
+
+    const config = this.options.signals[signal];
+    if (!config) return;
+
+    const outcomes = this.outcomes.get(signal) ?? [];
+    outcomes.push(!success);
+    if (outcomes.length > config.window) outcomes.shift();
+    this.outcomes.set(signal, outcomes);
+
+    const failures = outcomes.filter(failed => failed).length;
+    if (!success && outcomes.length >= config.minSamples && failures / outcomes.length >= config.maxFailureRate) {
+      const last = detail ? `, last: ${detail}` : '';
+      this.open(`${failures} of the last ${outcomes.length} ${signal} checks failed${last}`);
+    }
+  }
+
+  /**
+   * Put the breaker back in the open state it had at a past time, for components found disabled on start
+   */
+  restoreOpen(openedAt: Date): void {
+    this.state = 'open';
+    this.openedAt = openedAt.getTime();
+  }
+
+  /**
+   * Failure counts of every signal
+   */
+  getStats(): BreakerTransition['stats'] {
+    const stats: BreakerTransition['stats'] = {};
+    for (const [signal, outcomes] of this.outcomes) {
+      stats[signal] = { samples: outcomes.length, failures: outcomes.filter(failed => failed).length };
+    }
+    return stats;
+  }
+
+  /**
+   * Open the breaker and start its cool-down
+   */
+  private open(reason: string): void {
+    this.openedAt = Date.now();
+    this.transition('open', reason);
+  }
+
+  /**
+   * Move to a new state with fresh outcome windows
+   */
+  private transition(to: BreakerState, reason: string): void {
+    const transition: BreakerTransition = { from: this.state, to, reason, stats: this.getStats() };
+
+    this.state = to;
+    this.probes = 0;
+    this.outcomes.clear();
+    this.onTransition(transition);
+  }
+}
+
+/**
+ * Write a breaker transition as a HealthCheck row: open is critical, half-open a warning and closed healthy
+ */
+export async function saveBreakerTransition(
+  type: HealthCheckType,
+  component: string,
+  transition: BreakerTransition,
+  metadata: Record<string, any> = {},
+): Promise<void> {
+  const status = transition.to === 'open'
+    ? HealthStatus.CRITICAL
+    : transition.to === 'half_open' ? HealthStatus.WARNING : HealthStatus.HEALTHY;
+
+  try {
+    await AppDataSource.getRepository(HealthCheck).save(HealthCheck.create(type, component.slice(0, 50), status, {
+      message: transition.reason,
+      metadata: {
+        ...metadata,
+        from: transition.from,
+        to: transition.to,
+        stats: transition.stats,
+      },
+    }));
+  } catch (error) {
+    logger.warn(`⚠️ Failed to record health of ${component}`, {
+      transition: `${transition.from} -> ${transition.to}`,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -0,0 +1,168 @@
+import { In } from 'typeorm';
+import { AppDataSource } from '../../config/database';
+import { NetworkName } from '../../types';
+import { DEX, DEXStatus } from '../../entities/DEX';
+import { HealthCheckType } from '../../entities/HealthCheck';
+import {
+  BreakerOptions,
+  BreakerState,
+  BreakerTransition,
+  CircuitBreaker,
+  saveBreakerTransition,
+} from './circuitBreaker';
+import { arbitrageLogger as logger } from '../../utils/logger';
+
+const DEX_BREAKER: BreakerOptions = {
+  signals: {
+    quote: { window: 50, minSamples: 20, maxFailureRate: 0.5 }, // Quotes that throw; a missing pool is not a failure
+    price: { window: 30, minSamples: 10, maxFailureRate: 0.5 }, // Quotes far from the other DEXes' median
+    revert: { window: 10, minSamples: 5, maxFailureRate: 0.8 }, // Simulated routes through the DEX that revert
+  },
+  coolDownMs: 10 * 60 * 1000,
+  probeSuccesses: 10,
+};
+// Deviation from the median output of a pair across DEXes that makes a quote an outlier
+const MAX_PRICE_DEVIATION = 0.25;
+// Quotes of one pair needed for a meaningful median
+const MIN_PRICE_QUOTES = 3;
+
+/**
+ * Circuit breakers over the DEXes of one network
+ * A DEX whose quotes keep failing, whose prices keep standing out or whose routes keep reverting is put into
+ * maintenance; after the cool-down it is scanned again as a probe and restored once it behaves
+ */
+export class DEXHealthMonitor {
+  private breakers = new Map<string, CircuitBreaker>(); // By DEX id
+
+  constructor(private network: NetworkName) {}
+
+  /**
+   * Pick up DEXes a previous run put into maintenance, so they are still probed and restored
+   * DEXes an admin put into maintenance are left alone; they were not marked unhealthy
+   */
+  async load(): Promise<void> {
+    const dexes = await AppDataSource.getRepository(DEX).findBy({
+      network: this.network,
+      status: DEXStatus.MAINTENANCE,
+      isHealthy: false,
+    });
+
+    for (const dex of dexes) {
+      this.getBreaker(dex).restoreOpen(dex.lastHealthCheck ?? new Date());
+    }
+  }
+
+  /**
+   * Record a quote attempt; pass the error if the quote threw
+   */
+  recordQuote(dex: DEX, error?: unknown): void {
+    const detail = error === undefined ? undefined : error instanceof Error ? error.message : String(error);
+    this.getBreaker(dex).record('quote', error === undefined, detail);
+  }
+
+  /**
+   * Compare the outputs several DEXes quote for the same swap, null where a DEX has no quote
+   */
+  recordPrices(dexes: DEX[], amountsOut: (bigint | null)[]): void {
+    const quoted = dexes
+      .map((dex, i) => ({ dex, amountOut: amountsOut[i] }))
+      .filter((entry): entry is { dex: DEX; amountOut: bigint } => entry.amountOut !== null && entry.amountOut > 0n);
+    if (quoted.length < MIN_PRICE_QUOTES) return;
+
+    const sorted = quoted.map(entry => entry.amountOut).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    const median = sorted[Math.floor(sorted.length / 2)];
+
+    for (const { dex, amountOut } of quoted) {
+      const difference = amountOut > median ? amountOut - median : median - amountOut;
+      const deviation = Number(difference * 10000n / median) / 10000;
+      const outlier = deviation > MAX_PRICE_DEVIATION;
+      const detail = outlier ? `${(deviation * 100).toFixed(1)}% from the median` : undefined;
+      this.getBreaker(dex).record('price', !outlier, detail);
+    }
+  }
+
+  /**
+   * Record a simulated route against every DEX it swaps through
+   */
+  recordSimulation(dexes: DEX[], reverted: boolean, reason?: string): void {
+    for (const dex of new Set(dexes)) {
+      this.getBreaker(dex).record('revert', !reverted, reason);
+    }
+  }
+
+  /**
+   * DEXes in maintenance whose cool-down has passed; they are scanned as probes until their breaker decides
+   */
+  async getProbeDEXes(): Promise<DEX[]> {
+    const ids = [...this.breakers.entries()]
+      .filter(([, breaker]) => breaker.getState() !== 'closed' && breaker.allowRequest())
+      .map(([id]) => id);
+    if (ids.length === 0) return [];
+
+    return AppDataSource.getRepository(DEX).findBy({ id: In(ids), status: DEXStatus.MAINTENANCE, isActive: true });
+  }
+
+  /**
+   * Check if routes through a DEX may be executed; probing DEXes are only scanned
+   */
+  isTradable(dexId: string): boolean {
+    return (this.breakers.get(dexId)?.getState() ?? 'closed') === 'closed';
+  }
+
+  /**
+   * Breaker state of every DEX that is not closed, for health checks
+   */
+  getStatus(): Record<string, BreakerState> {
+    const status: Record<string, BreakerState> = {};
+    for (const [id, breaker] of this.breakers) {
+      if (breaker.getState() !== 'closed') status[id] = breaker.getState();
+    }
+    return status;
+  }
+
+  /**
+   * Get the breaker of a DEX, created on first use
+   */
+  private getBreaker(dex: DEX): CircuitBreaker {
+    let breaker = this.breakers.get(dex.id);
+    if (!breaker) {
+      const { id, name } = dex;
+      breaker = new CircuitBreaker(DEX_BREAKER, transition => void this.handleTransition(id, name, transition));
+      this.breakers.set(dex.id, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Put a DEX into maintenance when its breaker opens and restore it when it closes, recording every transition
+   */
+  private async handleTransition(dexId: string, name: string, transition: BreakerTransition): Promise<void> {
+    const message = `DEX ${name} on ${this.network} ${transition.from} -> ${transition.to}: ${transition.reason}`;
+    if (transition.to === 'open') {
+      logger.warn(`🚧 ${message}`);
+    } else {
+      logger.info(`🔌 ${message}`);
+    }
+
+    try {
+      const repository = AppDataSource.getRepository(DEX);
+      const dex = await repository.findOneBy({ id: dexId });
+      if (dex && transition.to === 'open' && dex.status !== DEXStatus.INACTIVE) {
+        dex.status = DEXStatus.MAINTENANCE;
+        dex.updateHealthStatus(false, transition.reason);
+        await repository.save(dex);
+      } else if (dex && transition.to === 'closed' && dex.status === DEXStatus.MAINTENANCE) {
+        dex.status = DEXStatus.ACTIVE;
+        dex.updateHealthStatus(true);
+        await repository.save(dex);
+      }
+    } catch (error) {
+      logger.error(`❌ Failed to update health of DEX ${name} on ${this.network}:`, error);
+    }
+
+    await saveBreakerTransition(HealthCheckType.DEX_API, `${this.network}-${name}`, transition, {
+      network: this.network,
+      dexId,
+    });
+  }
+}
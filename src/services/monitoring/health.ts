@@ -0,0 +1,170 @@
+import { AppDataSource } from '../../config/database';
+import { HealthCheck, HealthCheckType, HealthStatus } from '../../entities/HealthCheck';
+import type { NetworkStatus } from '../arbitrage/engine';
+import { MAX_BLOCK_LAG, RpcEndpointStatus } from '../blockchain/provider';
+import { logger } from '../../utils/logger';
+
+// How often every component is checked when HEALTH_CHECK_INTERVAL is not set
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Service the health monitor checks; one that reports its networks also has each RPC endpoint checked
+ */
+export interface MonitoredService {
+  healthCheck(): Promise<{ healthy: boolean; details: any }>;
+  getNetworkStatus?(): Record<string, NetworkStatus>;
+}
+
+/**
+ * Service with the type and name its HealthCheck rows are saved under
+ */
+export interface MonitoredComponent {
+  type: HealthCheckType;
+  component: string;
+  service: MonitoredService;
+}
+
+/**
+ * Checks the bot's services on an interval and saves the results as HealthCheck rows
+ * Services are saved one row each and the RPC endpoints of every running network one row per endpoint; a
+ * component turning unhealthy or recovering is logged once rather than on every check
+ */
+export class HealthMonitor {
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<HealthCheck[]>; // Check in progress
+  private unhealthy = new Set<string>(); // Components whose last check was not healthy
+
+  constructor(private components: MonitoredComponent[]) {}
+
+  /**
+   * Check every component now and then every HEALTH_CHECK_INTERVAL milliseconds
+   */
+  async start(): Promise<void> {
+    const interval = parseInt(process.env.HEALTH_CHECK_INTERVAL || String(DEFAULT_INTERVAL_MS));
+    await this.check();
+    this.timer = setInterval(() => void this.check(), interval);
+    logger.info(`🩺 Health monitor started, checking every ${interval / 1000}s`);
+  }
+
+  /**
+   * Stop checking, letting a check in progress finish saving
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await this.running;
+    logger.info('🛑 Health monitor stopped');
+  }
+
+  /**
+   * Check every component once and save the results; a check still running is not overlapped
+   */
+  async check(): Promise<HealthCheck[]> {
+    if (this.running) return [];
+
+    this.running = this.checkAll();
+    try {
+      return await this.running;
+    } finally {
+      this.running = undefined;
+    }
+  }
+
+  /**
+   * Check the components in turn, log changes in their health and save a row for each result
+   */
+  private async checkAll(): Promise<HealthCheck[]> {
+    try {
+      const checks: HealthCheck[] = [];
+      for (const { type, component, service } of this.components) {
+        checks.push(await this.checkService(type, component, service));
+        if (service.getNetworkStatus) {
+          checks.push(...this.checkEndpoints(service.getNetworkStatus()));
+        }
+      }
+
+      for (const check of checks) {
+        this.recordTransition(check);
+      }
+      await AppDataSource.getRepository(HealthCheck).save(checks);
+      return checks;
+    } catch (error) {
+      logger.error('❌ Health check failed:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Run a service's own health check, timing it; a check that throws counts as critical
+   */
+  private async checkService(
+    type: HealthCheckType,
+    component: string,
+    service: MonitoredService,
+  ): Promise<HealthCheck> {
+    const startTime = Date.now();
+    try {
+      const { healthy, details } = await service.healthCheck();
+      return HealthCheck.create(type, component, healthy ? HealthStatus.HEALTHY : HealthStatus.CRITICAL, {
+        responseTime: Date.now() - startTime,
+        metadata: details,
+      });
+    } catch (error) {
+      return HealthCheck.create(type, component, HealthStatus.CRITICAL, {
+        responseTime: Date.now() - startTime,
+        message: 'Health check threw',
+        errorDetails: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * One row per RPC endpoint of every network, named like the endpoint's circuit breaker rows
+   */
+  private checkEndpoints(networks: Record<string, NetworkStatus>): HealthCheck[] {
+    return Object.entries(networks).flatMap(([network, status]) => status.rpcEndpoints.map(endpoint =>
+      HealthCheck.create(HealthCheckType.BLOCKCHAIN_RPC, endpoint.name.slice(0, 50), getEndpointHealth(endpoint), {
+        responseTime: endpoint.latency,
+        value: endpoint.lag,
+        message: describeEndpoint(endpoint),
+        metadata: { network, ...endpoint },
+      })));
+  }
+
+  /**
+   * Log a component turning unhealthy or recovering
+   */
+  private recordTransition(check: HealthCheck): void {
+    const healthy = check.status === HealthStatus.HEALTHY;
+    if (healthy && this.unhealthy.delete(check.component)) {
+      logger.info(`✅ ${check.component} is healthy again`);
+    } else if (!healthy && !this.unhealthy.has(check.component)) {
+      this.unhealthy.add(check.component);
+      logger.warn(`⚠️ ${check.component} is ${check.status}`, {
+        type: check.type,
+        message: check.message,
+        error: check.errorDetails,
+      });
+    }
+  }
+}
+
+/**
+ * Critical while an endpoint's breaker is open, a warning while it is probed or too far behind
+ */
+export function getEndpointHealth(endpoint: RpcEndpointStatus): HealthStatus {
+  if (endpoint.state === 'open') return HealthStatus.CRITICAL;
+  if (endpoint.state === 'half_open' || endpoint.lag > MAX_BLOCK_LAG) return HealthStatus.WARNING;
+  return HealthStatus.HEALTHY;
+}
+
+/**
+ * Why an endpoint is not healthy, or undefined if it is
+ */
+function describeEndpoint(endpoint: RpcEndpointStatus): string | undefined {
+  if (endpoint.state !== 'closed') return `Circuit breaker ${endpoint.state}`;
+  if (endpoint.lag > MAX_BLOCK_LAG) return `${endpoint.lag} blocks behind`;
+  return undefined;
+}
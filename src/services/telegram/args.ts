@@ -0,0 +1,15 @@
+import { isNetworkName } from '../../config/networks';
+import { NetworkName } from '../../types';
+import type { TelegramContext } from './bot';
+
+/**
+ * Split a command's arguments into an optional network name and the rest
+ */
+export function parseCommandArgs(ctx: TelegramContext): { network?: NetworkName; positional: string[] } {
+  const text = ctx.message && 'text' in ctx.message ? ctx.message.text : '';
+  const args = text.trim().split(/\s+/).slice(1);
+  return {
+    network: args.find(isNetworkName),
+    positional: args.filter(arg => !isNetworkName(arg)),
+  };
+}
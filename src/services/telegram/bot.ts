@@ -6,7 +6,12 @@ import { NotificationService } from '../notification/service';
 import { CommandHandler } from './commands';
 import { MenuHandler } from './menus';
 import { MiddlewareHandler } from './middleware';
+import { ContractAdminHandler } from './contractAdmin';
+import { OpportunitiesHandler } from './opportunities';
+import { RiskSettingsHandler } from './settings';
+import { NetworkStatusHandler } from './networks';
 import { User, UserRole } from '../../entities/User';
+import type { ArbitrageEngine } from '../arbitrage/engine';
 
 export interface TelegramContext extends Context {
   user?: User;
@@ -26,8 +31,13 @@ export class TelegramBot {
   private commandHandler: CommandHandler;
   private menuHandler: MenuHandler;
   private middlewareHandler: MiddlewareHandler;
+  private contractAdminHandler: ContractAdminHandler;
+  private opportunitiesHandler: OpportunitiesHandler;
+  private riskSettingsHandler: RiskSettingsHandler;
+  private networkStatusHandler: NetworkStatusHandler;
   private rateLimiter: RateLimiterMemory;
   private isRunning: boolean = false;
+  private arbitrageEngine?: ArbitrageEngine;
 
   constructor(private notificationService: NotificationService) {
     // Initialize bot
@@ -38,6 +48,10 @@ export class TelegramBot {
     this.commandHandler = new CommandHandler(this.userService, this.notificationService);
     this.menuHandler = new MenuHandler(this.userService);
     this.middlewareHandler = new MiddlewareHandler(this.userService);
+    this.contractAdminHandler = new ContractAdminHandler(() => this.arbitrageEngine);
+    this.opportunitiesHandler = new OpportunitiesHandler(() => this.arbitrageEngine);
+    this.riskSettingsHandler = new RiskSettingsHandler(() => this.arbitrageEngine);
+    this.networkStatusHandler = new NetworkStatusHandler(() => this.arbitrageEngine);
     
     // Initialize rate limiter
     this.rateLimiter = new RateLimiterMemory({
@@ -99,13 +113,13 @@ export class TelegramBot {
     this.bot.command('users', this.commandHandler.listUsers.bind(this.commandHandler));
     this.bot.command('health', this.commandHandler.health.bind(this.commandHandler));
     this.bot.command('logs', this.commandHandler.logs.bind(this.commandHandler));
-    this.bot.command('settings', this.commandHandler.settings.bind(this.commandHandler));
+    this.bot.command('settings', this.riskSettingsHandler.settings.bind(this.riskSettingsHandler));
     
     // Arbitrage commands
-    this.bot.command('opportunities', this.commandHandler.opportunities.bind(this.commandHandler));
+    this.bot.command('opportunities', this.opportunitiesHandler.opportunities.bind(this.opportunitiesHandler));
     this.bot.command('trades', this.commandHandler.trades.bind(this.commandHandler));
     this.bot.command('profit', this.commandHandler.profit.bind(this.commandHandler));
-    this.bot.command('networks', this.commandHandler.networks.bind(this.commandHandler));
+    this.bot.command('networks', this.networkStatusHandler.networks.bind(this.networkStatusHandler));
 
     // Control commands
     this.bot.command('start_arbitrage', this.commandHandler.startArbitrage.bind(this.commandHandler));
@@ -113,6 +127,17 @@ export class TelegramBot {
     this.bot.command('pause', this.commandHandler.pauseArbitrage.bind(this.commandHandler));
     this.bot.command('resume', this.commandHandler.resumeArbitrage.bind(this.commandHandler));
 
+    // Contract admin commands (preview, then confirm with a button)
+    const contractAdmin = this.contractAdminHandler;
+    this.bot.command('contract_config', contractAdmin.contractConfig.bind(contractAdmin));
+    this.bot.command('contract_pause', contractAdmin.contractPause.bind(contractAdmin));
+    this.bot.command('contract_unpause', contractAdmin.contractUnpause.bind(contractAdmin));
+    this.bot.command('blacklist', contractAdmin.blacklist.bind(contractAdmin));
+    this.bot.command('unblacklist', contractAdmin.unblacklist.bind(contractAdmin));
+    this.bot.command('withdraw', contractAdmin.withdraw.bind(contractAdmin));
+    this.bot.command('emergency_withdraw', contractAdmin.emergencyWithdraw.bind(contractAdmin));
+    this.bot.command('fee_recipient', contractAdmin.feeRecipient.bind(contractAdmin));
+
     logger.info('📝 Bot commands setup completed');
   }
 
@@ -139,6 +164,12 @@ export class TelegramBot {
     // Pagination callbacks
     this.bot.action(/^page_\d+$/, this.menuHandler.pagination.bind(this.menuHandler));
 
+    // Contract admin confirmations
+    this.bot.action(
+      /^contract_(confirm|cancel)_\w+$/,
+      this.contractAdminHandler.handleConfirmation.bind(this.contractAdminHandler),
+    );
+
     // Generic callback handler for unhandled callbacks
     this.bot.on('callback_query', this.menuHandler.handleCallback.bind(this.menuHandler));
 
@@ -295,6 +326,20 @@ export class TelegramBot {
     }
   }
 
+  /**
+   * Attach the arbitrage engine so control commands can drive it
+   */
+  setArbitrageEngine(engine: ArbitrageEngine): void {
+    this.arbitrageEngine = engine;
+  }
+
+  /**
+   * Get the attached arbitrage engine
+   */
+  getArbitrageEngine(): ArbitrageEngine | undefined {
+    return this.arbitrageEngine;
+  }
+
   /**
    * Check if bot is running
    */
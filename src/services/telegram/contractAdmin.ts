@@ -0,0 +1,304 @@
+import { randomBytes } from 'crypto';
+import { Markup } from 'telegraf';
+import { getAddress, isAddress, parseUnits } from 'ethers';
+import { telegramLogger as logger } from '../../utils/logger';
+import { NetworkName } from '../../types';
+import type { ArbitrageEngine } from '../arbitrage/engine';
+import { ContractAdmin, ContractAdminAction, formatConfigValue } from '../arbitrage/admin';
+import type { ArbitrageBotConfigUpdate } from '../blockchain/arbitrageBot';
+import { Amount } from '../../utils/amount';
+import type { TelegramContext } from './bot';
+import { parseCommandArgs } from './args';
+
+// A previewed action must be confirmed within this long
+const CONFIRMATION_TTL_MS = 2 * 60 * 1000;
+
+// Config keys /contract_config accepts and how their values are written
+const CONFIG_KEYS: Record<keyof ArbitrageBotConfigUpdate, string> = {
+  maxSlippage: 'basis points',
+  maxGasPrice: 'gwei',
+  minProfitThreshold: 'raw token units',
+  feePercentage: 'basis points',
+};
+
+interface PendingAction {
+  network: NetworkName;
+  action: ContractAdminAction;
+  userId: number;
+  expiresAt: number;
+}
+
+/**
+ * Admin commands for the arbitrage contract's owner-only calls
+ * Every command replies with a preview and Confirm / Cancel buttons; nothing is sent until the admin who asked
+ * confirms, and the reply reports the transaction hash and explorer link, then the receipt
+ */
+export class ContractAdminHandler {
+  private pending = new Map<string, PendingAction>(); // By confirmation id
+
+  constructor(private getEngine: () => ArbitrageEngine | undefined) {}
+
+  /**
+   * /contract_config [network] [key=value ...] - show the contract config, or preview updating it
+   */
+  async contractConfig(ctx: TelegramContext): Promise<void> {
+    const args = parseCommandArgs(ctx);
+    const assignments = args.positional;
+
+    if (assignments.length === 0) {
+      await this.run(ctx, args.network, async (admin, network) => {
+        const { config, paused, owner, ownerLoaded } = await admin.getStatus();
+        const keys = Object.keys(CONFIG_KEYS) as (keyof ArbitrageBotConfigUpdate)[];
+        await ctx.reply([
+          `⚙️ Arbitrage contract on ${network}`,
+          ...keys.map(key => `${key}: ${formatConfigValue(key, config[key])}`),
+          `feeRecipient: ${config.feeRecipient}`,
+          `paused: ${paused ? 'yes' : 'no'}`,
+          `owner: ${owner}${ownerLoaded ? '' : ' (not a loaded account, changes cannot be sent)'}`,
+        ].join('\n'));
+      });
+      return;
+    }
+
+    await this.propose(ctx, args.network, () => {
+      const changes: Partial<ArbitrageBotConfigUpdate> = {};
+      for (const assignment of assignments) {
+        const [name, value, ...rest] = assignment.split('=');
+        const key = name as keyof ArbitrageBotConfigUpdate;
+        if (!Object.prototype.hasOwnProperty.call(CONFIG_KEYS, key) || !value || rest.length > 0) {
+          const keys = Object.entries(CONFIG_KEYS).map(([option, unit]) => `${option} (${unit})`);
+          throw new Error(`Use key=value with ${keys.join(', ')}`);
+        }
+        changes[key] = parseConfigValue(key, value);
+      }
+      return Promise.resolve({ type: 'update_config', changes });
+    });
+  }
+
+  /**
+   * /contract_pause [network] - preview pausing the contract
+   */
+  async contractPause(ctx: TelegramContext): Promise<void> {
+    await this.propose(ctx, parseCommandArgs(ctx).network, () => Promise.resolve({ type: 'pause' }));
+  }
+
+  /**
+   * /contract_unpause [network] - preview unpausing the contract
+   */
+  async contractUnpause(ctx: TelegramContext): Promise<void> {
+    await this.propose(ctx, parseCommandArgs(ctx).network, () => Promise.resolve({ type: 'unpause' }));
+  }
+
+  /**
+   * /blacklist <token> [network] - preview blacklisting a token by symbol or address
+   */
+  async blacklist(ctx: TelegramContext): Promise<void> {
+    await this.proposeBlacklist(ctx, true);
+  }
+
+  /**
+   * /unblacklist <token> [network] - preview removing a token from the blacklist
+   */
+  async unblacklist(ctx: TelegramContext): Promise<void> {
+    await this.proposeBlacklist(ctx, false);
+  }
+
+  /**
+   * /withdraw <token> <amount> [network] - preview withdrawing an amount of a token to the owner
+   */
+  async withdraw(ctx: TelegramContext): Promise<void> {
+    const { network, positional: [query, amount] } = parseCommandArgs(ctx);
+    if (!query || !amount) {
+      await ctx.reply('Usage: /withdraw <token> <amount> [network]');
+      return;
+    }
+
+    await this.propose(ctx, network, async admin => {
+      const token = await admin.resolveToken(query);
+      return { type: 'withdraw_profits', token, amount: Amount.parse(amount, token.decimals).raw };
+    });
+  }
+
+  /**
+   * /emergency_withdraw <token> [network] - preview withdrawing the contract's whole balance of a token
+   */
+  async emergencyWithdraw(ctx: TelegramContext): Promise<void> {
+    const { network, positional: [query] } = parseCommandArgs(ctx);
+    if (!query) {
+      await ctx.reply('Usage: /emergency_withdraw <token> [network]');
+      return;
+    }
+
+    await this.propose(ctx, network, async admin => ({
+      type: 'emergency_withdraw',
+      token: await admin.resolveToken(query),
+    }));
+  }
+
+  /**
+   * /fee_recipient <address> [network] - preview changing the address receiving protocol fees
+   */
+  async feeRecipient(ctx: TelegramContext): Promise<void> {
+    const { network, positional: [address] } = parseCommandArgs(ctx);
+    if (!address || !isAddress(address)) {
+      await ctx.reply('Usage: /fee_recipient <address> [network]');
+      return;
+    }
+
+    await this.propose(ctx, network, () => Promise.resolve({
+      type: 'set_fee_recipient',
+      feeRecipient: getAddress(address),
+    }));
+  }
+
+  /**
+   * Confirm or cancel a previewed action from its contract_confirm_<id> or contract_cancel_<id> button
+   */
+  async handleConfirmation(ctx: TelegramContext): Promise<void> {
+    const data = ctx.callbackQuery && 'data' in ctx.callbackQuery ? ctx.callbackQuery.data : '';
+    const [, choice, id] = /^contract_(confirm|cancel)_(\w+)$/.exec(data) ?? [];
+    const pending = this.pending.get(id);
+
+    if (!pending || pending.expiresAt < Date.now() || pending.userId !== ctx.from?.id || !ctx.user?.isAdmin()) {
+      await ctx.answerCbQuery('This confirmation has expired or is not yours');
+      return;
+    }
+    this.pending.delete(id);
+
+    if (choice === 'cancel') {
+      await ctx.answerCbQuery('Cancelled');
+      await ctx.editMessageText('🚫 Cancelled, nothing was sent');
+      return;
+    }
+
+    await ctx.answerCbQuery('Sending...');
+    await ctx.editMessageReplyMarkup(undefined);
+    await this.run(ctx, pending.network, async admin => {
+      const transaction = await admin.execute(pending.action);
+      await ctx.reply(`📤 Sent ${pending.action.type} on ${pending.network}\n${transaction.hash}\n` +
+        transaction.getExplorerUrl());
+
+      void admin.waitForReceipt(transaction).then(async mined => {
+        if (mined.isSuccessful()) {
+          await ctx.reply(`✅ ${pending.action.type} on ${pending.network} confirmed in block ${mined.blockNumber}`);
+        } else if (mined.isFailed()) {
+          await ctx.reply(`❌ ${pending.action.type} on ${pending.network} reverted\n${mined.getExplorerUrl()}`);
+        }
+      }).catch(error => logger.error('❌ Failed to report an admin transaction receipt:', error));
+    });
+  }
+
+  /**
+   * Preview blacklisting or unblacklisting a token
+   */
+  private async proposeBlacklist(ctx: TelegramContext, blacklisted: boolean): Promise<void> {
+    const { network, positional: [query] } = parseCommandArgs(ctx);
+    if (!query) {
+      await ctx.reply(`Usage: /${blacklisted ? 'blacklist' : 'unblacklist'} <token> [network]`);
+      return;
+    }
+
+    await this.propose(ctx, network, async admin => ({
+      type: 'set_token_blacklist',
+      token: await admin.resolveToken(query),
+      blacklisted,
+    }));
+  }
+
+  /**
+   * Build an action, reply with its preview and Confirm / Cancel buttons, and keep it until it is answered
+   */
+  private async propose(
+    ctx: TelegramContext,
+    network: NetworkName | undefined,
+    build: (admin: ContractAdmin) => Promise<ContractAdminAction>,
+  ): Promise<void> {
+    await this.run(ctx, network, async (admin, resolved) => {
+      const action = await build(admin);
+      const preview = await admin.preview(action);
+
+      this.removeExpired();
+      const id = randomBytes(6).toString('hex');
+      this.pending.set(id, {
+        network: resolved,
+        action,
+        userId: ctx.from?.id as number,
+        expiresAt: Date.now() + CONFIRMATION_TTL_MS,
+      });
+
+      await ctx.reply(
+        [
+          `🔧 ${action.type} on ${resolved}`,
+          ...preview,
+          '',
+          `Confirm within ${CONFIRMATION_TTL_MS / 60000} minutes to send it.`,
+        ].join('\n'),
+        Markup.inlineKeyboard([
+          Markup.button.callback('✅ Confirm', `contract_confirm_${id}`),
+          Markup.button.callback('🚫 Cancel', `contract_cancel_${id}`),
+        ]),
+      );
+    });
+  }
+
+  /**
+   * Run a command for an admin against a network's contract, replying with the error if it fails
+   * Without a network named, the only running network is used
+   */
+  private async run(
+    ctx: TelegramContext,
+    network: NetworkName | undefined,
+    command: (admin: ContractAdmin, network: NetworkName) => Promise<void>,
+  ): Promise<void> {
+    if (!ctx.user?.isAdmin()) {
+      await ctx.reply('❌ Contract commands are for admins only');
+      return;
+    }
+
+    const engine = this.getEngine();
+    const running = (engine?.getStats().networks ?? []) as NetworkName[];
+    const resolved = network ?? (running.length === 1 ? running[0] : undefined);
+    if (!engine || !resolved) {
+      await ctx.reply(running.length > 1
+        ? `Name the network: ${running.join(', ')}`
+        : '❌ The arbitrage engine is not running');
+      return;
+    }
+
+    const admin = engine.getContractAdmin(resolved);
+    if (!admin) {
+      await ctx.reply(`❌ No arbitrage contract or bot account on ${resolved}`);
+      return;
+    }
+
+    try {
+      await command(admin, resolved);
+    } catch (error) {
+      logger.error(`❌ Contract command failed on ${resolved}:`, error);
+      await ctx.reply(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Forget previews that can no longer be confirmed
+   */
+  private removeExpired(): void {
+    const now = Date.now();
+    for (const [id, pending] of this.pending) {
+      if (pending.expiresAt < now) this.pending.delete(id);
+    }
+  }
+}
+
+/**
+ * Parse a /contract_config value written in the unit of its key
+ */
+function parseConfigValue(key: keyof ArbitrageBotConfigUpdate, value: string): bigint {
+  if (key === 'maxGasPrice') {
+    return parseUnits(value, 'gwei');
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`${key} must be a whole number of ${CONFIG_KEYS[key]}`);
+  }
+  return BigInt(value);
+}
@@ -0,0 +1,81 @@
+import type { ArbitrageEngine, NetworkStatus } from '../arbitrage/engine';
+import type { RpcEndpointStatus } from '../blockchain/provider';
+import { getEndpointHealth } from '../monitoring/health';
+import { HealthStatus } from '../../entities/HealthCheck';
+import type { TelegramContext } from './bot';
+import { parseCommandArgs } from './args';
+
+// Icon of an RPC endpoint by its health
+const ENDPOINT_ICONS: Record<HealthStatus, string> = {
+  [HealthStatus.HEALTHY]: '🟢',
+  [HealthStatus.WARNING]: '🟡',
+  [HealthStatus.CRITICAL]: '🔴',
+  [HealthStatus.UNKNOWN]: '⚪',
+};
+
+/**
+ * /networks: the scanning state of each running network and the health of its RPC endpoints
+ */
+export class NetworkStatusHandler {
+  constructor(private getEngine: () => ArbitrageEngine | undefined) {}
+
+  /**
+   * /networks [network] - show every running network, or one
+   */
+  async networks(ctx: TelegramContext): Promise<void> {
+    const { network } = parseCommandArgs(ctx);
+
+    const engine = this.getEngine();
+    if (!engine) {
+      await ctx.reply('❌ The arbitrage engine is not running');
+      return;
+    }
+
+    const networks = Object.entries(engine.getNetworkStatus())
+      .filter(([name]) => !network || name === network);
+    if (networks.length === 0) {
+      await ctx.reply(network ? `❌ ${network} is not running` : 'No networks are running');
+      return;
+    }
+
+    await ctx.reply(networks.map(([name, status]) => formatNetwork(name, status)).join('\n\n'));
+  }
+}
+
+/**
+ * A network's last scan, how trades are sent and one line per RPC endpoint, the one in use marked
+ */
+function formatNetwork(name: string, status: NetworkStatus): string {
+  const lines = [`🌐 ${name}`];
+  lines.push(status.lastScannedBlock !== undefined && status.lastScanAt
+    ? `Last scan: block ${status.lastScannedBlock}, ${formatAge(status.lastScanAt)} ago in ${status.lastScanDuration}ms`
+    : 'Last scan: none yet');
+  if (status.lastError) {
+    lines.push(`⚠️ Last error: ${status.lastError}`);
+  }
+  lines.push(
+    `Trades sent: ${status.submission ?? 'not executing'}, quorum check ${status.quorum ? 'on' : 'off'}`,
+    `Mempool: ${status.mempool ? (status.mempool.connected ? 'connected' : 'reconnecting') : 'off'}`,
+    'RPC endpoints:',
+    ...status.rpcEndpoints.map(formatEndpoint),
+  );
+  return lines.join('\n');
+}
+
+/**
+ * One line for an endpoint: health, name and host, latency, blocks behind, score and errors
+ */
+function formatEndpoint(endpoint: RpcEndpointStatus): string {
+  const latency = endpoint.latency !== undefined ? `${Math.round(endpoint.latency)}ms` : 'no latency yet';
+  return `${ENDPOINT_ICONS[getEndpointHealth(endpoint)]} ${endpoint.name}${endpoint.active ? ' (active)' : ''} ` +
+    `${endpoint.host}, ${endpoint.state}, ${latency}, ${endpoint.lag} behind, score ${Math.round(endpoint.score)}, ` +
+    `${endpoint.errors} errors and ${endpoint.timeouts} timeouts in ${endpoint.requests} requests`;
+}
+
+/**
+ * Time since a date, in seconds below two minutes and minutes above
+ */
+function formatAge(date: Date): string {
+  const seconds = Math.round((Date.now() - date.getTime()) / 1000);
+  return seconds < 120 ? `${seconds}s` : `${Math.round(seconds / 60)}m`;
+}
@@ -0,0 +1,65 @@
+import { telegramLogger as logger } from '../../utils/logger';
+import type { ArbitrageEngine } from '../arbitrage/engine';
+import { ArbitrageOpportunity } from '../../entities/ArbitrageOpportunity';
+import { Amount, DECIMAL_SCALE } from '../../utils/amount';
+import type { TelegramContext } from './bot';
+import { parseCommandArgs } from './args';
+
+// Opportunities listed when no count is given, and the most one message lists
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 25;
+
+/**
+ * /opportunities: the open opportunities ranked by net profit after gas
+ */
+export class OpportunitiesHandler {
+  constructor(private getEngine: () => ArbitrageEngine | undefined) {}
+
+  /**
+   * /opportunities [network] [count] - list the most profitable open opportunities
+   */
+  async opportunities(ctx: TelegramContext): Promise<void> {
+    const { network, positional: [count] } = parseCommandArgs(ctx);
+    const limit = count ? parseInt(count, 10) : DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      await ctx.reply(`Usage: /opportunities [network] [count up to ${MAX_LIMIT}]`);
+      return;
+    }
+
+    const engine = this.getEngine();
+    if (!engine) {
+      await ctx.reply('❌ The arbitrage engine is not running');
+      return;
+    }
+
+    try {
+      const ranked = await engine.getRankedOpportunities(limit, network);
+      if (ranked.length === 0) {
+        await ctx.reply(`No open opportunities${network ? ` on ${network}` : ''} with a profit after gas`);
+        return;
+      }
+
+      await ctx.reply([
+        `🎯 Top ${ranked.length} opportunities${network ? ` on ${network}` : ''}, net of gas`,
+        ...ranked.map((opportunity, index) => formatOpportunity(opportunity, index + 1)),
+      ].join('\n\n'));
+    } catch (error) {
+      logger.error('❌ Failed to list opportunities:', error);
+      await ctx.reply('❌ Failed to load opportunities');
+    }
+  }
+}
+
+/**
+ * Two lines for a ranked opportunity: its route, then its net profit in the start token and USD
+ */
+function formatOpportunity(opportunity: ArbitrageOpportunity, rank: number): string {
+  const symbol = opportunity.route?.[0]?.tokenInSymbol ?? opportunity.tokenPair.split('/')[0];
+  const netProfit = Amount.parse(opportunity.estimatedNetProfit, DECIMAL_SCALE).format();
+  // Decimal columns come back from postgres as strings
+  const usdProfit = opportunity.estimatedNetProfitUSD;
+  const usd = usdProfit === null || usdProfit === undefined ? '' : ` (≈ $${Number(usdProfit).toFixed(2)})`;
+
+  return `${rank}. ${opportunity.getRouteDescription()} on ${opportunity.network}\n` +
+    `   ${netProfit} ${symbol}${usd}, ${Number(opportunity.profitPercentage).toFixed(2)}% net`;
+}
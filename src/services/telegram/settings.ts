@@ -0,0 +1,116 @@
+import { telegramLogger as logger } from '../../utils/logger';
+import { NetworkName, RiskLimits } from '../../types';
+import type { ArbitrageEngine } from '../arbitrage/engine';
+import { RiskStatus, validateRiskLimits } from '../arbitrage/risk';
+import type { TelegramContext } from './bot';
+import { parseCommandArgs } from './args';
+
+// Risk limits /settings shows and changes, with the unit each is written in; null for the native currency
+const LIMIT_UNITS: Record<keyof RiskLimits, string | null> = {
+  maxDailyLoss: null,
+  maxTokenNotional: null,
+  maxDexNotional: null,
+  maxConsecutiveFailures: 'trades',
+  maxTradeBalanceShare: 'of the balance',
+};
+
+/**
+ * /settings: a network's risk limits with today's loss and open exposure, and changes to the limits
+ * Anyone can read them; only admins can change them, and changes last until the bot restarts
+ */
+export class RiskSettingsHandler {
+  constructor(private getEngine: () => ArbitrageEngine | undefined) {}
+
+  /**
+   * /settings [network] [limit=value ...] - show the risk limits, or change them
+   */
+  async settings(ctx: TelegramContext): Promise<void> {
+    const { network, positional: assignments } = parseCommandArgs(ctx);
+
+    const engine = this.getEngine();
+    const running = (engine?.getStats().networks ?? []) as NetworkName[];
+    const resolved = network ?? (running.length === 1 ? running[0] : undefined);
+    if (!engine || !resolved) {
+      await ctx.reply(running.length > 1
+        ? `Name the network: ${running.join(', ')}`
+        : '❌ The arbitrage engine is not running');
+      return;
+    }
+
+    if (assignments.length > 0) {
+      if (!ctx.user?.isAdmin()) {
+        await ctx.reply('❌ Only admins can change risk limits');
+        return;
+      }
+
+      const changes = parseLimitChanges(assignments);
+      const errors = changes ? validateRiskLimits(changes) : [`Use limit=value with ${formatLimitNames()}`];
+      if (errors.length === 0 && changes) {
+        errors.push(...engine.updateRiskLimits(resolved, changes));
+      }
+      if (errors.length > 0) {
+        await ctx.reply(`❌ ${errors.join('\n')}`);
+        return;
+      }
+
+      logger.info(`🛡️ Risk limits of ${resolved} changed from Telegram`, { userId: ctx.from?.id, changes });
+    }
+
+    await ctx.reply(formatRiskSettings(resolved, engine.getRiskLimits(resolved), engine.getRiskStatus(resolved)));
+  }
+}
+
+/**
+ * Parse limit=value arguments, or null if one is not written that way
+ * Names and values are checked by validateRiskLimits
+ */
+function parseLimitChanges(assignments: string[]): Partial<RiskLimits> | null {
+  const changes: Record<string, number> = {};
+  for (const assignment of assignments) {
+    const [name, value, ...rest] = assignment.split('=');
+    if (!name || !value || rest.length > 0) return null;
+    changes[name] = Number(value);
+  }
+  return changes as Partial<RiskLimits>;
+}
+
+/**
+ * Limit names with their units, for usage messages
+ */
+function formatLimitNames(): string {
+  return Object.entries(LIMIT_UNITS)
+    .map(([name, unit]) => (unit ? `${name} (${unit})` : name))
+    .join(', ');
+}
+
+/**
+ * Limits of a network, then today's outcomes and open exposure if it is running
+ */
+function formatRiskSettings(network: NetworkName, limits: RiskLimits, status: RiskStatus | null): string {
+  const currency = status?.currency ?? '';
+  const lines = [`🛡️ Risk limits on ${network}`];
+  for (const [name, unit] of Object.entries(LIMIT_UNITS) as [keyof RiskLimits, string | null][]) {
+    const value = limits[name];
+    lines.push(`${name}: ${value === 0 ? 'off' : `${value} ${unit ?? currency}`.trim()}`);
+  }
+
+  if (status) {
+    lines.push(
+      '',
+      `Today (${status.day} UTC): ${status.dailyPnl.toFixed(6)} ${currency} realised`,
+      `Failed in a row: ${status.consecutiveFailures}`,
+      `Open trades: ${status.openTrades}`,
+    );
+    for (const [token, notional] of Object.entries(status.tokenExposure)) {
+      lines.push(`  ${token}: ${notional.toFixed(6)} ${currency}`);
+    }
+    if (status.blockedBy) {
+      lines.push('', `⛔ Trading blocked: ${status.blockedBy}`);
+    }
+  } else {
+    lines.push('', `${network} is not running, so there is no profit and loss or exposure to show`);
+  }
+
+  lines.push('', `Change with /settings ${network} limit=value; 0 turns a limit off`);
+  return lines.join('\n');
+}
@@ -2,6 +2,10 @@
  * Common type definitions for the Telegram Arbitrage Bot
  */
 
+import type { Amount } from '../utils/amount';
+
+export type { Amount };
+
 // Network types
 export type NetworkName = 'eth' | 'bsc' | 'polygon';
 
@@ -11,7 +15,8 @@ export interface NetworkConfig {
   rpcUrl: string;
   currency: string;
   blockExplorer: string;
-  gasPrice?: number;
+  gasPrice?: number; // Minimum legacy gas price in wei
+  eip1559: boolean; // Supports maxFeePerGas/maxPriorityFeePerGas transactions
   confirmations: number;
 }
 
@@ -43,17 +48,51 @@ export interface ArbitrageParams {
   tokenB: string;
   dexA: string;
   dexB: string;
-  amountIn: string;
-  minProfitThreshold: string;
+  amountIn: bigint; // Raw units of tokenA
+  minProfitThreshold: bigint; // Raw units of tokenA
   maxSlippage: number;
   gasLimit: number;
+  flashLoan?: FlashLoanParams; // Borrow amountIn instead of trading the contract's balance
+  hops?: SwapHopParams[]; // Run executeMultiHopArbitrage through these swaps instead of dexA and dexB
+}
+
+// One swap of a multi-hop contract route; kind is the contract's DexKind enum value
+export interface SwapHopParams {
+  router: string;
+  path: string[];
+  kind: number;
+  fee: number; // Uniswap V3 pool fee, 0 for V2 routers
+  minAmountOut: bigint; // Raw units of the hop's last token
+}
+
+// Lender of a flash-funded trade; source is the contract's FlashLoanSource enum value
+export interface FlashLoanParams {
+  source: number;
+  lender: string;
+  lenderFee: number; // Swap fee of a V2 lender in hundredths of a basis point; 0 for other lenders
+}
+
+// One swap of an arbitrage route, as stored on ArbitrageOpportunity.route
+export interface RouteHopData {
+  dexId: string;
+  dexName: string;
+  dexType?: string; // DEXType; missing on routes stored before gas was modelled per DEX type
+  router: string;
+  pool: string;
+  feeTier?: number;
+  tokenIn: string;
+  tokenOut: string;
+  tokenInSymbol: string;
+  tokenOutSymbol: string;
+  amountIn: string; // Raw token units
+  amountOut: string; // Raw token units
 }
 
 export interface ArbitrageResult {
   success: boolean;
   transactionHash?: string;
-  profit?: string;
-  gasUsed?: string;
+  profit?: bigint;
+  gasUsed?: bigint;
   error?: string;
 }
 
@@ -64,8 +103,8 @@ export interface ArbitrageOpportunityData {
   dexA: string;
   dexB: string;
   profitPercentage: number;
-  estimatedProfit: string;
-  requiredAmount: string;
+  estimatedProfit: Amount;
+  requiredAmount: Amount;
   detectedAt: Date;
   expiresAt?: Date;
 }
@@ -88,8 +127,8 @@ export interface TransactionData {
   status: 'pending' | 'confirmed' | 'failed';
   fromAddress: string;
   toAddress?: string;
-  gasUsed?: string;
-  gasPrice?: string;
+  gasUsed?: bigint;
+  gasPrice?: bigint; // Wei
   blockNumber?: number;
   timestamp: Date;
 }
@@ -123,6 +162,49 @@ export interface BotConfig {
   enabledFeatures: string[];
 }
 
+// Handling of transactions that stay pending
+export interface ReplacementConfig {
+  replaceAfterBlocks: number; // Blocks without a receipt before a transaction is replaced
+  maxSpeedUps: number; // Fee bumps before the transaction is cancelled instead
+  bumpPercent: number; // Fee increase of each replacement; nodes require at least 10
+}
+
+// How a network's arbitrage transactions reach block builders
+export interface SubmissionConfig {
+  route: 'public' | 'bundle'; // Public mempool, or private bundles through a relay
+  relayUrl?: string; // eth_sendBundle endpoint, e.g. https://relay.flashbots.net
+  relayAuthKey?: string; // Key that signs relay requests; a random one is used if unset
+  targetBlocks: number; // Consecutive blocks each bundle is offered for
+  simulate: boolean; // Check bundles with eth_callBundle before sending them
+}
+
+// Where the bot account of a network signs; key material itself is never part of the config
+export interface SignerConfig {
+  type: 'keystore' | 'remote';
+  keystorePath?: string; // Encrypted JSON keystore, unlocked with its passphrase at startup
+  remoteUrl?: string; // JSON-RPC endpoint of a remote signer holding the key
+  address?: string; // Account the remote signer signs for; optional if it holds only one
+}
+
+// Bot accounts send trades; the treasury only funds them
+export type SignerRole = 'bot' | 'treasury';
+
+// How a network spreads trades over its bot accounts and keeps them funded; balances are in the native currency
+export interface WalletPoolConfig {
+  assignment: 'round_robin' | 'least_busy';
+  minBalance: number; // Accounts below this are topped up from the treasury and get trades last; 0 disables it
+  topUpBalance: number; // Balance a top-up brings an account back to
+}
+
+// Trading limits of one network; amounts are in the network's native currency and 0 disables a limit
+export interface RiskLimits {
+  maxDailyLoss: number; // Net realised loss, after gas, since midnight UTC
+  maxTokenNotional: number; // Input of open trades per start token
+  maxDexNotional: number; // Input of open trades routed through each DEX
+  maxConsecutiveFailures: number; // Reverted, dropped or cancelled trades in a row
+  maxTradeBalanceShare: number; // Largest fraction of the contract's balance one trade may use
+}
+
 // User types
 export interface UserData {
   telegramId: number;
@@ -207,10 +289,12 @@ export interface ContractConfig {
 export interface SwapParams {
   tokenIn: string;
   tokenOut: string;
-  amountIn: string;
-  amountOutMin: string;
+  amountIn: bigint; // Raw units of tokenIn
+  amountOutMin: bigint; // Raw units of tokenOut
   to: string;
   deadline: number;
+  pool?: string; // Pool to route through, for DEXes with several pools per pair
+  feeTier?: number; // Fee tier in parts per million, for Uniswap V3-style pools
 }
 
 // Monitoring types
@@ -0,0 +1,233 @@
+/**
+ * Exact fixed-point token amounts backed by bigint
+ * Replaces parseFloat/Math.pow conversions, which lose precision beyond ~15 significant digits
+ */
+
+// Scale of the decimal(36, 18) amount columns, used when a column holds a human-readable amount
+export const DECIMAL_SCALE = 18;
+
+// ETH, BNB and MATIC all use 18 decimals; gas fees are expressed in these units
+export const NATIVE_DECIMALS = 18;
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Immutable token amount: a raw integer in the token's smallest unit plus its decimals
+ */
+export class Amount {
+  constructor(
+    readonly raw: bigint,
+    readonly decimals: number,
+  ) {
+    if (!Number.isInteger(decimals) || decimals < 0) {
+      throw new Error(`Invalid decimals: ${decimals}`);
+    }
+  }
+
+  /**
+   * Parse a human-readable amount such as "1.5", "0.000001" or "1e-6"
+   * Digits beyond the token's decimals are truncated, like rounding down to the smallest unit
+   */
+  static parse(value: string | number | bigint, decimals: number): Amount {
+    if (typeof value === 'bigint') {
+      return new Amount(value * 10n ** BigInt(decimals), decimals);
+    }
+
+    const text = typeof value === 'number' ? numberToString(value) : value.trim();
+    const match = DECIMAL_PATTERN.exec(text);
+    if (!match || (!match[2] && !match[3])) {
+      throw new Error(`Invalid amount: ${value}`);
+    }
+
+    const [, sign, whole = '', fraction = '', exponent = '0'] = match;
+    const digits = whole + fraction;
+    // Position of the decimal point within digits, moved by the exponent and the token decimals
+    const point = whole.length + parseInt(exponent, 10) + decimals;
+
+    let raw: bigint;
+    if (point <= 0) {
+      raw = 0n;
+    } else if (point >= digits.length) {
+      raw = BigInt((digits || '0') + '0'.repeat(point - digits.length));
+    } else {
+      raw = BigInt(digits.slice(0, point) || '0');
+    }
+
+    return new Amount(sign === '-' ? -raw : raw, decimals);
+  }
+
+  /**
+   * Wrap a raw amount in the token's smallest unit, e.g. a wei value from a contract call
+   */
+  static fromRaw(raw: bigint | string | number, decimals: number): Amount {
+    if (typeof raw === 'bigint') {
+      return new Amount(raw, decimals);
+    }
+    // Raw values stored in decimal columns come back as "123.000000000000000000"
+    return Amount.parse(raw, 0).withDecimals(decimals, true);
+  }
+
+  /**
+   * Zero in the given decimals
+   */
+  static zero(decimals: number): Amount {
+    return new Amount(0n, decimals);
+  }
+
+  /**
+   * Same value expressed with different decimals; truncates when reducing precision
+   * With reinterpret set, the raw integer is kept and only the decimals change
+   */
+  withDecimals(decimals: number, reinterpret = false): Amount {
+    if (reinterpret || decimals === this.decimals) {
+      return new Amount(this.raw, decimals);
+    }
+    if (decimals > this.decimals) {
+      return new Amount(this.raw * 10n ** BigInt(decimals - this.decimals), decimals);
+    }
+    return new Amount(this.raw / 10n ** BigInt(this.decimals - decimals), decimals);
+  }
+
+  add(other: Amount): Amount {
+    return new Amount(this.raw + this.align(other), this.decimals);
+  }
+
+  sub(other: Amount): Amount {
+    return new Amount(this.raw - this.align(other), this.decimals);
+  }
+
+  /**
+   * Multiply by numerator / denominator, rounding down
+   */
+  mulDiv(numerator: bigint, denominator: bigint): Amount {
+    if (denominator === 0n) {
+      throw new Error('Division by zero');
+    }
+    return new Amount(this.raw * numerator / denominator, this.decimals);
+  }
+
+  /**
+   * -1, 0 or 1 as this amount is less than, equal to or greater than the other
+   */
+  compare(other: Amount): number {
+    const raw = this.align(other);
+    return this.raw < raw ? -1 : this.raw > raw ? 1 : 0;
+  }
+
+  eq(other: Amount): boolean {
+    return this.compare(other) === 0;
+  }
+
+  gt(other: Amount): boolean {
+    return this.compare(other) > 0;
+  }
+
+  gte(other: Amount): boolean {
+    return this.compare(other) >= 0;
+  }
+
+  lt(other: Amount): boolean {
+    return this.compare(other) < 0;
+  }
+
+  lte(other: Amount): boolean {
+    return this.compare(other) <= 0;
+  }
+
+  isZero(): boolean {
+    return this.raw === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.raw < 0n;
+  }
+
+  isPositive(): boolean {
+    return this.raw > 0n;
+  }
+
+  /**
+   * The larger of this amount and the other
+   */
+  max(other: Amount): Amount {
+    return this.gte(other) ? this : other.withDecimals(this.decimals);
+  }
+
+  /**
+   * This amount as a percentage of the other, e.g. 1.25 for 1.25%, to 4 decimal places
+   */
+  percentOf(other: Amount): number {
+    const base = this.align(other);
+    if (base === 0n) return 0;
+    return Number(this.raw * 1000000n / base) / 10000;
+  }
+
+  /**
+   * Exact decimal string without trailing zeros, e.g. "1.5"
+   */
+  toDecimal(): string {
+    const negative = this.raw < 0n;
+    const digits = (negative ? -this.raw : this.raw).toString().padStart(this.decimals + 1, '0');
+    const whole = digits.slice(0, digits.length - this.decimals);
+    const fraction = digits.slice(digits.length - this.decimals).replace(/0+$/, '');
+
+    return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+  }
+
+  /**
+   * Decimal string with a fixed number of fraction digits, rounded half away from zero, for display
+   */
+  format(fractionDigits = 6): string {
+    const digits = Math.min(fractionDigits, this.decimals);
+    const rounded = new Amount(roundToDigits(this.raw, this.decimals - digits), digits);
+    const [whole, fraction = ''] = rounded.toDecimal().split('.');
+
+    return digits > 0 ? `${whole}.${fraction.padEnd(digits, '0')}` : whole;
+  }
+
+  /**
+   * Approximate floating-point value, only for display or USD estimates
+   */
+  toNumber(): number {
+    return Number(this.toDecimal());
+  }
+
+  /**
+   * Raw integer string, as passed to contracts
+   */
+  toString(): string {
+    return this.raw.toString();
+  }
+
+  toJSON(): string {
+    return this.toDecimal();
+  }
+
+  /**
+   * Raw value of another amount in this amount's decimals
+   */
+  private align(other: Amount): bigint {
+    return other.withDecimals(this.decimals).raw;
+  }
+}
+
+/**
+ * Divide raw by 10^places, rounding half away from zero
+ */
+function roundToDigits(raw: bigint, places: number): bigint {
+  if (places <= 0) return raw;
+
+  const divisor = 10n ** BigInt(places);
+  const half = divisor / 2n;
+  return raw < 0n ? -((-raw + half) / divisor) : (raw + half) / divisor;
+}
+
+/**
+ * String form of a finite JS number; exponent notation such as 1e-7 is handled by the parser
+ */
+function numberToString(value: number): string {
+  if (!Number.isFinite(value)) {
+    throw new Error(`Invalid amount: ${value}`);
+  }
+  return value.toString();
+}
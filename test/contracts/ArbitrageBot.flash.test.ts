@@ -0,0 +1,139 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { anyUint } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+
+// FlashLoanSource enum of the contract
+const LENDING_POOL = 0;
+const UNISWAP_V2 = 1;
+const UNISWAP_V3 = 2;
+
+const AMOUNT_IN = ethers.parseEther("100");
+const MIN_PROFIT = ethers.parseEther("0.01");
+const LIQUIDITY = ethers.parseEther("1000000");
+
+describe("ArbitrageBot flash loans", function () {
+  async function deployFixture() {
+    const [owner, feeRecipient, stranger] = await ethers.getSigners();
+
+    const Token = await ethers.getContractFactory("MockERC20");
+    const tokenA = await Token.deploy("Token A", "TKA");
+    const tokenB = await Token.deploy("Token B", "TKB");
+
+    const Router = await ethers.getContractFactory("MockRouter");
+    const dexA = await Router.deploy();
+    const dexB = await Router.deploy();
+    // 100 A -> 200 B on dexA -> 102 A on dexB
+    await dexA.setRate(tokenA, tokenB, ethers.parseEther("2"));
+    await dexB.setRate(tokenB, tokenA, ethers.parseEther("0.51"));
+
+    const pool = await (await ethers.getContractFactory("MockLendingPool")).deploy(5); // 0.05% premium
+    const pair = await (await ethers.getContractFactory("MockV2Pair")).deploy(tokenB, tokenA, 2500);
+    const v3Pool = await (await ethers.getContractFactory("MockV3Pool")).deploy(tokenA, tokenB, 500);
+
+    for (const holder of [dexA, dexB, pool, pair, v3Pool]) {
+      await tokenA.mint(holder, LIQUIDITY);
+      await tokenB.mint(holder, LIQUIDITY);
+    }
+
+    const bot = await (await ethers.getContractFactory("ArbitrageBot")).deploy(feeRecipient.address);
+
+    return { bot, tokenA, tokenB, dexA, dexB, pool, pair, v3Pool, owner, feeRecipient, stranger };
+  }
+
+  async function flashTrade(source: number, lenderName: "pool" | "pair" | "v3Pool", lenderFee = 0) {
+    const fixture = await loadFixture(deployFixture);
+    const { bot, tokenA, tokenB, dexA, dexB } = fixture;
+    const lender = fixture[lenderName];
+
+    const tx = bot.executeFlashArbitrage(
+      tokenA, tokenB, dexA, dexB, AMOUNT_IN, MIN_PROFIT, source, lender, lenderFee
+    );
+    return { ...fixture, lender, tx };
+  }
+
+  it("keeps the profit of a flash trade after the loan and protocol fees", async function () {
+    const { bot, tokenA, tokenB, dexA, dexB, feeRecipient, tx } = await flashTrade(LENDING_POOL, "pool");
+    const premium = (AMOUNT_IN * 5n) / 10000n;
+    const profit = ethers.parseEther("102") - AMOUNT_IN - premium;
+    const fee = profit / 100n; // Default feePercentage of 100 bps
+
+    await expect(tx)
+      .to.emit(bot, "ArbitrageExecuted")
+      .withArgs(tokenA, tokenB, dexA, dexB, AMOUNT_IN, profit - fee, anyUint);
+    expect(await tokenA.balanceOf(bot)).to.equal(profit - fee);
+    expect(await tokenA.balanceOf(feeRecipient)).to.equal(fee);
+  });
+
+  describe("repayment", function () {
+    it("repays a lending pool the amount plus its premium", async function () {
+      const { bot, tokenA, lender, tx } = await flashTrade(LENDING_POOL, "pool");
+      const premium = (AMOUNT_IN * 5n) / 10000n;
+
+      await expect(tx).to.emit(bot, "FlashLoanRepaid").withArgs(lender, tokenA, AMOUNT_IN, premium);
+      expect(await tokenA.balanceOf(lender)).to.equal(LIQUIDITY + premium);
+    });
+
+    it("repays a V2 pair the amount grossed up by its swap fee", async function () {
+      const { bot, tokenA, lender, tx } = await flashTrade(UNISWAP_V2, "pair", 2500);
+      const repayment = (AMOUNT_IN * 1_000_000n) / (1_000_000n - 2500n) + 1n;
+
+      await expect(tx).to.emit(bot, "FlashLoanRepaid").withArgs(lender, tokenA, AMOUNT_IN, repayment - AMOUNT_IN);
+      expect(await tokenA.balanceOf(lender)).to.equal(LIQUIDITY - AMOUNT_IN + repayment);
+    });
+
+    it("fails the V2 pair's invariant when the fee passed is below the pair's", async function () {
+      const { tx } = await flashTrade(UNISWAP_V2, "pair", 2000);
+
+      await expect(tx).to.be.revertedWith("MockV2Pair: K");
+    });
+
+    it("repays a V3 pool the amount plus its flash fee", async function () {
+      const { bot, tokenA, lender, tx } = await flashTrade(UNISWAP_V3, "v3Pool");
+      const fee = (AMOUNT_IN * 500n) / 1_000_000n;
+
+      await expect(tx).to.emit(bot, "FlashLoanRepaid").withArgs(lender, tokenA, AMOUNT_IN, fee);
+      expect(await tokenA.balanceOf(lender)).to.equal(LIQUIDITY + fee);
+    });
+  });
+
+  describe("callbacks", function () {
+    it("rejects a lending pool callback outside a flash loan", async function () {
+      const { bot, tokenA, stranger } = await loadFixture(deployFixture);
+
+      await expect(
+        bot.connect(stranger).executeOperation(tokenA, AMOUNT_IN, 0, bot, "0x")
+      ).to.be.revertedWith("ArbitrageBot: Unknown lender");
+    });
+
+    it("rejects a V2 callback from a pair that is not the active lender", async function () {
+      const { bot, stranger } = await loadFixture(deployFixture);
+
+      await expect(
+        bot.connect(stranger).uniswapV2Call(bot, AMOUNT_IN, 0, "0x")
+      ).to.be.revertedWith("ArbitrageBot: Unknown lender");
+      await expect(
+        bot.connect(stranger).pancakeCall(bot, AMOUNT_IN, 0, "0x")
+      ).to.be.revertedWith("ArbitrageBot: Unknown lender");
+    });
+
+    it("rejects a V3 callback from a pool that is not the active lender", async function () {
+      const { bot, stranger } = await loadFixture(deployFixture);
+
+      await expect(
+        bot.connect(stranger).uniswapV3FlashCallback(0, 0, "0x")
+      ).to.be.revertedWith("ArbitrageBot: Unknown lender");
+    });
+  });
+
+  it("reverts when the trade's profit does not cover the loan fee", async function () {
+    const { bot, tokenA, tokenB, dexA, dexB, pool } = await loadFixture(deployFixture);
+    // 100 A -> 100.03 A, below the 0.05 A premium
+    await dexB.setRate(tokenB, tokenA, ethers.parseEther("0.50015"));
+
+    await expect(
+      bot.executeFlashArbitrage(tokenA, tokenB, dexA, dexB, AMOUNT_IN, MIN_PROFIT, LENDING_POOL, pool, 0)
+    ).to.be.revertedWith("ArbitrageBot: No arbitrage profit");
+    expect(await tokenA.balanceOf(pool)).to.equal(LIQUIDITY);
+  });
+});
@@ -0,0 +1,102 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { anyUint } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+
+// DexKind enum of the contract
+const UNISWAP_V2 = 0;
+const UNISWAP_V3 = 1;
+const V3_FEE = 500;
+
+const AMOUNT_IN = ethers.parseEther("100");
+const MIN_PROFIT = ethers.parseEther("0.01");
+const LIQUIDITY = ethers.parseEther("1000000");
+
+describe("ArbitrageBot multi-hop routes", function () {
+  async function deployFixture() {
+    const [owner, feeRecipient] = await ethers.getSigners();
+
+    const Token = await ethers.getContractFactory("MockERC20");
+    const tokenA = await Token.deploy("Token A", "TKA");
+    const tokenB = await Token.deploy("Token B", "TKB");
+    const tokenC = await Token.deploy("Token C", "TKC");
+
+    const Router = await ethers.getContractFactory("MockRouter");
+    const dexA = await Router.deploy();
+    const dexB = await Router.deploy();
+    // 100 A -> 200 B on dexA -> 600 C on dexB's V3 pool -> 102 A on dexA
+    await dexA.setRate(tokenA, tokenB, ethers.parseEther("2"));
+    await dexB.setRate(tokenB, tokenC, ethers.parseEther("3"));
+    await dexA.setRate(tokenC, tokenA, ethers.parseEther("0.17"));
+
+    for (const holder of [dexA, dexB]) {
+      await tokenA.mint(holder, LIQUIDITY);
+      await tokenB.mint(holder, LIQUIDITY);
+      await tokenC.mint(holder, LIQUIDITY);
+    }
+
+    const bot = await (await ethers.getContractFactory("ArbitrageBot")).deploy(feeRecipient.address);
+    await tokenA.mint(bot, AMOUNT_IN);
+
+    const hops = [
+      {
+        router: await dexA.getAddress(),
+        path: [await tokenA.getAddress(), await tokenB.getAddress()],
+        kind: UNISWAP_V2,
+        fee: 0,
+        minAmountOut: ethers.parseEther("200"),
+      },
+      {
+        router: await dexB.getAddress(),
+        path: [await tokenB.getAddress(), await tokenC.getAddress()],
+        kind: UNISWAP_V3,
+        fee: V3_FEE,
+        minAmountOut: ethers.parseEther("600"),
+      },
+      {
+        router: await dexA.getAddress(),
+        path: [await tokenC.getAddress(), await tokenA.getAddress()],
+        kind: UNISWAP_V2,
+        fee: 0,
+        minAmountOut: ethers.parseEther("102"),
+      },
+    ];
+
+    return { bot, tokenA, tokenB, tokenC, dexA, dexB, hops, owner, feeRecipient };
+  }
+
+  it("keeps the profit of a profitable three-hop route after the protocol fee", async function () {
+    const { bot, tokenA, tokenB, dexA, dexB, hops, feeRecipient } = await loadFixture(deployFixture);
+    const profit = ethers.parseEther("102") - AMOUNT_IN;
+    const fee = profit / 100n; // Default feePercentage of 100 bps
+
+    await expect(bot.executeMultiHopArbitrage(hops, AMOUNT_IN, MIN_PROFIT))
+      .to.emit(bot, "ArbitrageExecuted")
+      .withArgs(tokenA, tokenB, dexA, dexA, AMOUNT_IN, profit - fee, anyUint);
+    expect(await tokenA.balanceOf(bot)).to.equal(AMOUNT_IN + profit - fee);
+    expect(await tokenA.balanceOf(feeRecipient)).to.equal(fee);
+    expect(await dexB.lastFee()).to.equal(V3_FEE);
+  });
+
+  it("reverts the whole route when a middle hop returns less than its minimum", async function () {
+    const { bot, tokenA, tokenB, tokenC, dexB, hops } = await loadFixture(deployFixture);
+    // 200 B -> 580 C, below the 600 C the second hop expects; the hop check fails before the profit check
+    await dexB.setRate(tokenB, tokenC, ethers.parseEther("2.9"));
+
+    await expect(
+      bot.executeMultiHopArbitrage(hops, AMOUNT_IN, MIN_PROFIT)
+    ).to.be.revertedWith("ArbitrageBot: Hop output too low");
+    expect(await tokenA.balanceOf(bot)).to.equal(AMOUNT_IN);
+  });
+
+  it("rejects a route with a blacklisted token in any hop", async function () {
+    for (const name of ["tokenA", "tokenB", "tokenC"] as const) {
+      const fixture = await loadFixture(deployFixture);
+      await fixture.bot.setTokenBlacklist(fixture[name], true);
+
+      await expect(
+        fixture.bot.executeMultiHopArbitrage(fixture.hops, AMOUNT_IN, MIN_PROFIT)
+      ).to.be.revertedWith("ArbitrageBot: Token blacklisted");
+    }
+  });
+});
@@ -0,0 +1,117 @@
+import { IncomingHttpHeaders, createServer } from 'http';
+import { AddressInfo } from 'net';
+import { WebSocketLike } from 'ethers';
+
+/**
+ * JSON-RPC request as the stub received it
+ */
+export interface StubRequest {
+  method: string;
+  params: any[];
+  body: string;
+  headers: IncomingHttpHeaders;
+}
+
+/**
+ * Local HTTP server answering JSON-RPC requests, standing in for a relay or remote signer
+ */
+export interface JsonRpcStub {
+  url: string;
+  requests: StubRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * In-memory WebSocket endpoint answering JSON-RPC requests, standing in for a node's subscription endpoint
+ * connect is a WebSocketCreator for WebSocketProvider; notify pushes a subscription message to the latest socket
+ */
+export interface WebSocketStub {
+  connect: () => WebSocketLike;
+  requests: StubRequest[];
+  notify(subscription: string, result: unknown): void;
+}
+
+/**
+ * Start a stub on a free local port; the handler returns a request's result or throws to answer with an error
+ */
+export async function startJsonRpcStub(handler: (request: StubRequest) => unknown): Promise<JsonRpcStub> {
+  const requests: StubRequest[] = [];
+
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+    req.on('end', () => {
+      const { id, method, params } = JSON.parse(body) as { id: number; method: string; params: any[] };
+      const request = { method, params, body, headers: req.headers };
+      requests.push(request);
+
+      let payload: Record<string, unknown>;
+      try {
+        payload = { jsonrpc: '2.0', id, result: handler(request) };
+      } catch (error) {
+        payload = { jsonrpc: '2.0', id, error: { code: -32000, message: (error as Error).message } };
+      }
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(payload));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
+
+/**
+ * Create a WebSocket stub; the handler returns a request's result, or a promise of it, or throws to answer with
+ * an error
+ */
+export function createWebSocketStub(handler: (request: StubRequest) => unknown): WebSocketStub {
+  const requests: StubRequest[] = [];
+  let current: WebSocketLike | undefined;
+  const deliver = (payload: Record<string, unknown>): void => {
+    current?.onmessage?.({ data: JSON.stringify(payload) });
+  };
+
+  const connect = (): WebSocketLike => {
+    const socket: WebSocketLike = {
+      onopen: null,
+      onmessage: null,
+      onerror: null,
+      readyState: 1,
+      send: (body: string) => {
+        const { id, method, params } = JSON.parse(body) as { id: number; method: string; params: any[] };
+        const request = { method, params, body, headers: {} };
+        requests.push(request);
+
+        void Promise.resolve()
+          .then(() => handler(request))
+          .then(
+            result => deliver({ jsonrpc: '2.0', id, result }),
+            (error: Error) => deliver({ jsonrpc: '2.0', id, error: { code: -32000, message: error.message } }),
+          );
+      },
+      close: () => {
+        socket.readyState = 3;
+      },
+    };
+    current = socket;
+    // The provider sets onopen right after it creates the socket
+    setImmediate(() => socket.onopen?.());
+    return socket;
+  };
+
+  return {
+    connect,
+    requests,
+    notify: (subscription, result) => deliver({
+      jsonrpc: '2.0',
+      method: 'eth_subscription',
+      params: { subscription, result },
+    }),
+  };
+}
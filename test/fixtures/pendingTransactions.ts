@@ -0,0 +1,117 @@
+/**
+ * Pending transactions as a node returns them from eth_getTransactionByHash, by what they do
+ * Recorded from a local Hardhat node with chain id 1 and automine off; the router addresses have no code there,
+ * which does not matter while the transactions are pending. minedSale was sent before automine was turned off
+ */
+export const RECORDED_TRANSACTIONS: Record<string, Record<string, unknown>> = {
+  // Sale of 100 WETH for at least 190,000 USDC on the Uniswap V2 router
+  largeSale: {
+    hash: '0xbabe4589bcdc2183e632ba24995cea638afe4cb7038cd6c3519749c7246a5b65',
+    nonce: '0x0',
+    blockHash: null,
+    blockNumber: null,
+    transactionIndex: null,
+    from: '0x70997970c51812dc3a010c7d01b50e0d17dc79c8',
+    to: '0x7a250d5630b4cf539739df2c5dacb4c659f2488d',
+    value: '0x0',
+    gasPrice: '0x6fc23ac00',
+    gas: '0x3d090',
+    input: '0x38ed17390000000000000000000000000000000000000000000000056bc75e2d631000000000000000000000000000000000000000000000000000000000002c3ce1ec0000000000000000000000000000000000000000000000000000000000000000a0000000000000000000000000000000000000000000000000000000000000dead000000000000000000000000000000000000000000000000000000006553f1000000000000000000000000000000000000000000000000000000000000000002000000000000000000000000c02aaa39b223fe8d0a0e5c4f27ead9083c756cc2000000000000000000000000a0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+    chainId: '0x1',
+    type: '0x2',
+    accessList: [],
+    maxFeePerGas: '0x6fc23ac00',
+    maxPriorityFeePerGas: '0x77359400',
+    v: '0x0',
+    r: '0x5d1983c4767d64ff4f41d0db08dbc7acf6268cfbb5fde07f6310cd4dc6c67ec1',
+    s: '0x21c7061f62354f5234d5b7b9f0bcee2d0a17ce60440f11addb2f42219ace8213',
+  },
+  // The same sale asking for at least 200,000 USDC, more than the pool pays
+  revertingSale: {
+    hash: '0x6c77f374dd6977c9159a01e36c12461e8f2be3752cf5d335425a5fc05b8add1b',
+    nonce: '0x0',
+    blockHash: null,
+    blockNumber: null,
+    transactionIndex: null,
+    from: '0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc',
+    to: '0x7a250d5630b4cf539739df2c5dacb4c659f2488d',
+    value: '0x0',
+    gasPrice: '0x6fc23ac00',
+    gas: '0x3d090',
+    input: '0x38ed17390000000000000000000000000000000000000000000000056bc75e2d631000000000000000000000000000000000000000000000000000000000002e90edd00000000000000000000000000000000000000000000000000000000000000000a0000000000000000000000000000000000000000000000000000000000000dead000000000000000000000000000000000000000000000000000000006553f1000000000000000000000000000000000000000000000000000000000000000002000000000000000000000000c02aaa39b223fe8d0a0e5c4f27ead9083c756cc2000000000000000000000000a0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+    chainId: '0x1',
+    type: '0x2',
+    accessList: [],
+    maxFeePerGas: '0x6fc23ac00',
+    maxPriorityFeePerGas: '0x77359400',
+    v: '0x1',
+    r: '0x4e342a582af9d6ffc99ca5ba83b2cd0e42dae710f6eeb36f0f5f6f91dd0e863c',
+    s: '0x55c883df878cec5c83d1be9b70614aa3461e5c28a492260a3c10e10d0d7a0b8a',
+  },
+  // swapTokensForExactTokens on the Uniswap V2 router, which is not decoded
+  exactOutput: {
+    hash: '0x91cc87760de718f148872f1a4e0e2c4b45f845d6bf3a3f5ff087fbf9c00ad25f',
+    nonce: '0x0',
+    blockHash: null,
+    blockNumber: null,
+    transactionIndex: null,
+    from: '0x90f79bf6eb2c4f870365e785982e1f101e93b906',
+    to: '0x7a250d5630b4cf539739df2c5dacb4c659f2488d',
+    value: '0x0',
+    gasPrice: '0x6fc23ac00',
+    gas: '0x3d090',
+    input: '0x8803dbee0000000000000000000000000000000000000000000000000de0b6b3a7640000000000000000000000000000000000000000000000000000000000007735940000000000000000000000000000000000000000000000000000000000000000a0000000000000000000000000000000000000000000000000000000000000dead000000000000000000000000000000000000000000000000000000006553f1000000000000000000000000000000000000000000000000000000000000000002000000000000000000000000a0b86991c6218b36c1d19d4a2e9eb0ce3606eb48000000000000000000000000c02aaa39b223fe8d0a0e5c4f27ead9083c756cc2',
+    chainId: '0x1',
+    type: '0x2',
+    accessList: [],
+    maxFeePerGas: '0x6fc23ac00',
+    maxPriorityFeePerGas: '0x77359400',
+    v: '0x1',
+    r: '0x84716f4e7cbe9acd56542b6e19ed557b7b5ec7a95593733460971d902ffaa267',
+    s: '0x15b84086263f3679bfe655f4433e0be053379eda69d7b03013a455a9de271647',
+  },
+  // The large sale's calldata sent to an address that is not a DEX router
+  aggregatorSale: {
+    hash: '0x80905540106fa5294e4d43af6eeec6c25f19d2b652476ebc4b15d15a0062328e',
+    nonce: '0x0',
+    blockHash: null,
+    blockNumber: null,
+    transactionIndex: null,
+    from: '0x15d34aaf54267db7d7c367839aaf71a00a2c6a65',
+    to: '0x1111111254eeb25477b68fb85ed929f73a960582',
+    value: '0x0',
+    gasPrice: '0x6fc23ac00',
+    gas: '0x3d090',
+    input: '0x38ed17390000000000000000000000000000000000000000000000056bc75e2d631000000000000000000000000000000000000000000000000000000000002c3ce1ec0000000000000000000000000000000000000000000000000000000000000000a0000000000000000000000000000000000000000000000000000000000000dead000000000000000000000000000000000000000000000000000000006553f1000000000000000000000000000000000000000000000000000000000000000002000000000000000000000000c02aaa39b223fe8d0a0e5c4f27ead9083c756cc2000000000000000000000000a0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+    chainId: '0x1',
+    type: '0x2',
+    accessList: [],
+    maxFeePerGas: '0x6fc23ac00',
+    maxPriorityFeePerGas: '0x77359400',
+    v: '0x0',
+    r: '0xd3d7bc1f6585137dbeef694c72b4dadc2a47ed01cd689072883410b7053acd',
+    s: '0x232b8e839dddb10645507da90e9116e7ad23f043591e011012fd7937a9bc6430',
+  },
+  // The large sale's calldata, already mined when it was looked up
+  minedSale: {
+    hash: '0x3cf27e31cf47bee663e9ad3fbea42a42178b2d80c079061509661afda47afaa1',
+    nonce: '0x0',
+    blockHash: '0x1c7c62ae6ba9cf6a976806588331aceb4c8171c55812ed6b9fa34930d0a13174',
+    blockNumber: '0x1',
+    transactionIndex: '0x0',
+    from: '0x9965507d1a55bcc2695c58ba16fb37d819b0a4dc',
+    to: '0x7a250d5630b4cf539739df2c5dacb4c659f2488d',
+    value: '0x0',
+    gasPrice: '0xab5d04c0',
+    gas: '0x3d090',
+    input: '0x38ed17390000000000000000000000000000000000000000000000056bc75e2d631000000000000000000000000000000000000000000000000000000000002c3ce1ec0000000000000000000000000000000000000000000000000000000000000000a0000000000000000000000000000000000000000000000000000000000000dead000000000000000000000000000000000000000000000000000000006553f1000000000000000000000000000000000000000000000000000000000000000002000000000000000000000000c02aaa39b223fe8d0a0e5c4f27ead9083c756cc2000000000000000000000000a0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+    chainId: '0x1',
+    type: '0x2',
+    accessList: [],
+    maxFeePerGas: '0x6fc23ac00',
+    maxPriorityFeePerGas: '0x77359400',
+    v: '0x0',
+    r: '0x8925c6f700f96e8362a53b1af482f65291f449067416019ccf885897c3b370a2',
+    s: '0x7553af7c9e01de61fc22654e0b53dd1422cafbec1300464ba350a1c05dcc561a',
+  },
+};
@@ -0,0 +1,160 @@
+import { Interface, solidityPacked } from 'ethers';
+import { DecodedSwap } from '../../src/services/dex/types';
+
+export const ETHER = 10n ** 18n;
+export const USDC_UNIT = 10n ** 6n;
+
+export const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+export const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+export const DAI = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+const RECIPIENT = '0x000000000000000000000000000000000000dEaD';
+const DEADLINE = 1700000000n;
+
+// Signatures as deployed in UniswapV2Router02 and the V3 SwapRouter, written out apart from the bot's ABIs
+const v2Router = new Interface([
+  'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable',
+  'function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapExactETHForTokensSupportingFeeOnTransferTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable',
+  'function swapExactTokensForETHSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)',
+]);
+const v3Router = new Interface([
+  'function factory() view returns (address)',
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) payable',
+  'function exactInput((bytes path, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum) params) payable',
+  'function multicall(bytes[] data) payable',
+]);
+// SwapRouter02 dropped the deadline from its params structs, which changes the selectors
+const swapRouter02 = new Interface([
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) payable',
+]);
+
+/**
+ * Pending router transaction with the selector it has on chain and the swap the adapter should decode from it
+ */
+export interface RouterCall {
+  data: string;
+  value: bigint;
+  selector: string;
+  expected: DecodedSwap | null;
+}
+
+/**
+ * UniswapV2Router02 swapExactTokensForTokens calldata
+ */
+export function encodeV2Swap(amountIn: bigint, amountOutMin: bigint, path: string[]): string {
+  return v2Router.encodeFunctionData('swapExactTokensForTokens', [amountIn, amountOutMin, path, RECIPIENT, DEADLINE]);
+}
+
+const wethToUsdcSingle = v3Router.encodeFunctionData('exactInputSingle', [{
+  tokenIn: WETH,
+  tokenOut: USDC,
+  fee: 500,
+  recipient: RECIPIENT,
+  deadline: DEADLINE,
+  amountIn: ETHER,
+  amountOutMinimum: 1900n * USDC_UNIT,
+  sqrtPriceLimitX96: 0,
+}]);
+
+export const V2_ROUTER_CALLS: Record<string, RouterCall> = {
+  swapExactTokensForTokens: {
+    data: encodeV2Swap(ETHER, 1900n * USDC_UNIT, [WETH, USDC]),
+    value: 0n,
+    selector: '0x38ed1739',
+    expected: { path: [WETH, USDC], amountIn: ETHER, amountOutMin: 1900n * USDC_UNIT },
+  },
+  swapExactETHForTokens: {
+    data: v2Router.encodeFunctionData('swapExactETHForTokens', [
+      1900n * ETHER, [WETH, USDC, DAI], RECIPIENT, DEADLINE,
+    ]),
+    value: ETHER,
+    selector: '0x7ff36ab5',
+    expected: { path: [WETH, USDC, DAI], amountIn: ETHER, amountOutMin: 1900n * ETHER },
+  },
+  swapExactTokensForETH: {
+    data: v2Router.encodeFunctionData('swapExactTokensForETH', [
+      2000n * USDC_UNIT, ETHER * 9n / 10n, [USDC, WETH], RECIPIENT, DEADLINE,
+    ]),
+    value: 0n,
+    selector: '0x18cbafe5',
+    expected: { path: [USDC, WETH], amountIn: 2000n * USDC_UNIT, amountOutMin: ETHER * 9n / 10n },
+  },
+  swapExactTokensForTokensSupportingFeeOnTransferTokens: {
+    data: v2Router.encodeFunctionData('swapExactTokensForTokensSupportingFeeOnTransferTokens', [
+      ETHER, 0n, [WETH, DAI], RECIPIENT, DEADLINE,
+    ]),
+    value: 0n,
+    selector: '0x5c11d795',
+    expected: { path: [WETH, DAI], amountIn: ETHER, amountOutMin: 0n },
+  },
+  swapExactETHForTokensSupportingFeeOnTransferTokens: {
+    data: v2Router.encodeFunctionData('swapExactETHForTokensSupportingFeeOnTransferTokens', [
+      1n, [WETH, DAI], RECIPIENT, DEADLINE,
+    ]),
+    value: 2n * ETHER,
+    selector: '0xb6f9de95',
+    expected: { path: [WETH, DAI], amountIn: 2n * ETHER, amountOutMin: 1n },
+  },
+  swapExactTokensForETHSupportingFeeOnTransferTokens: {
+    data: v2Router.encodeFunctionData('swapExactTokensForETHSupportingFeeOnTransferTokens', [
+      ETHER, 1n, [DAI, WETH], RECIPIENT, DEADLINE,
+    ]),
+    value: 0n,
+    selector: '0x791ac947',
+    expected: { path: [DAI, WETH], amountIn: ETHER, amountOutMin: 1n },
+  },
+  // Exact-output swaps are not decoded: their input is only known once they are mined
+  swapTokensForExactTokens: {
+    data: v2Router.encodeFunctionData('swapTokensForExactTokens', [
+      ETHER, 2000n * USDC_UNIT, [USDC, WETH], RECIPIENT, DEADLINE,
+    ]),
+    value: 0n,
+    selector: '0x8803dbee',
+    expected: null,
+  },
+};
+
+export const V3_ROUTER_CALLS: Record<string, RouterCall> = {
+  exactInputSingle: {
+    data: wethToUsdcSingle,
+    value: 0n,
+    selector: '0x414bf389',
+    expected: { path: [WETH, USDC], feeTiers: [500], amountIn: ETHER, amountOutMin: 1900n * USDC_UNIT },
+  },
+  exactInput: {
+    data: v3Router.encodeFunctionData('exactInput', [{
+      path: solidityPacked(['address', 'uint24', 'address', 'uint24', 'address'], [WETH, 500, USDC, 100, DAI]),
+      recipient: RECIPIENT,
+      deadline: DEADLINE,
+      amountIn: ETHER,
+      amountOutMinimum: 1900n * ETHER,
+    }]),
+    value: 0n,
+    selector: '0xc04b8d59',
+    expected: { path: [WETH, USDC, DAI], feeTiers: [500, 100], amountIn: ETHER, amountOutMin: 1900n * ETHER },
+  },
+  // The first inner call that is a swap is decoded
+  multicall: {
+    data: v3Router.encodeFunctionData('multicall', [[v3Router.encodeFunctionData('factory'), wethToUsdcSingle]]),
+    value: ETHER,
+    selector: '0xac9650d8',
+    expected: { path: [WETH, USDC], feeTiers: [500], amountIn: ETHER, amountOutMin: 1900n * USDC_UNIT },
+  },
+  swapRouter02ExactInputSingle: {
+    data: swapRouter02.encodeFunctionData('exactInputSingle', [{
+      tokenIn: WETH,
+      tokenOut: USDC,
+      fee: 500,
+      recipient: RECIPIENT,
+      amountIn: ETHER,
+      amountOutMinimum: 0n,
+      sqrtPriceLimitX96: 0,
+    }]),
+    value: 0n,
+    selector: '0x04e45aaf',
+    expected: null,
+  },
+};
@@ -0,0 +1,41 @@
+import { V3PoolState } from '../../src/services/dex/v3Math';
+
+export const ETHER = 10n ** 18n;
+
+// 1.0 as a Q64.96 sqrt price, at tick 0
+export const SQRT_PRICE_ONE = 2n ** 96n;
+
+/**
+ * Pool at price 1.0 holding two positions: `liquidity` on [-60, 60] and as much again on [-120, 120]
+ * Swaps cross a tick at ±60, and run out of liquidity past ±120
+ */
+export function createPoolState(fee: number, tickSpacing: number, liquidity: bigint = ETHER): V3PoolState {
+  return {
+    address: `0x${fee.toString(16).padStart(40, '0')}`,
+    token0: '0x0000000000000000000000000000000000000a00',
+    token1: '0x0000000000000000000000000000000000000b00',
+    fee,
+    tickSpacing,
+    sqrtPriceX96: SQRT_PRICE_ONE,
+    tick: 0,
+    liquidity: 2n * liquidity,
+    ticks: [
+      { index: -120, liquidityNet: liquidity },
+      { index: -60, liquidityNet: liquidity },
+      { index: 60, liquidityNet: -liquidity },
+      { index: 120, liquidityNet: -liquidity },
+    ],
+    minWord: -1,
+    maxWord: 0,
+  };
+}
+
+/**
+ * tickBitmap word of a pool, as the pool contract returns it
+ */
+export function getBitmapWord(pool: V3PoolState, word: number): bigint {
+  return pool.ticks.reduce((bitmap, { index }) => {
+    const compressed = index / pool.tickSpacing;
+    return compressed >> 8 === word ? bitmap | (1n << BigInt(compressed - word * 256)) : bitmap;
+  }, 0n);
+}
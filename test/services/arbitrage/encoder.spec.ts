@@ -0,0 +1,119 @@
+import { DEXType } from '../../../src/entities/DEX';
+import { RouteEncodingOptions, toArbitrageParams } from '../../../src/services/arbitrage/encoder';
+import { FlashLoanParams, RouteHopData } from '../../../src/types';
+import { DAI, ETHER, USDC, USDC_UNIT, WETH } from '../../fixtures/routerCalldata';
+
+const UNISWAP_ROUTER = '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D';
+const SUSHISWAP_ROUTER = '0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F';
+const V3_ROUTER = '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45';
+const OPTIONS: RouteEncodingOptions = { maxSlippage: 0.005, gasLimit: 500000 };
+const FLASH_LOAN: FlashLoanParams = { source: 0, lender: '0x0000000000000000000000000000000000000002', lenderFee: 0 };
+
+const SYMBOLS: Record<string, string> = { [WETH]: 'WETH', [USDC]: 'USDC', [DAI]: 'DAI' };
+
+/**
+ * Route hop as the engine stores it on ArbitrageOpportunity.route
+ */
+function hop(
+  dexType: DEXType,
+  router: string,
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: bigint,
+  amountOut: bigint,
+  feeTier?: number,
+): RouteHopData {
+  return {
+    dexId: dexType,
+    dexName: dexType,
+    dexType,
+    router,
+    pool: '0x0000000000000000000000000000000000000001',
+    feeTier,
+    tokenIn,
+    tokenOut,
+    tokenInSymbol: SYMBOLS[tokenIn],
+    tokenOutSymbol: SYMBOLS[tokenOut],
+    amountIn: amountIn.toString(),
+    amountOut: amountOut.toString(),
+  };
+}
+
+describe('toArbitrageParams', () => {
+  // 1 WETH -> 2,000 USDC on Uniswap -> 1.01 WETH on SushiSwap
+  const pairRoute = [
+    hop(DEXType.UNISWAP_V2, UNISWAP_ROUTER, WETH, USDC, ETHER, 2000n * USDC_UNIT),
+    hop(DEXType.SUSHISWAP, SUSHISWAP_ROUTER, USDC, WETH, 2000n * USDC_UNIT, ETHER * 101n / 100n),
+  ];
+  // 1 WETH -> 2,000 USDC in the 0.05% V3 pool -> 2,010 DAI on SushiSwap -> 1.005 WETH on Uniswap
+  const multiHopRoute = [
+    hop(DEXType.UNISWAP_V3, V3_ROUTER, WETH, USDC, ETHER, 2000n * USDC_UNIT, 500),
+    hop(DEXType.SUSHISWAP, SUSHISWAP_ROUTER, USDC, DAI, 2000n * USDC_UNIT, 2010n * ETHER),
+    hop(DEXType.UNISWAP_V2, UNISWAP_ROUTER, DAI, WETH, 2010n * ETHER, ETHER * 1005n / 1000n),
+  ];
+
+  it('sends a round trip through two V2 routers to executeArbitrage', () => {
+    const params = toArbitrageParams(pairRoute, OPTIONS);
+
+    expect(params).toEqual({
+      tokenA: WETH,
+      tokenB: USDC,
+      dexA: UNISWAP_ROUTER,
+      dexB: SUSHISWAP_ROUTER,
+      amountIn: ETHER,
+      // 0.01 WETH quoted, less 0.5% slippage
+      minProfitThreshold: ETHER / 100n * 9950n / 10000n,
+      maxSlippage: 0.005,
+      gasLimit: 500000,
+      flashLoan: undefined,
+      hops: undefined,
+    });
+  });
+
+  it('sends longer routes and routes through V3 pools to executeMultiHopArbitrage', () => {
+    const params = toArbitrageParams(multiHopRoute, OPTIONS);
+
+    expect(params?.dexA).toBe(V3_ROUTER);
+    expect(params?.dexB).toBe(UNISWAP_ROUTER);
+    expect(params?.hops).toEqual([
+      { router: V3_ROUTER, path: [WETH, USDC], kind: 1, fee: 500, minAmountOut: 1990n * USDC_UNIT },
+      { router: SUSHISWAP_ROUTER, path: [USDC, DAI], kind: 0, fee: 0, minAmountOut: 2010n * ETHER * 9950n / 10000n },
+      {
+        router: UNISWAP_ROUTER,
+        path: [DAI, WETH],
+        kind: 0,
+        fee: 0,
+        minAmountOut: ETHER * 1005n / 1000n * 9950n / 10000n,
+      },
+    ]);
+    expect(params?.minProfitThreshold).toBe(ETHER * 5n / 1000n * 9950n / 10000n);
+  });
+
+  it('uses executeMultiHopArbitrage for a two-hop route with a V3 hop', () => {
+    const route = [
+      multiHopRoute[0],
+      hop(DEXType.UNISWAP_V2, UNISWAP_ROUTER, USDC, WETH, 2000n * USDC_UNIT, ETHER * 2n),
+    ];
+
+    expect(toArbitrageParams(route, OPTIONS)?.hops?.map(({ kind, fee }) => ({ kind, fee }))).toEqual([
+      { kind: 1, fee: 500 },
+      { kind: 0, fee: 0 },
+    ]);
+  });
+
+  it('deducts the flash loan fee from the expected profit', () => {
+    const params = toArbitrageParams(pairRoute, { ...OPTIONS, flashLoan: FLASH_LOAN, flashLoanFee: ETHER / 1000n });
+
+    expect(params?.flashLoan).toBe(FLASH_LOAN);
+    expect(params?.minProfitThreshold).toBe(ETHER * 9n / 1000n * 9950n / 10000n);
+  });
+
+  it('returns null for a route the contract cannot execute', () => {
+    const withoutFeeTier = [{ ...multiHopRoute[0], feeTier: undefined }, ...multiHopRoute.slice(1)];
+
+    expect(toArbitrageParams(withoutFeeTier, OPTIONS)).toBeNull();
+    expect(toArbitrageParams([{ ...pairRoute[0], dexType: DEXType.CURVE }, pairRoute[1]], OPTIONS)).toBeNull();
+    // Flash loans only fund pair routes
+    expect(toArbitrageParams(multiHopRoute, { ...OPTIONS, flashLoan: FLASH_LOAN })).toBeNull();
+  });
+});
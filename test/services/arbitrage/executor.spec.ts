@@ -0,0 +1,168 @@
+import { Network, Provider, Transaction as SignedTransaction, TransactionRequest, Wallet } from 'ethers';
+import { AppDataSource } from '../../../src/config/database';
+import { ArbitrageOpportunity } from '../../../src/entities/ArbitrageOpportunity';
+import { Token } from '../../../src/entities/Token';
+import { Transaction, TransactionStatus } from '../../../src/entities/Transaction';
+import { ArbitrageExecutor } from '../../../src/services/arbitrage/executor';
+import type { RiskManager } from '../../../src/services/arbitrage/risk';
+import type { FeeQuote, FeeStrategy } from '../../../src/services/blockchain/fees';
+import { BundleRelayClient } from '../../../src/services/blockchain/relay';
+import { KeystoreSigner } from '../../../src/services/blockchain/signer';
+import { BundleSubmitter } from '../../../src/services/blockchain/submission';
+import type { HotWallet, WalletPool } from '../../../src/services/blockchain/wallets';
+import { ArbitrageParams } from '../../../src/types';
+import { JsonRpcStub, startJsonRpcStub } from '../../fixtures/jsonRpcStub';
+
+jest.mock('../../../src/config/database', () => ({ AppDataSource: { getRepository: jest.fn() } }));
+
+const BOT_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const CONTRACT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const BUNDLE_HASH = `0x${'cd'.repeat(32)}`;
+const FEES: FeeQuote = {
+  type: 'eip1559',
+  gasPrice: 20n * 10n ** 9n,
+  maxFeePerGas: 30n * 10n ** 9n,
+  maxPriorityFeePerGas: 10n ** 9n,
+};
+const PARAMS: ArbitrageParams = {
+  tokenA: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+  tokenB: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+  dexA: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
+  dexB: '0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F',
+  amountIn: 10n ** 18n,
+  minProfitThreshold: 10n ** 15n,
+  maxSlippage: 50,
+  gasLimit: 500000,
+};
+
+describe('ArbitrageExecutor bundles', () => {
+  const token = Object.assign(new Token(), { symbol: 'WETH', decimals: 18 });
+  let relay: JsonRpcStub;
+  let blockNumber: number;
+  let nonces: { next: () => Promise<number>; reset: jest.Mock; release: jest.Mock };
+  let save: jest.Mock;
+  let risk: { toPosition: jest.Mock; recordOutcome: jest.Mock };
+  let wallets: { acquire: jest.Mock; release: jest.Mock; addresses: string[] };
+  let executor: ArbitrageExecutor;
+
+  beforeEach(async () => {
+    relay = await startJsonRpcStub(({ method }) => (
+      method === 'eth_sendBundle' ? { bundleHash: BUNDLE_HASH } : { bundleHash: BUNDLE_HASH, results: [] }
+    ));
+    blockNumber = 100;
+    const provider = {
+      getNetwork: () => Promise.resolve(new Network('test', 1n)),
+      getBlockNumber: () => Promise.resolve(blockNumber),
+      getTransactionReceipt: () => Promise.resolve(null),
+    } as unknown as Provider;
+
+    const signer = new KeystoreSigner(new Wallet(BOT_KEY), provider);
+    const relayClient = new BundleRelayClient(relay.url, Wallet.createRandom());
+    let nonce = 7;
+    nonces = { next: () => Promise.resolve(nonce++), reset: jest.fn(), release: jest.fn() };
+    const wallet = {
+      address: signer.address,
+      signer,
+      client: {
+        address: CONTRACT,
+        populateExecuteArbitrage: (_params: ArbitrageParams, overrides: TransactionRequest) =>
+          Promise.resolve({ to: CONTRACT, data: '0x', gasLimit: 500000n, ...overrides }),
+      },
+      submitter: new BundleSubmitter('eth', signer, provider, relayClient, 2, false),
+      nonces,
+      lowBalance: false,
+      authorized: true,
+      inFlight: 0,
+    } as unknown as HotWallet;
+    wallets = { acquire: jest.fn().mockReturnValue(wallet), release: jest.fn(), addresses: [wallet.address] };
+    risk = { toPosition: jest.fn().mockReturnValue(null), recordOutcome: jest.fn() };
+
+    save = jest.fn((entity: unknown) => Promise.resolve(entity));
+    (AppDataSource.getRepository as jest.Mock).mockImplementation((entity: unknown) => (
+      entity === Transaction
+        ? { save, create: (data: Partial<Transaction>) => Object.assign(new Transaction(), data) }
+        : { save, findOneBy: () => Promise.resolve(null) }
+    ));
+
+    executor = new ArbitrageExecutor(
+      'eth',
+      provider,
+      wallets as unknown as WalletPool,
+      {} as FeeStrategy,
+      risk as unknown as RiskManager,
+    );
+  });
+
+  afterEach(() => relay.close());
+
+  /**
+   * Execute a new opportunity at the current block
+   */
+  function execute(): Promise<Transaction | null> {
+    const opportunity = Object.assign(new ArbitrageOpportunity(), {
+      id: `opportunity-${blockNumber}`,
+      tokenPair: 'WETH/USDC',
+      network: 'eth',
+      profitPercentage: 1,
+    });
+    return executor.execute(opportunity, PARAMS, token, FEES);
+  }
+
+  it('records the relay, bundle hash and target blocks on the Transaction', async () => {
+    const transaction = await execute();
+
+    const [, send] = relay.requests;
+    expect(transaction?.hash).toBe(SignedTransaction.from(send.params[0].txs[0] as string).hash);
+    expect(transaction?.metadata?.nonce).toBe(7);
+    expect(transaction?.metadata?.submission).toEqual({
+      route: 'bundle',
+      relay: new URL(relay.url).host,
+      bundleHash: BUNDLE_HASH,
+      targetBlocks: [101, 102],
+    });
+    expect(save).toHaveBeenCalledWith(transaction);
+  });
+
+  it('releases the wallet when the opportunity cannot be marked as executing', async () => {
+    save.mockRejectedValueOnce(new Error('connection terminated'));
+
+    await expect(execute()).resolves.toBeNull();
+
+    expect(wallets.release).toHaveBeenCalledTimes(1);
+    expect(relay.requests).toEqual([]);
+  });
+
+  it('fails the wallet\'s later bundles with a bundle that misses its blocks', async () => {
+    const missed = await execute();
+    blockNumber = 101;
+    const later = await execute();
+    blockNumber = 102;
+    const latest = await execute();
+
+    // The first bundle's last block was 102; the others could still be included at 103 if nonce 7 were used
+    await executor.trackReceipts(103);
+
+    expect([missed, later, latest].map(transaction => transaction?.status)).toEqual([
+      TransactionStatus.FAILED,
+      TransactionStatus.FAILED,
+      TransactionStatus.FAILED,
+    ]);
+    expect(missed?.errorMessage).toBe('Bundle not included by block 102');
+    expect(later?.errorMessage).toBe('Bundle cannot be included, nonce 7 before it was not used');
+    expect(executor.getPendingCount()).toBe(0);
+    expect(nonces.reset).toHaveBeenCalledTimes(1);
+    expect(wallets.release).toHaveBeenCalledTimes(3);
+    expect(risk.recordOutcome).toHaveBeenCalledTimes(3);
+  });
+
+  it('keeps bundles pending until their last target block has passed', async () => {
+    await execute();
+    blockNumber = 101;
+    await execute();
+
+    await executor.trackReceipts(102);
+
+    expect(executor.getPendingCount()).toBe(2);
+    expect(nonces.reset).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,244 @@
+import { Interface, WebSocketProvider, ZeroAddress } from 'ethers';
+import { AppDataSource } from '../../../src/config/database';
+import { ArbitrageOpportunity } from '../../../src/entities/ArbitrageOpportunity';
+import { DEX, DEXType } from '../../../src/entities/DEX';
+import { Token } from '../../../src/entities/Token';
+import { ArbitrageEngine } from '../../../src/services/arbitrage/engine';
+import type { GasEstimate } from '../../../src/services/arbitrage/gas';
+import type { MempoolWatcher } from '../../../src/services/arbitrage/mempool';
+import { PairScanner } from '../../../src/services/arbitrage/scanner';
+import { getMulticall } from '../../../src/services/blockchain/multicall';
+import { Amount } from '../../../src/utils/amount';
+import { StubRequest, WebSocketStub, createWebSocketStub } from '../../fixtures/jsonRpcStub';
+import { RECORDED_TRANSACTIONS } from '../../fixtures/pendingTransactions';
+import { ETHER, USDC, USDC_UNIT, WETH } from '../../fixtures/routerCalldata';
+
+jest.mock('ethers', () => ({ ...jest.requireActual<typeof import('ethers')>('ethers'), WebSocketProvider: jest.fn() }));
+jest.mock('../../../src/config/database', () => ({ AppDataSource: { getRepository: jest.fn() } }));
+jest.mock('../../../src/services/blockchain/multicall', () => ({ getMulticall: jest.fn() }));
+
+const NodeWebSocketProvider = jest.requireActual<typeof import('ethers')>('ethers').WebSocketProvider;
+
+const BLOCK = 18000000;
+const SUBSCRIPTION = '0x9cef478923ff08bf67fde6c64013158d';
+const { largeSale, revertingSale, exactOutput, aggregatorSale, minedSale } = RECORDED_TRANSACTIONS;
+const GAS: GasEstimate = {
+  gasUnits: 250000n,
+  gasFee: 250000n * 20n * 10n ** 9n,
+  gasCost: 250000n * 20n * 10n ** 9n,
+  nativePrice: Amount.fromRaw(ETHER, 18),
+  gasSource: 'default',
+  priceSource: 'native',
+};
+
+function createDEX(id: string, factoryAddress: string, routerAddress: string): DEX {
+  return Object.assign(new DEX(), {
+    id,
+    name: id,
+    type: DEXType.UNISWAP_V2,
+    factoryAddress,
+    routerAddress,
+    feePercentage: 0.003,
+  });
+}
+
+function createToken(address: string, symbol: string, decimals: number, priority: number): Token {
+  return Object.assign(new Token(), {
+    address,
+    symbol,
+    decimals,
+    priority,
+    isWrappedNative: address === WETH,
+    metadata: {},
+  });
+}
+
+/**
+ * Wait for the watcher's fire-and-forget lookups, failing if the condition does not hold within two seconds
+ */
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  expect(condition()).toBe(true);
+}
+
+describe('MempoolWatcher with recorded pending transactions', () => {
+  const environment = process.env;
+  const uniswap = createDEX(
+    'uniswap',
+    '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f',
+    '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
+  );
+  const sushiswap = createDEX(
+    'sushiswap',
+    '0xC0AEe478e3658e2610c5F7A4A2E1777cE9e4f2Ac',
+    '0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F',
+  );
+  const shibaswap = createDEX(
+    'shibaswap',
+    '0x115934131916C8b277DD010Ee02de363c09d037c',
+    '0x03f7724180AA6b939894B5Ca4314783B0b36b329',
+  );
+  const dexes = [uniswap, sushiswap, shibaswap];
+  const tokens = [createToken(WETH, 'WETH', 18, 1), createToken(USDC, 'USDC', 6, 2)];
+  // USDC is token0 of every pair. WETH trades at 2,000 USDC on Uniswap and SushiSwap and at 2,100 on ShibaSwap,
+  // so ShibaSwap -> SushiSwap is open before any pending swap and must not be reported as a back-run.
+  // Selling 100 WETH into the Uniswap pool returns about 197,400 USDC: enough for largeSale, not for revertingSale
+  const pairs: Record<string, { address: string; reserves: [bigint, bigint] }> = {
+    [uniswap.factoryAddress]: {
+      address: '0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc',
+      reserves: [20000000n * USDC_UNIT, 10000n * ETHER],
+    },
+    [sushiswap.factoryAddress]: {
+      address: '0x397FF1542f962076d0BFE58eA045FfA2d347ACa0',
+      reserves: [20000000n * USDC_UNIT, 10000n * ETHER],
+    },
+    [shibaswap.factoryAddress]: {
+      address: '0x20E95253e54490D8d30ea41574b24F741ee70201',
+      reserves: [21000000n * USDC_UNIT, 10000n * ETHER],
+    },
+  };
+  const reserves = new Map(Object.values(pairs).map(pair => [pair.address, pair.reserves]));
+
+  let node: WebSocketStub;
+  let lookup: (hash: string) => unknown;
+  let save: jest.Mock;
+  let scanner: PairScanner;
+  let watcher: MempoolWatcher;
+
+  /**
+   * Answer like a node serving the recorded transactions to a newPendingTransactions subscription
+   */
+  function answerNode(request: StubRequest): unknown {
+    switch (request.method) {
+    case 'eth_chainId':
+      return '0x1';
+    case 'eth_subscribe':
+      return SUBSCRIPTION;
+    case 'eth_unsubscribe':
+      return true;
+    case 'eth_getTransactionByHash':
+      return lookup(request.params[0] as string);
+    default:
+      throw new Error(`Unexpected method ${request.method}`);
+    }
+  }
+
+  /**
+   * Announce pending transaction hashes as the node would
+   */
+  function announce(...hashes: unknown[]): void {
+    hashes.forEach(hash => node.notify(SUBSCRIPTION, hash));
+  }
+
+  const lookups = (hash: unknown): number => node.requests
+    .filter(({ method, params }) => method === 'eth_getTransactionByHash' && params[0] === hash)
+    .length;
+
+  beforeEach(async () => {
+    process.env = { ...environment, ETH_WS_URL: 'wss://node.test' };
+    node = createWebSocketStub(answerNode);
+    lookup = hash => Object.values(RECORDED_TRANSACTIONS).find(transaction => transaction.hash === hash) ?? null;
+    // ethers answers a request repeated within 250ms from its cache; turn that off so every lookup reaches the node
+    (WebSocketProvider as unknown as jest.Mock).mockImplementation(
+      (_url: string, chainId: number) => new NodeWebSocketProvider(node.connect, chainId, { cacheTimeout: -1 }),
+    );
+
+    (getMulticall as jest.Mock).mockReturnValue({
+      call: jest.fn((target: string, _iface: Interface, method: string) => {
+        switch (method) {
+        case 'getPair':
+          return Promise.resolve(pairs[target]?.address ?? ZeroAddress);
+        case 'getReserves':
+          return Promise.resolve([...(reserves.get(target) as [bigint, bigint]), 0n]);
+        case 'token0':
+          return Promise.resolve(USDC);
+        default:
+          return Promise.reject(new Error(`Unexpected call ${method}`));
+        }
+      }),
+    });
+    save = jest.fn((entities: unknown) => Promise.resolve(entities));
+    (AppDataSource.getRepository as jest.Mock).mockReturnValue({
+      create: (data: Partial<ArbitrageOpportunity>) => Object.assign(new ArbitrageOpportunity(), data),
+      save,
+    });
+
+    // The engine wires the watcher to its own prediction handler; only the parts of the network state that
+    // sizing a predicted route reads are set
+    const engine = new ArbitrageEngine({ setArbitrageEngine: jest.fn() } as never, {} as never);
+    scanner = new PairScanner('eth', {} as never);
+    engine['networks'].set('eth', {
+      scanner,
+      contract: null,
+      fees: { getFees: () => Promise.resolve({ type: 'legacy', gasPrice: 20n * 10n ** 9n }) },
+      gasModel: { estimate: () => Promise.resolve(GAS) },
+    } as never);
+    watcher = engine['createMempoolWatcher']('eth', scanner) as MempoolWatcher;
+
+    await watcher.start();
+    await waitFor(() => node.requests.some(({ method }) => method === 'eth_subscribe'));
+    await scanner.scan(dexes, tokens, BLOCK);
+    watcher.update(dexes, tokens, BLOCK);
+  });
+
+  afterEach(async () => {
+    process.env = environment;
+    await watcher.stop();
+  });
+
+  it('saves the back-runs a pending swap opens as mempool opportunities', async () => {
+    announce(largeSale.hash);
+    await waitFor(() => save.mock.calls.length > 0);
+
+    const opportunities = save.mock.calls[0][0] as ArbitrageOpportunity[];
+    // Only routes through Uniswap, the DEX the pending sale moves, are predicted
+    expect(opportunities.map(({ route }) => route?.map(hop => hop.dexId).join(' -> ')).sort()).toEqual([
+      'shibaswap -> uniswap',
+      'sushiswap -> uniswap',
+    ]);
+    for (const opportunity of opportunities) {
+      expect(opportunity.metadata).toMatchObject({
+        source: 'mempool',
+        pendingTx: largeSale.hash,
+        pendingDexId: 'uniswap',
+        pendingAmountIn: (100n * ETHER).toString(),
+        blockNumber: BLOCK,
+      });
+    }
+    expect(watcher.getStatus()).toMatchObject({ pending: 1, swaps: 1, predictions: 2 });
+  });
+
+  it('predicts nothing from transactions that do not move a watched pool', async () => {
+    const unknown = `0x${'ab'.repeat(32)}`;
+    announce(revertingSale.hash, exactOutput.hash, aggregatorSale.hash, minedSale.hash, unknown);
+    await waitFor(() => watcher.getStatus().pending === 5 && watcher.getStatus().inFlight === 0);
+
+    // Only the reverting sale decodes as a swap: it fails its own amountOutMin, so the pools stay as they are
+    expect(watcher.getStatus()).toMatchObject({ swaps: 1, predictions: 0, dropped: 0 });
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  it('looks a hash up once per scanned block', async () => {
+    announce(exactOutput.hash, exactOutput.hash);
+    await waitFor(() => watcher.getStatus().pending === 2 && watcher.getStatus().inFlight === 0);
+    expect(lookups(exactOutput.hash)).toBe(1);
+
+    watcher.update(dexes, tokens, BLOCK + 1);
+    announce(exactOutput.hash);
+    await waitFor(() => watcher.getStatus().inFlight === 0 && lookups(exactOutput.hash) === 2);
+  });
+
+  it('drops hashes while the node is slow to answer lookups', async () => {
+    const answers: ((transaction: null) => void)[] = [];
+    lookup = () => new Promise(resolve => answers.push(resolve));
+
+    announce(...Array.from({ length: 51 }, (_, i) => `0x${i.toString(16).padStart(64, '0')}`));
+    await waitFor(() => watcher.getStatus().pending === 51 && answers.length === 50);
+
+    expect(watcher.getStatus()).toMatchObject({ inFlight: 50, dropped: 1 });
+    answers.forEach(answer => answer(null));
+    await waitFor(() => watcher.getStatus().inFlight === 0);
+  });
+});
@@ -0,0 +1,127 @@
+import { Interface, ZeroAddress } from 'ethers';
+import { DEX, DEXType } from '../../../src/entities/DEX';
+import { Token } from '../../../src/entities/Token';
+import { getMulticall } from '../../../src/services/blockchain/multicall';
+import { PairScanner } from '../../../src/services/arbitrage/scanner';
+import { getAmountOut, uniswapV2Adapter } from '../../../src/services/dex/uniswapV2';
+import { DecodedSwap } from '../../../src/services/dex/types';
+import { ETHER, USDC, USDC_UNIT, WETH, encodeV2Swap } from '../../fixtures/routerCalldata';
+
+jest.mock('../../../src/services/blockchain/multicall', () => ({ getMulticall: jest.fn() }));
+
+const BLOCK = 18000000;
+const FEE_PIPS = 3000n;
+// Both DEXes start at 2,000 USDC per WETH, so there is nothing to arbitrage until a swap moves one of them
+const WETH_RESERVE = 1000n * ETHER;
+const USDC_RESERVE = 2000000n * USDC_UNIT;
+
+function createDEX(id: string, type: DEXType, factoryAddress: string): DEX {
+  return Object.assign(new DEX(), {
+    id,
+    name: id,
+    type,
+    factoryAddress,
+    routerAddress: `${factoryAddress.slice(0, -1)}f`,
+    feePercentage: 0.003,
+  });
+}
+
+function createToken(address: string, symbol: string, decimals: number, priority: number): Token {
+  return Object.assign(new Token(), { address, symbol, decimals, priority, metadata: {} });
+}
+
+describe('PairScanner back-run prediction', () => {
+  const uniswap = createDEX('uniswap', DEXType.UNISWAP_V2, '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f');
+  const sushiswap = createDEX('sushiswap', DEXType.SUSHISWAP, '0xC0AEe478e3658e2610c5F7A4A2E1777cE9e4f2Ac');
+  const dexes = [uniswap, sushiswap];
+  const tokens = [createToken(WETH, 'WETH', 18, 1), createToken(USDC, 'USDC', 6, 2)];
+  // USDC sorts below WETH, so it is token0 of both pairs
+  const pairs: Record<string, string> = {
+    [uniswap.factoryAddress]: '0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc',
+    [sushiswap.factoryAddress]: '0x397FF1542f962076d0BFE58eA045FfA2d347ACa0',
+  };
+  let call: jest.Mock;
+
+  beforeEach(() => {
+    call = jest.fn((target: string, _iface: Interface, method: string) => {
+      switch (method) {
+      case 'getPair':
+        return Promise.resolve(pairs[target] ?? ZeroAddress);
+      case 'getReserves':
+        return Promise.resolve([USDC_RESERVE, WETH_RESERVE, 0n]);
+      case 'token0':
+        return Promise.resolve(USDC);
+      default:
+        return Promise.reject(new Error(`Unexpected call ${method}`));
+      }
+    });
+    (getMulticall as jest.Mock).mockReturnValue({ call });
+  });
+
+  /**
+   * Apply a decoded pending swap hop by hop to a fork, the way the mempool watcher does
+   */
+  async function applyPendingSwap(scanner: PairScanner, dex: DEX, swap: DecodedSwap): Promise<bigint | null> {
+    let amount: bigint | null = swap.amountIn;
+    for (let i = 0; i < swap.path.length - 1 && amount !== null; i++) {
+      amount = await scanner.applySwap(dex, swap.path[i], swap.path[i + 1], amount, BLOCK, swap.feeTiers?.[i]);
+    }
+    return amount;
+  }
+
+  it('finds the route a pending swap opens, quoted against the reserves it leaves', async () => {
+    const scanner = new PairScanner('eth', {} as never);
+    await expect(scanner.scan(dexes, tokens, BLOCK)).resolves.toEqual([]);
+
+    // A pending sale of 100 WETH on Uniswap makes WETH cheaper there than on SushiSwap
+    const data = encodeV2Swap(100n * ETHER, 190000n * USDC_UNIT, [WETH, USDC]);
+    const swap = uniswapV2Adapter.decodeSwapCalldata?.(data, 0n) as DecodedSwap;
+    const fork = scanner.fork();
+    const swapOut = await applyPendingSwap(fork, uniswap, swap);
+    expect(swapOut).toBe(getAmountOut(100n * ETHER, WETH_RESERVE, USDC_RESERVE, FEE_PIPS));
+
+    const quotes = await fork.scan(dexes, tokens, BLOCK);
+
+    // Sell WETH on SushiSwap, buy it back on Uniswap after the pending swap
+    const usdcOut = getAmountOut(ETHER, WETH_RESERVE, USDC_RESERVE, FEE_PIPS);
+    const wethOut = getAmountOut(usdcOut, USDC_RESERVE - (swapOut as bigint), WETH_RESERVE + 100n * ETHER, FEE_PIPS);
+    expect(quotes).toHaveLength(1);
+    expect(quotes[0].hops.map(hop => hop.dex.id)).toEqual(['sushiswap', 'uniswap']);
+    expect(quotes[0].amountOut).toBe(wethOut);
+    expect(quotes[0].profit).toBe(wethOut - ETHER);
+  });
+
+  it('quotes the fork from the reserves already read for the block', async () => {
+    const scanner = new PairScanner('eth', {} as never);
+    await scanner.scan(dexes, tokens, BLOCK);
+    const reads = call.mock.calls.length;
+
+    const fork = scanner.fork();
+    await fork.applySwap(uniswap, WETH, USDC, 100n * ETHER, BLOCK);
+    await fork.scan(dexes, tokens, BLOCK);
+
+    expect(call.mock.calls.length).toBe(reads);
+  });
+
+  it('leaves the scanner and other forks on the block state', async () => {
+    const scanner = new PairScanner('eth', {} as never);
+    await scanner.scan(dexes, tokens, BLOCK);
+
+    const first = scanner.fork();
+    await first.applySwap(uniswap, WETH, USDC, 100n * ETHER, BLOCK);
+    const second = scanner.fork();
+
+    await expect(scanner.scan(dexes, tokens, BLOCK)).resolves.toEqual([]);
+    await expect(second.scan(dexes, tokens, BLOCK)).resolves.toEqual([]);
+    // A second pending swap on the same fork trades against the reserves the first one left
+    await expect(first.applySwap(uniswap, WETH, USDC, 100n * ETHER, BLOCK)).resolves
+      .toBeLessThan(getAmountOut(100n * ETHER, WETH_RESERVE, USDC_RESERVE, FEE_PIPS));
+  });
+
+  it('returns null for a swap through a pair the DEX does not have', async () => {
+    const fork = new PairScanner('eth', {} as never).fork();
+    const unknown = createDEX('unknown', DEXType.UNISWAP_V2, '0x0000000000000000000000000000000000000F00');
+
+    await expect(fork.applySwap(unknown, WETH, USDC, ETHER, BLOCK)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+import { Network, Provider, Transaction, TransactionRequest, Wallet, id, verifyMessage } from 'ethers';
+import { BundleRelayClient } from '../../../src/services/blockchain/relay';
+import { KeystoreSigner } from '../../../src/services/blockchain/signer';
+import { BundleSubmitter, PublicSubmitter, createSubmitter } from '../../../src/services/blockchain/submission';
+import { JsonRpcStub, StubRequest, startJsonRpcStub } from '../../fixtures/jsonRpcStub';
+
+// Hardhat's first two development accounts
+const BOT_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const AUTH_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const BUNDLE_HASH = `0x${'ab'.repeat(32)}`;
+const BLOCK = 100;
+
+/**
+ * Answer eth_callBundle with a successful simulation of every transaction and eth_sendBundle with BUNDLE_HASH
+ */
+function answerBundles(request: StubRequest): unknown {
+  switch (request.method) {
+  case 'eth_callBundle':
+    return {
+      bundleHash: BUNDLE_HASH,
+      results: (request.params[0].txs as string[]).map(tx => ({ txHash: Transaction.from(tx).hash, gasUsed: 21000 })),
+    };
+  case 'eth_sendBundle':
+    return { bundleHash: BUNDLE_HASH };
+  default:
+    throw new Error(`Unexpected method ${request.method}`);
+  }
+}
+
+describe('BundleRelayClient', () => {
+  const authSigner = new Wallet(AUTH_KEY);
+  let relay: JsonRpcStub;
+
+  afterEach(() => relay.close());
+
+  it('signs every request with the auth key in X-Flashbots-Signature', async () => {
+    relay = await startJsonRpcStub(answerBundles);
+    const client = new BundleRelayClient(relay.url, authSigner);
+
+    await expect(client.sendBundle(['0x01'], BLOCK + 1)).resolves.toBe(BUNDLE_HASH);
+
+    const [request] = relay.requests;
+    expect(request.params).toEqual([{ txs: ['0x01'], blockNumber: '0x65' }]);
+    const [address, signature] = (request.headers['x-flashbots-signature'] as string).split(':');
+    expect(address).toBe(authSigner.address);
+    expect(verifyMessage(id(request.body), signature)).toBe(authSigner.address);
+  });
+
+  it('simulates a bundle on top of a state block', async () => {
+    relay = await startJsonRpcStub(() => ({ bundleHash: BUNDLE_HASH, results: [] }));
+    const client = new BundleRelayClient(relay.url, authSigner);
+
+    await client.callBundle(['0x01'], BLOCK + 1, BLOCK);
+    await client.callBundle(['0x01'], BLOCK + 1);
+
+    expect(relay.requests.map(request => request.params[0])).toEqual([
+      { txs: ['0x01'], blockNumber: '0x65', stateBlockNumber: '0x64' },
+      { txs: ['0x01'], blockNumber: '0x65', stateBlockNumber: 'latest' },
+    ]);
+  });
+
+  it('throws the relay error with the relay host', async () => {
+    relay = await startJsonRpcStub(() => {
+      throw new Error('bundle too large');
+    });
+    const client = new BundleRelayClient(relay.url, authSigner);
+
+    await expect(client.sendBundle(['0x01'], BLOCK + 1)).rejects
+      .toThrow(`eth_sendBundle failed on ${client.host}: bundle too large`);
+  });
+});
+
+describe('createSubmitter', () => {
+  const environment = process.env;
+  const provider = {
+    getNetwork: () => Promise.resolve(new Network('test', 1n)),
+    getBlockNumber: () => Promise.resolve(BLOCK),
+  } as unknown as Provider;
+  const signer = new KeystoreSigner(new Wallet(BOT_KEY), provider);
+  const request: TransactionRequest = {
+    to: '0x000000000000000000000000000000000000dEaD',
+    data: '0x',
+    nonce: 7,
+    gasLimit: 100000n,
+    maxFeePerGas: 30n * 10n ** 9n,
+    maxPriorityFeePerGas: 10n ** 9n,
+  };
+  let ethRelay: JsonRpcStub;
+  let bscRelay: JsonRpcStub;
+
+  beforeEach(async () => {
+    ethRelay = await startJsonRpcStub(answerBundles);
+    bscRelay = await startJsonRpcStub(answerBundles);
+    process.env = {
+      ...environment,
+      RELAY_AUTH_KEY: AUTH_KEY,
+      ETH_SUBMISSION: 'bundle',
+      ETH_RELAY_URL: ethRelay.url,
+      ETH_RELAY_TARGET_BLOCKS: '2',
+      BSC_SUBMISSION: 'bundle',
+      BSC_RELAY_URL: bscRelay.url,
+    };
+  });
+
+  afterEach(async () => {
+    process.env = environment;
+    await Promise.all([ethRelay.close(), bscRelay.close()]);
+  });
+
+  it('sends bundles through the relay configured for the network', async () => {
+    const submitter = createSubmitter('eth', signer, provider);
+    expect(submitter).toBeInstanceOf(BundleSubmitter);
+
+    const result = await submitter.submit(request);
+
+    expect(ethRelay.requests.map(({ method, params }) => [method, params[0].blockNumber])).toEqual([
+      ['eth_callBundle', '0x65'],
+      ['eth_sendBundle', '0x65'],
+      ['eth_sendBundle', '0x66'],
+    ]);
+    expect(bscRelay.requests).toEqual([]);
+
+    const signed = ethRelay.requests[1].params[0].txs[0] as string;
+    expect(Transaction.from(signed).from).toBe(signer.address);
+    expect(result).toEqual({
+      hash: Transaction.from(signed).hash,
+      route: 'bundle',
+      relay: new URL(ethRelay.url).host,
+      bundleHash: BUNDLE_HASH,
+      targetBlocks: [BLOCK + 1, BLOCK + 2],
+    });
+  });
+
+  it('keeps the relays of different networks apart', async () => {
+    await createSubmitter('bsc', signer, provider).submit(request);
+
+    expect(ethRelay.requests).toEqual([]);
+    // Without BSC_RELAY_TARGET_BLOCKS the bundle is offered for the default three blocks
+    expect(bscRelay.requests.filter(({ method }) => method === 'eth_sendBundle')).toHaveLength(3);
+  });
+
+  it('uses the public mempool without a relay URL or bundle route', () => {
+    process.env.POLYGON_SUBMISSION = 'bundle';
+
+    expect(createSubmitter('polygon', signer, provider)).toBeInstanceOf(PublicSubmitter);
+    delete process.env.ETH_SUBMISSION;
+    expect(createSubmitter('eth', signer, provider)).toBeInstanceOf(PublicSubmitter);
+  });
+
+  it('does not offer a bundle whose simulation reverts', async () => {
+    await ethRelay.close();
+    ethRelay = await startJsonRpcStub(({ method }) => ({
+      bundleHash: BUNDLE_HASH,
+      results: method === 'eth_callBundle' ? [{ txHash: '0x', revert: 'ArbitrageBot: Insufficient profit' }] : [],
+    }));
+    process.env.ETH_RELAY_URL = ethRelay.url;
+
+    await expect(createSubmitter('eth', signer, provider).submit(request)).rejects
+      .toThrow('failed: ArbitrageBot: Insufficient profit');
+    expect(ethRelay.requests.map(({ method }) => method)).toEqual(['eth_callBundle']);
+  });
+});
@@ -0,0 +1,164 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { inspect } from 'util';
+import { Provider, Transaction, Wallet, encryptKeystoreJsonSync } from 'ethers';
+import { KeystoreSigner, RemoteSigner, loadSigners } from '../../../src/services/blockchain/signer';
+import { logger } from '../../../src/utils/logger';
+import { JsonRpcStub, StubRequest, startJsonRpcStub } from '../../fixtures/jsonRpcStub';
+
+// Hardhat's first two development accounts
+const BOT_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const OTHER_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const PASSPHRASE = 'correct horse battery staple';
+const TO = '0x000000000000000000000000000000000000dEaD';
+
+/**
+ * Encrypt a key with a low scrypt cost, so specs do not spend seconds on key derivation
+ */
+function encryptKey(privateKey: string, passphrase: string): string {
+  const { address } = new Wallet(privateKey);
+  return encryptKeystoreJsonSync({ address, privateKey }, passphrase, { scrypt: { N: 1024 } });
+}
+
+describe('KeystoreSigner', () => {
+  const environment = process.env;
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'keystores-'));
+  });
+
+  afterEach(() => {
+    process.env = environment;
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('unlocks a keystore with its passphrase', async () => {
+    const signer = await KeystoreSigner.unlock(encryptKey(BOT_KEY, PASSPHRASE), PASSPHRASE);
+
+    expect(signer.address).toBe(new Wallet(BOT_KEY).address);
+  });
+
+  it('rejects a wrong passphrase', async () => {
+    await expect(KeystoreSigner.unlock(encryptKey(BOT_KEY, PASSPHRASE), 'wrong')).rejects
+      .toThrow('incorrect password');
+  });
+
+  it('leaves out an account whose keystore does not unlock', async () => {
+    const error = jest.spyOn(logger, 'error').mockImplementation(() => logger);
+    const unlocked = join(directory, 'bot.json');
+    const locked = join(directory, 'other.json');
+    writeFileSync(unlocked, encryptKey(BOT_KEY, PASSPHRASE));
+    writeFileSync(locked, encryptKey(OTHER_KEY, 'another passphrase'));
+    process.env = { ...environment, ETH_KEYSTORE: `${locked},${unlocked}`, ETH_KEYSTORE_PASSWORD: PASSPHRASE };
+
+    const signers = await loadSigners('eth', {} as Provider);
+
+    expect(signers.map(signer => signer.address)).toEqual([new Wallet(BOT_KEY).address]);
+    expect(error).toHaveBeenCalledTimes(1);
+    expect(error.mock.calls[0][0]).toBe('❌ Failed to load a bot account on eth:');
+  });
+});
+
+describe('RemoteSigner', () => {
+  const bot = new Wallet(BOT_KEY);
+  let signingKey: Wallet;
+  let remote: JsonRpcStub;
+
+  /**
+   * Answer like a remote signer holding the bot account, but sign with signingKey
+   */
+  function answerSigner(request: StubRequest): unknown {
+    switch (request.method) {
+    case 'eth_accounts':
+      return [bot.address.toLowerCase()];
+    case 'eth_sign':
+      return signingKey.signMessageSync(Buffer.from((request.params[1] as string).slice(2), 'hex'));
+    case 'eth_signTransaction': {
+      const { to, nonce, gas, maxFeePerGas, maxPriorityFeePerGas, chainId } = request.params[0];
+      const transaction = Transaction.from({
+        type: 2,
+        to,
+        nonce: Number(nonce),
+        gasLimit: gas,
+        maxFeePerGas,
+        maxPriorityFeePerGas,
+        chainId,
+      });
+      transaction.signature = signingKey.signingKey.sign(transaction.unsignedHash);
+      return transaction.serialized;
+    }
+    default:
+      throw new Error(`Unexpected method ${request.method}`);
+    }
+  }
+
+  beforeEach(async () => {
+    signingKey = bot;
+    remote = await startJsonRpcStub(answerSigner);
+  });
+
+  afterEach(() => remote.close());
+
+  it('uses the account the signer holds and checks its signatures', async () => {
+    const signer = await RemoteSigner.open(remote.url);
+
+    expect(signer.address).toBe(bot.address);
+    await expect(signer.signMessage('hello')).resolves.toBe(bot.signMessageSync('hello'));
+  });
+
+  it('refuses an address the signer does not hold', async () => {
+    const other = new Wallet(OTHER_KEY).address;
+
+    await expect(RemoteSigner.open(remote.url, other)).rejects
+      .toThrow(`Remote signer ${new URL(remote.url).host} does not hold ${other}`);
+  });
+
+  it('rejects a message signed with another account', async () => {
+    const signer = await RemoteSigner.open(remote.url, bot.address);
+    signingKey = new Wallet(OTHER_KEY);
+
+    await expect(signer.signMessage('hello')).rejects
+      .toThrow(`Remote signer ${signer.host} signed the message with another account`);
+  });
+
+  it('rejects a transaction signed with another account', async () => {
+    const signer = await RemoteSigner.open(remote.url, bot.address);
+    signingKey = new Wallet(OTHER_KEY);
+
+    await expect(signer.signTransaction({
+      to: TO,
+      nonce: 7,
+      gasLimit: 21000n,
+      maxFeePerGas: 30n * 10n ** 9n,
+      maxPriorityFeePerGas: 10n ** 9n,
+      chainId: 1n,
+    })).rejects.toThrow(`Remote signer ${signer.host} signed the transaction with another account`);
+  });
+});
+
+describe('BotSigner key material', () => {
+  it('shows only the type and address of a keystore signer', () => {
+    const signer = new KeystoreSigner(new Wallet(BOT_KEY));
+    const expected = { type: 'keystore', address: signer.address };
+
+    expect(JSON.parse(JSON.stringify({ signer }))).toEqual({ signer: expected });
+    expect(inspect(signer)).toBe(`KeystoreSigner { address: '${signer.address}' }`);
+    for (const printed of [JSON.stringify(signer), inspect(signer, { showHidden: true, depth: null })]) {
+      expect(printed).not.toContain(BOT_KEY.slice(2));
+    }
+  });
+
+  it('leaves the URL of a remote signer, which can hold an API key, out', async () => {
+    const remote = await startJsonRpcStub(() => [new Wallet(BOT_KEY).address]);
+    try {
+      const signer = await RemoteSigner.open(`${remote.url}?apiKey=secret`);
+
+      expect(JSON.parse(JSON.stringify(signer))).toEqual({ type: 'remote', address: signer.address });
+      expect(inspect(signer, { showHidden: true, depth: null })).not.toContain('secret');
+    } finally {
+      await remote.close();
+    }
+  });
+});
@@ -0,0 +1,135 @@
+import { ZeroAddress } from 'ethers';
+import { DEX } from '../../../src/entities/DEX';
+import { getMulticall } from '../../../src/services/blockchain/multicall';
+import {
+  MISSING_PAIR_TTL_MS,
+  UniswapV2Quoter,
+  getAmountIn,
+  getAmountOut,
+  toFeePips,
+  uniswapV2Adapter,
+} from '../../../src/services/dex/uniswapV2';
+import { V2_ROUTER_CALLS } from '../../fixtures/routerCalldata';
+
+jest.mock('../../../src/services/blockchain/multicall', () => ({ getMulticall: jest.fn() }));
+
+const ETHER = 10n ** 18n;
+const USDC = 10n ** 6n;
+
+describe('uniswapV2 math', () => {
+  describe('toFeePips', () => {
+    it('converts fractional fees to parts per million', () => {
+      expect(toFeePips(0.003)).toBe(3000n);
+      expect(toFeePips('0.0025')).toBe(2500n);
+      expect(toFeePips(0.0001)).toBe(100n);
+      expect(toFeePips(0)).toBe(0n);
+    });
+  });
+
+  describe('getAmountOut', () => {
+    it('matches UniswapV2Library.getAmountOut for a 0.3% fee', () => {
+      expect(getAmountOut(1000n, 10000n, 10000n, 3000n)).toBe(906n);
+      // 1 WETH into a 100 WETH / 200,000 USDC pair
+      expect(getAmountOut(ETHER, 100n * ETHER, 200000n * USDC, 3000n)).toBe(1974316068n);
+    });
+
+    it('applies fees in pips', () => {
+      expect(getAmountOut(1000n, 10000n, 10000n, 2500n)).toBe(907n);
+      expect(getAmountOut(1000n, 10000n, 10000n, 0n)).toBe(909n);
+      expect(getAmountOut(ETHER, 100n * ETHER, 200000n * USDC, 100n)).toBe(1980001960n);
+    });
+
+    it('returns 0 without input or liquidity', () => {
+      expect(getAmountOut(0n, 10000n, 10000n, 3000n)).toBe(0n);
+      expect(getAmountOut(1000n, 0n, 10000n, 3000n)).toBe(0n);
+      expect(getAmountOut(1000n, 10000n, 0n, 3000n)).toBe(0n);
+    });
+  });
+
+  describe('getAmountIn', () => {
+    it('matches UniswapV2Library.getAmountIn for a 0.3% fee', () => {
+      expect(getAmountIn(906n, 10000n, 10000n, 3000n)).toBe(1000n);
+      // 1,000 USDC out of a 100 WETH / 200,000 USDC pair
+      expect(getAmountIn(1000n * USDC, 100n * ETHER, 200000n * USDC, 3000n)).toBe(504024636724243082n);
+    });
+
+    it('applies fees in pips', () => {
+      expect(getAmountIn(907n, 10000n, 10000n, 2500n)).toBe(1000n);
+    });
+
+    it('is the least input whose output reaches the amount', () => {
+      for (const feePips of [0n, 100n, 2500n, 3000n, 10000n]) {
+        const amountIn = getAmountIn(1000n * USDC, 100n * ETHER, 200000n * USDC, feePips) as bigint;
+        expect(getAmountOut(amountIn, 100n * ETHER, 200000n * USDC, feePips)).toBeGreaterThanOrEqual(1000n * USDC);
+        expect(getAmountOut(amountIn - 1n, 100n * ETHER, 200000n * USDC, feePips)).toBeLessThan(1000n * USDC);
+      }
+    });
+
+    it('returns null if the output cannot be reached', () => {
+      expect(getAmountIn(10000n, 10000n, 10000n, 3000n)).toBeNull();
+      expect(getAmountIn(0n, 10000n, 10000n, 3000n)).toBeNull();
+      expect(getAmountIn(1000n, 0n, 10000n, 3000n)).toBeNull();
+    });
+  });
+});
+
+describe('UniswapV2Quoter.getPair', () => {
+  const dex = { name: 'Uniswap V2', factoryAddress: '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f' } as DEX;
+  const tokenA = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+  const tokenB = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+  const pair = '0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc';
+  let call: jest.Mock;
+
+  beforeEach(() => {
+    call = jest.fn();
+    (getMulticall as jest.Mock).mockReturnValue({ call });
+  });
+
+  it('caches a pair that exists', async () => {
+    const quoter = new UniswapV2Quoter({} as never);
+    call.mockResolvedValue(pair);
+
+    await expect(quoter.getPair(dex, tokenA, tokenB)).resolves.toBe(pair);
+    await expect(quoter.getPair(dex, tokenB, tokenA)).resolves.toBe(pair);
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('looks up a missing pair again once its miss expires', async () => {
+    const quoter = new UniswapV2Quoter({} as never);
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    call.mockResolvedValueOnce(ZeroAddress).mockResolvedValueOnce(pair);
+
+    await expect(quoter.getPair(dex, tokenA, tokenB)).resolves.toBeNull();
+    await expect(quoter.getPair(dex, tokenA, tokenB)).resolves.toBeNull();
+    expect(call).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(1_000_000 + MISSING_PAIR_TTL_MS);
+    await expect(quoter.getPair(dex, tokenA, tokenB)).resolves.toBe(pair);
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache a failed lookup', async () => {
+    const quoter = new UniswapV2Quoter({} as never);
+    call.mockRejectedValueOnce(new Error('timeout')).mockResolvedValueOnce(pair);
+
+    await expect(quoter.getPair(dex, tokenA, tokenB)).resolves.toBeNull();
+    await expect(quoter.getPair(dex, tokenA, tokenB)).resolves.toBe(pair);
+  });
+});
+
+describe('uniswapV2Adapter.decodeSwapCalldata', () => {
+  const decode = (data: string, value: bigint) => uniswapV2Adapter.decodeSwapCalldata?.(data, value);
+
+  it.each(Object.entries(V2_ROUTER_CALLS))('%s calldata', (_name, call) => {
+    expect(call.data.slice(0, 10)).toBe(call.selector);
+    expect(decode(call.data, call.value)).toEqual(call.expected);
+  });
+
+  it('returns null for calldata that is not a router call or does not decode', () => {
+    const { data } = V2_ROUTER_CALLS.swapExactTokensForTokens;
+
+    expect(decode('0x', 0n)).toBeNull();
+    expect(decode('0x12345678', 0n)).toBeNull();
+    expect(decode(data.slice(0, 138), 0n)).toBeNull();
+  });
+});
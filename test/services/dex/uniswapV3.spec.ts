@@ -0,0 +1,103 @@
+import { Interface, ZeroAddress } from 'ethers';
+import { DEX } from '../../../src/entities/DEX';
+import { getMulticall } from '../../../src/services/blockchain/multicall';
+import { UniswapV3Quoter, uniswapV3Adapter } from '../../../src/services/dex/uniswapV3';
+import { simulateExactInput, V3PoolState } from '../../../src/services/dex/v3Math';
+import { ETHER, createPoolState, getBitmapWord } from '../../fixtures/uniswapV3';
+import { V3_ROUTER_CALLS } from '../../fixtures/routerCalldata';
+
+jest.mock('../../../src/services/blockchain/multicall', () => ({ getMulticall: jest.fn() }));
+
+describe('UniswapV3Quoter', () => {
+  const dex = {
+    name: 'Uniswap V3',
+    factoryAddress: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+    getConfig: (_key: string, defaultValue: unknown) => defaultValue,
+  } as unknown as DEX;
+  // A shallow 0.05% pool and a pool ten times deeper at 0.3%
+  const shallow = createPoolState(500, 10);
+  const deep = createPoolState(3000, 60, 10n * ETHER);
+
+  beforeEach(() => {
+    const pools = new Map<string, V3PoolState>([shallow, deep].map(pool => [pool.address, pool]));
+
+    (getMulticall as jest.Mock).mockReturnValue({
+      call: jest.fn((target: string, _iface: Interface, method: string, args: unknown[]) => {
+        if (method === 'getPool') {
+          const pool = [shallow, deep].find(candidate => candidate.fee === args[2]);
+          return Promise.resolve(pool?.address ?? ZeroAddress);
+        }
+
+        const pool = pools.get(target) as V3PoolState;
+        switch (method) {
+        case 'slot0':
+          return Promise.resolve([pool.sqrtPriceX96, BigInt(pool.tick)]);
+        case 'liquidity':
+          return Promise.resolve(pool.liquidity);
+        case 'tickBitmap':
+          return Promise.resolve(getBitmapWord(pool, args[0] as number));
+        case 'ticks': {
+          const tick = pool.ticks.find(candidate => candidate.index === args[0]);
+          return Promise.resolve([0n, tick?.liquidityNet ?? 0n]);
+        }
+        default:
+          return Promise.reject(new Error(`Unexpected call ${method}`));
+        }
+      }),
+    });
+  });
+
+  it('quotes every fee tier with a pool from its loaded state', async () => {
+    const quoter = new UniswapV3Quoter({} as never);
+    const amountIn = ETHER / 1000n;
+
+    const quotes = await quoter.quoteAllTiers(dex, shallow.token0, shallow.token1, amountIn);
+
+    expect(quotes).toEqual([
+      { amountOut: simulateExactInput(shallow, true, amountIn), pool: shallow.address, feeTier: 500 },
+      { amountOut: simulateExactInput(deep, true, amountIn), pool: deep.address, feeTier: 3000 },
+    ]);
+  });
+
+  it('picks the cheaper tier for a small trade', async () => {
+    const quoter = new UniswapV3Quoter({} as never);
+
+    const quote = await quoter.quote(dex, shallow.token0, shallow.token1, ETHER / 1000n);
+
+    expect(quote?.feeTier).toBe(500);
+  });
+
+  it('picks the deeper tier once a trade crosses ticks of the shallow pool', async () => {
+    const quoter = new UniswapV3Quoter({} as never);
+
+    const quote = await quoter.quote(dex, shallow.token1, shallow.token0, 8n * ETHER / 1000n);
+
+    expect(quote?.feeTier).toBe(3000);
+    expect(quote?.amountOut).toBe(simulateExactInput(deep, false, 8n * ETHER / 1000n));
+  });
+
+  it('skips a tier whose swap runs out of liquidity', async () => {
+    const quoter = new UniswapV3Quoter({} as never);
+
+    const quotes = await quoter.quoteAllTiers(dex, shallow.token0, shallow.token1, 20n * ETHER / 1000n);
+
+    expect(quotes.map(quote => quote.feeTier)).toEqual([3000]);
+  });
+});
+
+describe('uniswapV3Adapter.decodeSwapCalldata', () => {
+  const decode = (data: string, value: bigint) => uniswapV3Adapter.decodeSwapCalldata?.(data, value);
+
+  it.each(Object.entries(V3_ROUTER_CALLS))('%s calldata', (_name, call) => {
+    expect(call.data.slice(0, 10)).toBe(call.selector);
+    expect(decode(call.data, call.value)).toEqual(call.expected);
+  });
+
+  it('returns null for calldata that is not a router call or does not decode', () => {
+    const { data } = V3_ROUTER_CALLS.exactInputSingle;
+
+    expect(decode('0x', 0n)).toBeNull();
+    expect(decode('0x12345678', 0n)).toBeNull();
+    expect(decode(data.slice(0, 138), 0n)).toBeNull();
+  });
+});
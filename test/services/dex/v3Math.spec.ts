@@ -0,0 +1,124 @@
+import {
+  MAX_SQRT_RATIO,
+  MAX_TICK,
+  MIN_SQRT_RATIO,
+  MIN_TICK,
+  computeSwapStep,
+  getSqrtRatioAtTick,
+  getTickAtSqrtRatio,
+  swapExactInput,
+} from '../../../src/services/dex/v3Math';
+import { ETHER, SQRT_PRICE_ONE, createPoolState } from '../../fixtures/uniswapV3';
+
+// encodePriceSqrt(101, 100) and encodePriceSqrt(1000, 100) of the v3-core tests
+const SQRT_PRICE_101_100 = 79623317895830914510487008059n;
+const SQRT_PRICE_1000_100 = 250541448375047931186501464011n;
+
+describe('v3Math', () => {
+  describe('getSqrtRatioAtTick', () => {
+    it('matches TickMath', () => {
+      expect(getSqrtRatioAtTick(MIN_TICK)).toBe(MIN_SQRT_RATIO);
+      expect(getSqrtRatioAtTick(MAX_TICK)).toBe(MAX_SQRT_RATIO);
+      expect(getSqrtRatioAtTick(0)).toBe(SQRT_PRICE_ONE);
+      expect(getSqrtRatioAtTick(1)).toBe(79232123823359799118286999568n);
+      expect(getSqrtRatioAtTick(-1)).toBe(79224201403219477170569942574n);
+    });
+
+    it('rejects ticks out of range', () => {
+      expect(() => getSqrtRatioAtTick(MAX_TICK + 1)).toThrow();
+      expect(() => getSqrtRatioAtTick(MIN_TICK - 1)).toThrow();
+    });
+
+    it('is inverted by getTickAtSqrtRatio', () => {
+      for (const tick of [MIN_TICK, -50000, -60, -1, 0, 1, 60, 50000, MAX_TICK - 1]) {
+        expect(getTickAtSqrtRatio(getSqrtRatioAtTick(tick))).toBe(tick);
+      }
+    });
+  });
+
+  describe('computeSwapStep', () => {
+    it('caps an exact input at the target price (SwapMath spec)', () => {
+      expect(computeSwapStep(SQRT_PRICE_ONE, SQRT_PRICE_101_100, 2n * ETHER, ETHER, 600n)).toEqual({
+        sqrtRatioNextX96: SQRT_PRICE_101_100,
+        amountIn: 9975124224178055n,
+        amountOut: 9925619580021728n,
+        feeAmount: 5988667735148n,
+      });
+    });
+
+    it('spends an exact input fully before the target price (SwapMath spec)', () => {
+      const step = computeSwapStep(SQRT_PRICE_ONE, SQRT_PRICE_1000_100, 2n * ETHER, ETHER, 600n);
+
+      expect(step.amountIn).toBe(999400000000000000n);
+      expect(step.feeAmount).toBe(600000000000000n);
+      expect(step.amountOut).toBe(666399946655997866n);
+      expect(step.sqrtRatioNextX96 < SQRT_PRICE_1000_100).toBe(true);
+    });
+
+    it('takes an input too small to move the price as fee (SwapMath spec)', () => {
+      expect(computeSwapStep(2413n, 79887613182836312n, 1985041575832132834610021537970n, 10n, 1872n)).toEqual({
+        sqrtRatioNextX96: 2413n,
+        amountIn: 0n,
+        amountOut: 0n,
+        feeAmount: 10n,
+      });
+    });
+  });
+
+  describe('swapExactInput', () => {
+    const pool = createPoolState(3000, 60);
+
+    it('swaps within the current range in one step', () => {
+      const amountIn = ETHER / 1000n;
+      const step = computeSwapStep(SQRT_PRICE_ONE, getSqrtRatioAtTick(-60), pool.liquidity, amountIn, 3000n);
+      const swap = swapExactInput(pool, true, amountIn);
+
+      expect(swap).toEqual({
+        amountOut: step.amountOut,
+        sqrtPriceX96: step.sqrtRatioNextX96,
+        tick: getTickAtSqrtRatio(step.sqrtRatioNextX96),
+        liquidity: pool.liquidity,
+      });
+      expect(swap?.tick).toBeGreaterThan(-60);
+    });
+
+    it('crosses a tick and continues with the liquidity past it', () => {
+      const amountIn = 8n * ETHER / 1000n;
+      const first = computeSwapStep(SQRT_PRICE_ONE, getSqrtRatioAtTick(-60), 2n * ETHER, amountIn, 3000n);
+      expect(first.sqrtRatioNextX96).toBe(getSqrtRatioAtTick(-60));
+
+      const remaining = amountIn - first.amountIn - first.feeAmount;
+      const second = computeSwapStep(getSqrtRatioAtTick(-60), getSqrtRatioAtTick(-120), ETHER, remaining, 3000n);
+      const swap = swapExactInput(pool, true, amountIn);
+
+      expect(swap?.amountOut).toBe(first.amountOut + second.amountOut);
+      expect(swap?.sqrtPriceX96).toBe(second.sqrtRatioNextX96);
+      expect(swap?.liquidity).toBe(ETHER);
+      expect(swap?.tick).toBeLessThan(-60);
+      expect(swap?.tick).toBeGreaterThan(-120);
+    });
+
+    it('crosses ticks in the one for zero direction', () => {
+      const swap = swapExactInput(pool, false, 8n * ETHER / 1000n);
+
+      expect(swap?.liquidity).toBe(ETHER);
+      expect(swap?.tick).toBeGreaterThanOrEqual(60);
+      expect(swap?.tick).toBeLessThan(120);
+    });
+
+    it('returns null when the swap runs out of liquidity before the loaded ticks end', () => {
+      expect(swapExactInput(pool, true, ETHER)).toBeNull();
+      expect(swapExactInput(pool, false, ETHER)).toBeNull();
+    });
+
+    it('returns null without input', () => {
+      expect(swapExactInput(pool, true, 0n)).toBeNull();
+    });
+
+    it('leaves the snapshot unchanged', () => {
+      swapExactInput(pool, true, 8n * ETHER / 1000n);
+
+      expect(pool).toEqual(createPoolState(3000, 60));
+    });
+  });
+});
@@ -28,7 +28,7 @@ jest.mock('../src/services/notification/service', () => ({
     sendEmailNotification: jest.fn(),
     sendSMSNotification: jest.fn(),
   })),
-}));
+}), { virtual: true });
 
 // Increase timeout for integration tests
 jest.setTimeout(30000);
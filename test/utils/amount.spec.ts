@@ -0,0 +1,155 @@
+import { Amount } from '../../src/utils/amount';
+
+// A whale balance beyond Number.MAX_SAFE_INTEGER wei and the largest uint256
+const HUGE_RAW = 123456789012345678901234567890123456789n;
+const MAX_UINT256 = 2n ** 256n - 1n;
+
+describe('Amount', () => {
+  describe('parse', () => {
+    it('parses amounts of an 18 decimal token', () => {
+      expect(Amount.parse('1.5', 18).raw).toBe(1500000000000000000n);
+      expect(Amount.parse('0.000000000000000001', 18).raw).toBe(1n);
+      expect(Amount.parse('42', 18).raw).toBe(42n * 10n ** 18n);
+      expect(Amount.parse('.5', 18).raw).toBe(5n * 10n ** 17n);
+    });
+
+    it('parses amounts of a 6 decimal token', () => {
+      expect(Amount.parse('1.5', 6).raw).toBe(1500000n);
+      expect(Amount.parse('0.000001', 6).raw).toBe(1n);
+      expect(Amount.parse('1000000', 6).raw).toBe(1000000000000n);
+    });
+
+    it('truncates digits beyond the token decimals', () => {
+      expect(Amount.parse('1.1234567', 6).raw).toBe(1123456n);
+      expect(Amount.parse('0.0000009', 6).raw).toBe(0n);
+      expect(Amount.parse('-1.1234567', 6).raw).toBe(-1123456n);
+    });
+
+    it('parses exponent notation', () => {
+      expect(Amount.parse('1e-6', 6).raw).toBe(1n);
+      expect(Amount.parse('1.5e3', 6).raw).toBe(1500000000n);
+      expect(Amount.parse('2E+2', 18).raw).toBe(200n * 10n ** 18n);
+      expect(Amount.parse('1e-19', 18).raw).toBe(0n);
+      expect(Amount.parse(1e-7, 18).raw).toBe(100000000000n);
+      expect(Amount.parse(1e21, 6).raw).toBe(10n ** 27n);
+    });
+
+    it('parses numbers and whole bigints', () => {
+      expect(Amount.parse(0.1, 18).raw).toBe(10n ** 17n);
+      expect(Amount.parse(3n, 6).raw).toBe(3000000n);
+    });
+
+    it('parses huge balances without losing precision', () => {
+      expect(Amount.parse('123456789012345678901.234567890123456789', 18).raw).toBe(HUGE_RAW);
+    });
+
+    it('rejects values that are not amounts', () => {
+      for (const value of ['', '.', 'abc', '1.2.3', '0x10', '1e', '--1']) {
+        expect(() => Amount.parse(value, 18)).toThrow(`Invalid amount: ${value}`);
+      }
+      expect(() => Amount.parse(NaN, 18)).toThrow('Invalid amount');
+      expect(() => Amount.parse(Infinity, 18)).toThrow('Invalid amount');
+    });
+
+    it('rejects invalid decimals', () => {
+      expect(() => Amount.parse('1', -1)).toThrow('Invalid decimals: -1');
+      expect(() => Amount.parse('1', 1.5)).toThrow('Invalid decimals: 1.5');
+    });
+  });
+
+  describe('fromRaw', () => {
+    it('keeps a bigint as the raw value', () => {
+      expect(Amount.fromRaw(1500000n, 6).toDecimal()).toBe('1.5');
+      expect(Amount.fromRaw(MAX_UINT256, 18).raw).toBe(MAX_UINT256);
+    });
+
+    it('reads raw values from the decimal(36, 18) columns', () => {
+      expect(Amount.fromRaw('1500000.000000000000000000', 6).raw).toBe(1500000n);
+      // The largest raw value the column holds
+      expect(Amount.fromRaw('999999999999999999.000000000000000000', 18).raw).toBe(999999999999999999n);
+      expect(Amount.fromRaw('0.000000000000000000', 18).raw).toBe(0n);
+      expect(Amount.fromRaw('-250.000000000000000000', 6).raw).toBe(-250n);
+    });
+
+    it('reads raw values given as numbers or plain strings', () => {
+      expect(Amount.fromRaw(1500000, 6).toDecimal()).toBe('1.5');
+      expect(Amount.fromRaw('1000000000000000000', 18).toDecimal()).toBe('1');
+      expect(Amount.fromRaw(1e21, 18).toDecimal()).toBe('1000');
+    });
+  });
+
+  describe('toDecimal', () => {
+    it('writes exact decimals without trailing zeros', () => {
+      expect(Amount.fromRaw(1500000n, 6).toDecimal()).toBe('1.5');
+      expect(Amount.fromRaw(1n, 18).toDecimal()).toBe('0.000000000000000001');
+      expect(Amount.fromRaw(10n ** 18n, 18).toDecimal()).toBe('1');
+      expect(Amount.fromRaw(-1n, 6).toDecimal()).toBe('-0.000001');
+      expect(Amount.zero(6).toDecimal()).toBe('0');
+    });
+
+    it('writes huge balances exactly', () => {
+      expect(Amount.fromRaw(HUGE_RAW, 18).toDecimal()).toBe('123456789012345678901.234567890123456789');
+    });
+
+    it('round-trips through parse and the decimal columns', () => {
+      for (const [value, decimals] of [['0.000001', 6], ['1234567.891011', 6], ['98765.4321', 18]] as const) {
+        const amount = Amount.parse(value, decimals);
+        expect(amount.toDecimal()).toBe(value);
+        expect(Amount.parse(amount.toDecimal(), decimals).raw).toBe(amount.raw);
+      }
+    });
+  });
+
+  describe('format', () => {
+    it('rounds half away from zero to the fraction digits', () => {
+      expect(Amount.parse('1.2345675', 18).format()).toBe('1.234568');
+      expect(Amount.parse('1.2345674', 18).format()).toBe('1.234567');
+      expect(Amount.parse('-1.2345675', 18).format()).toBe('-1.234568');
+      expect(Amount.parse('0.999', 18).format(2)).toBe('1.00');
+    });
+
+    it('pads to the fraction digits, capped at the token decimals', () => {
+      expect(Amount.parse('1.5', 6).format()).toBe('1.500000');
+      expect(Amount.parse('1.5', 6).format(8)).toBe('1.500000');
+      expect(Amount.parse('12.5', 18).format(0)).toBe('13');
+      expect(Amount.zero(18).format(2)).toBe('0.00');
+    });
+
+    it('formats huge balances exactly', () => {
+      expect(Amount.fromRaw(HUGE_RAW, 18).format(4)).toBe('123456789012345678901.2346');
+    });
+  });
+
+  describe('mulDiv', () => {
+    it('multiplies by a fraction, rounding down', () => {
+      expect(Amount.fromRaw(1000000n, 6).mulDiv(997n, 1000n).raw).toBe(997000n);
+      expect(Amount.fromRaw(10n, 6).mulDiv(1n, 3n).raw).toBe(3n);
+      expect(Amount.fromRaw(10n ** 18n, 18).mulDiv(9950n, 10000n).toDecimal()).toBe('0.995');
+    });
+
+    it('keeps precision for huge balances', () => {
+      expect(Amount.fromRaw(MAX_UINT256, 18).mulDiv(MAX_UINT256, MAX_UINT256).raw).toBe(MAX_UINT256);
+      expect(Amount.fromRaw(HUGE_RAW, 18).mulDiv(2n, 1n).raw).toBe(2n * HUGE_RAW);
+    });
+
+    it('keeps the decimals', () => {
+      expect(Amount.fromRaw(5n, 6).mulDiv(2n, 1n).decimals).toBe(6);
+    });
+
+    it('rejects a zero denominator', () => {
+      expect(() => Amount.fromRaw(1n, 18).mulDiv(1n, 0n)).toThrow('Division by zero');
+    });
+  });
+
+  describe('arithmetic across decimals', () => {
+    it('aligns the other amount to this amount\'s decimals', () => {
+      const usdc = Amount.parse('1.5', 6);
+      const dai = Amount.parse('1.5', 18);
+
+      expect(usdc.eq(dai)).toBe(true);
+      expect(usdc.add(dai).toDecimal()).toBe('3');
+      expect(dai.sub(Amount.parse('0.5', 6)).toDecimal()).toBe('1');
+      expect(usdc.percentOf(Amount.parse('6', 18))).toBe(25);
+    });
+  });
+});